@@ -12,11 +12,14 @@ import OrganizadorEditor from './components/OrganizadorEditor';
 import LoginPage from './components/LoginPage';
 import GoogleEventsPage from './components/GoogleEventsPage';
 import ScrapedEventsPage from './components/ScrapedEventsPage';
-import { Page, GoogleEvent, InitialAgendaData, InitialHistoriaData, InitialOrganizadorData, InitialPostData } from './types';
+import EditorialCalendarPage from './components/EditorialCalendarPage';
+import { Page, GoogleEvent, InitialAgendaData, InitialHistoriaData, InitialOrganizadorData, InitialPostData, InitialArtistaData, InitialLugarData, PostUpdateRequest } from './types';
 import { BarChartIcon, MagicWandIcon } from './components/icons/Icons';
 import { ToastProvider } from './hooks/useToast';
 import { AppProvider, useAppContext } from './hooks/useAppContext';
 import AIProvidersStatus from './components/AIProvidersStatus';
+import DemoModeBanner from './components/DemoModeBanner';
+import { offlineQueue } from './services/offlineQueue';
 
 const AppContent: React.FC = () => {
   const { session, userProfile, aiPreferences, wordPressCredentials } = useAppContext();
@@ -31,6 +34,8 @@ const AppContent: React.FC = () => {
       if (navigationData.type === 'noticia') setActivePage(Page.Noticias);
       if (navigationData.type === 'historia') setActivePage(Page.Historias);
       if (navigationData.type === 'organizador') setActivePage(Page.Organizadores);
+      if (navigationData.type === 'artista') setActivePage(Page.Artistas);
+      if (navigationData.type === 'lugar') setActivePage(Page.Lugares);
       if (navigationData.type === 'agenda') setActivePage(Page.Agenda);
     }
   }, [navigationData]);
@@ -40,19 +45,37 @@ const AppContent: React.FC = () => {
     if (activePage !== Page.Noticias && navigationData?.type === 'noticia') setNavigationData(null);
     if (activePage !== Page.Historias && navigationData?.type === 'historia') setNavigationData(null);
     if (activePage !== Page.Organizadores && navigationData?.type === 'organizador') setNavigationData(null);
+    if (activePage !== Page.Artistas && navigationData?.type === 'artista') setNavigationData(null);
+    if (activePage !== Page.Lugares && navigationData?.type === 'lugar') setNavigationData(null);
     if (activePage !== Page.Agenda && navigationData?.type === 'agenda') setNavigationData(null);
   }, [activePage, navigationData]);
 
+  // Envia ao WordPress o que foi salvo nos editores sem conexão
+  useEffect(() => {
+    if (!session) return;
+    return offlineQueue.startAutoSync(wordPressCredentials);
+  }, [session, wordPressCredentials]);
+
 
   const handleCreatePostFromDraft = (draftData: InitialPostData) => {
     setNavigationData({ type: 'noticia', data: draftData });
   };
+  // Pauta repetida: abre a matéria existente no editor, com a atualização assistida já preenchida
+  const handleOpenPostForUpdate = (request: PostUpdateRequest) => {
+    setNavigationData({ type: 'noticia', update: request });
+  };
   const handleCreateHistoriaFromDraft = (draftData: InitialHistoriaData) => {
     setNavigationData({ type: 'historia', data: draftData });
   };
   const handleCreateOrganizadorFromDraft = (draftData: InitialOrganizadorData) => {
     setNavigationData({ type: 'organizador', data: draftData });
   };
+  const handleCreateArtistaFromDraft = (draftData: InitialArtistaData) => {
+    setNavigationData({ type: 'artista', data: draftData });
+  };
+  const handleCreateLugarFromDraft = (draftData: InitialLugarData) => {
+    setNavigationData({ type: 'lugar', data: draftData });
+  };
   const handleCreateAgendaFromGoogleEvent = (event: GoogleEvent) => {
     const [date, time] = event.start_date.split(' ');
     const initialContent = `
@@ -75,11 +98,14 @@ const AppContent: React.FC = () => {
     EditorComponent: React.FC<any>;
     expectedNavType: string;
   }> = ({ postType, postTypeName, EditorComponent, expectedNavType }) => {
-    const [view, setView] = useState<'list' | 'edit' | 'create'>(navigationData?.type === expectedNavType ? 'create' : 'list');
-    const [currentId, setCurrentId] = useState<number | null>(null);
-    
-    // Handle external data triggers for creation
-    const initialData = navigationData?.type === expectedNavType ? navigationData.data : null;
+    // Handle external data triggers for creation (or for updating an existing item)
+    const updateRequest: PostUpdateRequest | null = navigationData?.type === expectedNavType ? navigationData.update ?? null : null;
+    const initialData = navigationData?.type === expectedNavType ? navigationData.data ?? null : null;
+
+    const [view, setView] = useState<'list' | 'edit' | 'create'>(updateRequest ? 'edit' : navigationData?.type === expectedNavType ? 'create' : 'list');
+    const [currentId, setCurrentId] = useState<number | null>(updateRequest?.postId ?? null);
+    // Incrementado para remontar o editor e recarregar o item (ex.: revisão restaurada)
+    const [editorKey, setEditorKey] = useState(0);
 
     useEffect(() => {
       // If we land on this page with data, ensure we are in 'create' view
@@ -116,7 +142,7 @@ const AppContent: React.FC = () => {
                 historiaId: currentId,
                 organizadorId: currentId,
             };
-            return <EditorComponent {...editorProps} onSave={handleBackToList} onCancel={handleBackToList} wordPressCredentials={wordPressCredentials} />;
+            return <EditorComponent key={editorKey} {...editorProps} initialUpdateInformation={editorKey === 0 && updateRequest?.postId === currentId ? updateRequest.newInformation : undefined} onSave={handleBackToList} onCancel={handleBackToList} onReload={() => setEditorKey(key => key + 1)} wordPressCredentials={wordPressCredentials} />;
         case 'list':
         default:
             return <CptManagerPage postType={postType} postTypeName={postTypeName} onCreate={handleCreate} onEdit={handleEdit} wordPressCredentials={wordPressCredentials} />;
@@ -134,6 +160,9 @@ const AppContent: React.FC = () => {
           onSendToNoticiaEditor={handleCreatePostFromDraft}
           onSendToHistoriaEditor={handleCreateHistoriaFromDraft}
           onSendToOrganizadorEditor={handleCreateOrganizadorFromDraft}
+          onSendToArtistaEditor={handleCreateArtistaFromDraft}
+          onSendToLugarEditor={handleCreateLugarFromDraft}
+          onOpenPostForUpdate={handleOpenPostForUpdate}
         />;
       case Page.EventSearch:
         return <GoogleEventsPage onCreateAgenda={handleCreateAgendaFromGoogleEvent} />;
@@ -151,6 +180,8 @@ const AppContent: React.FC = () => {
         return <CptHost postType="organizador" postTypeName="Organizadores" EditorComponent={OrganizadorEditor} expectedNavType='organizador' />;
       case Page.Lugares:
         return <CptHost postType="lugar" postTypeName="Lugares" EditorComponent={LugarEditor} expectedNavType='lugar' />;
+      case Page.Calendario:
+        return <EditorialCalendarPage wordPressCredentials={wordPressCredentials} />;
       case Page.Settings:
         return userProfile ? <SettingsPage /> : null;
       default:
@@ -170,6 +201,7 @@ const AppContent: React.FC = () => {
         userProfile={userProfile}
       />
       <main className="flex-1 overflow-y-auto">
+        <DemoModeBanner />
         {renderContent()}
       </main>
     </div>
@@ -1,22 +1,277 @@
 import React, { useState, useEffect } from 'react';
-import { AIProviderConfig } from '../types';
-import { aiProviderManager } from '../services/aiProviderService';
+import { AIProviderConfig, AiMode, AiRoutingPolicies, AiRoutingPolicy, AiTask, LocalProviderConfig, RoutingStrategy } from '../types';
+import { aiProviderManager, discoverLocalModels } from '../services/aiProviderService';
+import { aiFixtureStore, getAiMode, setAiMode } from '../services/aiFixtures';
+import { STRATEGY_LABELS, TASK_LABELS } from '../services/aiRouting';
+import { useAppContext } from '../hooks/useAppContext';
 import { SparklesIcon, CheckCircleIcon, XCircleIcon, ArrowPathIcon } from './ui/icons/Icons';
 
 interface AIProvidersConfigProps {
   onConfigChange?: () => void;
 }
 
+type Message = { type: 'success' | 'error' | 'info'; text: string };
+
+const EMPTY_LOCAL_CONFIG: LocalProviderConfig = {
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+  model: '',
+  availableModels: [],
+  contextWindow: 8192
+};
+
+const AI_MODE_OPTIONS: { mode: AiMode; label: string; description: string }[] = [
+  { mode: 'live', label: 'Normal', description: 'Usa os provedores configurados.' },
+  { mode: 'record', label: 'Gravação', description: 'Usa os provedores e grava cada resposta como fixture.' },
+  { mode: 'demo', label: 'Demonstração (offline)', description: 'Responde só com fixtures gravadas ou de exemplo, sem rede e sem custo.' }
+];
+
+// Modo de operação da IA e gerenciamento das fixtures gravadas
+const AiModeSettings: React.FC<{ onChange: (message: Message) => void }> = ({ onChange }) => {
+  const [mode, setMode] = useState<AiMode>(getAiMode());
+  const [fixtureCount, setFixtureCount] = useState(aiFixtureStore.list().length);
+
+  const handleModeChange = (newMode: AiMode) => {
+    setAiMode(newMode);
+    setMode(newMode);
+    const option = AI_MODE_OPTIONS.find(o => o.mode === newMode);
+    onChange({ type: 'success', text: `Modo ${option?.label} ativado.` });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([aiFixtureStore.exportJson()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ai-fixtures-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const count = aiFixtureStore.importJson(await file.text());
+      setFixtureCount(aiFixtureStore.list().length);
+      onChange({ type: 'success', text: `${count} fixture(s) importada(s).` });
+    } catch (error: any) {
+      onChange({ type: 'error', text: error.message });
+    }
+  };
+
+  const handleClear = () => {
+    if (confirm('Remover todas as fixtures gravadas neste navegador?')) {
+      aiFixtureStore.clear();
+      setFixtureCount(0);
+      onChange({ type: 'success', text: 'Fixtures removidas.' });
+    }
+  };
+
+  return (
+    <div className="mt-8">
+      <h3 className="text-lg font-semibold text-gray-800">Modo de Operação</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Grave respostas reais e reproduza-as depois para demonstrar ou testar o assistente sem chaves de API e sem internet.
+      </p>
+
+      <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+        {AI_MODE_OPTIONS.map(option => (
+          <label key={option.mode} className="flex items-start">
+            <input
+              type="radio"
+              name="ai-mode"
+              checked={mode === option.mode}
+              onChange={() => handleModeChange(option.mode)}
+              className="mt-1 mr-2 h-4 w-4 text-brand-purple focus:ring-brand-purple border-gray-300"
+            />
+            <span className="text-sm text-gray-700">
+              <strong>{option.label}:</strong> {option.description}
+            </span>
+          </label>
+        ))}
+
+        <div className="flex items-center justify-between pt-3 border-t border-gray-100">
+          <span className="text-sm text-gray-600">{fixtureCount} fixture(s) gravada(s)</span>
+          <div className="flex space-x-2">
+            <label className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 cursor-pointer">
+              Importar
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => { handleImport(e.target.files?.[0]); e.target.value = ''; }}
+              />
+            </label>
+            <button
+              onClick={handleExport}
+              disabled={fixtureCount === 0}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Exportar
+            </button>
+            <button
+              onClick={handleClear}
+              disabled={fixtureCount === 0}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Limpar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Servidor local compatível com OpenAI: URL base, descoberta de modelos e janela de contexto
+const LocalProviderSettings: React.FC<{ onChange: (message: Message) => void }> = ({ onChange }) => {
+  const saved = aiProviderManager.getLocalProviderConfig();
+  const [config, setConfig] = useState<LocalProviderConfig>(saved || EMPTY_LOCAL_CONFIG);
+  const [isConfigured, setIsConfigured] = useState(saved !== null);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+
+  const update = (changes: Partial<LocalProviderConfig>) => setConfig(prev => ({ ...prev, ...changes }));
+
+  const handleDiscover = async () => {
+    setIsDiscovering(true);
+    try {
+      const models = await discoverLocalModels(config.baseUrl, config.apiKey);
+      update({ availableModels: models, model: models.includes(config.model) ? config.model : models[0] });
+      onChange({ type: 'info', text: `${models.length} modelo(s) encontrado(s) no servidor local.` });
+    } catch (error: any) {
+      onChange({ type: 'error', text: error.message });
+    } finally {
+      setIsDiscovering(false);
+    }
+  };
+
+  const handleSave = () => {
+    try {
+      aiProviderManager.configureLocalProvider(config);
+      setIsConfigured(true);
+      onChange({ type: 'success', text: `Modelo local ${config.model} configurado e habilitado!` });
+    } catch (error: any) {
+      onChange({ type: 'error', text: error.message });
+    }
+  };
+
+  const handleRemove = () => {
+    aiProviderManager.removeLocalProvider();
+    setConfig(EMPTY_LOCAL_CONFIG);
+    setIsConfigured(false);
+    onChange({ type: 'success', text: 'Modelo local removido.' });
+  };
+
+  const inputClass = 'w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-brand-purple focus:border-brand-purple';
+
+  return (
+    <div className="mt-8">
+      <h3 className="text-lg font-semibold text-gray-800">Modelo Local</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Use um servidor próprio compatível com a API da OpenAI (Ollama, llama.cpp server, LM Studio).
+        É gratuito, não consome o orçamento e entra na mesma cadeia de fallback dos demais provedores.
+      </p>
+
+      <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <label className="block text-sm text-gray-700">
+            URL base
+            <input
+              type="url"
+              value={config.baseUrl}
+              onChange={(e) => update({ baseUrl: e.target.value })}
+              placeholder="http://localhost:11434/v1"
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Chave de API (opcional)
+            <input
+              type="password"
+              value={config.apiKey}
+              onChange={(e) => update({ apiKey: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Modelo
+            {config.availableModels.length > 0 ? (
+              <select value={config.model} onChange={(e) => update({ model: e.target.value })} className={inputClass}>
+                {config.availableModels.map(model => (
+                  <option key={model} value={model}>{model}</option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="text"
+                value={config.model}
+                onChange={(e) => update({ model: e.target.value })}
+                placeholder="llama3.1:8b"
+                className={inputClass}
+              />
+            )}
+          </label>
+          <label className="block text-sm text-gray-700">
+            Janela de contexto (tokens)
+            <input
+              type="number"
+              min={1024}
+              step={1024}
+              value={config.contextWindow}
+              onChange={(e) => update({ contextWindow: Number(e.target.value) || EMPTY_LOCAL_CONFIG.contextWindow })}
+              className={inputClass}
+            />
+          </label>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          O navegador precisa de permissão de CORS no servidor. No Ollama, inicie com <code>OLLAMA_ORIGINS=*</code>;
+          no LM Studio, ative "Enable CORS".
+        </p>
+
+        <div className="flex justify-end space-x-2">
+          {isConfigured && (
+            <button
+              onClick={handleRemove}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Remover
+            </button>
+          )}
+          <button
+            onClick={handleDiscover}
+            disabled={isDiscovering || !config.baseUrl}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isDiscovering ? 'Buscando...' : 'Descobrir modelos'}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!config.baseUrl || !config.model}
+            className="px-4 py-2 text-sm font-medium text-white bg-brand-purple rounded-md hover:opacity-90 disabled:opacity-50"
+          >
+            Salvar Modelo Local
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const AIProvidersConfig: React.FC<AIProvidersConfigProps> = ({ onConfigChange }) => {
   const [providers, setProviders] = useState<AIProviderConfig[]>([]);
   const [preferredProvider, setPreferredProvider] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [message, setMessage] = useState<{ type: 'success' | 'error' | 'info'; text: string } | null>(null);
+  const [message, setMessage] = useState<Message | null>(null);
+  const { aiPreferences, handleAiPreferencesUpdate } = useAppContext();
+  const [routingPolicies, setRoutingPolicies] = useState<AiRoutingPolicies>(aiPreferences.routingPolicies);
 
   useEffect(() => {
     loadProviders();
   }, []);
 
+  useEffect(() => { setRoutingPolicies(aiPreferences.routingPolicies); }, [aiPreferences.routingPolicies]);
+
   const loadProviders = () => {
     const configs = aiProviderManager.getProvidersConfig();
     setProviders(configs);
@@ -79,6 +334,38 @@ const AIProvidersConfig: React.FC<AIProvidersConfigProps> = ({ onConfigChange })
     }
   };
 
+  const updateRoutingPolicy = (task: AiTask, changes: Partial<AiRoutingPolicy>) => {
+    setRoutingPolicies(prev => ({ ...prev, [task]: { ...prev[task], ...changes } }));
+  };
+
+  const handlePinnedChange = (task: AiTask, value: string) => {
+    // O valor do select é "provedor|modelo" ou vazio para roteamento automático
+    const [pinnedProvider, pinnedModel] = value ? value.split('|') : [null, null];
+    updateRoutingPolicy(task, { pinnedProvider, pinnedModel });
+  };
+
+  const handleLocalProviderChange = (localMessage: Message) => {
+    loadProviders();
+    setMessage(localMessage);
+    onConfigChange?.();
+  };
+
+  const handleRoutingSave = async () => {
+    setIsLoading(true);
+    try {
+      await handleAiPreferencesUpdate({ ...aiPreferences, routingPolicies });
+      onConfigChange?.();
+    } catch (error) {
+      setMessage({ type: 'error', text: `Erro ao salvar roteamento: ${error}` });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const providerModels = aiProviderManager.getProviderModels();
+  const routingTasks = Object.keys(TASK_LABELS) as AiTask[];
+  const hasRoutingChanges = JSON.stringify(routingPolicies) !== JSON.stringify(aiPreferences.routingPolicies);
+
   const getStatusIcon = (provider: AIProviderConfig) => {
     if (!provider.isAvailable) {
       return <XCircleIcon className="h-5 w-5 text-red-500" />;
@@ -206,13 +493,80 @@ const AIProvidersConfig: React.FC<AIProvidersConfigProps> = ({ onConfigChange })
         ))}
       </div>
 
+      <LocalProviderSettings onChange={handleLocalProviderChange} />
+
+      <AiModeSettings onChange={setMessage} />
+
+      <div className="mt-8">
+        <h3 className="text-lg font-semibold text-gray-800">Roteamento por Tarefa</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Escolha como cada tarefa seleciona provedor e modelo: por qualidade, custo, latência ou pela prioridade fixa.
+          Modelos cujo contexto não comporta o prompt são ignorados automaticamente.
+        </p>
+
+        <div className="space-y-3">
+          {routingTasks.map(task => {
+            const policy = routingPolicies[task];
+            const route = aiProviderManager.previewRoute(task, routingPolicies);
+            return (
+              <div key={task} className="border border-gray-200 rounded-lg p-4">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-center">
+                  <div className="font-medium text-gray-900">{TASK_LABELS[task]}</div>
+                  <select
+                    value={policy.strategy}
+                    disabled={isLoading}
+                    onChange={(e) => updateRoutingPolicy(task, { strategy: e.target.value as RoutingStrategy })}
+                    className="p-2 border border-gray-300 rounded-md text-sm focus:ring-brand-purple focus:border-brand-purple"
+                  >
+                    {(Object.keys(STRATEGY_LABELS) as RoutingStrategy[]).map(strategy => (
+                      <option key={strategy} value={strategy}>{STRATEGY_LABELS[strategy]}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={policy.pinnedProvider ? `${policy.pinnedProvider}|${policy.pinnedModel ?? ''}` : ''}
+                    disabled={isLoading}
+                    onChange={(e) => handlePinnedChange(task, e.target.value)}
+                    className="p-2 border border-gray-300 rounded-md text-sm focus:ring-brand-purple focus:border-brand-purple"
+                  >
+                    <option value="">Sem modelo fixo</option>
+                    {providerModels.map(({ provider, models }) => (
+                      <optgroup key={provider} label={provider}>
+                        {models.map(model => (
+                          <option key={model.id} value={`${provider}|${model.id}`}>{model.id}</option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  <strong>Ordem atual:</strong> {route.length > 0 ? route.join(' → ') : 'nenhum provedor disponível'}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="mt-4 flex justify-end">
+          <button
+            onClick={handleRoutingSave}
+            disabled={isLoading || !hasRoutingChanges}
+            className="px-4 py-2 text-sm font-medium text-white bg-brand-purple rounded-md hover:opacity-90 disabled:opacity-50"
+          >
+            Salvar Roteamento
+          </button>
+        </div>
+      </div>
+
       <div className="mt-6 p-4 bg-gray-50 rounded-lg">
         <h4 className="font-semibold text-gray-900 mb-2">Como funciona:</h4>
         <ul className="text-sm text-gray-600 space-y-1">
-          <li>• <strong>Provedor Preferido:</strong> Será tentado primeiro quando disponível</li>
+          <li>• <strong>Provedor Preferido:</strong> Será tentado primeiro nas tarefas com prioridade fixa e sem modelo fixo</li>
+          <li>• <strong>Roteamento por Tarefa:</strong> Cada tarefa ordena os modelos pela sua estratégia; o modelo fixo, se houver, vai na frente</li>
           <li>• <strong>Fallback Automático:</strong> Se o preferido falhar, outros habilitados serão testados</li>
           <li>• <strong>Prioridade:</strong> Provedores são ordenados por prioridade quando não há preferência</li>
           <li>• <strong>Chaves de API:</strong> Configure as variáveis de ambiente necessárias no arquivo .env</li>
+          <li>• <strong>Modo Demonstração:</strong> Ignora os provedores e responde com fixtures, ideal para demos e desenvolvimento offline</li>
+          <li>• <strong>Modelo Local:</strong> Servidores próprios são gratuitos e continuam disponíveis quando o orçamento acaba</li>
         </ul>
       </div>
     </div>
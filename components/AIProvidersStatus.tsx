@@ -1,10 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { aiProviderManager } from '../services/aiProviderService';
+import { formatUsd } from '../services/aiPricing';
+import { AiBudgetStatus, ProviderHealth } from '../types';
 
 interface ProviderStatus {
   name: string;
   isAvailable: boolean;
   priority: number;
+  health: ProviderHealth;
 }
 
 interface AIProvidersStatusProps {
@@ -12,6 +15,48 @@ interface AIProvidersStatusProps {
   className?: string;
 }
 
+// Gasto do mês e saldo do orçamento de IA
+const BudgetSummary: React.FC<{ budget: AiBudgetStatus; compact?: boolean }> = ({ budget, compact = false }) => {
+  const usedPercent = budget.limitUsd ? Math.min((budget.spentUsd / budget.limitUsd) * 100, 100) : 0;
+  const barColor = budget.isExhausted ? 'bg-red-500' : usedPercent >= 80 ? 'bg-yellow-500' : 'bg-green-500';
+  const scopeLabel = budget.scope === 'team' ? 'da equipe' : 'pessoal';
+
+  return (
+    <div className={compact ? 'text-xs text-gray-600' : 'text-sm text-gray-700'}>
+      <div className="flex justify-between items-center">
+        <span>💰 Gasto no mês: <strong>{formatUsd(budget.spentUsd)}</strong></span>
+        {budget.limitUsd !== null ? (
+          <span>Restante: <strong>{formatUsd(budget.remainingUsd ?? 0)}</strong> de {formatUsd(budget.limitUsd)}</span>
+        ) : (
+          <span className="text-gray-400">Sem orçamento definido</span>
+        )}
+      </div>
+      {budget.limitUsd !== null && (
+        <>
+          <div className="mt-1 h-1.5 w-full bg-gray-200 rounded-full overflow-hidden">
+            <div className={`h-full ${barColor}`} style={{ width: `${usedPercent}%` }} />
+          </div>
+          <div className="mt-1 text-xs text-gray-500">
+            Orçamento {scopeLabel}
+            {budget.isExhausted && (
+              <span className="ml-1 text-red-600 font-medium">
+                — esgotado: {budget.onExceed === 'block' ? 'geração bloqueada' : 'usando apenas provedores gratuitos'}
+              </span>
+            )}
+          </div>
+        </>
+      )}
+      {!compact && Object.keys(budget.spentByProvider).length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+          {Object.keys(budget.spentByProvider).map(provider => (
+            <span key={provider}>{provider}: {formatUsd(budget.spentByProvider[provider])}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
 const AIProvidersStatus: React.FC<AIProvidersStatusProps> = ({ 
   showInDashboard = false, 
   className = '' 
@@ -19,13 +64,20 @@ const AIProvidersStatus: React.FC<AIProvidersStatusProps> = ({
   const [providers, setProviders] = useState<ProviderStatus[]>([]);
   const [isExpanded, setIsExpanded] = useState(false);
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
+  const [budget, setBudget] = useState<AiBudgetStatus | null>(null);
 
   const updateProvidersStatus = () => {
     const status = aiProviderManager.getProvidersStatus();
     setProviders(status);
+    setBudget(aiProviderManager.getBudgetStatus());
     setLastUpdate(new Date());
   };
 
+  const handleRefresh = async () => {
+    await aiProviderManager.refreshBudgetStatus();
+    updateProvidersStatus();
+  };
+
   useEffect(() => {
     updateProvidersStatus();
     
@@ -40,12 +92,21 @@ const AIProvidersStatus: React.FC<AIProvidersStatusProps> = ({
     updateProvidersStatus();
   };
 
-  const getStatusIcon = (isAvailable: boolean) => {
-    return isAvailable ? '🟢' : '🔴';
+  // Estado do circuit breaker: fechado = ativo, meio-aberto = em teste, aberto = suspenso
+  const getStatusIcon = (provider: ProviderStatus) => {
+    if (provider.health.state === 'half-open') return '🟡';
+    return provider.isAvailable ? '🟢' : '🔴';
+  };
+
+  const getStatusText = (provider: ProviderStatus) => {
+    if (provider.health.state === 'half-open') return 'Em teste';
+    return provider.isAvailable ? 'Ativo' : 'Suspenso';
   };
 
-  const getStatusText = (isAvailable: boolean) => {
-    return isAvailable ? 'Ativo' : 'Inativo';
+  const formatHealth = (health: ProviderHealth) => {
+    if (health.recentCalls === 0) return 'Sem chamadas recentes';
+    const latency = health.avgLatencyMs !== null ? ` · ${(health.avgLatencyMs / 1000).toFixed(1)}s em média` : '';
+    return `${Math.round(health.errorRate * 100)}% de erros em ${health.recentCalls} chamada${health.recentCalls !== 1 ? 's' : ''}${latency}`;
   };
 
   const availableCount = providers.filter(p => p.isAvailable).length;
@@ -86,7 +147,7 @@ const AIProvidersStatus: React.FC<AIProvidersStatusProps> = ({
               {providers.map((provider, index) => (
                 <div key={index} className="flex items-center justify-between text-sm">
                   <div className="flex items-center gap-2">
-                    <span>{getStatusIcon(provider.isAvailable)}</span>
+                    <span>{getStatusIcon(provider)}</span>
                     <span className={provider.isAvailable ? 'text-gray-800' : 'text-gray-500'}>
                       {provider.name}
                     </span>
@@ -95,11 +156,17 @@ const AIProvidersStatus: React.FC<AIProvidersStatusProps> = ({
                   <span className={`text-xs ${
                     provider.isAvailable ? 'text-green-600' : 'text-red-600'
                   }`}>
-                    {getStatusText(provider.isAvailable)}
+                    {getStatusText(provider)}
                   </span>
                 </div>
               ))}
             </div>
+
+            {budget && (
+              <div className="mt-2 pt-2 border-t border-gray-100">
+                <BudgetSummary budget={budget} compact />
+              </div>
+            )}
             
             <div className="mt-2 pt-2 border-t border-gray-100 text-xs text-gray-500">
               Última atualização: {lastUpdate.toLocaleTimeString()}
@@ -123,7 +190,7 @@ const AIProvidersStatus: React.FC<AIProvidersStatusProps> = ({
           </div>
           <div className="flex gap-2">
             <button
-              onClick={updateProvidersStatus}
+              onClick={handleRefresh}
               className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
               title="Atualizar status"
             >
@@ -150,12 +217,17 @@ const AIProvidersStatus: React.FC<AIProvidersStatusProps> = ({
               }`}
             >
               <div className="flex items-center gap-3">
-                <span className="text-2xl">{getStatusIcon(provider.isAvailable)}</span>
+                <span className="text-2xl">{getStatusIcon(provider)}</span>
                 <div>
                   <div className="font-medium text-gray-800">{provider.name}</div>
                   <div className="text-sm text-gray-600">
-                    Prioridade: #{provider.priority}
+                    Prioridade: #{provider.priority} · {formatHealth(provider.health)}
                   </div>
+                  {provider.health.lastError && provider.health.state !== 'closed' && (
+                    <div className="text-xs text-red-600 truncate max-w-md" title={provider.health.lastError}>
+                      {provider.health.lastError}
+                    </div>
+                  )}
                 </div>
               </div>
               
@@ -163,11 +235,16 @@ const AIProvidersStatus: React.FC<AIProvidersStatusProps> = ({
                 <div className={`font-medium ${
                   provider.isAvailable ? 'text-green-700' : 'text-red-700'
                 }`}>
-                  {getStatusText(provider.isAvailable)}
+                  {getStatusText(provider)}
                 </div>
-                {!provider.isAvailable && (
+                {provider.health.retryAt && (
                   <div className="text-xs text-gray-500">
-                    Reativação automática em 5min
+                    Nova tentativa às {new Date(provider.health.retryAt).toLocaleTimeString()}
+                  </div>
+                )}
+                {provider.health.state === 'half-open' && (
+                  <div className="text-xs text-gray-500">
+                    Próxima chamada decide a reativação
                   </div>
                 )}
               </div>
@@ -175,6 +252,12 @@ const AIProvidersStatus: React.FC<AIProvidersStatusProps> = ({
           ))}
         </div>
 
+        {budget && (
+          <div className="mt-4 p-3 rounded-lg border border-gray-200 bg-gray-50">
+            <BudgetSummary budget={budget} />
+          </div>
+        )}
+
         {totalCount === 0 && (
           <div className="text-center py-8 text-gray-500">
             <div className="text-4xl mb-2">🤖</div>
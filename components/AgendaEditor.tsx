@@ -1,13 +1,19 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { WordPressCredentials, WordPressPost, InitialAgendaData } from '../types';
-import { createCPTItem, getCPTItemById, updateCPTItem, uploadMedia, getCPTItems } from '../services/wordpressService';
+import { WordPressCredentials, WordPressPost, InitialAgendaData, WordPressMedia } from '../types';
+import { createCPTItem, getCPTItemById, getCPTItems } from '../services/wordpressService';
+import { offlineQueue, QUEUED_SAVE_MESSAGES } from '../services/offlineQueue';
 import { searchPlaceInformation } from '../services/geminiService';
 import LoadingSpinner from './LoadingSpinner';
 import ImageCropperModal from './ImageCropperModal';
+import RevisionHistoryModal from './RevisionHistoryModal';
+import MediaLibraryModal from './MediaLibraryModal';
 import SimpleModal from './SimpleModal';
-import { CameraIcon, ImageIcon, PlusIcon, MagicWandIcon } from './icons/Icons';
+import { CameraIcon, ImageIcon, PlusIcon, MagicWandIcon, ClockIcon } from './icons/Icons';
 import { useToast } from '../hooks/useToast';
 import { useQuillEditor } from '../hooks/useQuillEditor';
+import { useAppContext } from '../hooks/useAppContext';
+import { sourceFromAgendaItem } from '../services/socialPack';
+import SocialContentPanel from './SocialContentPanel';
 
 interface AgendaEditorProps {
     agendaId?: number;
@@ -15,6 +21,7 @@ interface AgendaEditorProps {
     wordPressCredentials: WordPressCredentials;
     onSave: () => void;
     onCancel: () => void;
+    onReload?: () => void; // Remonta o editor com os dados do servidor (ex.: depois de restaurar uma revisão)
 }
 
 const QuickCreateLugarForm: React.FC<{
@@ -131,7 +138,7 @@ const QuickCreateLugarForm: React.FC<{
     );
 };
 
-const AgendaEditor: React.FC<AgendaEditorProps> = ({ agendaId, initialData, wordPressCredentials, onSave, onCancel }) => {
+const AgendaEditor: React.FC<AgendaEditorProps> = ({ agendaId, initialData, wordPressCredentials, onSave, onCancel, onReload }) => {
     const [title, setTitle] = useState('');
     const [content, setContent] = useState('');
     const [status, setStatus] = useState<WordPressPost['status']>('draft');
@@ -154,11 +161,16 @@ const AgendaEditor: React.FC<AgendaEditorProps> = ({ agendaId, initialData, word
     const [featuredImageUrl, setFeaturedImageUrl] = useState<string | null>(null);
     const [imageToCrop, setImageToCrop] = useState<string | null>(null);
     const [croppedImageFile, setCroppedImageFile] = useState<File | null>(null);
+    const [featuredMediaId, setFeaturedMediaId] = useState<number | null>(null);
 
     const [isLoading, setIsLoading] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
+    const [serverModified, setServerModified] = useState<string | null>(null);
+    const [showRevisions, setShowRevisions] = useState(false);
+    const [showMediaLibrary, setShowMediaLibrary] = useState(false);
     
     const { showToast } = useToast();
+    const { aiPreferences } = useAppContext();
     const isEditing = agendaId !== undefined;
 
     useEffect(() => {
@@ -213,6 +225,7 @@ const AgendaEditor: React.FC<AgendaEditorProps> = ({ agendaId, initialData, word
                     setQuillContent(postContent);
                 }, 100);
                 setStatus(agenda.status);
+                setServerModified(agenda.modified_gmt ?? null);
                 
                 setEventDate(agenda.meta?.data_do_evento || '');
                 setEventTime(agenda.meta?.horario_do_evento || '');
@@ -247,9 +260,18 @@ const AgendaEditor: React.FC<AgendaEditorProps> = ({ agendaId, initialData, word
     const handleCropComplete = (blob: Blob) => {
         const file = new File([blob], "featured-image.webp", { type: "image/webp" });
         setCroppedImageFile(file);
+        setFeaturedMediaId(null);
         setFeaturedImageUrl(URL.createObjectURL(file));
         setImageToCrop(null);
     };
+
+    // Anexo que já está na biblioteca: vai direto como featured_media, sem novo upload
+    const handleLibrarySelect = ([media]: WordPressMedia[]) => {
+        setCroppedImageFile(null);
+        setFeaturedMediaId(media.id);
+        setFeaturedImageUrl(media.source_url);
+        setShowMediaLibrary(false);
+    };
     
     const handleLugarCreated = (newLugar: WordPressPost) => {
         setAvailableLugares(prev => [...prev, newLugar]);
@@ -270,12 +292,6 @@ const AgendaEditor: React.FC<AgendaEditorProps> = ({ agendaId, initialData, word
         e.preventDefault();
         setIsSaving(true);
         try {
-            let featuredMediaId: number | undefined;
-            if (croppedImageFile) {
-                const uploadedMedia = await uploadMedia(wordPressCredentials, croppedImageFile);
-                featuredMediaId = uploadedMedia.id;
-            }
-            
             const itemData: any = { 
                 title, 
                 content, 
@@ -288,13 +304,22 @@ const AgendaEditor: React.FC<AgendaEditorProps> = ({ agendaId, initialData, word
                     artistas_do_evento: selectedArtistaIds,
                 },
             };
+
             if (featuredMediaId) itemData.featured_media = featuredMediaId;
 
-            if (isEditing) {
-                await updateCPTItem(wordPressCredentials, 'agenda', agendaId, itemData);
+            const outcome = await offlineQueue.save(wordPressCredentials, {
+                postType: 'agenda',
+                itemId: isEditing ? agendaId : null,
+                title,
+                data: itemData,
+                mediaFile: croppedImageFile,
+                baseModified: serverModified,
+            });
+            if (outcome !== 'sincronizado') {
+                showToast(QUEUED_SAVE_MESSAGES[outcome], outcome === 'conflito' ? 'error' : 'info');
+            } else if (isEditing) {
                 showToast('Evento atualizado com sucesso!', 'success');
             } else {
-                await createCPTItem(wordPressCredentials, 'agenda', itemData);
                 showToast('Evento criado com sucesso!', 'success');
             }
             onSave();
@@ -309,6 +334,23 @@ const AgendaEditor: React.FC<AgendaEditorProps> = ({ agendaId, initialData, word
 
     return (
         <div className="p-4 sm:p-6 lg:p-8 bg-gray-50 min-h-full">
+            {isEditing && showRevisions && (
+                <RevisionHistoryModal
+                    postType="agenda"
+                    itemId={agendaId}
+                    wordPressCredentials={wordPressCredentials}
+                    onRestored={() => (onReload ?? onSave)()}
+                    onClose={() => setShowRevisions(false)}
+                />
+            )}
+            {showMediaLibrary && (
+                <MediaLibraryModal
+                    wordPressCredentials={wordPressCredentials}
+                    title="Imagem destacada"
+                    onSelect={handleLibrarySelect}
+                    onClose={() => setShowMediaLibrary(false)}
+                />
+            )}
             {imageToCrop && <ImageCropperModal imageSrc={imageToCrop} onClose={() => setImageToCrop(null)} onCropComplete={handleCropComplete} />}
             
             <SimpleModal isOpen={isLugarModalOpen} onClose={() => setLugarModalOpen(false)} title="Criar Novo Local" footer={<></>}>
@@ -319,6 +361,12 @@ const AgendaEditor: React.FC<AgendaEditorProps> = ({ agendaId, initialData, word
                 <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 sm:gap-0 mb-6">
                     <h1 className="text-3xl font-bold text-gray-900">{isEditing ? 'Editar Evento' : 'Criar Novo Evento'}</h1>
                     <div className="flex items-center space-x-3">
+                        {isEditing && (
+                            <button type="button" onClick={() => setShowRevisions(true)} className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50">
+                                <ClockIcon className="h-4 w-4 mr-1" />
+                                Revisões
+                            </button>
+                        )}
                         <button type="button" onClick={onCancel} className="px-4 py-2 text-sm font-medium bg-white border rounded-md">Cancelar</button>
                         <button type="submit" disabled={isSaving} className="flex justify-center items-center px-4 py-2 text-sm font-medium text-white bg-recife-red rounded-md disabled:bg-gray-400">
                             {isSaving ? <><LoadingSpinner /> Salvando...</> : 'Salvar Evento'}
@@ -350,6 +398,19 @@ const AgendaEditor: React.FC<AgendaEditorProps> = ({ agendaId, initialData, word
                                 <input type="text" id="eventTickets" value={eventTickets} onChange={e => setEventTickets(e.target.value)} className="block w-full p-2 border-gray-300 rounded-md" placeholder="ex: R$ 50 ou Gratuito"/>
                             </div>
                         </div>
+                        {title.trim() && (
+                            <SocialContentPanel
+                                source={sourceFromAgendaItem({
+                                    title,
+                                    contentHtml: content,
+                                    date: eventDate,
+                                    time: eventTime,
+                                    location: availableLugares.find(lugar => lugar.id === selectedLugarId)?.title.rendered || '',
+                                    tickets: eventTickets,
+                                })}
+                                systemInstruction={aiPreferences.systemInstruction}
+                            />
+                        )}
                     </div>
 
                     <div className="space-y-6">
@@ -391,6 +452,9 @@ const AgendaEditor: React.FC<AgendaEditorProps> = ({ agendaId, initialData, word
                                <CameraIcon className="h-5 w-5 mr-2" /><span>{featuredImageUrl ? 'Trocar' : 'Enviar Imagem'}</span>
                             </label>
                             <input id="image-upload" type="file" className="sr-only" accept="image/*" onChange={handleImageSelect}/>
+                            <button type="button" onClick={() => setShowMediaLibrary(true)} className="mt-2 w-full flex justify-center items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50">
+                                <ImageIcon className="h-5 w-5 mr-2" /><span>Escolher da Biblioteca</span>
+                            </button>
                         </div>
                     </div>
                 </div>
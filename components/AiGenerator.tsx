@@ -1,13 +1,20 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { 
     generateArticleFromPressRelease, 
     generateHistoriaFromTopic, 
     generateOrganizadorProfile, 
+    generateArtistaProfile,
+    generateLugarProfile,
     extractTextFromUrl,
     generateArticleFromExtractedText,
-    generateArticleFromScrapedData
+    generateArticleFromScrapedData,
+    generateWeekendRoundup,
+    generateHeadlineVariants
 } from '../services/geminiService';
 import { scrapeEventUrl } from '../services/scraperService';
+import { extractPartialJSONString } from '../services/aiProviderService';
+import { DraftValidationError } from '../services/draftSchemas';
+import { checkFactConsistency, stripHtml } from '../services/factChecker';
 import { createCPTItem, getTerms } from '../services/wordpressService';
 import { 
     AnyDraft, 
@@ -17,16 +24,43 @@ import {
     GenerationType,
     InitialHistoriaData,
     InitialOrganizadorData,
+    InitialArtistaData,
+    InitialLugarData,
     ArticleDraft,
     HistoriaDraft,
+    OrganizadorDraft,
+    ArtistaDraft,
+    LugarDraft,
     ScrapedEventDetails,
+    ValidationIssue,
+    FactFlag,
+    HeadlineVariant,
+    EntityRelations,
+    ImportedPressRelease,
+    SimilarPostMatch,
+    PostUpdateRequest,
+    SavedDraft,
     // Fix: Import missing types AiPreferences and WordPressCredentials.
     AiPreferences,
     WordPressCredentials
 } from '../types';
-import { ArticlePlaceholderIcon, MagicWandIcon, DocumentTextIcon, BookOpenIcon, BuildingOfficeIcon, ShareIcon, ClipboardDocumentCheckIcon, TicketIcon, LinkIcon } from './icons/Icons';
+import { ArticlePlaceholderIcon, MagicWandIcon, DocumentTextIcon, BookOpenIcon, BuildingOfficeIcon, ShareIcon, ClipboardDocumentCheckIcon, TicketIcon, LinkIcon, CalendarDaysIcon, UsersIcon, MapPinIcon } from './icons/Icons';
 import LoadingSpinner from './LoadingSpinner';
 import ArticlePreview from './ArticlePreview';
+import SocialContentPanel from './SocialContentPanel';
+import RoundupEventPicker, { RoundupSelection } from './RoundupEventPicker';
+import TranslationPanel from './TranslationPanel';
+import EntityLinkPanel from './EntityLinkPanel';
+import PressReleaseImporter from './PressReleaseImporter';
+import SimilarPostsPanel from './SimilarPostsPanel';
+import DraftLibrary from './DraftLibrary';
+import { sourceFromArticleDraft } from '../services/socialPack';
+import { contentFromDraft } from '../services/translationService';
+import { headlineVariantService, scoreHeadlineCandidates } from '../services/headlineVariants';
+import { pressReleaseHistoryService, pressReleaseInput } from '../services/pressReleaseImport';
+import { SIMILARITY_ALERT_THRESHOLD } from '../services/duplicateDetection';
+import { draftLibraryService } from '../services/draftLibrary';
+import { useAppContext } from '../hooks/useAppContext';
 
 interface AiGeneratorProps {
   aiPreferences: AiPreferences;
@@ -34,8 +68,17 @@ interface AiGeneratorProps {
   onSendToNoticiaEditor: (data: InitialPostData) => void;
   onSendToHistoriaEditor: (data: InitialHistoriaData) => void;
   onSendToOrganizadorEditor: (data: InitialOrganizadorData) => void;
+  onSendToArtistaEditor: (data: InitialArtistaData) => void;
+  onSendToLugarEditor: (data: InitialLugarData) => void;
+  onOpenPostForUpdate: (request: PostUpdateRequest) => void;
 }
 
+// Perfis de cadastro: sem SEO de matéria, então ficam fora das variações de título e da tradução
+const PROFILE_TYPES: GenerationType[] = ['organizador', 'artista', 'lugar'];
+
+// Tipos que viram notícia no PostEditor (comparados com as matérias recentes antes do envio)
+const NOTICIA_TYPES: GenerationType[] = ['noticia', 'social', 'evento', 'roteiro'];
+
 const ExtractedEventPreview: React.FC<{ event: ScrapedEventDetails, onGenerate: () => void, onReset: () => void, isGenerating: boolean }> = ({ event, onGenerate, onReset, isGenerating }) => (
     <div className="space-y-4">
         <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
@@ -70,19 +113,107 @@ const ExtractedEventPreview: React.FC<{ event: ScrapedEventDetails, onGenerate:
 );
 
 
+const GenerationError: React.FC<{ error: string | null, issues: ValidationIssue[] }> = ({ error, issues }) => {
+    if (!error) return null;
+    return (
+        <div className="mt-2 text-sm text-red-600">
+            <p>{error}</p>
+            {issues.length > 0 && (
+                <ul className="mt-2 p-3 bg-red-50 border border-red-200 rounded-md space-y-1 max-h-40 overflow-y-auto">
+                    {issues.map((issue, index) => (
+                        <li key={index}><code className="font-semibold">{issue.path}</code>: {issue.message}</li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+// Monta um rascunho provisório a partir do JSON ainda incompleto recebido via streaming
+const buildStreamingDraft = (partialText: string, type: GenerationType): AnyDraft => {
+    const field = (name: string) => extractPartialJSONString(partialText, name) || '';
+    if (type === 'organizador') {
+        const draft: OrganizadorDraft = {
+            title: field('title'),
+            description_html: field('description_html'),
+            address: null,
+            phone: null,
+            website: null,
+            instagram: null,
+        };
+        return draft;
+    }
+    if (type === 'artista') {
+        const draft: ArtistaDraft = {
+            title: field('title'),
+            biography_html: field('biography_html'),
+            tipo_de_artista: 'Solo',
+            artista_ano_formacao: null,
+            artista_origem: null,
+            website: null,
+            email: null,
+            telefone: [],
+            redes_sociais: [],
+            videos_artistas: [],
+        };
+        return draft;
+    }
+    if (type === 'lugar') {
+        const draft: LugarDraft = {
+            title: field('title'),
+            description_html: field('description_html'),
+            endereco: null,
+            bairro: null,
+            cidade: null,
+            estado: null,
+            cep: null,
+            latitude: null,
+            longitude: null,
+            telefone: [],
+            email: null,
+            website: null,
+            redes_sociais: [],
+            horario_de_funcionamento: null,
+        };
+        return draft;
+    }
+    const draft: HistoriaDraft = {
+        title: field('title'),
+        summary: field('summary'),
+        category: field('category'),
+        tags: [],
+        seo_description: field('seo_description'),
+        // No roteiro o corpo é montado depois; a introdução dá uma prévia enquanto a IA escreve
+        article_body_html: field(type === 'roteiro' ? 'intro_html' : 'article_body_html'),
+        focus_keyword: field('focus_keyword'),
+        suggested_alt_text: field('suggested_alt_text'),
+    };
+    return draft;
+};
+
+
 const AiGenerator: React.FC<AiGeneratorProps> = ({ 
     aiPreferences, 
     wordPressCredentials, 
     onSendToNoticiaEditor,
     onSendToHistoriaEditor,
-    onSendToOrganizadorEditor
+    onSendToOrganizadorEditor,
+    onSendToArtistaEditor,
+    onSendToLugarEditor,
+    onOpenPostForUpdate
 }) => {
+  const { session, userProfile } = useAppContext();
   const [generationType, setGenerationType] = useState<GenerationType>('noticia');
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [validationIssues, setValidationIssues] = useState<ValidationIssue[]>([]);
   const [draft, setDraft] = useState<AnyDraft | null>(null);
   const [sources, setSources] = useState<GroundingSource[]>([]);
+  const [streamingDraft, setStreamingDraft] = useState<AnyDraft | null>(null);
+  const [streamingProvider, setStreamingProvider] = useState<string | null>(null);
+  const [factFlags, setFactFlags] = useState<FactFlag[]>([]);
+  const [acknowledgedFlagIds, setAcknowledgedFlagIds] = useState<Set<string>>(new Set());
 
   const [isActionLoading, setIsActionLoading] = useState(false);
   const [actionError, setActionError] = useState<string | null>(null);
@@ -102,12 +233,87 @@ const AiGenerator: React.FC<AiGeneratorProps> = ({
   // State for event URL flow
   const [extractedEvent, setExtractedEvent] = useState<ScrapedEventDetails | null>(null);
 
+  // State for weekly roundup flow
+  const [roundupSelection, setRoundupSelection] = useState<RoundupSelection | null>(null);
+
+  // State for headline variants (índice 0 é sempre o título original do rascunho)
+  const [headlineVariants, setHeadlineVariants] = useState<HeadlineVariant[]>([]);
+  const [isGeneratingHeadlines, setIsGeneratingHeadlines] = useState(false);
+  const [selectedHeadlineIndex, setSelectedHeadlineIndex] = useState(0);
+  const headlineRequestRef = useRef(0);
+
+  // Relacionamentos confirmados no painel de entidades (usados ao criar o evento na Agenda)
+  const [entityRelations, setEntityRelations] = useState<EntityRelations>({ lugarId: null, artistaIds: [] });
+
+  // Comunicado importado de e-mail ou documento (texto já copiado para o campo da notícia)
+  const [importedRelease, setImportedRelease] = useState<ImportedPressRelease | null>(null);
+
+  // Matérias recentes parecidas com o rascunho e o texto-fonte usado na geração (vai para a atualização assistida)
+  const [similarPosts, setSimilarPosts] = useState<SimilarPostMatch[]>([]);
+  const [generationSource, setGenerationSource] = useState<string | null>(null);
+
+  // Biblioteca de rascunhos: registro do rascunho exibido e provedor que respondeu por último no streaming
+  const [libraryDraftId, setLibraryDraftId] = useState<string | null>(null);
+  const [libraryRefreshKey, setLibraryRefreshKey] = useState(0);
+  const lastProviderRef = useRef<string | null>(null);
+  // Rascunho aberto da biblioteca com outro tipo: aplicado depois que a troca de aba limpa o estado
+  const pendingSavedDraftRef = useRef<SavedDraft | null>(null);
+
+  // Reabre um rascunho salvo na prévia, com a entrada que o gerou (as variações de título não são refeitas)
+  const applySavedDraft = (saved: SavedDraft) => {
+    const savedDraft = saved.draft;
+    const sourceText = saved.input_text;
+    setDraft(savedDraft);
+    setSources(saved.sources ?? []);
+    setLibraryDraftId(saved.id);
+    setError(null);
+    setValidationIssues([]);
+    setActionError(null);
+    setActionSuccess(null);
+    setAcknowledgedFlagIds(new Set());
+    setSimilarPosts([]);
+    setImportedRelease(null);
+    headlineRequestRef.current += 1;
+    setHeadlineVariants([]);
+    setIsGeneratingHeadlines(false);
+
+    if (saved.generation_type === 'social') {
+      setExtractedText(sourceText);
+    } else if (saved.generation_type === 'evento') {
+      try {
+        setExtractedEvent(JSON.parse(sourceText));
+      } catch (_) {
+        setExtractedEvent(null);
+      }
+    } else if (saved.generation_type !== 'roteiro') {
+      setInputValue(sourceText);
+    }
+    const isStringSource = saved.generation_type !== 'evento' && saved.generation_type !== 'roteiro';
+    setGenerationSource(isStringSource ? sourceText : null);
+    setFactFlags(NOTICIA_TYPES.includes(saved.generation_type)
+      ? checkFactConsistency(savedDraft as ArticleDraft, sourceText, (savedDraft as ArticleDraft).verified_facts)
+      : []);
+  };
+
+  const handleOpenSavedDraft = (saved: SavedDraft) => {
+    if (saved.generation_type === generationType) {
+      applySavedDraft(saved);
+    } else {
+      pendingSavedDraftRef.current = saved;
+      setGenerationType(saved.generation_type);
+    }
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
   // Reset states on type change
   useEffect(() => {
     setInputValue('');
     setError(null);
+    setValidationIssues([]);
     setDraft(null);
     setSources([]);
+    setFactFlags([]);
+    setAcknowledgedFlagIds(new Set());
     setActionError(null);
     setActionSuccess(null);
     setIsValidUrl(false);
@@ -117,8 +323,25 @@ const AiGenerator: React.FC<AiGeneratorProps> = ({
     setManualInputText('');
     // Event flow
     setExtractedEvent(null);
+    // Roundup flow
+    setRoundupSelection(null);
+    // Press release import
+    setImportedRelease(null);
+    // Duplicate detection
+    setSimilarPosts([]);
+    setGenerationSource(null);
+    // Draft library
+    setLibraryDraftId(null);
+    // Headline variants
+    headlineRequestRef.current += 1;
+    setHeadlineVariants([]);
+    setIsGeneratingHeadlines(false);
     // Common
     setIsExtracting(false);
+
+    const pendingSavedDraft = pendingSavedDraftRef.current;
+    pendingSavedDraftRef.current = null;
+    if (pendingSavedDraft) applySavedDraft(pendingSavedDraft);
   }, [generationType]);
 
   // URL validation effect
@@ -133,6 +356,13 @@ const AiGenerator: React.FC<AiGeneratorProps> = ({
     }
   }, [inputValue, generationType]);
 
+  // Texto do comunicado importado substituído: a próxima geração não vem mais dele
+  useEffect(() => {
+    if (importedRelease && inputValue !== pressReleaseInput(importedRelease)) {
+      setImportedRelease(null);
+    }
+  }, [inputValue, importedRelease]);
+
 
   useEffect(() => {
     const fetchTaxonomies = async () => {
@@ -187,10 +417,46 @@ const AiGenerator: React.FC<AiGeneratorProps> = ({
     setIsExtracting(false);
   };
 
+  // Roda depois que o rascunho aparece, sem segurar a prévia; uma falha só deixa o título original
+  const loadHeadlineVariants = async (generated: ArticleDraft | HistoriaDraft) => {
+    const requestId = ++headlineRequestRef.current;
+    const original = { title: generated.title, seo_description: generated.seo_description, style: 'original' as const };
+    setHeadlineVariants([]);
+    setSelectedHeadlineIndex(0);
+    setIsGeneratingHeadlines(true);
+    try {
+      const { draft: variantSet } = await generateHeadlineVariants(generated, aiPreferences.systemInstruction);
+      if (requestId !== headlineRequestRef.current || !variantSet) return;
+      setHeadlineVariants(scoreHeadlineCandidates([original, ...variantSet.variants], generated.focus_keyword));
+    } catch (e) {
+      console.error('Não foi possível gerar variações de título:', e);
+    } finally {
+      if (requestId === headlineRequestRef.current) setIsGeneratingHeadlines(false);
+    }
+  };
+
+  const handleSelectHeadline = useCallback((index: number) => {
+    const variant = headlineVariants[index];
+    if (!variant) return;
+    setSelectedHeadlineIndex(index);
+    setDraft(prev => prev ? { ...prev, title: variant.title, seo_description: variant.seo_description } as AnyDraft : prev);
+  }, [headlineVariants]);
+
+  const handleImportRelease = useCallback((release: ImportedPressRelease) => {
+    setImportedRelease(release);
+    setInputValue(pressReleaseInput(release));
+    setError(null);
+  }, []);
+
+  const handleApplyEntityLinks = useCallback((html: string) => {
+    setDraft(prev => prev ? { ...prev, article_body_html: html } as AnyDraft : prev);
+  }, []);
+
   const handleGenerate = useCallback(async () => {
     let generationInput: any = inputValue;
     if (generationType === 'social') generationInput = extractedText || manualInputText;
     if (generationType === 'evento') generationInput = extractedEvent;
+    if (generationType === 'roteiro') generationInput = roundupSelection?.events.length ? roundupSelection : null;
     
     if (!generationInput) {
       setError('Por favor, insira ou extraia o conteúdo para geração.');
@@ -199,45 +465,148 @@ const AiGenerator: React.FC<AiGeneratorProps> = ({
 
     setIsLoading(true);
     setError(null);
+    setValidationIssues([]);
     setDraft(null);
     setSources([]);
+    setFactFlags([]);
+    setAcknowledgedFlagIds(new Set());
+    setSimilarPosts([]);
+    setGenerationSource(typeof generationInput === 'string' ? generationInput : null);
+    setLibraryDraftId(null);
+    lastProviderRef.current = null;
+    setStreamingDraft(null);
+    setStreamingProvider(null);
     setActionError(null);
     setActionSuccess(null);
+    headlineRequestRef.current += 1;
+    setHeadlineVariants([]);
+    setIsGeneratingHeadlines(false);
+
+    const handlePartial = (partialText: string, providerName: string) => {
+        lastProviderRef.current = providerName;
+        setStreamingProvider(providerName);
+        setStreamingDraft(partialText ? buildStreamingDraft(partialText, generationType) : null);
+    };
 
     try {
         let result: { draft: AnyDraft | null, sources: GroundingSource[] | null };
         switch(generationType) {
             case 'historia':
-                result = await generateHistoriaFromTopic(inputValue, aiPreferences.systemInstruction);
+                result = await generateHistoriaFromTopic(inputValue, aiPreferences.systemInstruction, handlePartial);
                 break;
             case 'organizador':
-                 result = await generateOrganizadorProfile(inputValue, aiPreferences.systemInstruction);
+                 result = await generateOrganizadorProfile(inputValue, aiPreferences.systemInstruction, handlePartial);
+                 break;
+            case 'artista':
+                 result = await generateArtistaProfile(inputValue, aiPreferences.systemInstruction, handlePartial);
+                 break;
+            case 'lugar':
+                 result = await generateLugarProfile(inputValue, aiPreferences.systemInstruction, handlePartial);
                  break;
             case 'social':
-                 result = await generateArticleFromExtractedText(generationInput, aiPreferences.systemInstruction);
+                 result = await generateArticleFromExtractedText(generationInput, aiPreferences.systemInstruction, handlePartial);
                  break;
             case 'evento':
-                 result = await generateArticleFromScrapedData(generationInput, aiPreferences.systemInstruction);
+                 result = await generateArticleFromScrapedData(generationInput, aiPreferences.systemInstruction, handlePartial);
+                 break;
+            case 'roteiro':
+                 result = await generateWeekendRoundup(generationInput.events, generationInput.range, aiPreferences.systemInstruction, handlePartial);
                  break;
             case 'noticia':
             default:
-                result = await generateArticleFromPressRelease(inputValue, aiPreferences.systemInstruction);
+                result = await generateArticleFromPressRelease(inputValue, aiPreferences.systemInstruction, handlePartial);
                 break;
         }
 
       if (result.draft) setDraft(result.draft);
       if (result.sources) setSources(result.sources);
 
+      const sourceText = typeof generationInput === 'string' ? generationInput : JSON.stringify(generationInput);
+
+      if (result.draft && session?.user) {
+        draftLibraryService.save({
+          userId: session.user.id,
+          teamId: userProfile?.team_id ?? null,
+          generationType,
+          inputText: sourceText,
+          provider: lastProviderRef.current,
+          draft: result.draft,
+          sources: result.sources ?? [],
+        }).then(savedId => {
+          setLibraryDraftId(savedId);
+          setLibraryRefreshKey(key => key + 1);
+        });
+      }
+
+      // Confere o texto gerado contra a fonte antes que ele possa seguir para o editor
+      if (result.draft && NOTICIA_TYPES.includes(generationType)) {
+        const articleDraft = result.draft as ArticleDraft;
+        setFactFlags(checkFactConsistency(articleDraft, sourceText, articleDraft.verified_facts));
+      }
+
+      if (result.draft && !PROFILE_TYPES.includes(generationType)) {
+        loadHeadlineVariants(result.draft as ArticleDraft | HistoriaDraft);
+      }
+
+      if (result.draft && generationType === 'noticia' && importedRelease && session?.user) {
+        pressReleaseHistoryService.markProcessed(importedRelease, session.user.id, userProfile?.team_id ?? null);
+      }
+
     } catch (e: any) {
       console.error(e);
-      setError(`Ocorreu um erro ao gerar o rascunho: ${e.message}`);
+      if (e instanceof DraftValidationError) {
+        setError(`A IA${e.usedProvider ? ` (${e.usedProvider})` : ''} não conseguiu gerar o rascunho no formato esperado, mesmo após tentativas de correção:`);
+        setValidationIssues(e.issues);
+      } else {
+        setError(`Ocorreu um erro ao gerar o rascunho: ${e.message}`);
+      }
     } finally {
       setIsLoading(false);
+      setStreamingDraft(null);
+      setStreamingProvider(null);
     }
-  }, [inputValue, aiPreferences.systemInstruction, generationType, extractedText, manualInputText, extractedEvent]);
+  }, [inputValue, aiPreferences.systemInstruction, generationType, extractedText, manualInputText, extractedEvent, roundupSelection, importedRelease, session, userProfile]);
   
-  const handleSendToEditor = useCallback(() => {
+  const handleAcknowledgeFlag = useCallback((flagId: string, acknowledged: boolean) => {
+    setAcknowledgedFlagIds(prev => {
+      const next = new Set(prev);
+      if (acknowledged) next.add(flagId); else next.delete(flagId);
+      return next;
+    });
+  }, []);
+
+  const pendingFlagCount = factFlags.filter(flag => !acknowledgedFlagIds.has(flag.id)).length;
+
+  // Guarda as variações exibidas e a escolhida, para a equipe saber quais estilos de título funcionam
+  const recordHeadlineChoice = async (): Promise<string | null> => {
+    if (headlineVariants.length < 2 || !session?.user) return null;
+    return headlineVariantService.recordChoice({
+      userId: session.user.id,
+      teamId: userProfile?.team_id ?? null,
+      generationType,
+      focusKeyword: (draft as ArticleDraft | HistoriaDraft).focus_keyword,
+      variants: headlineVariants,
+      chosenIndex: selectedHeadlineIndex,
+    });
+  };
+
+  const handleSendToEditor = useCallback(async () => {
     if (!draft) return;
+    if (pendingFlagCount > 0) {
+      setActionError(`Confirme os ${pendingFlagCount} alerta(s) da verificação de fatos antes de enviar ao editor.`);
+      return;
+    }
+    const closestMatch = NOTICIA_TYPES.includes(generationType) ? similarPosts[0] : undefined;
+    if (closestMatch && closestMatch.score >= SIMILARITY_ALERT_THRESHOLD
+      && !confirm(`Este rascunho é ${Math.round(closestMatch.score * 100)}% parecido com "${closestMatch.title}". Criar uma matéria nova mesmo assim?`)) {
+      return;
+    }
+
+    const headlineChoiceId = PROFILE_TYPES.includes(generationType) ? null : await recordHeadlineChoice();
+    const draftId = libraryDraftId;
+    if (draftId) {
+      draftLibraryService.markSent(draftId, draft).then(() => setLibraryRefreshKey(key => key + 1));
+    }
 
     const findTermId = (termName: string, termList: WordPressTerm[]) => {
         const nameToFind = termName.trim().toLowerCase();
@@ -255,14 +624,20 @@ const AiGenerator: React.FC<AiGeneratorProps> = ({
         case 'noticia':
         case 'social':
         case 'evento':
+        case 'roteiro':
         {
             const d = draft as ArticleDraft;
             const categoryId = findTermId(d.category, categories);
             const tagIds = findTermIds(d.tags, tags);
             onSendToNoticiaEditor({
               title: d.title, content: d.article_body_html, focusKeyword: d.focus_keyword,
+              seoDescription: d.seo_description,
               categoryIds: categoryId ? [categoryId] : [],
               tagIds,
+              structuredData: d.structured_data,
+              headlineChoiceId,
+              featuredImageCandidates: importedRelease?.images,
+              draftId,
             });
             break;
         }
@@ -272,8 +647,11 @@ const AiGenerator: React.FC<AiGeneratorProps> = ({
             const tagIds = findTermIds(d.tags, tags);
              onSendToHistoriaEditor({
               title: d.title, content: d.article_body_html, focusKeyword: d.focus_keyword,
+              seoDescription: d.seo_description,
               categoryIds: categoryId ? [categoryId] : [],
               tagIds,
+              headlineChoiceId,
+              draftId,
             });
             break;
         }
@@ -282,11 +660,42 @@ const AiGenerator: React.FC<AiGeneratorProps> = ({
              onSendToOrganizadorEditor({
                 title: d.title, content: d.description_html,
                 address: d.address || '', phone: d.phone || '', website: d.website || '', instagram: d.instagram || '',
+                draftId,
+            });
+            break;
+        }
+        case 'artista': {
+            const d = draft as ArtistaDraft;
+            onSendToArtistaEditor({
+                title: d.title, content: d.biography_html,
+                tipoDeArtista: d.tipo_de_artista,
+                anoFormacao: d.artista_ano_formacao || '', cidadeOrigem: d.artista_origem || '',
+                website: d.website || '', email: d.email || '',
+                telefones: d.telefone, redesSociais: d.redes_sociais, videos: d.videos_artistas,
+                draftId,
+            });
+            break;
+        }
+        case 'lugar': {
+            const d = draft as LugarDraft;
+            onSendToLugarEditor({
+                title: d.title, content: d.description_html,
+                endereco: d.endereco || '', bairro: d.bairro || '', cidade: d.cidade || '', estado: d.estado || '', cep: d.cep || '',
+                latitude: d.latitude || '', longitude: d.longitude || '',
+                telefones: d.telefone, email: d.email || '', website: d.website || '', redesSociais: d.redes_sociais,
+                horarioFuncionamento: d.horario_de_funcionamento || '',
+                draftId,
             });
             break;
         }
     }
-  }, [draft, generationType, onSendToNoticiaEditor, onSendToHistoriaEditor, onSendToOrganizadorEditor, categories, tags]);
+  }, [draft, generationType, onSendToNoticiaEditor, onSendToHistoriaEditor, onSendToOrganizadorEditor, onSendToArtistaEditor, onSendToLugarEditor, categories, tags, pendingFlagCount, headlineVariants, selectedHeadlineIndex, session, userProfile, importedRelease, similarPosts, libraryDraftId]);
+
+  // Em vez de criar outra matéria, abre a existente com o texto-fonte pronto para a atualização assistida
+  const handleOpenForUpdate = useCallback((postId: number) => {
+    if (!draft) return;
+    onOpenPostForUpdate({ postId, newInformation: generationSource ?? stripHtml((draft as ArticleDraft).article_body_html) });
+  }, [draft, generationSource, onOpenPostForUpdate]);
 
   const handleCreateEvent = useCallback(async () => {
     const articleDraft = draft as ArticleDraft;
@@ -307,6 +716,10 @@ const AiGenerator: React.FC<AiGeneratorProps> = ({
             title: eventDetails.name,
             content: `<p><strong>Quando:</strong> ${eventDetails.date}</p><p><strong>Onde:</strong> ${eventDetails.location}</p><hr><h2>Sobre o Evento</h2><p>${articleDraft.summary}</p>`,
             status: 'draft' as const,
+            meta: {
+                local_do_evento: entityRelations.lugarId,
+                artistas_do_evento: entityRelations.artistaIds,
+            },
         };
         const newPost = await createCPTItem(wordPressCredentials, 'agenda', postData);
         setActionSuccess(`Evento "${newPost.title.rendered}" criado como rascunho na Agenda!`);
@@ -316,7 +729,7 @@ const AiGenerator: React.FC<AiGeneratorProps> = ({
     } finally {
         setIsActionLoading(false);
     }
-  }, [draft, wordPressCredentials, generationType]);
+  }, [draft, wordPressCredentials, generationType, entityRelations]);
   
   const resetUrlFlow = () => {
       setExtractedText(null);
@@ -325,6 +738,7 @@ const AiGenerator: React.FC<AiGeneratorProps> = ({
       setManualInputText('');
       setExtractionFailed(false);
       setError(null);
+      setValidationIssues([]);
   };
 
   const generationConfig = {
@@ -332,7 +746,10 @@ const AiGenerator: React.FC<AiGeneratorProps> = ({
       evento: { icon: <TicketIcon className="h-5 w-5 mr-3"/>, title: 'Importar Evento', placeholder: 'Cole a URL da página do evento (Ex: Sympla, Bilheteria Digital)...', inputType: 'url' },
       social: { icon: <ShareIcon className="h-5 w-5 mr-3"/>, title: 'Gerar de URL', placeholder: 'Cole a URL do post (ex: Instagram)...', inputType: 'url' },
       historia: { icon: <BookOpenIcon className="h-5 w-5 mr-3"/>, title: 'Gerar História', placeholder: 'Digite um tópico ou tema, ex: "A história da Rua da Aurora"', inputType: 'textarea', rows: 2 },
-      organizador: { icon: <BuildingOfficeIcon className="h-5 w-5 mr-3"/>, title: 'Gerar Perfil', placeholder: 'Digite o nome de uma organização, ex: "Paço do Frevo"', inputType: 'textarea', rows: 2 }
+      organizador: { icon: <BuildingOfficeIcon className="h-5 w-5 mr-3"/>, title: 'Gerar Perfil', placeholder: 'Digite o nome de uma organização, ex: "Paço do Frevo"', inputType: 'textarea', rows: 2 },
+      roteiro: { icon: <CalendarDaysIcon className="h-5 w-5 mr-3"/>, title: 'Gerar Roteiro', placeholder: '', inputType: 'roteiro' },
+      artista: { icon: <UsersIcon className="h-5 w-5 mr-3"/>, title: 'Gerar Artista', placeholder: 'Digite o nome do artista, banda ou coletivo, ex: "Nação Zumbi"', inputType: 'textarea', rows: 2 },
+      lugar: { icon: <MapPinIcon className="h-5 w-5 mr-3"/>, title: 'Gerar Lugar', placeholder: 'Digite o nome do lugar, ex: "Teatro de Santa Isabel"', inputType: 'textarea', rows: 2 }
   } as const;
 
   const currentConfig = generationConfig[generationType];
@@ -343,6 +760,7 @@ const AiGenerator: React.FC<AiGeneratorProps> = ({
     if (currentConfig.inputType === 'textarea') {
         return (
             <>
+                {generationType === 'noticia' && <PressReleaseImporter onImport={handleImportRelease} disabled={isLoading} />}
                 <label htmlFor="inputValue" className="block text-sm font-medium text-gray-700 mb-2">{currentConfig.title}</label>
                 <textarea
                     id="inputValue"
@@ -353,7 +771,7 @@ const AiGenerator: React.FC<AiGeneratorProps> = ({
                     className="block w-full p-3 border-gray-300 rounded-md shadow-sm"
                     placeholder={currentConfig.placeholder}
                 />
-                {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+                <GenerationError error={error} issues={validationIssues} />
                 <button onClick={handleGenerate} disabled={isLoading || !inputValue.trim()} className="mt-4 w-full flex justify-center items-center px-6 py-3 text-base font-medium rounded-md shadow-sm text-white bg-brand-red hover:bg-red-700 disabled:bg-gray-400">
                   {isLoading ? <><LoadingSpinner /> Gerando...</> : <><MagicWandIcon className="h-5 w-5 mr-2" />{currentConfig.title}</>}
                 </button>
@@ -361,10 +779,30 @@ const AiGenerator: React.FC<AiGeneratorProps> = ({
         )
     }
 
+    // Weekly roundup flow
+    if (currentConfig.inputType === 'roteiro') {
+        return (
+            <>
+                <RoundupEventPicker
+                    wordPressCredentials={wordPressCredentials}
+                    onSelectionChange={setRoundupSelection}
+                    onGenerate={handleGenerate}
+                    isGenerating={isLoading}
+                />
+                <GenerationError error={error} issues={validationIssues} />
+            </>
+        );
+    }
+
     // Event URL flow
     if (generationType === 'evento') {
         if(isExtracting) return <div className="flex flex-col items-center justify-center h-full text-gray-500 py-10"><LoadingSpinner /><p className="mt-2">Buscando dados do evento...</p></div>
-        if(extractedEvent) return <ExtractedEventPreview event={extractedEvent} onGenerate={handleGenerate} onReset={resetUrlFlow} isGenerating={isLoading} />
+        if(extractedEvent) return (
+            <>
+                <ExtractedEventPreview event={extractedEvent} onGenerate={handleGenerate} onReset={resetUrlFlow} isGenerating={isLoading} />
+                <GenerationError error={error} issues={validationIssues} />
+            </>
+        );
     }
     
     // Social Media URL flow
@@ -377,6 +815,7 @@ const AiGenerator: React.FC<AiGeneratorProps> = ({
                     {isLoading ? <><LoadingSpinner /> Gerando...</> : 'Gerar Notícia a partir deste texto'}
                 </button>
                 <button onClick={resetUrlFlow} disabled={isLoading} className="w-full text-center text-sm text-gray-600 hover:text-gray-900">Tentar Outra URL</button>
+                <GenerationError error={error} issues={validationIssues} />
             </div>
         );
         if (extractionFailed) return (
@@ -390,6 +829,7 @@ const AiGenerator: React.FC<AiGeneratorProps> = ({
                     {isLoading ? <><LoadingSpinner /> Gerando...</> : 'Gerar Notícia do texto manual'}
                 </button>
                 <button onClick={resetUrlFlow} disabled={isLoading} className="w-full text-center text-sm text-gray-600 hover:text-gray-900">Tentar Outra URL</button>
+                <GenerationError error={error} issues={validationIssues} />
             </div>
         );
     }
@@ -399,7 +839,7 @@ const AiGenerator: React.FC<AiGeneratorProps> = ({
         <>
             <label htmlFor="inputValue" className="block text-sm font-medium text-gray-700 mb-2">{currentConfig.title}</label>
             <input type="url" id="inputValue" value={inputValue} onChange={(e) => setInputValue(e.target.value)} disabled={isExtracting} className="block w-full p-3 border-gray-300 rounded-md shadow-sm" placeholder={currentConfig.placeholder} />
-            {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+            <GenerationError error={error} issues={validationIssues} />
             <button onClick={handleExtract} disabled={isExtracting || !isValidUrl} className="mt-4 w-full flex justify-center items-center px-6 py-3 text-base font-medium rounded-md shadow-sm text-white bg-brand-blue-dark hover:bg-blue-800 disabled:bg-gray-400">
               {isExtracting ? <><LoadingSpinner /> Extraindo...</> : <><LinkIcon className="h-5 w-5 mr-2" />Extrair Informações</>}
             </button>
@@ -430,35 +870,93 @@ const AiGenerator: React.FC<AiGeneratorProps> = ({
             </div>
             {renderInputSection()}
           </div>
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 min-h-[500px] flex flex-col">
-              <div className="p-6 flex-grow">
-                 {isLoading ? (
-                    <div className="flex flex-col items-center justify-center h-full text-gray-500">
-                        <MagicWandIcon className="h-10 w-10 animate-pulse text-brand-purple" />
-                        <p className="mt-4 text-lg font-medium">A mágica está acontecendo...</p>
-                        <p className="text-sm text-center">Pesquisando na web e escrevendo o conteúdo.</p>
-                    </div>
-                 ) : draft ? (
-                    <ArticlePreview 
-                      draft={draft} 
-                      sources={sources}
-                      generationType={generationType}
-                      onSendToEditor={handleSendToEditor}
-                      onEventCreate={handleCreateEvent}
-                      isActionLoading={isActionLoading}
-                      actionError={actionError}
-                      actionSuccess={actionSuccess}
-                    />
-                 ) : (
-                    <div className="flex flex-col items-center justify-center h-full text-gray-500">
-                         <ArticlePlaceholderIcon className="h-12 w-12" />
-                        <p className="mt-4 text-lg font-medium">Seu rascunho aparecerá aqui</p>
-                        <p className="text-sm text-center max-w-sm">Pronto para ser revisado e publicado no WordPress.</p>
-                    </div>
-                 )}
-              </div>
+          <div className="space-y-8">
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 min-h-[500px] flex flex-col">
+                <div className="p-6 flex-grow">
+                   {isLoading && streamingDraft ? (
+                      <ArticlePreview 
+                        draft={streamingDraft} 
+                        sources={[]}
+                        generationType={generationType}
+                        onSendToEditor={handleSendToEditor}
+                        onEventCreate={handleCreateEvent}
+                        isActionLoading={false}
+                        actionError={null}
+                        actionSuccess={null}
+                        isStreaming
+                        streamingProvider={streamingProvider}
+                      />
+                   ) : isLoading ? (
+                      <div className="flex flex-col items-center justify-center h-full text-gray-500">
+                          <MagicWandIcon className="h-10 w-10 animate-pulse text-brand-purple" />
+                          <p className="mt-4 text-lg font-medium">A mágica está acontecendo...</p>
+                          <p className="text-sm text-center">
+                            {streamingProvider ? `Aguardando a resposta de ${streamingProvider}...` : 'Pesquisando na web e escrevendo o conteúdo.'}
+                          </p>
+                      </div>
+                   ) : draft ? (
+                      <ArticlePreview 
+                        draft={draft} 
+                        sources={sources}
+                        generationType={generationType}
+                        onSendToEditor={handleSendToEditor}
+                        onEventCreate={handleCreateEvent}
+                        isActionLoading={isActionLoading}
+                        actionError={actionError}
+                        actionSuccess={actionSuccess}
+                        factFlags={factFlags}
+                        acknowledgedFlagIds={acknowledgedFlagIds}
+                        onAcknowledgeFlag={handleAcknowledgeFlag}
+                        headlineVariants={headlineVariants}
+                        isGeneratingHeadlines={isGeneratingHeadlines}
+                        selectedHeadlineIndex={selectedHeadlineIndex}
+                        onSelectHeadline={handleSelectHeadline}
+                      />
+                   ) : (
+                      <div className="flex flex-col items-center justify-center h-full text-gray-500">
+                           <ArticlePlaceholderIcon className="h-12 w-12" />
+                          <p className="mt-4 text-lg font-medium">Seu rascunho aparecerá aqui</p>
+                          <p className="text-sm text-center max-w-sm">Pronto para ser revisado e publicado no WordPress.</p>
+                      </div>
+                   )}
+                </div>
+            </div>
+            {!isLoading && draft && NOTICIA_TYPES.includes(generationType) && (
+              <SimilarPostsPanel
+                draft={draft as ArticleDraft}
+                wordPressCredentials={wordPressCredentials}
+                onMatchesChange={setSimilarPosts}
+                onOpenForUpdate={handleOpenForUpdate}
+              />
+            )}
+            {!isLoading && draft && !PROFILE_TYPES.includes(generationType) && (
+              <EntityLinkPanel
+                draft={draft as ArticleDraft | HistoriaDraft}
+                wordPressCredentials={wordPressCredentials}
+                onApplyLinks={handleApplyEntityLinks}
+                onRelationsChange={setEntityRelations}
+              />
+            )}
+            {!isLoading && draft && NOTICIA_TYPES.includes(generationType) && (
+              <SocialContentPanel source={sourceFromArticleDraft(draft as ArticleDraft)} systemInstruction={aiPreferences.systemInstruction} />
+            )}
+            {!isLoading && draft && !PROFILE_TYPES.includes(generationType) && (
+              <TranslationPanel
+                content={contentFromDraft(draft as ArticleDraft | HistoriaDraft)}
+                postType={generationType === 'historia' ? 'historia' : 'posts'}
+                sourcePostId={null}
+                wordPressCredentials={wordPressCredentials}
+              />
+            )}
           </div>
         </div>
+
+        <DraftLibrary
+          refreshKey={libraryRefreshKey}
+          activeDraftId={libraryDraftId}
+          siteUrl={wordPressCredentials.siteUrl}
+          onOpen={handleOpenSavedDraft}
+        />
       </div>
     </div>
   );
@@ -1,7 +1,10 @@
-import React from 'react';
-import { AnyDraft, GroundingSource, ExtractedFacts, GenerationType, ArticleDraft, HistoriaDraft, OrganizadorDraft } from '../types';
+import React, { useMemo } from 'react';
+import { AnyDraft, GroundingSource, ExtractedFacts, GenerationType, ArticleDraft, HistoriaDraft, OrganizadorDraft, ArtistaDraft, LugarDraft, FactFlag, FactFlagField, HeadlineVariant } from '../types';
 import { LinkIcon, SparklesIcon, PencilIcon, CheckCircleIcon, MapPinIcon, PhoneIcon, GlobeAltIcon, HashtagIcon, ImageIcon } from './icons/Icons';
 import LoadingSpinner from './LoadingSpinner';
+import { DEFAULT_PROMPT_TEMPLATES } from '../services/promptTemplates';
+import { highlightFactFlags } from '../services/factChecker';
+import { HEADLINE_STYLE_LABELS } from '../services/headlineVariants';
 
 interface ArticlePreviewProps {
   draft: AnyDraft;
@@ -12,6 +15,15 @@ interface ArticlePreviewProps {
   isActionLoading: boolean;
   actionError: string | null;
   actionSuccess: string | null;
+  isStreaming?: boolean;
+  streamingProvider?: string | null;
+  factFlags?: FactFlag[];
+  acknowledgedFlagIds?: Set<string>;
+  onAcknowledgeFlag?: (flagId: string, acknowledged: boolean) => void;
+  headlineVariants?: HeadlineVariant[];
+  isGeneratingHeadlines?: boolean;
+  selectedHeadlineIndex?: number;
+  onSelectHeadline?: (index: number) => void;
 }
 
 const tagColors: { [key: string]: string } = {
@@ -59,6 +71,57 @@ const VerifiedFacts: React.FC<{ facts: ExtractedFacts }> = ({ facts }) => {
     );
 };
 
+const NO_FLAGS: FactFlag[] = [];
+const NO_ACKNOWLEDGED_FLAGS = new Set<string>();
+const NO_HEADLINE_VARIANTS: HeadlineVariant[] = [];
+
+const flagFieldLabels: Record<FactFlagField, string> = {
+  nome_evento: 'Evento',
+  data: 'Data',
+  horario: 'Horário',
+  local: 'Local',
+  pessoa: 'Nome próprio',
+};
+
+const FactCheckPanel: React.FC<{
+  flags: FactFlag[];
+  acknowledgedIds: Set<string>;
+  onAcknowledge?: (flagId: string, acknowledged: boolean) => void;
+}> = ({ flags, acknowledgedIds, onAcknowledge }) => {
+    const pending = flags.filter(flag => !acknowledgedIds.has(flag.id)).length;
+
+    return (
+        <div className="p-4 bg-red-50 rounded-lg border border-red-200 space-y-3">
+            <div className="flex items-center justify-between text-sm font-semibold text-red-800">
+                <span>Verificação de Fatos</span>
+                <span className="text-xs font-medium">{pending > 0 ? `${pending} pendente(s)` : 'Tudo revisado'}</span>
+            </div>
+            <p className="text-xs text-red-700">
+                Trechos que contradizem os fatos verificados ou não aparecem no texto-fonte. Corrija no editor ou confirme que estão corretos.
+            </p>
+            <ul className="space-y-2">
+                {flags.map(flag => (
+                    <li key={flag.id} className="flex items-start space-x-2">
+                        <input
+                            type="checkbox"
+                            id={`flag-${flag.id}`}
+                            checked={acknowledgedIds.has(flag.id)}
+                            onChange={(e) => onAcknowledge?.(flag.id, e.target.checked)}
+                            className="mt-1 h-4 w-4 text-brand-purple border-gray-300 rounded"
+                        />
+                        <label htmlFor={`flag-${flag.id}`} className="text-sm text-gray-800">
+                            <span className={`text-xs font-medium px-2 py-0.5 rounded-full mr-2 ${flag.kind === 'contradicao' ? 'bg-red-200 text-red-900' : 'bg-yellow-200 text-yellow-900'}`}>
+                                {flagFieldLabels[flag.field]}
+                            </span>
+                            {flag.message}
+                        </label>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
 const SeoStrategy: React.FC<{ draft: ArticleDraft | HistoriaDraft }> = ({ draft }) => {
     // Debug: Log dos campos de SEO
     console.log('SeoStrategy - Draft recebido:', {
@@ -121,6 +184,104 @@ const OrganizadorInfo: React.FC<{ draft: OrganizadorDraft }> = ({ draft }) => {
     )
 }
 
+const scoreColor = (score: number) =>
+    score >= 70 ? 'text-green-700 bg-green-100' : score >= 40 ? 'text-yellow-800 bg-yellow-100' : 'text-red-700 bg-red-100';
+
+// Variações de título lado a lado; a escolhida substitui título e meta description do rascunho
+const HeadlineVariants: React.FC<{ variants: HeadlineVariant[]; isLoading: boolean; selectedIndex: number; onSelect?: (index: number) => void }> = ({ variants, isLoading, selectedIndex, onSelect }) => (
+    <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-3">
+        <div className="flex items-center text-sm font-semibold text-gray-600">
+            <SparklesIcon className="h-5 w-5 mr-2 text-brand-purple" />
+            <span>Variações de Título</span>
+            {isLoading && <span className="ml-2 flex items-center font-normal text-gray-500"><LoadingSpinner /> Gerando alternativas...</span>}
+        </div>
+        {variants.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {variants.map((variant, index) => {
+                    const isSelected = index === selectedIndex;
+                    const failedChecks = variant.checks.filter(check => check.status === 'fail');
+                    return (
+                        <div key={index} className={`p-3 bg-white rounded-md border flex flex-col ${isSelected ? 'border-brand-purple ring-1 ring-brand-purple' : 'border-gray-200'}`}>
+                            <div className="flex items-center justify-between gap-2 text-xs">
+                                <span className="font-semibold text-gray-500 uppercase tracking-wide">{HEADLINE_STYLE_LABELS[variant.style]}</span>
+                                <span className="flex gap-1">
+                                    <span className={`px-1.5 py-0.5 rounded font-medium ${scoreColor(variant.seo_score)}`}>SEO {variant.seo_score}</span>
+                                    <span className={`px-1.5 py-0.5 rounded font-medium ${scoreColor(variant.appeal_score)}`}>Apelo {variant.appeal_score}</span>
+                                </span>
+                            </div>
+                            <p className="mt-2 text-sm font-semibold text-gray-900">{variant.title}</p>
+                            <p className="mt-1 text-xs text-gray-500 italic">{variant.seo_description}</p>
+                            {failedChecks.length > 0 && (
+                                <ul className="mt-2 text-xs text-gray-500 list-disc pl-4">
+                                    {failedChecks.map(check => <li key={check.check}>{check.check}</li>)}
+                                </ul>
+                            )}
+                            <button
+                                type="button"
+                                onClick={() => onSelect?.(index)}
+                                disabled={isSelected}
+                                className={`mt-3 self-start px-2.5 py-1 text-xs font-medium rounded-md ${isSelected ? 'bg-brand-purple text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                            >
+                                {isSelected ? 'Em uso' : 'Usar este título'}
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+        )}
+    </div>
+);
+
+// Campos de meta do perfil (artista ou lugar), na ordem em que aparecem no editor
+const ProfileFields: React.FC<{ title: string; fields: { label: string; value: string | string[] | null }[] }> = ({ title, fields }) => {
+    const filled = fields.filter(field => Array.isArray(field.value) ? field.value.length > 0 : field.value);
+    if (filled.length === 0) return null;
+
+    return (
+        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-3">
+            <h3 className="text-sm font-semibold text-gray-600 uppercase tracking-wide">{title}</h3>
+            <dl className="grid grid-cols-1 sm:grid-cols-3 gap-x-4 gap-y-2 text-sm">
+                {filled.map(field => (
+                    <React.Fragment key={field.label}>
+                        <dt className="text-gray-500">{field.label}</dt>
+                        <dd className="sm:col-span-2 text-gray-800 whitespace-pre-line break-words">
+                            {Array.isArray(field.value) ? field.value.join('\n') : field.value}
+                        </dd>
+                    </React.Fragment>
+                ))}
+            </dl>
+        </div>
+    );
+};
+
+const ArtistaInfo: React.FC<{ draft: ArtistaDraft }> = ({ draft }) => (
+    <ProfileFields title="Dados do Artista" fields={[
+        { label: 'Tipo de Artista', value: draft.tipo_de_artista },
+        { label: 'Ano de Formação', value: draft.artista_ano_formacao },
+        { label: 'Cidade de Origem', value: draft.artista_origem },
+        { label: 'Website', value: draft.website },
+        { label: 'E-mail', value: draft.email },
+        { label: 'Telefone', value: draft.telefone },
+        { label: 'Redes Sociais', value: draft.redes_sociais },
+        { label: 'Vídeos', value: draft.videos_artistas },
+    ]} />
+);
+
+const LugarInfo: React.FC<{ draft: LugarDraft }> = ({ draft }) => (
+    <ProfileFields title="Dados do Lugar" fields={[
+        { label: 'Endereço', value: draft.endereco },
+        { label: 'Bairro', value: draft.bairro },
+        { label: 'Cidade', value: [draft.cidade, draft.estado].filter(Boolean).join(' - ') || null },
+        { label: 'CEP', value: draft.cep },
+        { label: 'Coordenadas', value: draft.latitude && draft.longitude ? `${draft.latitude}, ${draft.longitude}` : null },
+        { label: 'Horário de Funcionamento', value: draft.horario_de_funcionamento },
+        { label: 'Telefone', value: draft.telefone },
+        { label: 'E-mail', value: draft.email },
+        { label: 'Website', value: draft.website },
+        { label: 'Redes Sociais', value: draft.redes_sociais },
+    ]} />
+);
+
 const ImageSearchSuggestions: React.FC<{ searches: string[] }> = ({ searches }) => (
     <div className="p-4 bg-blue-50 rounded-lg border border-blue-200 space-y-3">
         <div className="flex items-center text-sm font-semibold text-blue-800">
@@ -145,18 +306,19 @@ const ImageSearchSuggestions: React.FC<{ searches: string[] }> = ({ searches })
 );
 
 
-const ArticlePreview: React.FC<ArticlePreviewProps> = ({ draft, sources, generationType, onSendToEditor, onEventCreate, isActionLoading, actionError, actionSuccess }) => {
+const ArticlePreview: React.FC<ArticlePreviewProps> = ({ draft, sources, generationType, onSendToEditor, onEventCreate, isActionLoading, actionError, actionSuccess, isStreaming = false, streamingProvider = null, factFlags = NO_FLAGS, acknowledgedFlagIds = NO_ACKNOWLEDGED_FLAGS, onAcknowledgeFlag, headlineVariants = NO_HEADLINE_VARIANTS, isGeneratingHeadlines = false, selectedHeadlineIndex = 0, onSelectHeadline }) => {
+  const pendingFlagCount = factFlags.filter(flag => !acknowledgedFlagIds.has(flag.id)).length;
   
   const renderHeader = () => {
-    if (generationType === 'organizador') {
-        const d = draft as OrganizadorDraft;
+    if (generationType === 'organizador' || generationType === 'artista' || generationType === 'lugar') {
+        const d = draft as OrganizadorDraft | ArtistaDraft | LugarDraft;
         return <h2 className="text-2xl font-bold text-gray-900">{d.title}</h2>
     }
     const d = draft as ArticleDraft | HistoriaDraft;
     return (
         <div className="space-y-1">
             <div className="flex flex-wrap items-center gap-2">
-                <span className={`text-xs font-medium px-2.5 py-0.5 rounded-full ${getTagColor(d.category)}`}>{d.category}</span>
+                {d.category && <span className={`text-xs font-medium px-2.5 py-0.5 rounded-full ${getTagColor(d.category)}`}>{d.category}</span>}
                 {'importance' in d && <span className={`text-xs font-medium px-2.5 py-0.5 rounded-full ${getTagColor(d.importance)}`}>Importância: {d.importance}</span>}
             </div>
             <h2 className="text-2xl font-bold text-gray-900">{d.title}</h2>
@@ -165,8 +327,12 @@ const ArticlePreview: React.FC<ArticlePreviewProps> = ({ draft, sources, generat
     );
   };
   
+  const rawBodyHtml = 'biography_html' in draft ? draft.biography_html
+    : 'description_html' in draft ? draft.description_html
+    : (draft as ArticleDraft | HistoriaDraft).article_body_html;
+  const bodyHtml = useMemo(() => highlightFactFlags(rawBodyHtml, factFlags), [rawBodyHtml, factFlags]);
+
   const renderBody = () => {
-      const bodyHtml = generationType === 'organizador' ? (draft as OrganizadorDraft).description_html : (draft as ArticleDraft | HistoriaDraft).article_body_html;
       const summary = 'summary' in draft ? draft.summary : '';
       return (
           <>
@@ -187,17 +353,34 @@ const ArticlePreview: React.FC<ArticlePreviewProps> = ({ draft, sources, generat
   return (
     <div className="flex flex-col h-full">
       <div className="flex-grow space-y-6 overflow-y-auto pr-2 text-gray-800">
+        {isStreaming && (
+            <div className="flex items-center text-sm text-brand-purple">
+                <SparklesIcon className="h-5 w-5 mr-2 animate-pulse" />
+                <span>Escrevendo em tempo real{streamingProvider ? ` com ${streamingProvider}` : ''}...</span>
+            </div>
+        )}
+
         {renderHeader()}
         
+        {!isStreaming && factFlags.length > 0 && (
+            <FactCheckPanel flags={factFlags} acknowledgedIds={acknowledgedFlagIds} onAcknowledge={onAcknowledgeFlag} />
+        )}
+
+        {!isStreaming && (isGeneratingHeadlines || headlineVariants.length > 0) && (
+            <HeadlineVariants variants={headlineVariants} isLoading={isGeneratingHeadlines} selectedIndex={selectedHeadlineIndex} onSelect={onSelectHeadline} />
+        )}
+
         {generationType === 'noticia' && (draft as ArticleDraft).verified_facts && <VerifiedFacts facts={(draft as ArticleDraft).verified_facts!} />}
         
-        {(generationType === 'noticia' || generationType === 'historia' || generationType === 'social') && <SeoStrategy draft={draft as ArticleDraft | HistoriaDraft}/>}
+        {!isStreaming && (generationType === 'noticia' || generationType === 'historia' || generationType === 'social' || generationType === 'roteiro') && <SeoStrategy draft={draft as ArticleDraft | HistoriaDraft}/>}
 
         {'suggested_image_searches' in draft && draft.suggested_image_searches && draft.suggested_image_searches.length > 0 && (
             <ImageSearchSuggestions searches={draft.suggested_image_searches} />
         )}
 
         {generationType === 'organizador' && <OrganizadorInfo draft={draft as OrganizadorDraft} />}
+        {!isStreaming && generationType === 'artista' && <ArtistaInfo draft={draft as ArtistaDraft} />}
+        {!isStreaming && generationType === 'lugar' && <LugarInfo draft={draft as LugarDraft} />}
 
         {generationType === 'noticia' && (draft as ArticleDraft).event_details && (
             <div className="p-4 bg-brand-yellow-dark/10 rounded-lg border border-brand-yellow-dark/50 space-y-3">
@@ -214,6 +397,13 @@ const ArticlePreview: React.FC<ArticlePreviewProps> = ({ draft, sources, generat
         )}
 
         {renderBody()}
+
+        {!isStreaming && 'structured_data' in draft && draft.structured_data && (
+            <details className="p-3 bg-gray-50 rounded-lg border border-gray-200 text-sm">
+                <summary className="cursor-pointer font-semibold text-gray-600">Dados estruturados (JSON-LD) anexados ao post</summary>
+                <pre className="mt-2 text-xs text-gray-700 whitespace-pre-wrap break-all max-h-64 overflow-y-auto">{draft.structured_data}</pre>
+            </details>
+        )}
         
         {'tags' in draft && draft.tags.length > 0 && (
           <div>
@@ -246,10 +436,17 @@ const ArticlePreview: React.FC<ArticlePreviewProps> = ({ draft, sources, generat
               <div className="text-sm flex-grow">
                 {actionError && <p className="text-red-600">{actionError}</p>}
                 {actionSuccess && <p className="text-green-600">{actionSuccess}</p>}
+                {pendingFlagCount > 0 && (
+                  <p className="text-xs text-red-600">Confirme os alertas da verificação de fatos para liberar o envio.</p>
+                )}
+                {draft.prompt_ref && (
+                  <p className="text-xs text-gray-400">
+                    Prompt: {DEFAULT_PROMPT_TEMPLATES[draft.prompt_ref.templateId].label} · {draft.prompt_ref.source === 'equipe' ? 'versão da equipe' : 'padrão'} v{draft.prompt_ref.version}
+                  </p>
+                )}
               </div>
-              <button onClick={onSendToEditor} className="flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-brand-blue-dark hover:bg-blue-700">
-                <PencilIcon className="h-5 w-5 mr-2" />
-                Revisar e Publicar
+              <button onClick={onSendToEditor} disabled={isStreaming || pendingFlagCount > 0} className="flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-brand-blue-dark hover:bg-blue-700 disabled:bg-gray-400">
+                {isStreaming ? <><LoadingSpinner /> Gerando...</> : <><PencilIcon className="h-5 w-5 mr-2" />Revisar e Publicar</>}
                 </button>
           </div>
       </div>
@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { ArticleUpdateDraft, WordPressCredentials, WordPressPost } from '../types';
+import { extractTextFromUrl, generateArticleUpdate } from '../services/geminiService';
+import { getCPTItemById, updateCPTItem } from '../services/wordpressService';
+import { DiffHunk, DiffSegment, applyHunks } from '../services/textDiff';
+import { buildArticleUpdateDiff, diffBlockWords, joinHtmlBlocks } from '../services/articleUpdate';
+import { useAppContext } from '../hooks/useAppContext';
+import { useToast } from '../hooks/useToast';
+import LoadingSpinner from './LoadingSpinner';
+import { ArrowPathIcon } from './icons/Icons';
+
+interface ArticleUpdatePanelProps {
+  postId: number;
+  initialInformation?: string;
+  wordPressCredentials: WordPressCredentials;
+  onUpdated: (post: WordPressPost) => void;
+  onClose: () => void;
+}
+
+type InputMode = 'texto' | 'url';
+
+const proseClass = 'prose prose-sm max-w-none prose-p:my-1';
+
+const decodeHtmlEntities = (text: string): string =>
+  new DOMParser().parseFromString(text, 'text/html').body.textContent || '';
+
+// Parágrafo reescrito (um bloco por um bloco): destaca as palavras alteradas
+const WordDiff: React.FC<{ before: string; after: string }> = ({ before, after }) => (
+  <p className="text-sm leading-relaxed">
+    {diffBlockWords(before, after).map((part, index) => (
+      <span
+        key={index}
+        className={part.type === 'removida' ? 'bg-red-100 text-red-800 line-through' : part.type === 'adicionada' ? 'bg-green-100 text-green-800' : 'text-gray-700'}
+      >
+        {part.text}
+      </span>
+    ))}
+  </p>
+);
+
+const HunkView: React.FC<{ hunk: DiffHunk; accepted: boolean; onToggle: () => void }> = ({ hunk, accepted, onToggle }) => {
+  const isRewrite = hunk.removed.length === hunk.added.length;
+  return (
+    <div className={`border rounded-md ${accepted ? 'border-green-300' : 'border-gray-300'}`}>
+      <div className="flex items-center justify-between px-3 py-1.5 bg-gray-50 border-b border-gray-200 text-xs">
+        <span className="font-semibold text-gray-600">
+          {hunk.removed.length === 0 ? 'Trecho novo' : hunk.added.length === 0 ? 'Trecho removido' : 'Trecho alterado'}
+        </span>
+        <button
+          type="button"
+          onClick={onToggle}
+          className={`px-2 py-0.5 rounded font-medium ${accepted ? 'bg-green-600 text-white' : 'bg-white border border-gray-300 text-gray-700'}`}
+        >
+          {accepted ? 'Aceito' : 'Rejeitado'}
+        </button>
+      </div>
+      <div className="p-3 space-y-2">
+        {isRewrite ? (
+          hunk.removed.map((block, index) => <WordDiff key={index} before={block} after={hunk.added[index]} />)
+        ) : (
+          <>
+            {hunk.removed.map((block, index) => (
+              <div key={`r${index}`} className={`${proseClass} bg-red-50 line-through opacity-75 px-2`} dangerouslySetInnerHTML={{ __html: block }} />
+            ))}
+            {hunk.added.map((block, index) => (
+              <div key={`a${index}`} className={`${proseClass} bg-green-50 px-2`} dangerouslySetInnerHTML={{ __html: block }} />
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const ArticleUpdatePanel: React.FC<ArticleUpdatePanelProps> = ({ postId, initialInformation, wordPressCredentials, onUpdated, onClose }) => {
+  const { aiPreferences } = useAppContext();
+  const { showToast } = useToast();
+
+  const [inputMode, setInputMode] = useState<InputMode>('texto');
+  const [newInformation, setNewInformation] = useState(initialInformation ?? '');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [originalTitle, setOriginalTitle] = useState('');
+  const [revision, setRevision] = useState<ArticleUpdateDraft | null>(null);
+  const [segments, setSegments] = useState<DiffSegment[]>([]);
+  const [acceptedIds, setAcceptedIds] = useState<Set<number>>(new Set());
+  const [acceptTitle, setAcceptTitle] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const hunks = segments.flatMap(segment => segment.type === 'alteracao' ? [segment.hunk] : []);
+  const titleChanged = revision !== null && revision.title.trim() !== originalTitle.trim();
+  const pendingChanges = acceptedIds.size + (titleChanged && acceptTitle ? 1 : 0);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    setRevision(null);
+    setSegments([]);
+    try {
+      // Parte sempre da versão salva no WordPress, não do que está aberto no editor
+      const post = await getCPTItemById(wordPressCredentials, 'posts', postId);
+      const title = decodeHtmlEntities(post.title.rendered);
+      const contentHtml = post.content?.raw || '';
+
+      let information = newInformation.trim();
+      if (inputMode === 'url') {
+        const extracted = await extractTextFromUrl(information);
+        if (!extracted) throw new Error('Não foi possível ler o conteúdo da URL. Cole o texto manualmente.');
+        information = extracted;
+      }
+
+      const { draft } = await generateArticleUpdate({ title, contentHtml }, information, aiPreferences.systemInstruction);
+      if (!draft) throw new Error('A IA não devolveu uma versão atualizada.');
+
+      const diff = buildArticleUpdateDiff(contentHtml, draft.article_body_html);
+      setOriginalTitle(title);
+      setRevision(draft);
+      setSegments(diff);
+      setAcceptedIds(new Set(diff.flatMap(segment => segment.type === 'alteracao' ? [segment.hunk.id] : [])));
+      setAcceptTitle(true);
+    } catch (e: any) {
+      console.error(e);
+      setError(`Não foi possível gerar a atualização: ${e.message}`);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const toggleHunk = (hunkId: number) =>
+    setAcceptedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(hunkId)) next.delete(hunkId); else next.add(hunkId);
+      return next;
+    });
+
+  const handleSave = async () => {
+    if (!revision) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const postData: any = {
+        title: titleChanged && acceptTitle ? revision.title : originalTitle,
+        content: joinHtmlBlocks(applyHunks(segments, acceptedIds)),
+      };
+      const updated = await updateCPTItem(wordPressCredentials, 'posts', postId, postData);
+      showToast('Matéria atualizada no WordPress!', 'success');
+      onUpdated(updated);
+    } catch (e: any) {
+      console.error(e);
+      setError(`Falha ao salvar a atualização: ${e.message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-brand-purple/40 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <ArrowPathIcon className="h-5 w-5 text-brand-purple mr-2" />
+          <h2 className="text-lg font-semibold text-gray-800">Atualizar Matéria com IA</h2>
+        </div>
+        <button type="button" onClick={onClose} className="text-sm text-gray-500 hover:text-gray-800">Fechar</button>
+      </div>
+      <p className="text-sm text-gray-500">
+        Informe o que mudou (novo comunicado, lugar fechado, nova data). A IA revisa a versão salva no WordPress e você escolhe quais trechos aceitar.
+      </p>
+
+      <div className="flex space-x-2 text-sm">
+        {(['texto', 'url'] as InputMode[]).map(mode => (
+          <button
+            key={mode}
+            type="button"
+            onClick={() => setInputMode(mode)}
+            className={`px-3 py-1 rounded-md border ${inputMode === mode ? 'bg-brand-purple text-white border-brand-purple' : 'bg-white text-gray-700 border-gray-300'}`}
+          >
+            {mode === 'texto' ? 'Colar texto' : 'A partir de URL'}
+          </button>
+        ))}
+      </div>
+      {inputMode === 'texto' ? (
+        <textarea rows={5} value={newInformation} onChange={(e) => setNewInformation(e.target.value)} disabled={isGenerating} className="block w-full p-2 border-gray-300 rounded-md shadow-sm text-sm" placeholder="Cole aqui as novas informações..." />
+      ) : (
+        <input type="url" value={newInformation} onChange={(e) => setNewInformation(e.target.value)} disabled={isGenerating} className="block w-full p-2 border-gray-300 rounded-md shadow-sm text-sm" placeholder="https://..." />
+      )}
+      <button
+        type="button"
+        onClick={handleGenerate}
+        disabled={isGenerating || !newInformation.trim()}
+        className="w-full flex justify-center items-center px-4 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-brand-purple hover:opacity-90 disabled:bg-gray-400"
+      >
+        {isGenerating ? <><LoadingSpinner /> Gerando versão atualizada...</> : revision ? 'Gerar Novamente' : 'Gerar Versão Atualizada'}
+      </button>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {revision && (
+        <div className="space-y-4 pt-4 border-t border-gray-200">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-600 uppercase tracking-wide">O que mudou</h3>
+            <ul className="mt-1 list-disc pl-5 text-sm text-gray-700">
+              {revision.change_notes.map(note => <li key={note}>{note}</li>)}
+            </ul>
+          </div>
+
+          {titleChanged && (
+            <label className="flex items-start p-3 border border-gray-200 rounded-md text-sm">
+              <input type="checkbox" checked={acceptTitle} onChange={(e) => setAcceptTitle(e.target.checked)} className="mt-1 h-4 w-4 rounded border-gray-300 text-brand-purple" />
+              <span className="ml-2">
+                <span className="block text-xs font-semibold text-gray-600">Novo título</span>
+                <span className="block text-red-700 line-through">{originalTitle}</span>
+                <span className="block text-green-700">{revision.title}</span>
+              </span>
+            </label>
+          )}
+
+          {hunks.length === 0 ? (
+            <p className="text-sm text-gray-500">A IA não alterou o corpo da matéria.</p>
+          ) : (
+            <>
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-gray-600">{acceptedIds.size} de {hunks.length} trecho(s) aceitos</span>
+                <div className="space-x-3">
+                  <button type="button" onClick={() => setAcceptedIds(new Set(hunks.map(hunk => hunk.id)))} className="text-brand-purple hover:underline">Aceitar todos</button>
+                  <button type="button" onClick={() => setAcceptedIds(new Set())} className="text-gray-600 hover:underline">Rejeitar todos</button>
+                </div>
+              </div>
+              <div className="space-y-3 max-h-[32rem] overflow-y-auto">
+                {segments.map((segment, index) => segment.type === 'igual' ? (
+                  <p key={index} className="text-xs text-gray-400 italic">
+                    {segment.items.length} bloco(s) sem alteração
+                  </p>
+                ) : (
+                  <HunkView key={index} hunk={segment.hunk} accepted={acceptedIds.has(segment.hunk.id)} onToggle={() => toggleHunk(segment.hunk.id)} />
+                ))}
+              </div>
+            </>
+          )}
+
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving || pendingChanges === 0}
+            className="w-full flex justify-center items-center px-4 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-brand-red hover:bg-red-700 disabled:bg-gray-400"
+          >
+            {isSaving ? <><LoadingSpinner /> Salvando...</> : `Aplicar ${pendingChanges} alteração(ões) no WordPress`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArticleUpdatePanel;
@@ -1,17 +1,24 @@
 import React, { useState, useEffect } from 'react';
-import { WordPressCredentials, WordPressPost } from '../types';
-import { createCPTItem, getCPTItemById, updateCPTItem, uploadMedia } from '../services/wordpressService';
+import { InitialArtistaData, WordPressCredentials, WordPressPost, WordPressMedia } from '../types';
+import { getCPTItemById } from '../services/wordpressService';
 import LoadingSpinner from './LoadingSpinner';
 import ImageCropperModal from './ImageCropperModal';
-import { CameraIcon, ImageIcon, PlusIcon, TrashIcon } from './icons/Icons';
+import RevisionHistoryModal from './RevisionHistoryModal';
+import MediaLibraryModal from './MediaLibraryModal';
+import MediaGalleryField from './MediaGalleryField';
+import { CameraIcon, ImageIcon, PlusIcon, TrashIcon, ClockIcon } from './icons/Icons';
 import { useToast } from '../hooks/useToast';
 import { useQuillEditor } from '../hooks/useQuillEditor';
+import { offlineQueue, QUEUED_SAVE_MESSAGES } from '../services/offlineQueue';
+import { GALLERY_META_KEY, parseGalleryIds } from '../services/mediaLibrary';
 
 interface ArtistaEditorProps {
     artistaId?: number;
+    initialData?: InitialArtistaData | null;
     wordPressCredentials: WordPressCredentials;
     onSave: () => void;
     onCancel: () => void;
+    onReload?: () => void; // Remonta o editor com os dados do servidor (ex.: depois de restaurar uma revisão)
 }
 
 // Helper component for repeater fields
@@ -76,7 +83,7 @@ const RepeaterField: React.FC<{
 };
 
 
-const ArtistaEditor: React.FC<ArtistaEditorProps> = ({ artistaId, wordPressCredentials, onSave, onCancel }) => {
+const ArtistaEditor: React.FC<ArtistaEditorProps> = ({ artistaId, initialData, wordPressCredentials, onSave, onCancel, onReload }) => {
     const [title, setTitle] = useState('');
     const [content, setContent] = useState('');
     const [status, setStatus] = useState<WordPressPost['status']>('draft');
@@ -90,15 +97,20 @@ const ArtistaEditor: React.FC<ArtistaEditorProps> = ({ artistaId, wordPressCrede
     const [telefones, setTelefones] = useState<string[]>(['']);
     const [redesSociais, setRedesSociais] = useState<string[]>(['']);
     const [videos, setVideos] = useState<string[]>(['']);
+    const [galeria, setGaleria] = useState<number[]>([]);
 
     const { editorRef, initializeQuill, setContent: setQuillContent } = useQuillEditor('Adicione uma biografia ou descrição do artista...');
 
     const [featuredImageUrl, setFeaturedImageUrl] = useState<string | null>(null);
     const [imageToCrop, setImageToCrop] = useState<string | null>(null);
     const [croppedImageFile, setCroppedImageFile] = useState<File | null>(null);
+    const [featuredMediaId, setFeaturedMediaId] = useState<number | null>(null);
 
     const [isLoading, setIsLoading] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
+    const [serverModified, setServerModified] = useState<string | null>(null);
+    const [showRevisions, setShowRevisions] = useState(false);
+    const [showMediaLibrary, setShowMediaLibrary] = useState(false);
     
     const { showToast } = useToast();
     const isEditing = artistaId !== undefined;
@@ -107,6 +119,26 @@ const ArtistaEditor: React.FC<ArtistaEditorProps> = ({ artistaId, wordPressCrede
         initializeQuill(setContent);
     }, [initializeQuill]);
 
+    // Perfil gerado no Assistente IA
+    useEffect(() => {
+        if (initialData) {
+            setTitle(initialData.title);
+            setContent(initialData.content);
+            // Add a small delay to ensure Quill is fully initialized before setting content
+            setTimeout(() => {
+                setQuillContent(initialData.content);
+            }, 100);
+            setTipoDeArtista(initialData.tipoDeArtista);
+            setAnoFormacao(initialData.anoFormacao);
+            setCidadeOrigem(initialData.cidadeOrigem);
+            setWebsite(initialData.website);
+            setEmail(initialData.email);
+            setTelefones(initialData.telefones.length > 0 ? initialData.telefones : ['']);
+            setRedesSociais(initialData.redesSociais.length > 0 ? initialData.redesSociais : ['']);
+            setVideos(initialData.videos.length > 0 ? initialData.videos : ['']);
+        }
+    }, [initialData, setQuillContent]);
+
     useEffect(() => {
         const fetchArtistaData = async () => {
             if (!isEditing || !wordPressCredentials.siteUrl) return;
@@ -122,6 +154,7 @@ const ArtistaEditor: React.FC<ArtistaEditorProps> = ({ artistaId, wordPressCrede
                 }, 100);
                 
                 setStatus(artista.status);
+                setServerModified(artista.modified_gmt ?? null);
                 
                 // Populate meta fields
                 const meta = artista.meta || {};
@@ -135,6 +168,7 @@ const ArtistaEditor: React.FC<ArtistaEditorProps> = ({ artistaId, wordPressCrede
                 setTelefones(Array.isArray(meta.telefone) && meta.telefone.length > 0 ? meta.telefone : ['']);
                 setRedesSociais(Array.isArray(meta.redes_sociais) && meta.redes_sociais.length > 0 ? meta.redes_sociais : ['']);
                 setVideos(Array.isArray(meta.videos_artistas) && meta.videos_artistas.length > 0 ? meta.videos_artistas : ['']);
+                setGaleria(parseGalleryIds(meta[GALLERY_META_KEY]));
 
                 const featuredMedia = artista._embedded?.['wp:featuredmedia']?.[0];
                 if (featuredMedia?.source_url) {
@@ -160,20 +194,23 @@ const ArtistaEditor: React.FC<ArtistaEditorProps> = ({ artistaId, wordPressCrede
     const handleCropComplete = (blob: Blob) => {
         const file = new File([blob], "featured-image.webp", { type: "image/webp" });
         setCroppedImageFile(file);
+        setFeaturedMediaId(null);
         setFeaturedImageUrl(URL.createObjectURL(file));
         setImageToCrop(null);
     };
 
+    // Anexo que já está na biblioteca: vai direto como featured_media, sem novo upload
+    const handleLibrarySelect = ([media]: WordPressMedia[]) => {
+        setCroppedImageFile(null);
+        setFeaturedMediaId(media.id);
+        setFeaturedImageUrl(media.source_url);
+        setShowMediaLibrary(false);
+    };
+
     const handleSave = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsSaving(true);
         try {
-            let featuredMediaId: number | undefined;
-            if (croppedImageFile) {
-                const uploadedMedia = await uploadMedia(wordPressCredentials, croppedImageFile);
-                featuredMediaId = uploadedMedia.id;
-            }
-            
             const itemData: any = { 
                 title, 
                 content, 
@@ -188,17 +225,26 @@ const ArtistaEditor: React.FC<ArtistaEditorProps> = ({ artistaId, wordPressCrede
                     telefone: telefones.filter(t => t && t.trim() !== ''),
                     redes_sociais: redesSociais.filter(r => r && r.trim() !== ''),
                     videos_artistas: videos.filter(v => v && v.trim() !== ''),
+                    [GALLERY_META_KEY]: galeria,
                 }
             };
-            if (featuredMediaId) {
-                itemData.featured_media = featuredMediaId;
-            }
 
-            if (isEditing) {
-                await updateCPTItem(wordPressCredentials, 'artista', artistaId, itemData);
+            if (featuredMediaId) itemData.featured_media = featuredMediaId;
+
+            const outcome = await offlineQueue.save(wordPressCredentials, {
+                postType: 'artista',
+                itemId: isEditing ? artistaId : null,
+                title,
+                data: itemData,
+                mediaFile: croppedImageFile,
+                baseModified: serverModified,
+                draftId: initialData?.draftId,
+            });
+            if (outcome !== 'sincronizado') {
+                showToast(QUEUED_SAVE_MESSAGES[outcome], outcome === 'conflito' ? 'error' : 'info');
+            } else if (isEditing) {
                 showToast('Artista atualizado com sucesso!', 'success');
             } else {
-                await createCPTItem(wordPressCredentials, 'artista', itemData);
                 showToast('Artista criado com sucesso!', 'success');
             }
             onSave();
@@ -215,11 +261,34 @@ const ArtistaEditor: React.FC<ArtistaEditorProps> = ({ artistaId, wordPressCrede
 
     return (
         <div className="p-4 sm:p-6 lg:p-8 bg-gray-50 min-h-full">
+            {isEditing && showRevisions && (
+                <RevisionHistoryModal
+                    postType="artista"
+                    itemId={artistaId}
+                    wordPressCredentials={wordPressCredentials}
+                    onRestored={() => (onReload ?? onSave)()}
+                    onClose={() => setShowRevisions(false)}
+                />
+            )}
+            {showMediaLibrary && (
+                <MediaLibraryModal
+                    wordPressCredentials={wordPressCredentials}
+                    title="Imagem destacada"
+                    onSelect={handleLibrarySelect}
+                    onClose={() => setShowMediaLibrary(false)}
+                />
+            )}
             {imageToCrop && <ImageCropperModal imageSrc={imageToCrop} onClose={() => setImageToCrop(null)} onCropComplete={handleCropComplete} />}
             <form onSubmit={handleSave}>
                 <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 sm:gap-0 mb-6">
                     <h1 className="text-3xl font-bold text-gray-900">{isEditing ? 'Editar Artista' : 'Criar Novo Artista'}</h1>
                     <div className="flex items-center space-x-3">
+                        {isEditing && (
+                            <button type="button" onClick={() => setShowRevisions(true)} className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50">
+                                <ClockIcon className="h-4 w-4 mr-1" />
+                                Revisões
+                            </button>
+                        )}
                         <button type="button" onClick={onCancel} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50">Cancelar</button>
                         <button type="submit" disabled={isSaving} className="flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-recife-red hover:bg-red-700 disabled:bg-gray-400">
                             {isSaving ? <><LoadingSpinner /> Salvando...</> : 'Salvar Artista'}
@@ -260,10 +329,7 @@ const ArtistaEditor: React.FC<ArtistaEditorProps> = ({ artistaId, wordPressCrede
                                     <input type="text" id="cidadeOrigem" value={cidadeOrigem} onChange={e => setCidadeOrigem(e.target.value)} className="block w-full p-2 border-gray-300 rounded-md shadow-sm" />
                                 </div>
                                 <div className="md:col-span-2">
-                                    <label className="block text-sm font-medium text-gray-700 mb-2">Galeria</label>
-                                    <button type="button" className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50">
-                                        Gerenciar Mídia
-                                    </button>
+                                    <MediaGalleryField label="Galeria" wordPressCredentials={wordPressCredentials} mediaIds={galeria} onChange={setGaleria} />
                                 </div>
                                 <div className="md:col-span-2">
                                     <RepeaterField label="Vídeos" items={videos} setItems={setVideos} placeholder="https://youtube.com/..." />
@@ -317,6 +383,9 @@ const ArtistaEditor: React.FC<ArtistaEditorProps> = ({ artistaId, wordPressCrede
                                 <span>{featuredImageUrl ? 'Trocar Imagem' : 'Enviar Imagem'}</span>
                             </label>
                             <input id="image-upload" type="file" className="sr-only" accept="image/*" onChange={handleImageSelect} />
+                            <button type="button" onClick={() => setShowMediaLibrary(true)} className="mt-2 w-full flex justify-center items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50">
+                                <ImageIcon className="h-5 w-5 mr-2" /><span>Escolher da Biblioteca</span>
+                            </button>
                         </div>
                     </div>
                 </div>
@@ -1,6 +1,9 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { WordPressCredentials, WordPressPost } from '../types';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { OfflineSave, OfflineSaveStatus, WordPressCredentials, WordPressPost } from '../types';
 import { deleteCPTItem, getCPTItems } from '../services/wordpressService';
+import { OFFLINE_STATUS_LABELS, offlineQueue } from '../services/offlineQueue';
+import { useOfflineQueue } from '../hooks/useOfflineQueue';
+import { useToast } from '../hooks/useToast';
 import { DocumentTextIcon, PencilIcon, TrashIcon, ImageIcon } from './icons/Icons';
 
 interface CptManagerPageProps {
@@ -28,6 +31,13 @@ const statusLabels: { [key: string]: string } = {
     future: 'Agendado',
 };
 
+const syncStatusStyles: Record<OfflineSaveStatus, string> = {
+    pendente: 'bg-gray-100 text-gray-700',
+    sincronizando: 'bg-blue-100 text-blue-800',
+    erro: 'bg-red-100 text-red-800',
+    conflito: 'bg-orange-100 text-orange-800',
+};
+
 // Function to decode HTML entities
 const decodeHtmlEntities = (text: string): string => {
     const textarea = document.createElement('textarea');
@@ -93,6 +103,31 @@ const Pagination: React.FC<{ currentPage: number, totalPages: number, onPageChan
 }
 
 
+// Situação de um salvamento que ainda está na fila offline, com as ações para resolvê-lo
+const SyncStatus: React.FC<{
+    entry: OfflineSave;
+    onRetry: (entry: OfflineSave) => void;
+    onOverwrite: (entry: OfflineSave) => void;
+    onDiscard: (entry: OfflineSave) => void;
+}> = ({ entry, onRetry, onOverwrite, onDiscard }) => (
+    <div className="flex flex-col items-start gap-1">
+        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${syncStatusStyles[entry.status]}`} title={entry.error || 'Alterações salvas neste navegador, ainda não enviadas ao WordPress'}>
+            {OFFLINE_STATUS_LABELS[entry.status]}
+        </span>
+        {(entry.status === 'erro' || entry.status === 'conflito') && (
+            <div className="flex items-center gap-2 text-xs">
+                {entry.status === 'conflito' ? (
+                    <button onClick={() => onOverwrite(entry)} className="text-brand-purple hover:underline">Sobrescrever</button>
+                ) : (
+                    <button onClick={() => onRetry(entry)} className="text-brand-purple hover:underline">Tentar novamente</button>
+                )}
+                <button onClick={() => onDiscard(entry)} className="text-gray-500 hover:text-brand-red">Descartar</button>
+            </div>
+        )}
+    </div>
+);
+
+
 const CptManagerPage: React.FC<CptManagerPageProps> = ({ postType, postTypeName, wordPressCredentials, onCreate, onEdit }) => {
   const [items, setItems] = useState<WordPressPost[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -102,6 +137,11 @@ const CptManagerPage: React.FC<CptManagerPageProps> = ({ postType, postTypeName,
   const [totalPages, setTotalPages] = useState(1);
   const [selectedStatus, setSelectedStatus] = useState<string>('all');
 
+  const { showToast } = useToast();
+  const { entries: queuedSaves, isOnline } = useOfflineQueue(postType);
+  const queuedByItemId = new Map(queuedSaves.filter(entry => entry.itemId !== null).map(entry => [entry.itemId!, entry]));
+  const localOnlySaves = queuedSaves.filter(entry => entry.itemId === null);
+  const [isSyncing, setIsSyncing] = useState(false);
 
   const fetchItems = useCallback(async () => {
     if (!wordPressCredentials.siteUrl || !wordPressCredentials.username || !wordPressCredentials.applicationPassword) {
@@ -126,6 +166,54 @@ const CptManagerPage: React.FC<CptManagerPageProps> = ({ postType, postTypeName,
     fetchItems();
   }, [fetchItems]);
 
+  // Quando algo sai da fila é porque chegou ao WordPress (ou foi descartado): recarrega a lista
+  const previousQueueSize = useRef(queuedSaves.length);
+  useEffect(() => {
+    if (queuedSaves.length < previousQueueSize.current) fetchItems();
+    previousQueueSize.current = queuedSaves.length;
+  }, [queuedSaves.length, fetchItems]);
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    try {
+      const synced = await offlineQueue.syncAll(wordPressCredentials);
+      showToast(synced > 0 ? `${synced} alteração(ões) enviada(s) ao WordPress.` : 'Nenhuma alteração pôde ser enviada agora.', synced > 0 ? 'success' : 'info');
+    } catch (e: any) {
+      showToast(e.message || 'Falha ao sincronizar as alterações.', 'error');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleRetry = async (entry: OfflineSave) => {
+    // Criação sem confirmação de que chegou ao WordPress: tentar de novo pode duplicar o item
+    const createAgain = !entry.itemId && Boolean(entry.createSentAt);
+    if (createAgain && !window.confirm(`Não foi possível confirmar se "${entry.title}" foi criado no WordPress. Se ele não aparece na lista de itens, crie de novo. Criar o item agora?`)) return;
+    try {
+      const outcome = createAgain
+        ? await offlineQueue.overwrite(wordPressCredentials, entry.key)
+        : await offlineQueue.retry(wordPressCredentials, entry.key);
+      if (outcome === 'sincronizado') showToast(`"${entry.title}" enviado ao WordPress.`, 'success');
+    } catch (e: any) {
+      showToast(e.message || 'Falha ao enviar ao WordPress.', 'error');
+    }
+  };
+
+  const handleOverwrite = async (entry: OfflineSave) => {
+    if (!window.confirm('O item foi alterado no WordPress depois que você o abriu. Substituir a versão do site pelas suas alterações?')) return;
+    try {
+      const outcome = await offlineQueue.overwrite(wordPressCredentials, entry.key);
+      if (outcome === 'sincronizado') showToast(`"${entry.title}" atualizado no WordPress.`, 'success');
+    } catch (e: any) {
+      showToast(e.message || 'Falha ao enviar ao WordPress.', 'error');
+    }
+  };
+
+  const handleDiscard = async (entry: OfflineSave) => {
+    if (!window.confirm('Descartar as alterações salvas neste navegador? Elas não poderão ser recuperadas.')) return;
+    await offlineQueue.discard(entry.key);
+  };
+
   const handleDelete = async (postId: number) => {
     if (window.confirm('Tem certeza que deseja excluir este item permanentemente?')) {
         try {
@@ -193,6 +281,7 @@ const CptManagerPage: React.FC<CptManagerPageProps> = ({ postType, postTypeName,
                             <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Imagem</th>
                             <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Título</th>
                             <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sincronização</th>
                             <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Data</th>
                             <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ações</th>
                         </tr>
@@ -221,6 +310,13 @@ const CptManagerPage: React.FC<CptManagerPageProps> = ({ postType, postTypeName,
                                             {item.status}
                                         </span>
                                     </td>
+                                    <td className="px-6 py-4 whitespace-nowrap">
+                                        {queuedByItemId.has(item.id) ? (
+                                            <SyncStatus entry={queuedByItemId.get(item.id)!} onRetry={handleRetry} onOverwrite={handleOverwrite} onDiscard={handleDiscard} />
+                                        ) : (
+                                            <span className="text-xs text-gray-400">Sincronizado</span>
+                                        )}
+                                    </td>
                                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                                         {new Date(item.date).toLocaleDateString('pt-BR')}
                                     </td>
@@ -298,6 +394,39 @@ const CptManagerPage: React.FC<CptManagerPageProps> = ({ postType, postTypeName,
           </select>
         </div>
         
+        {(!isOnline || queuedSaves.length > 0) && (
+          <div className={`mb-4 p-4 rounded-lg border ${isOnline ? 'bg-white border-gray-200' : 'bg-yellow-50 border-yellow-200'}`}>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+              <p className={`text-sm ${isOnline ? 'text-gray-700' : 'text-yellow-800'}`}>
+                {isOnline ? '' : 'Sem conexão. As alterações salvas nos editores ficam neste navegador e serão enviadas quando a conexão voltar. '}
+                {queuedSaves.length > 0 && `${queuedSaves.length} alteração(ões) aguardando envio ao WordPress.`}
+              </p>
+              {isOnline && queuedSaves.some(entry => entry.status === 'pendente') && (
+                <button
+                  onClick={handleSyncNow}
+                  disabled={isSyncing}
+                  className="px-3 py-1.5 bg-white border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {isSyncing ? 'Sincronizando...' : 'Sincronizar agora'}
+                </button>
+              )}
+            </div>
+            {localOnlySaves.length > 0 && (
+              <ul className="mt-3 divide-y divide-gray-100">
+                {localOnlySaves.map(entry => (
+                  <li key={entry.key} className="py-2 flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-800 truncate">{entry.title || 'Sem título'}</p>
+                      <p className="text-xs text-gray-500">Item novo, salvo em {new Date(entry.updatedAt).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}</p>
+                    </div>
+                    <SyncStatus entry={entry} onRetry={handleRetry} onOverwrite={handleOverwrite} onDiscard={handleDiscard} />
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {renderContent()}
 
       </div>
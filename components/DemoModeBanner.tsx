@@ -0,0 +1,24 @@
+import React, { useState, useEffect } from 'react';
+import { AiMode } from '../types';
+import { getAiMode, onAiModeChange } from '../services/aiFixtures';
+
+// Aviso global de que a IA está respondendo com fixtures (demonstração) ou gravando respostas
+const DemoModeBanner: React.FC = () => {
+  const [mode, setMode] = useState<AiMode>(getAiMode());
+
+  useEffect(() => onAiModeChange(setMode), []);
+
+  if (mode === 'live') return null;
+
+  return (
+    <div className={`px-4 py-2 text-sm text-center border-b ${
+      mode === 'demo' ? 'bg-yellow-100 text-yellow-800 border-yellow-200' : 'bg-red-50 text-red-700 border-red-200'
+    }`}>
+      {mode === 'demo'
+        ? 'Modo demonstração: as respostas da IA vêm de fixtures gravadas, sem acesso à rede.'
+        : 'Modo gravação: as respostas da IA estão sendo salvas como fixtures neste navegador.'}
+    </div>
+  );
+};
+
+export default DemoModeBanner;
@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { GenerationType, SavedDraft, SavedDraftStatus } from '../types';
+import { DRAFT_STATUS_LABELS, DraftLibraryFilters, draftLibraryService } from '../services/draftLibrary';
+import { useToast } from '../hooks/useToast';
+import LoadingSpinner from './LoadingSpinner';
+import { ArchiveBoxArrowDownIcon, MagnifyingGlassIcon } from './icons/Icons';
+
+interface DraftLibraryProps {
+  refreshKey: number; // Incrementado pelo assistente a cada rascunho salvo ou enviado
+  activeDraftId: string | null;
+  siteUrl: string;
+  onOpen: (saved: SavedDraft) => void;
+}
+
+const GENERATION_TYPE_LABELS: Record<GenerationType, string> = {
+  noticia: 'Notícia',
+  evento: 'Evento',
+  social: 'Rede social',
+  historia: 'História',
+  organizador: 'Organizador',
+  roteiro: 'Roteiro',
+  artista: 'Artista',
+  lugar: 'Lugar',
+};
+
+const statusColors: Record<SavedDraftStatus, string> = {
+  novo: 'bg-blue-100 text-blue-800',
+  enviado: 'bg-yellow-100 text-yellow-800',
+  publicado: 'bg-green-100 text-green-800',
+  descartado: 'bg-gray-100 text-gray-600',
+};
+
+const selectClasses = 'p-2 border-gray-300 rounded-md shadow-sm text-sm focus:ring-brand-purple focus:border-brand-purple';
+
+const DraftLibrary: React.FC<DraftLibraryProps> = ({ refreshKey, activeDraftId, siteUrl, onOpen }) => {
+  const { showToast } = useToast();
+  const [filters, setFilters] = useState<DraftLibraryFilters>({ search: '', status: 'todos', generationType: 'todos' });
+  const [drafts, setDrafts] = useState<SavedDraft[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // A busca espera o usuário parar de digitar
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const result = await draftLibraryService.list(filters);
+        if (!cancelled) setDrafts(result);
+      } catch (e: any) {
+        if (!cancelled) setError(e.message);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [filters, refreshKey, reloadKey]);
+
+  const handleSetStatus = async (saved: SavedDraft, status: SavedDraftStatus) => {
+    try {
+      await draftLibraryService.setStatus(saved.id, status);
+      setReloadKey(key => key + 1);
+    } catch (e: any) {
+      showToast(e.message, 'error');
+    }
+  };
+
+  // O post fica no site em que foi criado, que pode não ser o conectado agora
+  const postUrl = (saved: SavedDraft) => {
+    const base = saved.wp_site_url ?? siteUrl;
+    return `${base.endsWith('/') ? base.slice(0, -1) : base}/?p=${saved.wp_post_id}`;
+  };
+
+  return (
+    <div className="mt-8 bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <ArchiveBoxArrowDownIcon className="h-5 w-5 text-brand-purple mr-2" />
+          <h2 className="text-lg font-semibold text-gray-800">Biblioteca de Rascunhos</h2>
+        </div>
+        {isLoading && <span className="flex items-center text-xs text-gray-500"><LoadingSpinner /> Carregando...</span>}
+      </div>
+      <p className="mt-1 text-sm text-gray-500">
+        Todas as gerações suas e da equipe ficam guardadas aqui, com a entrada, o provedor e a versão do prompt. Abra um rascunho para revisá-lo e enviá-lo ao editor.
+      </p>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        <div className="relative flex-grow min-w-[12rem]">
+          <MagnifyingGlassIcon className="h-4 w-4 text-gray-400 absolute left-2.5 top-3" />
+          <input
+            type="search"
+            value={filters.search}
+            onChange={(e) => setFilters(prev => ({ ...prev, search: e.target.value }))}
+            className={`${selectClasses} w-full pl-8`}
+            placeholder="Buscar por título ou texto de entrada..."
+          />
+        </div>
+        <select value={filters.status} onChange={(e) => setFilters(prev => ({ ...prev, status: e.target.value as DraftLibraryFilters['status'] }))} className={selectClasses} aria-label="Status">
+          <option value="todos">Todos os status</option>
+          {(Object.keys(DRAFT_STATUS_LABELS) as SavedDraftStatus[]).map(status => (
+            <option key={status} value={status}>{DRAFT_STATUS_LABELS[status]}</option>
+          ))}
+        </select>
+        <select value={filters.generationType} onChange={(e) => setFilters(prev => ({ ...prev, generationType: e.target.value as DraftLibraryFilters['generationType'] }))} className={selectClasses} aria-label="Tipo">
+          <option value="todos">Todos os tipos</option>
+          {(Object.keys(GENERATION_TYPE_LABELS) as GenerationType[]).map(type => (
+            <option key={type} value={type}>{GENERATION_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+      {!isLoading && !error && drafts.length === 0 && (
+        <p className="mt-4 text-sm text-gray-500">Nenhum rascunho encontrado.</p>
+      )}
+
+      {drafts.length > 0 && (
+        <ul className="mt-4 divide-y divide-gray-100 max-h-[28rem] overflow-y-auto">
+          {drafts.map(saved => (
+            <li key={saved.id} className={`py-3 px-2 flex items-start justify-between gap-3 ${saved.id === activeDraftId ? 'bg-brand-purple/5' : ''}`}>
+              <div className="min-w-0 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className={`flex-shrink-0 px-2 py-0.5 text-xs rounded-full ${statusColors[saved.status]}`}>{DRAFT_STATUS_LABELS[saved.status]}</span>
+                  <span className="font-medium text-gray-800 truncate">{saved.title}</span>
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  {[
+                    GENERATION_TYPE_LABELS[saved.generation_type] ?? saved.generation_type,
+                    new Date(saved.created_at).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' }),
+                    saved.provider,
+                    saved.prompt_ref ? `prompt ${saved.prompt_ref.templateId} v${saved.prompt_ref.version}${saved.prompt_ref.source === 'equipe' ? ' (equipe)' : ''}` : null,
+                  ].filter(Boolean).join(' · ')}
+                </p>
+                <p className="mt-0.5 text-xs text-gray-400 truncate">{saved.input_text}</p>
+                {saved.wp_post_id && (
+                  <a href={postUrl(saved)} target="_blank" rel="noopener noreferrer" className="mt-0.5 inline-block text-xs text-brand-blue-dark hover:underline">
+                    Post #{saved.wp_post_id} no WordPress
+                  </a>
+                )}
+              </div>
+              <div className="flex-shrink-0 flex flex-col items-end gap-1">
+                <button type="button" onClick={() => onOpen(saved)} className="px-2 py-1 text-xs font-medium rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50">
+                  Abrir
+                </button>
+                {saved.status === 'descartado' ? (
+                  <button type="button" onClick={() => handleSetStatus(saved, 'novo')} className="text-xs text-gray-500 hover:text-gray-800">Restaurar</button>
+                ) : saved.status === 'novo' && (
+                  <button type="button" onClick={() => handleSetStatus(saved, 'descartado')} className="text-xs text-gray-500 hover:text-red-600">Descartar</button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DraftLibrary;
@@ -0,0 +1,267 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { CalendarEntry, WordPressAuthor, WordPressCredentials, WordPressPost } from '../types';
+import { getAuthors, getCPTItemsByDateRange, updateCPTItem } from '../services/wordpressService';
+import {
+  AGENDA_LOOKBACK_DAYS, CalendarView, addDays, buildEntries, calendarDays, findGaps, rangeBounds, rescheduleTarget, shiftAnchor, toDayKey,
+} from '../services/editorialCalendar';
+import { useToast } from '../hooks/useToast';
+import LoadingSpinner from './LoadingSpinner';
+import { CalendarDaysIcon } from './icons/Icons';
+
+interface EditorialCalendarPageProps {
+  wordPressCredentials: WordPressCredentials;
+}
+
+const POST_TYPES: { postType: string; label: string; color: string }[] = [
+  { postType: 'posts', label: 'Notícias', color: 'bg-red-50 border-red-200 text-red-800' },
+  { postType: 'agenda', label: 'Agenda', color: 'bg-purple-50 border-purple-200 text-purple-800' },
+  { postType: 'artista', label: 'Artistas', color: 'bg-blue-50 border-blue-200 text-blue-800' },
+  { postType: 'historia', label: 'Histórias', color: 'bg-amber-50 border-amber-200 text-amber-800' },
+  { postType: 'organizador', label: 'Organizadores', color: 'bg-teal-50 border-teal-200 text-teal-800' },
+  { postType: 'lugar', label: 'Lugares', color: 'bg-green-50 border-green-200 text-green-800' },
+];
+
+const typeColors = Object.fromEntries(POST_TYPES.map(type => [type.postType, type.color]));
+
+const statusLabels: Record<WordPressPost['status'], string> = {
+  publish: 'Publicado',
+  future: 'Agendado',
+  draft: 'Rascunho',
+  pending: 'Pendente',
+  private: 'Privado',
+};
+
+const WEEKDAYS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+const periodTitle = (view: CalendarView, days: Date[], anchor: Date): string => {
+  if (view === 'mes') {
+    const title = anchor.toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' });
+    return title.charAt(0).toUpperCase() + title.slice(1);
+  }
+  const format = (day: Date) => day.toLocaleDateString('pt-BR', { day: '2-digit', month: 'short' });
+  return `${format(days[0])} – ${format(days[days.length - 1])}`;
+};
+
+const EditorialCalendarPage: React.FC<EditorialCalendarPageProps> = ({ wordPressCredentials }) => {
+  const { showToast } = useToast();
+  const [view, setView] = useState<CalendarView>('mes');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [itemsByType, setItemsByType] = useState<Record<string, WordPressPost[]>>({});
+  const [authors, setAuthors] = useState<WordPressAuthor[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadErrors, setLoadErrors] = useState<string[]>([]);
+  const [selectedTypes, setSelectedTypes] = useState<string[]>(POST_TYPES.map(type => type.postType));
+  const [authorFilter, setAuthorFilter] = useState<number | 'todos'>('todos');
+  const [dragOverDay, setDragOverDay] = useState<string | null>(null);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  const hasCredentials = Boolean(wordPressCredentials.siteUrl && wordPressCredentials.username && wordPressCredentials.applicationPassword);
+  const days = useMemo(() => calendarDays(view, anchor), [view, anchor]);
+
+  useEffect(() => {
+    if (!hasCredentials) return;
+    getAuthors(wordPressCredentials)
+      .then(setAuthors)
+      .catch(() => setAuthors([])); // Sem permissão para listar usuários o filtro por autor some
+  }, [wordPressCredentials, hasCredentials]);
+
+  useEffect(() => {
+    if (!hasCredentials) return;
+    let cancelled = false;
+    const load = async () => {
+      setIsLoading(true);
+      const { after, before } = rangeBounds(days);
+      // A Agenda volta mais no tempo: eventos do período podem ter sido publicados meses antes
+      const agendaAfter = rangeBounds([addDays(days[0], -AGENDA_LOOKBACK_DAYS)]).after;
+      const results = await Promise.allSettled(POST_TYPES.map(({ postType }) =>
+        postType === 'agenda'
+          ? getCPTItemsByDateRange(wordPressCredentials, postType, agendaAfter, before, true)
+          : getCPTItemsByDateRange(wordPressCredentials, postType, after, before)
+      ));
+      if (cancelled) return;
+
+      const loaded: Record<string, WordPressPost[]> = {};
+      const errors: string[] = [];
+      results.forEach((result, index) => {
+        const { postType, label } = POST_TYPES[index];
+        if (result.status === 'fulfilled') loaded[postType] = result.value;
+        else errors.push(`${label}: ${result.reason?.message || 'falha ao carregar'}`);
+      });
+      setItemsByType(loaded);
+      setLoadErrors(errors);
+      setIsLoading(false);
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [days, wordPressCredentials, hasCredentials]);
+
+  const entries = useMemo(() => buildEntries(itemsByType, days), [itemsByType, days]);
+  // Buracos consideram tudo, não só o que passa nos filtros
+  const gaps = useMemo(() => findGaps(entries, days), [entries, days]);
+  const visibleEntries = entries.filter(entry =>
+    selectedTypes.includes(entry.postType) && (authorFilter === 'todos' || entry.author === authorFilter)
+  );
+
+  const toggleType = (postType: string) =>
+    setSelectedTypes(prev => prev.includes(postType) ? prev.filter(type => type !== postType) : [...prev, postType]);
+
+  const handleDrop = async (dayKey: string, entryKey: string) => {
+    setDragOverDay(null);
+    const entry = entries.find(candidate => candidate.key === entryKey);
+    if (!entry || entry.kind !== 'publicacao' || entry.day === dayKey) return;
+
+    const target = rescheduleTarget(entry, dayKey);
+    if (target.status === 'future' && entry.status === 'publish' &&
+      !window.confirm(`"${entry.title}" já está publicado. Com a nova data no futuro, ele sai do ar e só volta a ser publicado em ${formatDateTime(target.date)}. Continuar?`)) return;
+    if (target.status === 'future' && entry.status !== 'future' && entry.status !== 'publish' &&
+      !window.confirm(`Agendar "${entry.title}" para ${formatDateTime(target.date)}?`)) return;
+    if (target.status === 'publish' && entry.status === 'future' &&
+      !window.confirm(`A nova data já passou: "${entry.title}" será publicado agora, com a data ${formatDateTime(target.date)}. Continuar?`)) return;
+
+    setSavingKey(entry.key);
+    try {
+      const updated = await updateCPTItem(wordPressCredentials, entry.postType, entry.itemId, target);
+      setItemsByType(prev => ({
+        ...prev,
+        [entry.postType]: (prev[entry.postType] || []).map(post => post.id === updated.id ? { ...post, date: updated.date, status: updated.status } : post),
+      }));
+      showToast(updated.status === 'future' ? `Agendado para ${formatDateTime(updated.date)}.` : 'Data de publicação atualizada.', 'success');
+    } catch (e: any) {
+      showToast(e.message || 'Falha ao reagendar o item.', 'error');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const todayKey = toDayKey(new Date());
+
+  const renderEntry = (entry: CalendarEntry) => (
+    <a
+      key={entry.key}
+      href={entry.link}
+      target="_blank"
+      rel="noopener noreferrer"
+      draggable={entry.kind === 'publicacao'}
+      onDragStart={(e) => e.dataTransfer.setData('text/plain', entry.key)}
+      title={`${entry.title}\n${statusLabels[entry.status]}${entry.kind === 'evento' ? ' · data do evento' : ''}`}
+      className={`flex items-center gap-1 px-1.5 py-0.5 text-xs rounded border truncate ${typeColors[entry.postType] || 'bg-gray-50 border-gray-200 text-gray-700'} ${entry.status === 'draft' || entry.status === 'pending' ? 'border-dashed opacity-75' : ''} ${entry.kind === 'publicacao' ? 'cursor-grab' : ''} ${savingKey === entry.key ? 'animate-pulse' : ''}`}
+    >
+      {entry.kind === 'evento' && <CalendarDaysIcon className="h-3 w-3 flex-shrink-0" />}
+      {entry.time && <span className="flex-shrink-0 font-medium">{entry.time}</span>}
+      <span className="truncate">{entry.title}</span>
+    </a>
+  );
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-10 bg-gray-50 min-h-full">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">Calendário Editorial</h1>
+          <p className="mt-2 text-gray-600">
+            Publicações de todos os tipos pela data de publicação e eventos da Agenda pela data do evento. Arraste uma publicação para outro dia para reagendá-la.
+          </p>
+        </div>
+
+        {!hasCredentials ? (
+          <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md p-4">
+            Por favor, configure suas credenciais do WordPress na página de Configurações para ver o calendário.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <div className="flex items-center gap-2">
+                <button type="button" onClick={() => setAnchor(shiftAnchor(view, anchor, -1))} className="px-3 py-1.5 bg-white border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50" aria-label="Período anterior">&lt;</button>
+                <button type="button" onClick={() => setAnchor(new Date())} className="px-3 py-1.5 bg-white border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50">Hoje</button>
+                <button type="button" onClick={() => setAnchor(shiftAnchor(view, anchor, 1))} className="px-3 py-1.5 bg-white border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50" aria-label="Próximo período">&gt;</button>
+                <h2 className="ml-2 text-lg font-semibold text-gray-800">{periodTitle(view, days, anchor)}</h2>
+                {isLoading && <span className="flex items-center text-xs text-gray-500"><LoadingSpinner /> Carregando...</span>}
+              </div>
+              <div className="flex items-center gap-2">
+                {authors.length > 0 && (
+                  <select
+                    value={authorFilter}
+                    onChange={(e) => setAuthorFilter(e.target.value === 'todos' ? 'todos' : Number(e.target.value))}
+                    className="p-2 border-gray-300 rounded-md shadow-sm text-sm"
+                    aria-label="Autor"
+                  >
+                    <option value="todos">Todos os autores</option>
+                    {authors.map(author => <option key={author.id} value={author.id}>{author.name}</option>)}
+                  </select>
+                )}
+                <div className="inline-flex rounded-md shadow-sm">
+                  <button type="button" onClick={() => setView('mes')} className={`px-3 py-1.5 text-sm border border-gray-300 rounded-l-md ${view === 'mes' ? 'bg-brand-purple text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}>Mês</button>
+                  <button type="button" onClick={() => setView('semana')} className={`-ml-px px-3 py-1.5 text-sm border border-gray-300 rounded-r-md ${view === 'semana' ? 'bg-brand-purple text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}>Semana</button>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+              {POST_TYPES.map(type => (
+                <button
+                  key={type.postType}
+                  type="button"
+                  onClick={() => toggleType(type.postType)}
+                  className={`px-2.5 py-1 text-xs font-medium rounded-full border ${selectedTypes.includes(type.postType) ? type.color : 'bg-white border-gray-200 text-gray-400 line-through'}`}
+                >
+                  {type.label}
+                </button>
+              ))}
+            </div>
+
+            {loadErrors.length > 0 && (
+              <p className="mb-4 text-sm text-red-600">Alguns tipos não puderam ser carregados. {loadErrors.join(' · ')}</p>
+            )}
+
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+              <div className="grid grid-cols-7 bg-gray-50 border-b border-gray-200">
+                {WEEKDAYS.map(weekday => (
+                  <div key={weekday} className="px-2 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider text-center">{weekday}</div>
+                ))}
+              </div>
+              <div className="grid grid-cols-7">
+                {days.map(day => {
+                  const dayKey = toDayKey(day);
+                  const dayEntries = visibleEntries.filter(entry => entry.day === dayKey);
+                  const dayGaps = gaps[dayKey] || [];
+                  const outsideMonth = view === 'mes' && day.getMonth() !== anchor.getMonth();
+                  return (
+                    <div
+                      key={dayKey}
+                      onDragOver={(e) => { e.preventDefault(); setDragOverDay(dayKey); }}
+                      onDragLeave={() => setDragOverDay(current => current === dayKey ? null : current)}
+                      onDrop={(e) => { e.preventDefault(); handleDrop(dayKey, e.dataTransfer.getData('text/plain')); }}
+                      className={`border-b border-r border-gray-100 p-1.5 flex flex-col gap-1 ${view === 'mes' ? 'min-h-[7.5rem]' : 'min-h-[24rem]'} ${outsideMonth ? 'bg-gray-50' : ''} ${dayGaps.length > 0 ? 'bg-yellow-50' : ''} ${dragOverDay === dayKey ? 'ring-2 ring-inset ring-brand-purple' : ''}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className={`text-xs font-semibold ${dayKey === todayKey ? 'bg-brand-red text-white rounded-full px-1.5' : outsideMonth ? 'text-gray-400' : 'text-gray-700'}`}>
+                          {day.getDate()}
+                        </span>
+                        {dayGaps.length > 0 && (
+                          <span className="text-[10px] font-medium text-yellow-800" title={dayGaps.join('\n')}>
+                            {dayGaps.length === 1 ? dayGaps[0] : `${dayGaps.length} lacunas`}
+                          </span>
+                        )}
+                      </div>
+                      <div className={`flex flex-col gap-1 ${view === 'mes' ? 'max-h-32 overflow-y-auto' : ''}`}>
+                        {dayEntries.map(renderEntry)}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <p className="mt-3 text-xs text-gray-500">
+              Bordas tracejadas indicam rascunhos e itens pendentes. Dias em amarelo estão sem cobertura: notícias de segunda a sexta e eventos da Agenda de sexta a domingo.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EditorialCalendarPage;
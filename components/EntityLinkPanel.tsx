@@ -0,0 +1,194 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { EntityCandidate, EntityRelations, EntityType, ExtractedFacts, InitialArtistaData, InitialLugarData, InitialOrganizadorData, WordPressCredentials } from '../types';
+import { ENTITY_TYPE_LABELS, applyEntityLinks, buildEntityLinks, fetchEntityCatalog, relationsFromLinks } from '../services/entityLinking';
+import { isDemoMode } from '../services/aiFixtures';
+import LoadingSpinner from './LoadingSpinner';
+import ArtistaEditor from './ArtistaEditor';
+import LugarEditor from './LugarEditor';
+import OrganizadorEditor from './OrganizadorEditor';
+import { LinkIcon, PlusIcon } from './icons/Icons';
+
+interface EntityLinkPanelProps {
+  draft: { article_body_html: string; verified_facts?: ExtractedFacts | null };
+  wordPressCredentials: WordPressCredentials;
+  onApplyLinks: (html: string) => void;
+  onRelationsChange: (relations: EntityRelations) => void;
+}
+
+// Cadastro aberto sobre o assistente, para não perder o rascunho
+type NewEntity =
+  | { type: 'artista'; data: InitialArtistaData }
+  | { type: 'lugar'; data: InitialLugarData }
+  | { type: 'organizador'; data: InitialOrganizadorData };
+
+const newEntityFor = (type: EntityType, name: string): NewEntity => {
+  switch (type) {
+    case 'artista':
+      return { type, data: { title: name, content: '', tipoDeArtista: 'Solo', anoFormacao: '', cidadeOrigem: '', website: '', email: '', telefones: [], redesSociais: [], videos: [] } };
+    case 'lugar':
+      return { type, data: { title: name, content: '', endereco: '', bairro: '', cidade: '', estado: '', cep: '', latitude: '', longitude: '', telefones: [], email: '', website: '', redesSociais: [], horarioFuncionamento: '' } };
+    case 'organizador':
+      return { type, data: { title: name, content: '', address: '', phone: '', website: '', instagram: '' } };
+  }
+};
+
+const typeColors: Record<EntityType, string> = {
+  artista: 'bg-brand-pink/10 text-brand-pink',
+  lugar: 'bg-brand-green/10 text-brand-green',
+  organizador: 'bg-brand-cyan/10 text-brand-cyan',
+};
+
+const EntityLinkPanel: React.FC<EntityLinkPanelProps> = ({ draft, wordPressCredentials, onApplyLinks, onRelationsChange }) => {
+  const [catalog, setCatalog] = useState<EntityCandidate[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+  const [newEntity, setNewEntity] = useState<NewEntity | null>(null);
+  const [linksApplied, setLinksApplied] = useState(false);
+
+  const hasCredentials = Boolean(wordPressCredentials.siteUrl && wordPressCredentials.username && wordPressCredentials.applicationPassword);
+
+  const loadCatalog = useCallback(async () => {
+    if (!hasCredentials || isDemoMode()) return;
+    setIsLoading(true);
+    const result = await fetchEntityCatalog(wordPressCredentials);
+    setCatalog(result.entities);
+    setWarnings(result.warnings);
+    setIsLoading(false);
+  }, [wordPressCredentials, hasCredentials]);
+
+  useEffect(() => {
+    loadCatalog();
+  }, [loadCatalog]);
+
+  const suggestions = useMemo(() => buildEntityLinks(draft, catalog), [draft.article_body_html, draft.verified_facts, catalog]);
+  const accepted = suggestions.filter(suggestion => suggestion.match && !excludedIds.has(suggestion.id));
+  const missing = suggestions.filter(suggestion => !suggestion.match);
+
+  useEffect(() => {
+    onRelationsChange(relationsFromLinks(accepted));
+  }, [suggestions, excludedIds]);
+
+  const toggleSuggestion = (suggestionId: string) =>
+    setExcludedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(suggestionId)) next.delete(suggestionId); else next.add(suggestionId);
+      return next;
+    });
+
+  const handleApplyLinks = () => {
+    onApplyLinks(applyEntityLinks(draft.article_body_html, accepted.map(suggestion => ({ mention: suggestion.mention, url: suggestion.match!.link }))));
+    setLinksApplied(true);
+  };
+
+  // Depois de salvar o cadastro, recarrega o catálogo para a menção passar a ter ligação
+  const handleEntitySaved = () => {
+    setNewEntity(null);
+    loadCatalog();
+  };
+
+  const renderEditor = (entity: NewEntity) => {
+    const common = { wordPressCredentials, onSave: handleEntitySaved, onCancel: () => setNewEntity(null) };
+    switch (entity.type) {
+      case 'artista': return <ArtistaEditor initialData={entity.data} {...common} />;
+      case 'lugar': return <LugarEditor initialData={entity.data} {...common} />;
+      case 'organizador': return <OrganizadorEditor initialData={entity.data} {...common} />;
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <LinkIcon className="h-5 w-5 text-brand-purple mr-2" />
+          <h2 className="text-lg font-semibold text-gray-800">Artistas, Lugares e Organizadores</h2>
+        </div>
+        {isLoading && <span className="flex items-center text-xs text-gray-500"><LoadingSpinner /> Carregando cadastro...</span>}
+      </div>
+      <p className="mt-1 text-sm text-gray-500">
+        Menções do rascunho ligadas ao que já está cadastrado no site. Os links entram no texto e, ao criar o evento na Agenda, o local e os artistas são vinculados.
+      </p>
+
+      {!hasCredentials && (
+        <p className="mt-3 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md p-3">Configure as credenciais do WordPress para consultar o cadastro.</p>
+      )}
+      {warnings.length > 0 && (
+        <ul className="mt-3 p-3 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-md text-xs list-disc pl-6">
+          {warnings.map(warning => <li key={warning}>{warning}</li>)}
+        </ul>
+      )}
+
+      {!isLoading && suggestions.length === 0 && (
+        <p className="mt-3 text-sm text-gray-500">Nenhuma menção a artistas, lugares ou organizadores encontrada.</p>
+      )}
+
+      {suggestions.some(suggestion => suggestion.match) && (
+        <div className="mt-4 space-y-2">
+          <h3 className="text-xs font-semibold text-gray-600 uppercase tracking-wide">Já cadastrados</h3>
+          <ul className="space-y-1">
+            {suggestions.filter(suggestion => suggestion.match).map(suggestion => (
+              <li key={suggestion.id} className="flex items-start text-sm">
+                <input
+                  type="checkbox"
+                  id={`entity-${suggestion.id}`}
+                  checked={!excludedIds.has(suggestion.id)}
+                  onChange={() => toggleSuggestion(suggestion.id)}
+                  className="mt-1 h-4 w-4 rounded border-gray-300 text-brand-purple"
+                />
+                <label htmlFor={`entity-${suggestion.id}`} className="ml-2 text-gray-700">
+                  <span className={`mr-2 text-xs px-1.5 py-0.5 rounded ${typeColors[suggestion.type]}`}>{ENTITY_TYPE_LABELS[suggestion.type]}</span>
+                  “{suggestion.mention}” → <a href={suggestion.match!.link} target="_blank" rel="noopener noreferrer" className="text-brand-blue-dark hover:underline">{suggestion.match!.title}</a>
+                  {suggestion.score < 1 && <span className="ml-1 text-xs text-gray-400">({Math.round(suggestion.score * 100)}% parecido)</span>}
+                </label>
+              </li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={handleApplyLinks}
+            disabled={accepted.length === 0}
+            className="flex items-center px-3 py-2 text-xs font-medium rounded-md shadow-sm text-white bg-brand-purple hover:opacity-90 disabled:bg-gray-400"
+          >
+            Inserir {accepted.length} link(s) interno(s) no texto
+          </button>
+          {linksApplied && <p className="text-xs text-green-700">Links inseridos na primeira menção de cada nome.</p>}
+        </div>
+      )}
+
+      {missing.length > 0 && (
+        <div className="mt-4 space-y-2">
+          <h3 className="text-xs font-semibold text-gray-600 uppercase tracking-wide">Não cadastrados</h3>
+          <ul className="space-y-1">
+            {missing.map(suggestion => (
+              <li key={suggestion.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-gray-700">
+                  <span className={`mr-2 text-xs px-1.5 py-0.5 rounded ${typeColors[suggestion.type]}`}>{ENTITY_TYPE_LABELS[suggestion.type]}</span>
+                  {suggestion.mention}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setNewEntity(newEntityFor(suggestion.type, suggestion.mention))}
+                  disabled={!hasCredentials}
+                  className="flex items-center text-xs font-medium text-brand-purple hover:underline disabled:text-gray-400"
+                >
+                  <PlusIcon className="h-4 w-4 mr-1" />
+                  Cadastrar
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {newEntity && (
+        <div className="fixed inset-0 z-50 bg-gray-900 bg-opacity-75 overflow-y-auto" role="dialog" aria-modal="true">
+          <div className="max-w-6xl mx-auto my-8 rounded-lg overflow-hidden shadow-xl">
+            {renderEditor(newEntity)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EntityLinkPanel;
@@ -1,14 +1,19 @@
 import React, { useState, useEffect } from 'react';
-import { WordPressCredentials, WordPressPost, SeoAnalysis, InitialHistoriaData } from '../types';
-import { createCPTItem, getCPTItemById, updateCPTItem, uploadMedia } from '../services/wordpressService';
+import { WordPressCredentials, WordPressPost, SeoAnalysis, InitialHistoriaData, WordPressMedia } from '../types';
+import { getCPTItemById } from '../services/wordpressService';
 import { analyzeSeoRealtime } from '../services/seoService';
 import LoadingSpinner from './LoadingSpinner';
 import SeoAnalyzer from './SeoAnalyzer';
 import ImageCropperModal from './ImageCropperModal';
-import { CameraIcon, ImageIcon } from './icons/Icons';
+import RevisionHistoryModal from './RevisionHistoryModal';
+import MediaLibraryModal from './MediaLibraryModal';
+import StyleLintPanel from './StyleLintPanel';
+import { CameraIcon, ImageIcon, ClockIcon } from './icons/Icons';
 import TaxonomySelector from './TaxonomySelector';
 import { useToast } from '../hooks/useToast';
 import { useQuillEditor } from '../hooks/useQuillEditor';
+import { useSeoPlugin } from '../hooks/useSeoPlugin';
+import { offlineQueue, QUEUED_SAVE_MESSAGES } from '../services/offlineQueue';
 
 interface HistoriaEditorProps {
     historiaId?: number;
@@ -16,9 +21,10 @@ interface HistoriaEditorProps {
     wordPressCredentials: WordPressCredentials;
     onSave: () => void;
     onCancel: () => void;
+    onReload?: () => void; // Remonta o editor com os dados do servidor (ex.: depois de restaurar uma revisão)
 }
 
-const HistoriaEditor: React.FC<HistoriaEditorProps> = ({ historiaId, initialData, wordPressCredentials, onSave, onCancel }) => {
+const HistoriaEditor: React.FC<HistoriaEditorProps> = ({ historiaId, initialData, wordPressCredentials, onSave, onCancel, onReload }) => {
     const [title, setTitle] = useState('');
     const [content, setContent] = useState('');
     const [status, setStatus] = useState<WordPressPost['status']>('draft');
@@ -31,12 +37,17 @@ const HistoriaEditor: React.FC<HistoriaEditorProps> = ({ historiaId, initialData
     const [imageAltText, setImageAltText] = useState('');
     const [imageToCrop, setImageToCrop] = useState<string | null>(null);
     const [croppedImageFile, setCroppedImageFile] = useState<File | null>(null);
+    const [featuredMediaId, setFeaturedMediaId] = useState<number | null>(null);
 
     const [focusKeyword, setFocusKeyword] = useState('');
     const [seoAnalysis, setSeoAnalysis] = useState<SeoAnalysis | null>(null);
+    const { seoPlugin, seoMeta, setSeoMeta, storedSeo, setSourcePost } = useSeoPlugin(wordPressCredentials, initialData?.seoDescription, setFocusKeyword);
 
     const [isLoading, setIsLoading] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
+    const [serverModified, setServerModified] = useState<string | null>(null);
+    const [showRevisions, setShowRevisions] = useState(false);
+    const [showMediaLibrary, setShowMediaLibrary] = useState(false);
     
     const { showToast } = useToast();
     const isEditing = historiaId !== undefined;
@@ -68,6 +79,8 @@ const HistoriaEditor: React.FC<HistoriaEditorProps> = ({ historiaId, initialData
                 setContent(postContent);
                 setQuillContent(postContent);
                 setStatus(historia.status);
+                setServerModified(historia.modified_gmt ?? null);
+                setSourcePost(historia);
                 setSelectedCategories(historia.categories || []); // Assuming standard categories
                 setSelectedTags(historia.tags || []); // Assuming standard tags
                 
@@ -84,7 +97,7 @@ const HistoriaEditor: React.FC<HistoriaEditorProps> = ({ historiaId, initialData
         };
 
         fetchHistoriaData();
-    }, [historiaId, isEditing, wordPressCredentials, showToast, setQuillContent]);
+    }, [historiaId, isEditing, wordPressCredentials, showToast, setQuillContent, setSourcePost]);
 
     useEffect(() => {
         const analysisResult = analyzeSeoRealtime({
@@ -106,32 +119,53 @@ const HistoriaEditor: React.FC<HistoriaEditorProps> = ({ historiaId, initialData
     const handleCropComplete = (blob: Blob) => {
         const file = new File([blob], "featured-image.webp", { type: "image/webp" });
         setCroppedImageFile(file);
+        setFeaturedMediaId(null);
         setFeaturedImageUrl(URL.createObjectURL(file));
         setImageToCrop(null);
     };
 
+    // Anexo que já está na biblioteca: vai direto como featured_media, sem novo upload
+    const handleLibrarySelect = ([media]: WordPressMedia[]) => {
+        setCroppedImageFile(null);
+        setFeaturedMediaId(media.id);
+        setFeaturedImageUrl(media.source_url);
+        setImageAltText(media.alt_text);
+        setShowMediaLibrary(false);
+    };
+
+    const handleStyleFix = (fixedHtml: string) => {
+        setContent(fixedHtml);
+        setQuillContent(fixedHtml);
+    };
+
     const handleSave = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsSaving(true);
         try {
-            let featuredMediaId: number | undefined;
-            if (croppedImageFile) {
-                const uploadedMedia = await uploadMedia(wordPressCredentials, croppedImageFile);
-                featuredMediaId = uploadedMedia.id;
-            }
-            
             const postData: any = { 
                 title, content, status,
                 categories: selectedCategories,
                 tags: selectedTags,
             };
+
             if (featuredMediaId) postData.featured_media = featuredMediaId;
 
-            if (isEditing) {
-                await updateCPTItem(wordPressCredentials, 'historia', historiaId, postData);
+            const outcome = await offlineQueue.save(wordPressCredentials, {
+                postType: 'historia',
+                itemId: isEditing ? historiaId : null,
+                title,
+                data: postData,
+                mediaFile: croppedImageFile,
+                baseModified: serverModified,
+                draftId: initialData?.draftId,
+                headlineChoiceId: initialData?.headlineChoiceId,
+                seo: seoPlugin ? { plugin: seoPlugin, values: { ...seoMeta, focusKeyword } } : null,
+            });
+            if (outcome !== 'sincronizado') {
+                showToast(QUEUED_SAVE_MESSAGES[outcome], outcome === 'conflito' ? 'error' : 'info');
+            } else if (isEditing) {
                 showToast('História atualizada com sucesso!', 'success');
             } else {
-                await createCPTItem(wordPressCredentials, 'historia', postData);
                 showToast('História criada com sucesso!', 'success');
             }
             onSave();
@@ -146,11 +180,34 @@ const HistoriaEditor: React.FC<HistoriaEditorProps> = ({ historiaId, initialData
 
     return (
         <div className="p-4 sm:p-6 lg:p-8 bg-gray-50 min-h-full">
+             {isEditing && showRevisions && (
+                 <RevisionHistoryModal
+                     postType="historia"
+                     itemId={historiaId}
+                     wordPressCredentials={wordPressCredentials}
+                     onRestored={() => (onReload ?? onSave)()}
+                     onClose={() => setShowRevisions(false)}
+                 />
+             )}
+             {showMediaLibrary && (
+                 <MediaLibraryModal
+                     wordPressCredentials={wordPressCredentials}
+                     title="Imagem destacada"
+                     onSelect={handleLibrarySelect}
+                     onClose={() => setShowMediaLibrary(false)}
+                 />
+             )}
              {imageToCrop && <ImageCropperModal imageSrc={imageToCrop} onClose={() => setImageToCrop(null)} onCropComplete={handleCropComplete}/>}
             <form onSubmit={handleSave}>
                 <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 sm:gap-0 mb-6">
                     <h1 className="text-3xl font-bold text-gray-900">{isEditing ? 'Editar História' : 'Criar Nova História'}</h1>
                     <div className="flex items-center space-x-3">
+                        {isEditing && (
+                            <button type="button" onClick={() => setShowRevisions(true)} className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50">
+                                <ClockIcon className="h-4 w-4 mr-1" />
+                                Revisões
+                            </button>
+                        )}
                         <button type="button" onClick={onCancel} className="px-4 py-2 text-sm font-medium bg-white border rounded-md">Cancelar</button>
                         <button type="submit" disabled={isSaving} className="flex items-center px-4 py-2 text-sm font-medium text-white bg-recife-red rounded-md disabled:bg-gray-400">
                             {isSaving ? <><LoadingSpinner /> Salvando...</> : 'Salvar História'}
@@ -168,6 +225,7 @@ const HistoriaEditor: React.FC<HistoriaEditorProps> = ({ historiaId, initialData
                             <label className="block text-sm font-medium text-gray-700 mb-1">Conteúdo</label>
                             <div ref={editorRef} style={{ minHeight: '400px' }}></div>
                         </div>
+                        <StyleLintPanel html={content} onFix={handleStyleFix} />
                     </div>
 
                     <div className="space-y-6">
@@ -190,12 +248,23 @@ const HistoriaEditor: React.FC<HistoriaEditorProps> = ({ historiaId, initialData
                                <CameraIcon className="h-5 w-5 mr-2" /><span>{featuredImageUrl ? 'Trocar' : 'Enviar'} Imagem</span>
                             </label>
                             <input id="image-upload" type="file" className="sr-only" accept="image/*" onChange={handleImageSelect}/>
+                            <button type="button" onClick={() => setShowMediaLibrary(true)} className="mt-2 w-full flex justify-center items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50">
+                                <ImageIcon className="h-5 w-5 mr-2" /><span>Escolher da Biblioteca</span>
+                            </button>
                             <div className="mt-4">
                                 <label htmlFor="imageAltText" className="block text-sm font-medium text-gray-700 mb-1">Texto Alternativo (Alt)</label>
                                 <input type="text" id="imageAltText" value={imageAltText} onChange={e => setImageAltText(e.target.value)} className="block w-full p-2 border-gray-300 rounded-md" />
                             </div>
                         </div>
-                        <SeoAnalyzer focusKeyword={focusKeyword} onFocusKeywordChange={setFocusKeyword} analysis={seoAnalysis}/>
+                        <SeoAnalyzer
+                            focusKeyword={focusKeyword}
+                            onFocusKeywordChange={setFocusKeyword}
+                            analysis={seoAnalysis}
+                            seoPlugin={seoPlugin}
+                            seoMeta={seoMeta}
+                            onSeoMetaChange={setSeoMeta}
+                            storedSeo={storedSeo}
+                        />
                     </div>
                 </div>
             </form>
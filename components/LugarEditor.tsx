@@ -1,19 +1,26 @@
 import React, { useState, useEffect } from 'react';
-import { WordPressCredentials, WordPressPost } from '../types';
-import { createCPTItem, getCPTItemById, updateCPTItem, uploadMedia } from '../services/wordpressService';
+import { InitialLugarData, WordPressCredentials, WordPressPost, WordPressMedia } from '../types';
+import { getCPTItemById } from '../services/wordpressService';
 import { searchPlaceInformation } from '../services/geminiService';
 import LoadingSpinner from './LoadingSpinner';
 import ImageCropperModal from './ImageCropperModal';
-import { CameraIcon, ImageIcon, PlusIcon, TrashIcon, MagicWandIcon } from './icons/Icons';
+import RevisionHistoryModal from './RevisionHistoryModal';
+import MediaLibraryModal from './MediaLibraryModal';
+import MediaGalleryField from './MediaGalleryField';
+import { CameraIcon, ImageIcon, PlusIcon, TrashIcon, MagicWandIcon, ClockIcon } from './icons/Icons';
 import TaxonomySelector from './TaxonomySelector';
 import { useToast } from '../hooks/useToast';
 import { useQuillEditor } from '../hooks/useQuillEditor';
+import { offlineQueue, QUEUED_SAVE_MESSAGES } from '../services/offlineQueue';
+import { GALLERY_META_KEY, parseGalleryIds } from '../services/mediaLibrary';
 
 interface LugarEditorProps {
     lugarId?: number;
+    initialData?: InitialLugarData | null;
     wordPressCredentials: WordPressCredentials;
     onSave: () => void;
     onCancel: () => void;
+    onReload?: () => void; // Remonta o editor com os dados do servidor (ex.: depois de restaurar uma revisão)
 }
 
 // Helper component for repeater fields
@@ -79,7 +86,7 @@ const RepeaterField: React.FC<{
 };
 
 
-const LugarEditor: React.FC<LugarEditorProps> = ({ lugarId, wordPressCredentials, onSave, onCancel }) => {
+const LugarEditor: React.FC<LugarEditorProps> = ({ lugarId, initialData, wordPressCredentials, onSave, onCancel, onReload }) => {
     const [title, setTitle] = useState('');
     const [content, setContent] = useState('');
     const [status, setStatus] = useState<WordPressPost['status']>('draft');
@@ -95,6 +102,7 @@ const LugarEditor: React.FC<LugarEditorProps> = ({ lugarId, wordPressCredentials
     const [telefones, setTelefones] = useState<string[]>(['']);
     const [email, setEmail] = useState('');
     const [redesSociais, setRedesSociais] = useState<string[]>(['']);
+    const [galeria, setGaleria] = useState<number[]>([]);
     const [website, setWebsite] = useState('');
     const [horarioFuncionamento, setHorarioFuncionamento] = useState('');
     const [detalhesAdicionais, setDetalhesAdicionais] = useState('');
@@ -111,9 +119,13 @@ const LugarEditor: React.FC<LugarEditorProps> = ({ lugarId, wordPressCredentials
     const [featuredImageUrl, setFeaturedImageUrl] = useState<string | null>(null);
     const [imageToCrop, setImageToCrop] = useState<string | null>(null);
     const [croppedImageFile, setCroppedImageFile] = useState<File | null>(null);
+    const [featuredMediaId, setFeaturedMediaId] = useState<number | null>(null);
 
     const [isLoading, setIsLoading] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
+    const [serverModified, setServerModified] = useState<string | null>(null);
+    const [showRevisions, setShowRevisions] = useState(false);
+    const [showMediaLibrary, setShowMediaLibrary] = useState(false);
     const [isSearchingWithAI, setIsSearchingWithAI] = useState(false);
 
     
@@ -125,6 +137,30 @@ const LugarEditor: React.FC<LugarEditorProps> = ({ lugarId, wordPressCredentials
         initializeDetailsQuill(setDetalhesAdicionais);
     }, [initializeDescQuill, initializeDetailsQuill]);
 
+    // Perfil gerado no Assistente IA
+    useEffect(() => {
+        if (initialData) {
+            setTitle(initialData.title);
+            setContent(initialData.content);
+            // Add a small delay to ensure Quill is fully initialized before setting content
+            setTimeout(() => {
+                setDescQuillContent(initialData.content);
+            }, 100);
+            setEndereco(initialData.endereco);
+            setBairro(initialData.bairro);
+            setCidade(initialData.cidade);
+            setEstado(initialData.estado);
+            setCep(initialData.cep);
+            setLatitude(initialData.latitude);
+            setLongitude(initialData.longitude);
+            setTelefones(initialData.telefones.length > 0 ? initialData.telefones : ['']);
+            setEmail(initialData.email);
+            setWebsite(initialData.website);
+            setRedesSociais(initialData.redesSociais.length > 0 ? initialData.redesSociais : ['']);
+            setHorarioFuncionamento(initialData.horarioFuncionamento);
+        }
+    }, [initialData, setDescQuillContent]);
+
     useEffect(() => {
         const fetchLugarData = async () => {
             if (!isEditing || !wordPressCredentials.siteUrl) return;
@@ -140,6 +176,7 @@ const LugarEditor: React.FC<LugarEditorProps> = ({ lugarId, wordPressCredentials
                 }, 100);
                 
                 setStatus(lugar.status);
+                setServerModified(lugar.modified_gmt ?? null);
                 
                 // Populate meta fields
                 const meta = lugar.meta || {};
@@ -163,6 +200,7 @@ const LugarEditor: React.FC<LugarEditorProps> = ({ lugarId, wordPressCredentials
                 // Handle repeaters
                 setTelefones(Array.isArray(meta.telefone) && meta.telefone.length > 0 ? meta.telefone : ['']);
                 setRedesSociais(Array.isArray(meta.redes_sociais) && meta.redes_sociais.length > 0 ? meta.redes_sociais : ['']);
+                setGaleria(parseGalleryIds(meta[GALLERY_META_KEY]));
 
                 // Populate custom taxonomies & tags
                 // @ts-ignore
@@ -230,21 +268,24 @@ const LugarEditor: React.FC<LugarEditorProps> = ({ lugarId, wordPressCredentials
     const handleCropComplete = (blob: Blob) => {
         const file = new File([blob], "featured-image.webp", { type: "image/webp" });
         setCroppedImageFile(file);
+        setFeaturedMediaId(null);
         setFeaturedImageUrl(URL.createObjectURL(file));
         setImageToCrop(null);
     };
 
+    // Anexo que já está na biblioteca: vai direto como featured_media, sem novo upload
+    const handleLibrarySelect = ([media]: WordPressMedia[]) => {
+        setCroppedImageFile(null);
+        setFeaturedMediaId(media.id);
+        setFeaturedImageUrl(media.source_url);
+        setShowMediaLibrary(false);
+    };
+
     const handleSave = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsSaving(true);
 
         try {
-            let featuredMediaId: number | undefined = undefined;
-            if (croppedImageFile) {
-                const uploadedMedia = await uploadMedia(wordPressCredentials, croppedImageFile);
-                featuredMediaId = uploadedMedia.id;
-            }
-            
             const itemData: any = { 
                 title, 
                 content, 
@@ -266,18 +307,26 @@ const LugarEditor: React.FC<LugarEditorProps> = ({ lugarId, wordPressCredentials
                     detalhes_adicionais: detalhesAdicionais,
                     telefone: telefones.filter(t => t && t.trim() !== ''),
                     redes_sociais: redesSociais.filter(r => r && r.trim() !== ''),
+                    [GALLERY_META_KEY]: galeria,
                 },
             };
 
-            if (featuredMediaId) {
-                itemData.featured_media = featuredMediaId;
-            }
+            if (featuredMediaId) itemData.featured_media = featuredMediaId;
 
-            if (isEditing) {
-                await updateCPTItem(wordPressCredentials, 'lugar', lugarId, itemData);
+            const outcome = await offlineQueue.save(wordPressCredentials, {
+                postType: 'lugar',
+                itemId: isEditing ? lugarId : null,
+                title,
+                data: itemData,
+                mediaFile: croppedImageFile,
+                baseModified: serverModified,
+                draftId: initialData?.draftId,
+            });
+            if (outcome !== 'sincronizado') {
+                showToast(QUEUED_SAVE_MESSAGES[outcome], outcome === 'conflito' ? 'error' : 'info');
+            } else if (isEditing) {
                 showToast('Lugar atualizado com sucesso!', 'success');
             } else {
-                await createCPTItem(wordPressCredentials, 'lugar', itemData);
                 showToast('Lugar criado com sucesso!', 'success');
             }
             onSave();
@@ -304,6 +353,23 @@ const LugarEditor: React.FC<LugarEditorProps> = ({ lugarId, wordPressCredentials
 
     return (
         <div className="p-4 sm:p-6 lg:p-8 bg-gray-50 min-h-full">
+             {isEditing && showRevisions && (
+                 <RevisionHistoryModal
+                     postType="lugar"
+                     itemId={lugarId}
+                     wordPressCredentials={wordPressCredentials}
+                     onRestored={() => (onReload ?? onSave)()}
+                     onClose={() => setShowRevisions(false)}
+                 />
+             )}
+             {showMediaLibrary && (
+                 <MediaLibraryModal
+                     wordPressCredentials={wordPressCredentials}
+                     title="Imagem destacada"
+                     onSelect={handleLibrarySelect}
+                     onClose={() => setShowMediaLibrary(false)}
+                 />
+             )}
              {imageToCrop && (
                 <ImageCropperModal
                     imageSrc={imageToCrop}
@@ -322,6 +388,12 @@ const LugarEditor: React.FC<LugarEditorProps> = ({ lugarId, wordPressCredentials
                         </p>
                     </div>
                     <div className="flex items-center space-x-3">
+                        {isEditing && (
+                            <button type="button" onClick={() => setShowRevisions(true)} className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50">
+                                <ClockIcon className="h-4 w-4 mr-1" />
+                                Revisões
+                            </button>
+                        )}
                         <button type="button" onClick={onCancel} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50">
                             Cancelar
                         </button>
@@ -426,10 +498,7 @@ const LugarEditor: React.FC<LugarEditorProps> = ({ lugarId, wordPressCredentials
                             <h3 className="text-lg font-medium text-gray-900 mb-4 border-b pb-3">Detalhes do Lugar</h3>
                              <div className="grid grid-cols-1 gap-6 mt-4">
                                 <div>
-                                    <label className="block text-sm font-medium text-gray-700 mb-2">Galeria de Fotos</label>
-                                    <button type="button" className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50">
-                                        Gerenciar Mídia
-                                    </button>
+                                    <MediaGalleryField label="Galeria de Fotos" wordPressCredentials={wordPressCredentials} mediaIds={galeria} onChange={setGaleria} />
                                 </div>
                                  <div>
                                     <label htmlFor="horarioFuncionamento" className="block text-sm font-medium text-gray-700 mb-1">Horário de Funcionamento</label>
@@ -493,6 +562,9 @@ const LugarEditor: React.FC<LugarEditorProps> = ({ lugarId, wordPressCredentials
                                <span>{featuredImageUrl ? 'Trocar' : 'Enviar Imagem'}</span>
                             </label>
                             <input id="image-upload" type="file" className="sr-only" accept="image/png, image/jpeg, image/gif, image/webp" onChange={handleImageSelect}/>
+                            <button type="button" onClick={() => setShowMediaLibrary(true)} className="mt-2 w-full flex justify-center items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50">
+                                <ImageIcon className="h-5 w-5 mr-2" /><span>Escolher da Biblioteca</span>
+                            </button>
                         </div>
                     </div>
                 </div>
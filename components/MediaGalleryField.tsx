@@ -0,0 +1,94 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { WordPressCredentials, WordPressMedia } from '../types';
+import { getMediaItems } from '../services/wordpressService';
+import { isMissingAlt, mediaTitle, thumbnailUrl } from '../services/mediaLibrary';
+import MediaLibraryModal from './MediaLibraryModal';
+import { XCircleIcon } from './icons/Icons';
+
+interface MediaGalleryFieldProps {
+  label: string;
+  wordPressCredentials: WordPressCredentials;
+  mediaIds: number[];
+  onChange: (mediaIds: number[]) => void;
+}
+
+// Galeria de fotos de um CPT: guarda os ids dos anexos escolhidos na biblioteca de mídia
+const MediaGalleryField: React.FC<MediaGalleryFieldProps> = ({ label, wordPressCredentials, mediaIds, onChange }) => {
+  const [items, setItems] = useState<WordPressMedia[]>([]);
+  const [showLibrary, setShowLibrary] = useState(false);
+  // Ids já buscados; anexos apagados no WordPress não voltam e não devem ser buscados de novo
+  const requested = useRef(new Set<number>());
+
+  // Miniaturas dos ids vindos do item salvo; as escolhidas no modal já chegam completas
+  useEffect(() => {
+    const missing = mediaIds.filter(id => !requested.current.has(id) && !items.some(item => item.id === id));
+    if (missing.length === 0 || !wordPressCredentials.siteUrl) return;
+    missing.forEach(id => requested.current.add(id));
+    getMediaItems(wordPressCredentials, { include: missing })
+      .then(result => setItems(current => [...current, ...result.items]))
+      .catch(error => {
+        missing.forEach(id => requested.current.delete(id));
+        console.error('Erro ao carregar a galeria:', error);
+      });
+  }, [mediaIds, items, wordPressCredentials]);
+
+  const gallery = mediaIds
+    .map(id => items.find(item => item.id === id))
+    .filter((item): item is WordPressMedia => Boolean(item));
+  const withoutAlt = gallery.filter(isMissingAlt).length;
+
+  const handleSelect = (selected: WordPressMedia[]) => {
+    setItems(current => [...current.filter(item => !selected.some(s => s.id === item.id)), ...selected]);
+    onChange(selected.map(item => item.id));
+    setShowLibrary(false);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+      {mediaIds.length > 0 && (
+        <ul className="grid grid-cols-4 sm:grid-cols-6 gap-2 mb-3">
+          {mediaIds.map(id => {
+            const item = gallery.find(media => media.id === id);
+            return (
+              <li key={id} className="relative aspect-square rounded-md overflow-hidden border border-gray-200 bg-gray-50">
+                {item && <img src={thumbnailUrl(item)} alt={item.alt_text} title={mediaTitle(item)} className="w-full h-full object-cover" />}
+                {item && isMissingAlt(item) && (
+                  <span className="absolute bottom-1 left-1 px-1.5 py-0.5 text-[10px] font-semibold rounded bg-yellow-100 text-yellow-800">Sem alt</span>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onChange(mediaIds.filter(mediaId => mediaId !== id))}
+                  className="absolute top-1 right-1 text-white drop-shadow hover:text-red-200"
+                  aria-label="Remover da galeria"
+                >
+                  <XCircleIcon solid className="h-5 w-5" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {withoutAlt > 0 && (
+        <p className="mb-2 text-xs text-yellow-800">
+          {withoutAlt === 1 ? '1 foto da galeria está sem texto alternativo.' : `${withoutAlt} fotos da galeria estão sem texto alternativo.`} Edite na biblioteca de mídia.
+        </p>
+      )}
+      <button type="button" onClick={() => setShowLibrary(true)} className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50">
+        Gerenciar Mídia
+      </button>
+      {showLibrary && (
+        <MediaLibraryModal
+          wordPressCredentials={wordPressCredentials}
+          title={label}
+          multiple
+          initialSelection={mediaIds}
+          onSelect={handleSelect}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MediaGalleryField;
@@ -0,0 +1,321 @@
+import React, { useState, useEffect } from 'react';
+import { MediaQuery, WordPressCredentials, WordPressMedia } from '../types';
+import { getMediaItems, updateMediaItem } from '../services/wordpressService';
+import {
+  MEDIA_CREDIT_META_KEY,
+  MEDIA_TYPE_LABELS,
+  isImage,
+  isMissingAlt,
+  mediaCaption,
+  mediaCredit,
+  mediaTitle,
+  thumbnailUrl,
+} from '../services/mediaLibrary';
+import { useToast } from '../hooks/useToast';
+import LoadingSpinner from './LoadingSpinner';
+import { ImageIcon, MagnifyingGlassIcon, XCircleIcon } from './icons/Icons';
+
+interface MediaLibraryModalProps {
+  wordPressCredentials: WordPressCredentials;
+  title?: string;
+  multiple?: boolean; // Galeria: escolhe vários; imagem destacada: um só
+  initialSelection?: number[];
+  onSelect: (items: WordPressMedia[]) => void;
+  onClose: () => void;
+}
+
+const PER_PAGE = 24;
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString('pt-BR');
+
+const inputClassName = 'block w-full p-2 border-gray-300 rounded-md shadow-sm focus:ring-brand-purple focus:border-brand-purple sm:text-sm';
+
+// Biblioteca de mídia do WordPress: reaproveita anexos já enviados e edita alt, legenda e crédito
+const MediaLibraryModal: React.FC<MediaLibraryModalProps> = ({ wordPressCredentials, title, multiple = false, initialSelection = [], onSelect, onClose }) => {
+  const { showToast } = useToast();
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [mediaType, setMediaType] = useState<MediaQuery['mediaType'] | ''>('image');
+  const [month, setMonth] = useState('');
+  const [page, setPage] = useState(1);
+  const [items, setItems] = useState<WordPressMedia[]>([]);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalItems, setTotalItems] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Anexos já vistos, para devolver a seleção completa mesmo depois de trocar de página
+  const [known, setKnown] = useState<Record<number, WordPressMedia>>({});
+  const [selectedIds, setSelectedIds] = useState<number[]>(initialSelection);
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  const [altText, setAltText] = useState('');
+  const [caption, setCaption] = useState('');
+  const [credit, setCredit] = useState('');
+  const [isSavingDetails, setIsSavingDetails] = useState(false);
+
+  // Busca só depois que a digitação para
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(1);
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const result = await getMediaItems(wordPressCredentials, {
+          search: search || undefined,
+          mediaType: mediaType || undefined,
+          month: month || undefined,
+          page,
+          perPage: PER_PAGE,
+        });
+        if (cancelled) return;
+        setItems(result.items);
+        setTotalPages(Math.max(result.totalPages, 1));
+        setTotalItems(result.totalItems);
+        setKnown(current => ({ ...current, ...Object.fromEntries(result.items.map(item => [item.id, item])) }));
+      } catch (e: any) {
+        if (!cancelled) setError(e.message || 'Falha ao carregar a biblioteca de mídia.');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [wordPressCredentials, search, mediaType, month, page]);
+
+  const active = activeId !== null ? known[activeId] ?? null : null;
+
+  useEffect(() => {
+    if (!active) return;
+    setAltText(active.alt_text);
+    setCaption(mediaCaption(active));
+    setCredit(mediaCredit(active));
+  }, [active]);
+
+  const changeFilter = (apply: () => void) => {
+    apply();
+    setPage(1);
+  };
+
+  const handleItemClick = (item: WordPressMedia) => {
+    setActiveId(item.id);
+    if (!multiple) {
+      setSelectedIds([item.id]);
+      return;
+    }
+    setSelectedIds(current => current.includes(item.id) ? current.filter(id => id !== item.id) : [...current, item.id]);
+  };
+
+  const handleSaveDetails = async () => {
+    if (!active) return;
+    setIsSavingDetails(true);
+    try {
+      const updated = await updateMediaItem(wordPressCredentials, active.id, {
+        alt_text: altText.trim(),
+        caption: caption.trim(),
+        meta: { [MEDIA_CREDIT_META_KEY]: credit.trim() },
+      });
+      setKnown(current => ({ ...current, [updated.id]: updated }));
+      setItems(current => current.map(item => item.id === updated.id ? updated : item));
+      showToast('Dados da mídia atualizados!', 'success');
+    } catch (e: any) {
+      showToast(e.message || 'Falha ao atualizar os dados da mídia.', 'error');
+    } finally {
+      setIsSavingDetails(false);
+    }
+  };
+
+  const selectedKnown = selectedIds.map(id => known[id]).filter((item): item is WordPressMedia => Boolean(item));
+  const selectedWithoutAlt = selectedKnown.filter(isMissingAlt).length;
+  const detailsChanged = active !== null && (altText !== active.alt_text || caption !== mediaCaption(active) || credit !== mediaCredit(active));
+
+  const handleConfirm = async () => {
+    setIsConfirming(true);
+    try {
+      // Itens da seleção inicial que não apareceram nas páginas vistas
+      const missing = selectedIds.filter(id => !known[id]);
+      let fetched: WordPressMedia[] = [];
+      if (missing.length > 0) {
+        fetched = (await getMediaItems(wordPressCredentials, { include: missing })).items;
+      }
+      const byId = { ...known, ...Object.fromEntries(fetched.map(item => [item.id, item])) };
+      onSelect(selectedIds.map(id => byId[id]).filter((item): item is WordPressMedia => Boolean(item)));
+    } catch (e: any) {
+      showToast(e.message || 'Falha ao carregar a mídia selecionada.', 'error');
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-6xl h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center">
+            <ImageIcon className="h-6 w-6 text-brand-purple mr-2" />
+            <h2 className="text-xl font-bold text-gray-800">{title ?? 'Biblioteca de mídia'}</h2>
+          </div>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Fechar">
+            <XCircleIcon className="h-8 w-8" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 px-6 py-3 border-b border-gray-200">
+          <div className="relative flex-grow min-w-[12rem]">
+            <MagnifyingGlassIcon className="h-5 w-5 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={searchInput}
+              onChange={e => setSearchInput(e.target.value)}
+              placeholder="Buscar por título, legenda ou nome do arquivo"
+              className={`${inputClassName} pl-9`}
+            />
+          </div>
+          <select value={mediaType} onChange={e => changeFilter(() => setMediaType(e.target.value as MediaQuery['mediaType'] | ''))} className="p-2 border-gray-300 rounded-md shadow-sm sm:text-sm">
+            <option value="">Todos os tipos</option>
+            {Object.entries(MEDIA_TYPE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+          </select>
+          <input
+            type="month"
+            value={month}
+            onChange={e => changeFilter(() => setMonth(e.target.value))}
+            className="p-2 border-gray-300 rounded-md shadow-sm sm:text-sm"
+            aria-label="Mês de envio"
+          />
+          {month && (
+            <button type="button" onClick={() => changeFilter(() => setMonth(''))} className="text-sm text-gray-500 hover:text-gray-700">
+              Todas as datas
+            </button>
+          )}
+        </div>
+
+        <div className="flex-grow flex min-h-0">
+          <section className="flex-grow flex flex-col min-w-0">
+            <div className="flex-grow overflow-y-auto p-6">
+              {isLoading ? (
+                <div className="h-full flex items-center justify-center text-gray-500"><LoadingSpinner /> Carregando mídia...</div>
+              ) : error ? (
+                <p className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md">{error}</p>
+              ) : items.length === 0 ? (
+                <p className="text-sm text-gray-500">Nenhum arquivo encontrado com esses filtros.</p>
+              ) : (
+                <ul className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-6 gap-3">
+                  {items.map(item => {
+                    const isSelected = selectedIds.includes(item.id);
+                    const selectable = isImage(item);
+                    return (
+                      <li key={item.id}>
+                        <button
+                          type="button"
+                          onClick={() => selectable ? handleItemClick(item) : setActiveId(item.id)}
+                          title={mediaTitle(item)}
+                          className={`relative w-full aspect-square rounded-md overflow-hidden border-2 ${isSelected ? 'border-brand-purple ring-2 ring-brand-purple' : item.id === activeId ? 'border-gray-400' : 'border-gray-200'} ${selectable ? '' : 'opacity-60'}`}
+                        >
+                          {selectable ? (
+                            <img src={thumbnailUrl(item)} alt={item.alt_text} loading="lazy" className="w-full h-full object-cover" />
+                          ) : (
+                            <span className="flex h-full items-center justify-center p-2 text-xs text-gray-500 break-all bg-gray-50">{mediaTitle(item) || item.mime_type}</span>
+                          )}
+                          {isMissingAlt(item) && (
+                            <span className="absolute bottom-1 left-1 px-1.5 py-0.5 text-[10px] font-semibold rounded bg-yellow-100 text-yellow-800">Sem alt</span>
+                          )}
+                          {isSelected && multiple && (
+                            <span className="absolute top-1 right-1 h-5 w-5 flex items-center justify-center text-xs font-bold rounded-full bg-brand-purple text-white">
+                              {selectedIds.indexOf(item.id) + 1}
+                            </span>
+                          )}
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+            <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200 text-sm text-gray-600">
+              <span>{totalItems} arquivo(s)</span>
+              <div className="flex items-center space-x-2">
+                <button type="button" onClick={() => setPage(p => p - 1)} disabled={page <= 1 || isLoading} className="px-3 py-1 border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50">
+                  Anterior
+                </button>
+                <span>Página {page} de {totalPages}</span>
+                <button type="button" onClick={() => setPage(p => p + 1)} disabled={page >= totalPages || isLoading} className="px-3 py-1 border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50">
+                  Próxima
+                </button>
+              </div>
+            </div>
+          </section>
+
+          <aside className="w-80 flex-shrink-0 border-l border-gray-200 overflow-y-auto p-5">
+            {!active ? (
+              <p className="text-sm text-gray-500">Clique em um arquivo para ver e editar os detalhes.</p>
+            ) : (
+              <div className="space-y-4">
+                {isImage(active) && <img src={thumbnailUrl(active)} alt={active.alt_text} className="w-full rounded-md border border-gray-200" />}
+                <div className="text-xs text-gray-500 space-y-0.5">
+                  <p className="font-medium text-gray-800 text-sm break-words">{mediaTitle(active) || 'Sem título'}</p>
+                  <p>Enviado em {formatDate(active.date)}</p>
+                  {active.media_details?.width && <p>{active.media_details.width} × {active.media_details.height} px</p>}
+                </div>
+                {isMissingAlt(active) && (
+                  <p className="p-2 text-xs text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md">
+                    Esta imagem não tem texto alternativo. Descreva o que ela mostra para leitores de tela e para o SEO.
+                  </p>
+                )}
+                <div>
+                  <label htmlFor="mediaAltText" className="block text-sm font-medium text-gray-700 mb-1">Texto alternativo</label>
+                  <input type="text" id="mediaAltText" value={altText} onChange={e => setAltText(e.target.value)} className={inputClassName} placeholder="Descreva a imagem..." />
+                </div>
+                <div>
+                  <label htmlFor="mediaCaption" className="block text-sm font-medium text-gray-700 mb-1">Legenda</label>
+                  <textarea id="mediaCaption" rows={3} value={caption} onChange={e => setCaption(e.target.value)} className={inputClassName} />
+                </div>
+                <div>
+                  <label htmlFor="mediaCredit" className="block text-sm font-medium text-gray-700 mb-1">Crédito</label>
+                  <input type="text" id="mediaCredit" value={credit} onChange={e => setCredit(e.target.value)} className={inputClassName} placeholder="Foto: ..." />
+                </div>
+                <button
+                  type="button"
+                  onClick={handleSaveDetails}
+                  disabled={isSavingDetails || !detailsChanged}
+                  className="w-full flex justify-center items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {isSavingDetails ? <><LoadingSpinner /> Salvando...</> : 'Salvar dados da mídia'}
+                </button>
+              </div>
+            )}
+          </aside>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-3 px-6 py-4 border-t border-gray-200">
+          {selectedWithoutAlt > 0 && (
+            <p className="mr-auto text-sm text-yellow-800">
+              {selectedWithoutAlt === 1 ? '1 imagem selecionada está sem texto alternativo.' : `${selectedWithoutAlt} imagens selecionadas estão sem texto alternativo.`}
+            </p>
+          )}
+          <button type="button" onClick={onClose} className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50">
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={isConfirming || (!multiple && selectedIds.length === 0)}
+            className="flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-brand-purple hover:opacity-90 disabled:bg-gray-400"
+          >
+            {isConfirming ? <><LoadingSpinner /> Carregando...</> : multiple ? `Usar na galeria (${selectedIds.length})` : 'Usar imagem'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MediaLibraryModal;
@@ -1,11 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { WordPressCredentials, WordPressPost, InitialOrganizadorData } from '../types';
-import { createCPTItem, getCPTItemById, updateCPTItem, uploadMedia } from '../services/wordpressService';
+import { WordPressCredentials, WordPressPost, InitialOrganizadorData, WordPressMedia } from '../types';
+import { getCPTItemById } from '../services/wordpressService';
 import LoadingSpinner from './LoadingSpinner';
 import ImageCropperModal from './ImageCropperModal';
-import { CameraIcon, ImageIcon } from './icons/Icons';
+import RevisionHistoryModal from './RevisionHistoryModal';
+import MediaLibraryModal from './MediaLibraryModal';
+import { CameraIcon, ImageIcon, ClockIcon } from './icons/Icons';
 import { useToast } from '../hooks/useToast';
 import { useQuillEditor } from '../hooks/useQuillEditor';
+import { offlineQueue, QUEUED_SAVE_MESSAGES } from '../services/offlineQueue';
 
 interface OrganizadorEditorProps {
     organizadorId?: number;
@@ -13,9 +16,10 @@ interface OrganizadorEditorProps {
     wordPressCredentials: WordPressCredentials;
     onSave: () => void;
     onCancel: () => void;
+    onReload?: () => void; // Remonta o editor com os dados do servidor (ex.: depois de restaurar uma revisão)
 }
 
-const OrganizadorEditor: React.FC<OrganizadorEditorProps> = ({ organizadorId, initialData, wordPressCredentials, onSave, onCancel }) => {
+const OrganizadorEditor: React.FC<OrganizadorEditorProps> = ({ organizadorId, initialData, wordPressCredentials, onSave, onCancel, onReload }) => {
     const [title, setTitle] = useState('');
     const [content, setContent] = useState('');
     const [status, setStatus] = useState<WordPressPost['status']>('draft');
@@ -30,9 +34,13 @@ const OrganizadorEditor: React.FC<OrganizadorEditorProps> = ({ organizadorId, in
     const [featuredImageUrl, setFeaturedImageUrl] = useState<string | null>(null);
     const [imageToCrop, setImageToCrop] = useState<string | null>(null);
     const [croppedImageFile, setCroppedImageFile] = useState<File | null>(null);
+    const [featuredMediaId, setFeaturedMediaId] = useState<number | null>(null);
 
     const [isLoading, setIsLoading] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
+    const [serverModified, setServerModified] = useState<string | null>(null);
+    const [showRevisions, setShowRevisions] = useState(false);
+    const [showMediaLibrary, setShowMediaLibrary] = useState(false);
     
     const { showToast } = useToast();
     const isEditing = organizadorId !== undefined;
@@ -71,6 +79,7 @@ const OrganizadorEditor: React.FC<OrganizadorEditorProps> = ({ organizadorId, in
                     setQuillContent(postContent);
                 }, 100);
                 setStatus(organizador.status);
+                setServerModified(organizador.modified_gmt ?? null);
                 
                 setAddress(organizador.meta?.endereco || '');
                 setPhone(organizador.meta?.telefone || '');
@@ -101,20 +110,23 @@ const OrganizadorEditor: React.FC<OrganizadorEditorProps> = ({ organizadorId, in
     const handleCropComplete = (blob: Blob) => {
         const file = new File([blob], "featured-image.webp", { type: "image/webp" });
         setCroppedImageFile(file);
+        setFeaturedMediaId(null);
         setFeaturedImageUrl(URL.createObjectURL(file));
         setImageToCrop(null);
     };
 
+    // Anexo que já está na biblioteca: vai direto como featured_media, sem novo upload
+    const handleLibrarySelect = ([media]: WordPressMedia[]) => {
+        setCroppedImageFile(null);
+        setFeaturedMediaId(media.id);
+        setFeaturedImageUrl(media.source_url);
+        setShowMediaLibrary(false);
+    };
+
     const handleSave = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsSaving(true);
         try {
-            let featuredMediaId: number | undefined;
-            if (croppedImageFile) {
-                const uploadedMedia = await uploadMedia(wordPressCredentials, croppedImageFile);
-                featuredMediaId = uploadedMedia.id;
-            }
-            
             const itemData: any = { 
                 title, content, status,
                 meta: {
@@ -124,13 +136,23 @@ const OrganizadorEditor: React.FC<OrganizadorEditorProps> = ({ organizadorId, in
                     instagram: instagram,
                 },
             };
+
             if (featuredMediaId) itemData.featured_media = featuredMediaId;
 
-            if (isEditing) {
-                await updateCPTItem(wordPressCredentials, 'organizador', organizadorId, itemData);
+            const outcome = await offlineQueue.save(wordPressCredentials, {
+                postType: 'organizador',
+                itemId: isEditing ? organizadorId : null,
+                title,
+                data: itemData,
+                mediaFile: croppedImageFile,
+                baseModified: serverModified,
+                draftId: initialData?.draftId,
+            });
+            if (outcome !== 'sincronizado') {
+                showToast(QUEUED_SAVE_MESSAGES[outcome], outcome === 'conflito' ? 'error' : 'info');
+            } else if (isEditing) {
                 showToast('Organizador atualizado com sucesso!', 'success');
             } else {
-                await createCPTItem(wordPressCredentials, 'organizador', itemData);
                 showToast('Organizador criado com sucesso!', 'success');
             }
             onSave();
@@ -145,11 +167,34 @@ const OrganizadorEditor: React.FC<OrganizadorEditorProps> = ({ organizadorId, in
 
     return (
         <div className="p-4 sm:p-6 lg:p-8 bg-gray-50 min-h-full">
+             {isEditing && showRevisions && (
+                 <RevisionHistoryModal
+                     postType="organizador"
+                     itemId={organizadorId}
+                     wordPressCredentials={wordPressCredentials}
+                     onRestored={() => (onReload ?? onSave)()}
+                     onClose={() => setShowRevisions(false)}
+                 />
+             )}
+             {showMediaLibrary && (
+                 <MediaLibraryModal
+                     wordPressCredentials={wordPressCredentials}
+                     title="Imagem destacada"
+                     onSelect={handleLibrarySelect}
+                     onClose={() => setShowMediaLibrary(false)}
+                 />
+             )}
              {imageToCrop && <ImageCropperModal imageSrc={imageToCrop} onClose={() => setImageToCrop(null)} onCropComplete={handleCropComplete}/>}
             <form onSubmit={handleSave}>
                 <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 sm:gap-0 mb-6">
                      <h1 className="text-3xl font-bold text-gray-900">{isEditing ? 'Editar Organizador' : 'Criar Novo Organizador'}</h1>
                     <div className="flex items-center space-x-3">
+                        {isEditing && (
+                            <button type="button" onClick={() => setShowRevisions(true)} className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50">
+                                <ClockIcon className="h-4 w-4 mr-1" />
+                                Revisões
+                            </button>
+                        )}
                         <button type="button" onClick={onCancel} className="px-4 py-2 text-sm bg-white border rounded-md">Cancelar</button>
                         <button type="submit" disabled={isSaving} className="flex items-center px-4 py-2 text-sm text-white bg-recife-red rounded-md disabled:bg-gray-400">
                             {isSaving ? <><LoadingSpinner /> Salvando...</> : 'Salvar Organizador'}
@@ -205,6 +250,9 @@ const OrganizadorEditor: React.FC<OrganizadorEditorProps> = ({ organizadorId, in
                                <CameraIcon className="h-5 w-5 mr-2" /><span>{featuredImageUrl ? 'Trocar' : 'Enviar'} Imagem</span>
                             </label>
                             <input id="image-upload" type="file" className="sr-only" accept="image/*" onChange={handleImageSelect}/>
+                            <button type="button" onClick={() => setShowMediaLibrary(true)} className="mt-2 w-full flex justify-center items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50">
+                                <ImageIcon className="h-5 w-5 mr-2" /><span>Escolher da Biblioteca</span>
+                            </button>
                         </div>
                     </div>
                 </div>
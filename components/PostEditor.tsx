@@ -1,30 +1,44 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { WordPressCredentials, WordPressPost, SeoAnalysis, InitialPostData } from '../types';
-import { createCPTItem, getCPTItemById, updateCPTItem, uploadMedia } from '../services/wordpressService';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { WordPressCredentials, WordPressPost, SeoAnalysis, InitialPostData, WordPressMedia } from '../types';
+import { getCPTItemById } from '../services/wordpressService';
 import { analyzeSeoRealtime } from '../services/seoService';
 import LoadingSpinner from './LoadingSpinner';
 import SeoAnalyzer from './SeoAnalyzer';
 import ImageCropperModal from './ImageCropperModal';
-import { CameraIcon, ImageIcon } from './icons/Icons';
+import RevisionHistoryModal from './RevisionHistoryModal';
+import MediaLibraryModal from './MediaLibraryModal';
+import StyleLintPanel from './StyleLintPanel';
+import { CameraIcon, ImageIcon, ClockIcon } from './icons/Icons';
 import TaxonomySelector from './TaxonomySelector';
 import { useToast } from '../hooks/useToast';
 import { useQuillEditor } from '../hooks/useQuillEditor';
+import { useSeoPlugin } from '../hooks/useSeoPlugin';
+import { offlineQueue, QUEUED_SAVE_MESSAGES } from '../services/offlineQueue';
+import TranslationPanel from './TranslationPanel';
+import ArticleUpdatePanel from './ArticleUpdatePanel';
+import { contentFromPost } from '../services/translationService';
+import { STRUCTURED_DATA_META_KEY } from '../services/roundupService';
 
 interface PostEditorProps {
     postId?: number;
     initialData?: InitialPostData | null;
+    initialUpdateInformation?: string; // Pauta repetida: abre a atualização assistida com o texto-fonte
     wordPressCredentials: WordPressCredentials;
     onSave: () => void;
     onCancel: () => void;
+    onReload?: () => void; // Remonta o editor com os dados do servidor (ex.: depois de restaurar uma revisão)
 }
 
-const PostEditor: React.FC<PostEditorProps> = ({ postId, initialData, wordPressCredentials, onSave, onCancel }) => {
+const PostEditor: React.FC<PostEditorProps> = ({ postId, initialData, initialUpdateInformation, wordPressCredentials, onSave, onCancel, onReload }) => {
     const [title, setTitle] = useState('');
     const [urlSlug, setUrlSlug] = useState('');
     const [content, setContent] = useState('');
     const [status, setStatus] = useState<WordPressPost['status']>('draft');
     const [selectedCategories, setSelectedCategories] = useState<number[]>([]);
     const [selectedTags, setSelectedTags] = useState<number[]>([]);
+    // JSON-LD vindo do rascunho (o Quill removeria a tag <script>, então fica fora do editor)
+    const [structuredData, setStructuredData] = useState<string | null>(null);
+    const [showUpdatePanel, setShowUpdatePanel] = useState(Boolean(initialUpdateInformation));
     
     // Use the custom hook for Quill editor management
     const { editorRef, initializeQuill, setContent: setQuillContent } = useQuillEditor('Comece a escrever sua notícia aqui...');
@@ -33,16 +47,27 @@ const PostEditor: React.FC<PostEditorProps> = ({ postId, initialData, wordPressC
     const [imageAltText, setImageAltText] = useState('');
     const [imageToCrop, setImageToCrop] = useState<string | null>(null);
     const [croppedImageFile, setCroppedImageFile] = useState<File | null>(null);
+    const [featuredMediaId, setFeaturedMediaId] = useState<number | null>(null);
 
     const [focusKeyword, setFocusKeyword] = useState('');
     const [seoAnalysis, setSeoAnalysis] = useState<SeoAnalysis | null>(null);
+    const { seoPlugin, seoMeta, setSeoMeta, storedSeo, setSourcePost } = useSeoPlugin(wordPressCredentials, initialData?.seoDescription, setFocusKeyword);
 
     const [isLoading, setIsLoading] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
+    // Data de modificação no servidor ao abrir; a fila offline a usa para detectar edições concorrentes
+    const [serverModified, setServerModified] = useState<string | null>(null);
+    const [showRevisions, setShowRevisions] = useState(false);
+    const [showMediaLibrary, setShowMediaLibrary] = useState(false);
     
     const { showToast } = useToast();
     const isEditing = postId !== undefined;
 
+    const translatableContent = useMemo(
+        () => contentFromPost({ title, contentHtml: content, focusKeyword, altText: imageAltText }),
+        [title, content, focusKeyword, imageAltText]
+    );
+
     // Initialize Quill editor
     useEffect(() => {
         initializeQuill(setContent);
@@ -61,6 +86,7 @@ const PostEditor: React.FC<PostEditorProps> = ({ postId, initialData, wordPressC
             setFocusKeyword(initialData.focusKeyword);
             setSelectedCategories(initialData.categoryIds);
             setSelectedTags(initialData.tagIds);
+            setStructuredData(initialData.structuredData || null);
         }
     }, [initialData, setQuillContent]);
 
@@ -78,8 +104,12 @@ const PostEditor: React.FC<PostEditorProps> = ({ postId, initialData, wordPressC
                 setQuillContent(postContent);
             }, 100);
             setStatus(post.status);
+            setServerModified(post.modified_gmt ?? null);
+            setSourcePost(post);
             setSelectedCategories(post.categories || []);
             setSelectedTags(post.tags || []);
+            const storedStructuredData = post.meta?.[STRUCTURED_DATA_META_KEY];
+            setStructuredData(typeof storedStructuredData === 'string' && storedStructuredData ? storedStructuredData : null);
             
             const featuredMedia = post._embedded?.['wp:featuredmedia']?.[0];
             if (featuredMedia?.source_url) {
@@ -91,7 +121,7 @@ const PostEditor: React.FC<PostEditorProps> = ({ postId, initialData, wordPressC
         } finally {
             setIsLoading(false);
         }
-    }, [postId, isEditing, wordPressCredentials, showToast, setQuillContent]);
+    }, [postId, isEditing, wordPressCredentials, showToast, setQuillContent, setSourcePost]);
 
     useEffect(() => {
         if (isEditing) {
@@ -143,24 +173,39 @@ const PostEditor: React.FC<PostEditorProps> = ({ postId, initialData, wordPressC
     const handleCropComplete = (blob: Blob) => {
         const file = new File([blob], "featured-image.webp", { type: "image/webp" });
         setCroppedImageFile(file);
+        setFeaturedMediaId(null);
         setFeaturedImageUrl(URL.createObjectURL(file));
         setImageToCrop(null);
     };
 
+    // Anexo que já está na biblioteca: vai direto como featured_media, sem novo upload
+    const handleLibrarySelect = ([media]: WordPressMedia[]) => {
+        setCroppedImageFile(null);
+        setFeaturedMediaId(media.id);
+        setFeaturedImageUrl(media.source_url);
+        setImageAltText(media.alt_text);
+        setShowMediaLibrary(false);
+    };
+
+    const handleStyleFix = (fixedHtml: string) => {
+        setContent(fixedHtml);
+        setQuillContent(fixedHtml);
+    };
+
+    // A atualização assistida já salvou no WordPress: só sincroniza o editor com a nova versão
+    const handleArticleUpdated = (post: WordPressPost) => {
+        const updatedContent = post.content?.raw ?? post.content?.rendered ?? '';
+        setTitle(post.title.rendered);
+        setContent(updatedContent);
+        setQuillContent(updatedContent);
+        setShowUpdatePanel(false);
+    };
+
     const handleSave = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsSaving(true);
 
         try {
-            let featuredMediaId: number | undefined = undefined;
-            // Step 1: Check if there's a new image file to upload.
-            if (croppedImageFile) {
-                // Step 2: Upload the media file to WordPress.
-                const uploadedMedia = await uploadMedia(wordPressCredentials, croppedImageFile);
-                // Step 3: Get the ID of the newly uploaded media.
-                featuredMediaId = uploadedMedia.id;
-            }
-            
             const plainTextContent = content.replace(/<[^>]*>/g, ' ');
             const excerpt = plainTextContent.substring(0, 150) + (plainTextContent.length > 150 ? '...' : '');
 
@@ -171,19 +216,30 @@ const PostEditor: React.FC<PostEditorProps> = ({ postId, initialData, wordPressC
                 status,
                 categories: selectedCategories,
                 tags: selectedTags,
+                // Vazio apaga o JSON-LD removido no editor
+                meta: { [STRUCTURED_DATA_META_KEY]: structuredData ?? '' },
             };
 
-            // Step 4: If an image was uploaded, add its ID to the post data.
-            if (featuredMediaId) {
-                postData.featured_media = featuredMediaId;
-            }
+            // The offline queue uploads the new image first and then creates or updates the post.
+            // Without a connection the save stays in this browser and is sent later.
+            if (featuredMediaId) postData.featured_media = featuredMediaId;
 
-            // Step 5: Create or update the post with the complete data.
-            if (isEditing) {
-                await updateCPTItem(wordPressCredentials, 'posts', postId, postData);
+            const outcome = await offlineQueue.save(wordPressCredentials, {
+                postType: 'posts',
+                itemId: isEditing ? postId : null,
+                title,
+                data: postData,
+                mediaFile: croppedImageFile,
+                baseModified: serverModified,
+                draftId: initialData?.draftId,
+                headlineChoiceId: initialData?.headlineChoiceId,
+                seo: seoPlugin ? { plugin: seoPlugin, values: { ...seoMeta, focusKeyword } } : null,
+            });
+            if (outcome !== 'sincronizado') {
+                showToast(QUEUED_SAVE_MESSAGES[outcome], outcome === 'conflito' ? 'error' : 'info');
+            } else if (isEditing) {
                 showToast('Post atualizado com sucesso!', 'success');
             } else {
-                await createCPTItem(wordPressCredentials, 'posts', postData);
                 showToast('Post criado com sucesso!', 'success');
             }
             onSave();
@@ -210,6 +266,23 @@ const PostEditor: React.FC<PostEditorProps> = ({ postId, initialData, wordPressC
 
     return (
         <div className="p-4 sm:p-6 lg:p-8 bg-gray-50 min-h-full">
+             {isEditing && showRevisions && (
+                 <RevisionHistoryModal
+                     postType="posts"
+                     itemId={postId}
+                     wordPressCredentials={wordPressCredentials}
+                     onRestored={() => (onReload ?? onSave)()}
+                     onClose={() => setShowRevisions(false)}
+                 />
+             )}
+             {showMediaLibrary && (
+                 <MediaLibraryModal
+                     wordPressCredentials={wordPressCredentials}
+                     title="Imagem destacada"
+                     onSelect={handleLibrarySelect}
+                     onClose={() => setShowMediaLibrary(false)}
+                 />
+             )}
              {imageToCrop && (
                 <ImageCropperModal
                     imageSrc={imageToCrop}
@@ -228,6 +301,12 @@ const PostEditor: React.FC<PostEditorProps> = ({ postId, initialData, wordPressC
                         </p>
                     </div>
                     <div className="flex items-center space-x-3">
+                        {isEditing && (
+                            <button type="button" onClick={() => setShowRevisions(true)} className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50">
+                                <ClockIcon className="h-4 w-4 mr-1" />
+                                Revisões
+                            </button>
+                        )}
                         <button type="button" onClick={onCancel} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50">
                             Cancelar
                         </button>
@@ -255,9 +334,44 @@ const PostEditor: React.FC<PostEditorProps> = ({ postId, initialData, wordPressC
                              </div>
                         </div>
                         <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
-                            <label className="block text-sm font-medium text-gray-700 mb-1">Conteúdo</label>
+                            <div className="flex items-center justify-between mb-1">
+                                <label className="block text-sm font-medium text-gray-700">Conteúdo</label>
+                                {isEditing && !showUpdatePanel && (
+                                    <button type="button" onClick={() => setShowUpdatePanel(true)} className="text-xs font-medium text-brand-purple hover:underline">
+                                        Atualizar matéria com IA
+                                    </button>
+                                )}
+                            </div>
                             <div ref={editorRef}></div>
                         </div>
+                        <StyleLintPanel html={content} onFix={handleStyleFix} />
+                        {isEditing && showUpdatePanel && (
+                            <ArticleUpdatePanel
+                                postId={postId}
+                                initialInformation={initialUpdateInformation}
+                                wordPressCredentials={wordPressCredentials}
+                                onUpdated={handleArticleUpdated}
+                                onClose={() => setShowUpdatePanel(false)}
+                            />
+                        )}
+                        {structuredData && (
+                            <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+                                <div className="flex items-center justify-between mb-2">
+                                    <label className="block text-sm font-medium text-gray-700">Dados estruturados (JSON-LD)</label>
+                                    <button type="button" onClick={() => setStructuredData(null)} className="text-xs text-red-600 hover:underline">Remover</button>
+                                </div>
+                                <p className="text-xs text-gray-500 mb-2">Gravado no campo meta do post ao salvar; o site o publica no cabeçalho da página.</p>
+                                <pre className="text-xs text-gray-700 bg-gray-50 p-3 rounded-md whitespace-pre-wrap break-all max-h-48 overflow-y-auto">{structuredData}</pre>
+                            </div>
+                        )}
+                        {isEditing && (
+                            <TranslationPanel
+                                content={translatableContent}
+                                postType="posts"
+                                sourcePostId={postId}
+                                wordPressCredentials={wordPressCredentials}
+                            />
+                        )}
                     </div>
 
                     <div className="space-y-6">
@@ -302,6 +416,21 @@ const PostEditor: React.FC<PostEditorProps> = ({ postId, initialData, wordPressC
                                <span>{featuredImageUrl ? 'Trocar Imagem' : 'Enviar Imagem'}</span>
                             </label>
                             <input id="image-upload" type="file" className="sr-only" accept="image/png, image/jpeg, image/gif, image/webp" onChange={handleImageSelect}/>
+                            <button type="button" onClick={() => setShowMediaLibrary(true)} className="mt-2 w-full flex justify-center items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50">
+                                <ImageIcon className="h-5 w-5 mr-2" /><span>Escolher da Biblioteca</span>
+                            </button>
+                            {initialData?.featuredImageCandidates && initialData.featuredImageCandidates.length > 0 && (
+                                <div className="mt-4">
+                                    <p className="text-sm font-medium text-gray-700 mb-1">Imagens do comunicado</p>
+                                    <div className="grid grid-cols-3 gap-2">
+                                        {initialData.featuredImageCandidates.map((image, index) => (
+                                            <button key={`${image.name}-${index}`} type="button" onClick={() => setImageToCrop(image.dataUrl)} title={`Usar ${image.name}`} className="aspect-square rounded-md overflow-hidden border border-gray-200 hover:ring-2 hover:ring-brand-purple">
+                                                <img src={image.dataUrl} alt={image.name} className="w-full h-full object-cover" />
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
                             <div className="mt-4">
                                 <label htmlFor="imageAltText" className="block text-sm font-medium text-gray-700 mb-1">Texto Alternativo (Alt Text)</label>
                                 <input type="text" id="imageAltText" value={imageAltText} onChange={e => setImageAltText(e.target.value)} className="block w-full p-2 border-gray-300 rounded-md shadow-sm focus:ring-brand-purple focus:border-brand-purple sm:text-sm" placeholder="Descreva a imagem..." />
@@ -311,6 +440,10 @@ const PostEditor: React.FC<PostEditorProps> = ({ postId, initialData, wordPressC
                             focusKeyword={focusKeyword}
                             onFocusKeywordChange={setFocusKeyword}
                             analysis={seoAnalysis}
+                            seoPlugin={seoPlugin}
+                            seoMeta={seoMeta}
+                            onSeoMetaChange={setSeoMeta}
+                            storedSeo={storedSeo}
                         />
                     </div>
                 </div>
@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { ImportedPressRelease } from '../types';
+import { PRESS_RELEASE_ACCEPT, importPressReleaseFile, pressReleaseHistoryService } from '../services/pressReleaseImport';
+import LoadingSpinner from './LoadingSpinner';
+import { CloudArrowUpIcon } from './icons/Icons';
+
+interface PressReleaseImporterProps {
+  onImport: (release: ImportedPressRelease) => void;
+  disabled?: boolean;
+}
+
+const formatDate = (date: string | null) =>
+  date ? new Date(date).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' }) : null;
+
+const PressReleaseImporter: React.FC<PressReleaseImporterProps> = ({ onImport, disabled }) => {
+  const [releases, setReleases] = useState<ImportedPressRelease[]>([]);
+  const [skipped, setSkipped] = useState(0);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [processed, setProcessed] = useState<{ subject: string; created_at: string } | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = selectedIndex !== null ? releases[selectedIndex] : null;
+
+  // Avisa se alguém da equipe já gerou matéria a partir do mesmo comunicado
+  useEffect(() => {
+    setProcessed(null);
+    if (!selected) return;
+    let cancelled = false;
+    pressReleaseHistoryService.findProcessed(selected).then(result => {
+      if (!cancelled) setProcessed(result);
+    });
+    return () => { cancelled = true; };
+  }, [selected]);
+
+  const handleSelect = (index: number) => {
+    setSelectedIndex(index);
+    onImport(releases[index]);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsReading(true);
+    setError(null);
+    setReleases([]);
+    setSelectedIndex(null);
+    try {
+      const result = await importPressReleaseFile(file);
+      if (result.releases.length === 0) throw new Error('Nenhuma mensagem encontrada no arquivo.');
+      setReleases(result.releases);
+      setSkipped(result.skipped);
+      // Arquivo com um só comunicado vai direto para o campo de texto
+      if (result.releases.length === 1) {
+        setSelectedIndex(0);
+        onImport(result.releases[0]);
+      }
+    } catch (e: any) {
+      console.error(e);
+      setError(`Não foi possível ler o arquivo: ${e.message}`);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <div className="mb-4 space-y-3">
+      <label className={`flex justify-center items-center px-4 py-2 border border-dashed border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-gray-50 ${disabled || isReading ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer hover:bg-gray-100'}`}>
+        {isReading ? <><LoadingSpinner /> Lendo arquivo...</> : <><CloudArrowUpIcon className="h-5 w-5 mr-2" />Importar e-mail (.eml/.mbox) ou documento (PDF, DOCX, ODT)</>}
+        <input type="file" className="sr-only" accept={PRESS_RELEASE_ACCEPT} onChange={handleFileChange} disabled={disabled || isReading} />
+      </label>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {releases.length > 1 && (
+        <div className="border border-gray-200 rounded-md">
+          <p className="px-3 py-2 text-xs text-gray-500 border-b border-gray-200">
+            {releases.length} mensagens, das mais recentes para as mais antigas{skipped > 0 && ` (${skipped} mais antigas não foram lidas)`}. Escolha o comunicado:
+          </p>
+          <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+            {releases.map((release, index) => (
+              <li key={`${release.fingerprints[0]}-${index}`}>
+                <button
+                  type="button"
+                  onClick={() => handleSelect(index)}
+                  disabled={disabled}
+                  className={`w-full text-left px-3 py-2 text-sm ${selectedIndex === index ? 'bg-brand-purple/10' : 'hover:bg-gray-50'}`}
+                >
+                  <span className="block font-medium text-gray-800 truncate">{release.subject}</span>
+                  <span className="block text-xs text-gray-500 truncate">{[release.sender, formatDate(release.date)].filter(Boolean).join(' · ')}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {selected && (
+        <div className="p-3 bg-gray-50 border border-gray-200 rounded-md text-sm space-y-2">
+          <div>
+            <p className="font-semibold text-gray-800">{selected.subject}</p>
+            {selected.sender && <p className="text-xs text-gray-600">De: {selected.sender}</p>}
+            {selected.date && <p className="text-xs text-gray-600">Recebido em: {formatDate(selected.date)}</p>}
+            {selected.attachments.length > 0 && <p className="text-xs text-gray-600">Documentos lidos: {selected.attachments.join(', ')}</p>}
+          </div>
+          {processed && (
+            <p className="text-xs text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md p-2">
+              Este comunicado já foi usado para gerar uma matéria em {formatDate(processed.created_at)} ("{processed.subject}"). Confira antes de publicar de novo.
+            </p>
+          )}
+          {selected.warnings.length > 0 && (
+            <ul className="text-xs text-yellow-800 list-disc pl-5">
+              {selected.warnings.map(warning => <li key={warning}>{warning}</li>)}
+            </ul>
+          )}
+          {selected.images.length > 0 && (
+            <div>
+              <p className="text-xs text-gray-600 mb-1">{selected.images.length} imagem(ns) anexada(s), oferecidas como imagem destacada no editor:</p>
+              <div className="flex gap-2 overflow-x-auto">
+                {selected.images.map((image, index) => (
+                  <img key={`${image.name}-${index}`} src={image.dataUrl} alt={image.name} title={image.name} className="h-16 w-16 object-cover rounded border border-gray-200 flex-shrink-0" />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PressReleaseImporter;
@@ -0,0 +1,254 @@
+import React, { useState, useEffect } from 'react';
+import { PromptTemplateId, PromptTemplateOverride, SchemaNode } from '../types';
+import { promptRegistry, renderTemplateBody, validateTemplateBody, ResolvedPromptTemplate } from '../services/promptRegistry';
+import { DEFAULT_PROMPT_TEMPLATES } from '../services/promptTemplates';
+import { diffLines, hasChanges } from '../services/textDiff';
+import { useAppContext } from '../hooks/useAppContext';
+import { useToast } from '../hooks/useToast';
+import { DocumentTextIcon } from './ui/icons/Icons';
+
+type PreviewTab = 'preview' | 'diff';
+
+const describeSchema = (schema: SchemaNode | null): string => {
+  if (!schema) return 'Texto livre';
+  if (schema.type === 'array' && schema.items.type === 'object') {
+    return `Lista JSON de objetos com: ${Object.keys(schema.items.properties).join(', ')}`;
+  }
+  if (schema.type === 'object') {
+    return `Objeto JSON com: ${Object.keys(schema.properties).join(', ')}`;
+  }
+  return `JSON (${schema.type})`;
+};
+
+const sourceLabel = (template: ResolvedPromptTemplate) =>
+  template.source === 'equipe' ? `Equipe v${template.version}` : `Padrão v${template.version}`;
+
+const PromptTemplatesEditor: React.FC = () => {
+  const { userProfile } = useAppContext();
+  const { showToast } = useToast();
+  const teamId = userProfile?.team_id ?? null;
+
+  const [templates, setTemplates] = useState<ResolvedPromptTemplate[]>(promptRegistry.listTemplates());
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>('noticia_comunicado');
+  const [body, setBody] = useState('');
+  const [tab, setTab] = useState<PreviewTab>('preview');
+  const [history, setHistory] = useState<PromptTemplateOverride[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selected = templates.find(t => t.id === selectedId)!;
+  const defaultTemplate = DEFAULT_PROMPT_TEMPLATES[selectedId];
+
+  const refresh = () => setTemplates(promptRegistry.listTemplates());
+
+  // As personalizações são carregadas em segundo plano no login; recarrega ao abrir a tela
+  useEffect(() => {
+    promptRegistry.loadTeamOverrides(teamId).then(refresh);
+  }, [teamId]);
+
+  useEffect(() => {
+    setBody(selected.body);
+  }, [selectedId, selected.body]);
+
+  useEffect(() => {
+    if (!teamId) return;
+    promptRegistry.getVersionHistory(teamId, selectedId)
+      .then(setHistory)
+      .catch(() => setHistory([]));
+  }, [teamId, selectedId, selected.version]);
+
+  const problems = validateTemplateBody(selectedId, body);
+  const isDirty = body !== selected.body;
+  const diff = diffLines(defaultTemplate.body, body);
+
+  let preview: string;
+  try {
+    preview = renderTemplateBody(body, Object.fromEntries(defaultTemplate.variables.map(v => [v.name, v.example])));
+  } catch (error: any) {
+    preview = error.message;
+  }
+
+  const runAction = async (action: () => Promise<void>, successMessage: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      refresh();
+      showToast(successMessage, 'success');
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => runAction(async () => {
+    await promptRegistry.saveOverride(teamId!, selectedId, body, userProfile!.id);
+  }, 'Nova versão do prompt salva para a equipe!');
+
+  const handleReset = () => {
+    if (!confirm('Voltar ao template padrão? As versões da equipe continuam no histórico.')) return;
+    runAction(() => promptRegistry.resetToDefault(teamId!, selectedId), 'Template padrão restaurado.');
+  };
+
+  const handleActivate = (version: number) =>
+    runAction(() => promptRegistry.activateVersion(teamId!, selectedId, version), `Versão ${version} reativada.`);
+
+  return (
+    <div className="mt-8 bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+      <div className="flex items-center">
+        <DocumentTextIcon className="h-6 w-6 text-brand-purple mr-3" />
+        <h2 className="text-xl font-bold text-gray-800">Templates de Prompt</h2>
+      </div>
+      <p className="mt-1 text-sm text-gray-500">
+        Personalize os prompts usados pela IA. Cada alteração gera uma nova versão da equipe, registrada em todo rascunho gerado.
+      </p>
+
+      {!teamId && (
+        <div className="mt-4 p-3 bg-yellow-100 border border-yellow-200 text-yellow-800 rounded-md text-sm">
+          Você não faz parte de uma equipe: os templates podem ser consultados, mas não personalizados.
+        </div>
+      )}
+
+      <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-6">
+        <ul className="space-y-1">
+          {templates.map(template => (
+            <li key={template.id}>
+              <button
+                type="button"
+                onClick={() => setSelectedId(template.id)}
+                className={`w-full text-left px-3 py-2 rounded-md text-sm ${
+                  template.id === selectedId ? 'bg-purple-50 text-brand-purple font-semibold' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <span className="block">{template.label}</span>
+                <span className={`text-xs ${template.source === 'equipe' ? 'text-blue-700' : 'text-gray-500'}`}>
+                  {sourceLabel(template)}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="md:col-span-2 space-y-4">
+          <div className="text-xs text-gray-500 space-y-1">
+            <p><strong>Saída:</strong> {describeSchema(selected.outputSchema)}</p>
+            <p><strong>Variáveis:</strong></p>
+            <ul className="pl-4 list-disc">
+              {defaultTemplate.variables.map(variable => (
+                <li key={variable.name}><code>{`{{${variable.name}}}`}</code> — {variable.description}</li>
+              ))}
+            </ul>
+            {selected.source === 'equipe' && selected.baseVersion < defaultTemplate.version && (
+              <p className="text-yellow-700">
+                O template padrão mudou (v{defaultTemplate.version}) desde que esta versão foi criada (base v{selected.baseVersion}).
+              </p>
+            )}
+          </div>
+
+          <textarea
+            rows={16}
+            value={body}
+            disabled={!teamId || isSaving}
+            onChange={(e) => setBody(e.target.value)}
+            className="block w-full p-2 border-gray-300 rounded-md shadow-sm font-mono text-xs focus:ring-brand-purple focus:border-brand-purple disabled:bg-gray-50"
+          />
+
+          {problems.length > 0 && (
+            <ul className="p-3 bg-red-100 border border-red-200 text-red-700 rounded-md text-sm list-disc pl-6">
+              {problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          )}
+
+          <div>
+            <div className="flex border-b border-gray-200 text-sm">
+              {(['preview', 'diff'] as PreviewTab[]).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setTab(option)}
+                  className={`px-3 py-2 -mb-px border-b-2 ${tab === option ? 'border-brand-purple text-brand-purple' : 'border-transparent text-gray-500'}`}
+                >
+                  {option === 'preview' ? 'Pré-visualização' : `Diferenças do padrão v${defaultTemplate.version}`}
+                </button>
+              ))}
+            </div>
+            <pre className="mt-2 p-3 bg-gray-50 rounded-md max-h-80 overflow-auto text-xs whitespace-pre-wrap">
+              {tab === 'preview' && preview}
+              {tab === 'diff' && (hasChanges(diff)
+                ? diff.map((line, index) => (
+                    <div
+                      key={index}
+                      className={line.type === 'adicionada' ? 'bg-green-100 text-green-800' : line.type === 'removida' ? 'bg-red-100 text-red-800 line-through' : 'text-gray-500'}
+                    >
+                      {line.type === 'adicionada' ? '+ ' : line.type === 'removida' ? '- ' : '  '}{line.text}
+                    </div>
+                  ))
+                : 'Idêntico ao template padrão.')}
+            </pre>
+          </div>
+
+          {teamId && (
+            <div className="flex justify-end space-x-2">
+              {isDirty && (
+                <button
+                  type="button"
+                  onClick={() => setBody(selected.body)}
+                  disabled={isSaving}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Descartar alterações
+                </button>
+              )}
+              {selected.source === 'equipe' && (
+                <button
+                  type="button"
+                  onClick={handleReset}
+                  disabled={isSaving}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Restaurar padrão
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={isSaving || !isDirty || problems.length > 0}
+                className="px-4 py-2 text-sm font-medium text-white bg-brand-purple rounded-md hover:opacity-90 disabled:opacity-50"
+              >
+                {isSaving ? 'Salvando...' : 'Salvar Nova Versão'}
+              </button>
+            </div>
+          )}
+
+          {history.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">Histórico da equipe</h3>
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md text-sm">
+                {history.map(version => (
+                  <li key={version.id} className="flex items-center justify-between px-3 py-2">
+                    <span className="text-gray-700">
+                      v{version.version} · base padrão v{version.base_version} · {new Date(version.created_at).toLocaleString('pt-BR')}
+                    </span>
+                    {version.is_active ? (
+                      <span className="px-2 py-0.5 text-xs bg-green-100 text-green-800 rounded-full">Ativa</span>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => handleActivate(version.version)}
+                        disabled={isSaving}
+                        className="text-xs text-brand-purple hover:underline disabled:opacity-50"
+                      >
+                        Reativar
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplatesEditor;
@@ -0,0 +1,202 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ItemRevision, WordPressCredentials, WordPressPost } from '../types';
+import { getCPTItemById } from '../services/wordpressService';
+import { currentVersion, revisionHistory } from '../services/revisionHistory';
+import { SideBySideRow, buildRevisionDiff } from '../services/revisionDiff';
+import { DiffLine } from '../services/textDiff';
+import { useToast } from '../hooks/useToast';
+import LoadingSpinner from './LoadingSpinner';
+import { ClockIcon, XCircleIcon } from './icons/Icons';
+
+interface RevisionHistoryModalProps {
+  postType: string;
+  itemId: number;
+  wordPressCredentials: WordPressCredentials;
+  onRestored: (post: WordPressPost) => void;
+  onClose: () => void;
+}
+
+const sourceLabels: Record<ItemRevision['source'], string> = {
+  wordpress: 'WordPress',
+  local: 'Este navegador',
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+const Words: React.FC<{ words: DiffLine[] | null }> = ({ words }) => (
+  <div className={`p-2 text-sm leading-relaxed whitespace-pre-wrap ${words ? '' : 'bg-gray-50'}`}>
+    {words?.map((part, index) => (
+      <span
+        key={index}
+        className={part.type === 'removida' ? 'bg-red-100 text-red-800 line-through' : part.type === 'adicionada' ? 'bg-green-100 text-green-800' : 'text-gray-700'}
+      >
+        {part.text}
+      </span>
+    ))}
+  </div>
+);
+
+const DiffRow: React.FC<{ row: SideBySideRow }> = ({ row }) => (
+  <div className="grid grid-cols-2 divide-x divide-gray-200 border-t border-gray-100 first:border-t-0">
+    <Words words={row.left} />
+    <Words words={row.right} />
+  </div>
+);
+
+// Revisões do WordPress e snapshots locais do item, com diff lado a lado contra a versão atual
+const RevisionHistoryModal: React.FC<RevisionHistoryModalProps> = ({ postType, itemId, wordPressCredentials, onRestored, onClose }) => {
+  const { showToast } = useToast();
+  const [revisions, setRevisions] = useState<ItemRevision[]>([]);
+  const [current, setCurrent] = useState<ItemRevision | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [remoteError, setRemoteError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [onlyChanges, setOnlyChanges] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setIsLoading(true);
+      const [list, post] = await Promise.all([
+        revisionHistory.list(wordPressCredentials, postType, itemId),
+        getCPTItemById(wordPressCredentials, postType, itemId).catch(error => {
+          console.error('Erro ao carregar a versão atual do item:', error);
+          return null;
+        }),
+      ]);
+      if (cancelled) return;
+      const latest = post ? currentVersion(post) : null;
+      // A revisão mais recente do WordPress costuma ser idêntica à versão atual
+      const older = latest ? list.revisions.filter(revision => revision.content !== latest.content || revision.title !== latest.title || revision.source === 'local') : list.revisions;
+      setCurrent(latest);
+      setRevisions(older);
+      setRemoteError(list.remoteError);
+      setSelectedId(older[0]?.id ?? null);
+      setIsLoading(false);
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [postType, itemId, wordPressCredentials]);
+
+  const selected = revisions.find(revision => revision.id === selectedId) ?? null;
+  // Sem conexão, compara com o snapshot local mais recente
+  const base = current ?? revisions[0] ?? null;
+
+  const fields = useMemo(
+    () => (selected && base && selected !== base ? buildRevisionDiff(selected, base) : []),
+    [selected, base]
+  );
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (!window.confirm(`Restaurar a versão de ${formatDate(selected.date)}? O conteúdo atual continua disponível no histórico.`)) return;
+    setIsRestoring(true);
+    try {
+      const post = await revisionHistory.restore(wordPressCredentials, postType, itemId, selected);
+      showToast('Versão restaurada com sucesso!', 'success');
+      onRestored(post);
+    } catch (e: any) {
+      showToast(e.message || 'Falha ao restaurar a versão.', 'error');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-6xl h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center">
+            <ClockIcon className="h-6 w-6 text-brand-purple mr-2" />
+            <h2 className="text-xl font-bold text-gray-800">Histórico de revisões</h2>
+          </div>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Fechar">
+            <XCircleIcon className="h-8 w-8" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex-grow flex items-center justify-center text-gray-500"><LoadingSpinner /> Carregando revisões...</div>
+        ) : (
+          <div className="flex-grow flex min-h-0">
+            <aside className="w-64 flex-shrink-0 border-r border-gray-200 overflow-y-auto">
+              {remoteError && (
+                <p className="m-3 p-2 text-xs text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md">
+                  Revisões do WordPress indisponíveis: {remoteError}
+                </p>
+              )}
+              {revisions.length === 0 ? (
+                <p className="p-4 text-sm text-gray-500">Nenhuma versão anterior encontrada.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {revisions.map(revision => (
+                    <li key={revision.id}>
+                      <button
+                        type="button"
+                        onClick={() => setSelectedId(revision.id)}
+                        className={`w-full text-left px-4 py-3 text-sm hover:bg-gray-50 ${revision.id === selectedId ? 'bg-brand-purple/10' : ''}`}
+                      >
+                        <span className="block font-medium text-gray-800">{formatDate(revision.date)}</span>
+                        <span className="block text-xs text-gray-500">{sourceLabels[revision.source]}</span>
+                        <span className="block text-xs text-gray-400 truncate">{revision.title || 'Sem título'}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </aside>
+
+            <section className="flex-grow flex flex-col min-w-0">
+              {selected && (
+                <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-3 border-b border-gray-200">
+                  <label className="flex items-center text-sm text-gray-600">
+                    <input type="checkbox" checked={onlyChanges} onChange={e => setOnlyChanges(e.target.checked)} className="mr-2 rounded border-gray-300" />
+                    Mostrar só as alterações
+                  </label>
+                  <button
+                    type="button"
+                    onClick={handleRestore}
+                    disabled={isRestoring || !current}
+                    title={current ? undefined : 'É preciso estar conectado ao WordPress para restaurar'}
+                    className="flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-brand-purple hover:opacity-90 disabled:bg-gray-400"
+                  >
+                    {isRestoring ? <><LoadingSpinner /> Restaurando...</> : 'Restaurar esta versão'}
+                  </button>
+                </div>
+              )}
+
+              <div className="flex-grow overflow-y-auto p-6 space-y-5">
+                {selected && base && (
+                  <div className="grid grid-cols-2 gap-4 text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                    <span>Versão de {formatDate(selected.date)}</span>
+                    <span>{current ? 'Versão atual' : `Snapshot de ${formatDate(base.date)}`}</span>
+                  </div>
+                )}
+                {selected && selected === base && (
+                  <p className="text-sm text-gray-500">Sem conexão com o WordPress: esta é a versão mais recente salva neste navegador. Escolha outra para comparar.</p>
+                )}
+                {selected && fields.length > 0 && fields.every(field => !field.changed) && (
+                  <p className="text-sm text-gray-500">Esta versão é igual à atual.</p>
+                )}
+                {fields.filter(field => field.changed || !onlyChanges).map(field => (
+                  <div key={field.field}>
+                    <h3 className="text-sm font-medium text-gray-700 mb-1">{field.label}</h3>
+                    <div className="border border-gray-200 rounded-md">
+                      {field.rows.filter(row => row.changed || !onlyChanges).map((row, index) => <DiffRow key={index} row={row} />)}
+                    </div>
+                  </div>
+                ))}
+                {selected && selected.meta === null && (
+                  <p className="text-xs text-gray-500">Esta revisão do WordPress não guarda os campos extras (meta); ao restaurar, eles ficam como estão.</p>
+                )}
+              </div>
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistoryModal;
@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import { EventCategory, RoundupEvent, RoundupEventOrigin, RoundupRange, WordPressCredentials } from '../types';
+import { clusterRoundupEvents, collectRoundupEvents, formatRoundupDay, getNextWeekendRange } from '../services/roundupService';
+import { scrapedEventsService } from '../services/scrapedEventsService';
+import { isDemoMode } from '../services/aiFixtures';
+import LoadingSpinner from './LoadingSpinner';
+import { MagnifyingGlassIcon, MagicWandIcon } from './icons/Icons';
+
+export interface RoundupSelection {
+  events: RoundupEvent[];
+  range: RoundupRange;
+}
+
+interface RoundupEventPickerProps {
+  wordPressCredentials: WordPressCredentials;
+  onSelectionChange: (selection: RoundupSelection | null) => void;
+  onGenerate: () => void;
+  isGenerating: boolean;
+}
+
+const originLabels: Record<RoundupEventOrigin, { label: string; className: string }> = {
+  agenda: { label: 'Agenda', className: 'bg-green-100 text-green-800' },
+  processado: { label: 'Processado', className: 'bg-blue-100 text-blue-800' },
+  coletado: { label: 'Coletado', className: 'bg-gray-100 text-gray-700' },
+};
+
+const RoundupEventPicker: React.FC<RoundupEventPickerProps> = ({ wordPressCredentials, onSelectionChange, onGenerate, isGenerating }) => {
+  const [range, setRange] = useState<RoundupRange>(getNextWeekendRange());
+  const [availableCategories, setAvailableCategories] = useState<EventCategory[]>([]);
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [events, setEvents] = useState<RoundupEvent[] | null>(null);
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isDemoMode()) return;
+    scrapedEventsService.getEventCategories()
+      .then(setAvailableCategories)
+      .catch(() => setAvailableCategories([]));
+  }, []);
+
+  const selectedEvents = events ? events.filter(event => !excludedIds.has(event.id)) : [];
+
+  useEffect(() => {
+    onSelectionChange(events ? { events: selectedEvents, range } : null);
+  }, [events, excludedIds]);
+
+  const handleSearch = async () => {
+    if (range.startDate > range.endDate) {
+      setSearchError('A data inicial deve ser anterior à data final.');
+      return;
+    }
+    setIsSearching(true);
+    setSearchError(null);
+    setWarnings([]);
+    try {
+      const result = await collectRoundupEvents(wordPressCredentials, range, selectedCategories);
+      setEvents(result.events);
+      setExcludedIds(new Set());
+      setWarnings(result.warnings);
+    } catch (e: any) {
+      console.error(e);
+      setSearchError(`Falha ao buscar eventos: ${e.message}`);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const updateRange = (changes: Partial<RoundupRange>) => {
+    setRange(prev => ({ ...prev, ...changes }));
+    setEvents(null); // Os eventos listados deixam de corresponder ao período
+  };
+
+  const toggleCategory = (name: string) =>
+    setSelectedCategories(prev => prev.includes(name) ? prev.filter(c => c !== name) : [...prev, name]);
+
+  const toggleEvent = (eventId: string) =>
+    setExcludedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(eventId)) next.delete(eventId); else next.add(eventId);
+      return next;
+    });
+
+  let lastDate: string | null = null;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="roundup-start" className="block text-sm font-medium text-gray-700 mb-1">De</label>
+          <input type="date" id="roundup-start" value={range.startDate} onChange={(e) => updateRange({ startDate: e.target.value })} disabled={isGenerating} className="block w-full p-2 border-gray-300 rounded-md shadow-sm" />
+        </div>
+        <div>
+          <label htmlFor="roundup-end" className="block text-sm font-medium text-gray-700 mb-1">Até</label>
+          <input type="date" id="roundup-end" value={range.endDate} onChange={(e) => updateRange({ endDate: e.target.value })} disabled={isGenerating} className="block w-full p-2 border-gray-300 rounded-md shadow-sm" />
+        </div>
+      </div>
+
+      {availableCategories.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-1">Categorias <span className="font-normal text-gray-500">(nenhuma = todas)</span></p>
+          <div className="flex flex-wrap gap-2">
+            {availableCategories.map(category => (
+              <button
+                key={category.id}
+                type="button"
+                onClick={() => toggleCategory(category.name)}
+                className={`px-2.5 py-1 text-xs rounded-full border ${selectedCategories.includes(category.name) ? 'bg-brand-red text-white border-brand-red' : 'bg-white text-gray-700 border-gray-300'}`}
+              >
+                {category.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <button onClick={handleSearch} disabled={isSearching || isGenerating} className="w-full flex justify-center items-center px-6 py-3 text-base font-medium rounded-md shadow-sm text-white bg-brand-blue-dark hover:bg-blue-800 disabled:bg-gray-400">
+        {isSearching ? <><LoadingSpinner /> Buscando...</> : <><MagnifyingGlassIcon className="h-5 w-5 mr-2" />Buscar Eventos do Período</>}
+      </button>
+
+      {searchError && <p className="text-sm text-red-600">{searchError}</p>}
+      {warnings.length > 0 && (
+        <ul className="p-3 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-md text-xs list-disc pl-6">
+          {warnings.map(warning => <li key={warning}>{warning}</li>)}
+        </ul>
+      )}
+
+      {events && (events.length === 0 ? (
+        <p className="text-sm text-gray-500">Nenhum evento encontrado no período.</p>
+      ) : (
+        <>
+          <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+            {clusterRoundupEvents(events).map(cluster => {
+              const showDate = cluster.date !== lastDate;
+              lastDate = cluster.date;
+              return (
+                <div key={`${cluster.date}-${cluster.neighborhood}`} className="p-3">
+                  {showDate && <h3 className="text-sm font-semibold text-gray-800">{formatRoundupDay(cluster.date)}</h3>}
+                  <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mt-1">{cluster.neighborhood}</p>
+                  <ul className="mt-2 space-y-1">
+                    {cluster.events.map(event => (
+                      <li key={event.id} className="flex items-start">
+                        <input
+                          type="checkbox"
+                          id={`roundup-${event.id}`}
+                          checked={!excludedIds.has(event.id)}
+                          onChange={() => toggleEvent(event.id)}
+                          className="mt-1 h-4 w-4 rounded border-gray-300 text-brand-red"
+                        />
+                        <label htmlFor={`roundup-${event.id}`} className="ml-2 text-sm text-gray-700">
+                          {event.time && <span className="font-medium">{event.time} · </span>}
+                          {event.title}
+                          {event.venue && <span className="text-gray-500"> — {event.venue}</span>}
+                          <span className={`ml-2 text-xs px-1.5 py-0.5 rounded ${originLabels[event.origin].className}`}>{originLabels[event.origin].label}</span>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+          <button onClick={onGenerate} disabled={isGenerating || selectedEvents.length === 0} className="w-full flex justify-center items-center px-6 py-3 text-base font-medium rounded-md shadow-sm text-white bg-brand-red hover:bg-red-700 disabled:bg-gray-400">
+            {isGenerating ? <><LoadingSpinner /> Gerando...</> : <><MagicWandIcon className="h-5 w-5 mr-2" />Gerar Roteiro com {selectedEvents.length} evento(s)</>}
+          </button>
+        </>
+      ))}
+    </div>
+  );
+};
+
+export default RoundupEventPicker;
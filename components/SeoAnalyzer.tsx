@@ -1,13 +1,92 @@
 import React from 'react';
-import { SeoAnalysis, SeoCheck } from '../types';
+import { SeoAnalysis, SeoCheck, SeoPlugin, SeoPluginMeta } from '../types';
+import { SEO_PLUGIN_LABELS, StoredSeoMeta } from '../services/seoPlugin';
 import { CheckCircleIcon, XCircleIcon } from './icons/Icons';
 
 interface SeoAnalyzerProps {
     focusKeyword: string;
     onFocusKeywordChange: (keyword: string) => void;
     analysis: SeoAnalysis | null;
+    // Campos gravados no Rank Math/Yoast; sem onSeoMetaChange a seção não aparece
+    seoPlugin?: SeoPlugin | null;
+    seoMeta?: SeoPluginMeta;
+    onSeoMetaChange?: (meta: SeoPluginMeta) => void;
+    storedSeo?: StoredSeoMeta | null;
 }
 
+const inputClassName = "block w-full p-2 border-gray-300 rounded-md shadow-sm focus:ring-brand-purple focus:border-brand-purple sm:text-sm";
+
+const StoredValue: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+    <div>
+        <dt className="text-xs font-medium text-gray-500">{label}</dt>
+        <dd className="text-sm text-gray-700 break-words">{value || <span className="text-gray-400">Não definido</span>}</dd>
+    </div>
+);
+
+const SeoPluginFields: React.FC<{
+    plugin: SeoPlugin | null;
+    meta: SeoPluginMeta;
+    onChange: (meta: SeoPluginMeta) => void;
+    stored: StoredSeoMeta | null;
+}> = ({ plugin, meta, onChange, stored }) => {
+    if (!plugin) {
+        return (
+            <p className="text-xs text-gray-500">
+                Nenhum plugin de SEO (Rank Math ou Yoast) detectado no site. A palavra-chave serve só para a análise abaixo.
+            </p>
+        );
+    }
+    const label = SEO_PLUGIN_LABELS[plugin];
+    const update = (changes: Partial<SeoPluginMeta>) => onChange({ ...meta, ...changes });
+
+    return (
+        <div className="space-y-3">
+            <p className="text-xs text-gray-500">Gravado no {label} ao salvar. Campos vazios mantêm o que já está no plugin.</p>
+            <div>
+                <label htmlFor="seoTitle" className="block text-sm font-medium text-gray-700 mb-1">Título SEO</label>
+                <input type="text" id="seoTitle" value={meta.title} onChange={e => update({ title: e.target.value })} className={inputClassName} placeholder="Padrão do plugin" />
+                <p className="mt-1 text-xs text-gray-400 text-right">{meta.title.length}/60</p>
+            </div>
+            <div>
+                <label htmlFor="seoDescription" className="block text-sm font-medium text-gray-700 mb-1">Meta description</label>
+                <textarea id="seoDescription" rows={3} value={meta.description} onChange={e => update({ description: e.target.value })} className={inputClassName} placeholder="Padrão do plugin" />
+                <p className="mt-1 text-xs text-gray-400 text-right">{meta.description.length}/160</p>
+            </div>
+            <div>
+                <label htmlFor="seoCanonical" className="block text-sm font-medium text-gray-700 mb-1">URL canônica</label>
+                <input type="url" id="seoCanonical" value={meta.canonical} onChange={e => update({ canonical: e.target.value })} className={inputClassName} placeholder="https://..." />
+            </div>
+            <div className="flex items-center space-x-6">
+                <label className="flex items-center text-sm text-gray-700">
+                    <input type="checkbox" checked={meta.noindex} onChange={e => update({ noindex: e.target.checked, robotsChanged: true })} className="mr-2 rounded border-gray-300" />
+                    noindex
+                </label>
+                <label className="flex items-center text-sm text-gray-700">
+                    <input type="checkbox" checked={meta.nofollow} onChange={e => update({ nofollow: e.target.checked, robotsChanged: true })} className="mr-2 rounded border-gray-300" />
+                    nofollow
+                </label>
+            </div>
+            {stored && (
+                <div className="p-3 bg-gray-50 border border-gray-200 rounded-md">
+                    <h4 className="text-xs font-semibold text-gray-600 uppercase tracking-wide mb-2">
+                        {stored.fromHead ? `Publicado pelo ${label}` : `Valores salvos no ${label}`}
+                    </h4>
+                    <dl className="space-y-2">
+                        {!stored.fromHead && <StoredValue label="Palavra-chave" value={stored.values.focusKeyword} />}
+                        <StoredValue label="Título" value={stored.values.title} />
+                        <StoredValue label="Description" value={stored.values.description} />
+                        <StoredValue label="Canônica" value={stored.values.canonical} />
+                        <StoredValue
+                            label="Robots"
+                            value={[stored.values.noindex ? 'noindex' : 'index', stored.values.nofollow ? 'nofollow' : 'follow'].join(', ')}
+                        />
+                    </dl>
+                </div>
+            )}
+        </div>
+    );
+};
+
 const ScoreCircle: React.FC<{ score: number }> = ({ score }) => {
     const getScoreColor = () => {
         if (score >= 80) return 'text-brand-green';
@@ -63,7 +142,7 @@ const categoryTitles: Record<SeoCheck['category'], string> = {
     Content: 'Legibilidade do Conteúdo'
 };
 
-const SeoAnalyzer: React.FC<SeoAnalyzerProps> = ({ focusKeyword, onFocusKeywordChange, analysis }) => {
+const SeoAnalyzer: React.FC<SeoAnalyzerProps> = ({ focusKeyword, onFocusKeywordChange, analysis, seoPlugin = null, seoMeta, onSeoMetaChange, storedSeo = null }) => {
 
     const renderChecks = (category: SeoCheck['category']) => {
         const checks = analysis?.checks.filter(c => c.category === category) || [];
@@ -96,6 +175,9 @@ const SeoAnalyzer: React.FC<SeoAnalyzerProps> = ({ focusKeyword, onFocusKeywordC
                         placeholder="Digite a palavra-chave principal"
                     />
                 </div>
+                {seoMeta && onSeoMetaChange && (
+                    <SeoPluginFields plugin={seoPlugin} meta={seoMeta} onChange={onSeoMetaChange} stored={storedSeo} />
+                )}
             </div>
 
             <div className="mt-6 pt-4 border-t border-gray-200">
@@ -4,6 +4,8 @@ import { SparklesIcon, UserCircleIcon, WordPressIcon } from './ui/icons/Icons';
 import { discoverApiEndpoints } from '../services/wordpressService';
 import { useAppContext } from '../hooks/useAppContext';
 import AIProvidersConfig from './AIProvidersConfig';
+import PromptTemplatesEditor from './PromptTemplatesEditor';
+import StyleGuideEditor from './StyleGuideEditor';
 
 const ApiExplorer: React.FC<{ credentials: WordPressCredentials }> = ({ credentials }) => {
     const [endpoints, setEndpoints] = useState<Record<string, any> | null>(null);
@@ -269,6 +271,12 @@ const SettingsPage: React.FC = () => {
                     </div>
                 </form>
 
+                {/* Prompt Templates Section */}
+                <PromptTemplatesEditor />
+
+                {/* Style Guide Section */}
+                <StyleGuideEditor />
+
                 {/* AI Providers Configuration Section */}
                 <div className="mt-8">
                     <AIProvidersConfig onConfigChange={() => {
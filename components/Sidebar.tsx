@@ -1,7 +1,7 @@
 
 import React from 'react';
 import { Page, UserProfile } from '../types';
-import { BarChartIcon, DocumentTextIcon, GearIcon, HomeIcon, MagicWandIcon, CalendarDaysIcon, UsersIcon, BookOpenIcon, BuildingOfficeIcon, MapPinIcon, MagnifyingGlassIcon, ArchiveBoxArrowDownIcon } from './icons/Icons';
+import { BarChartIcon, DocumentTextIcon, GearIcon, HomeIcon, MagicWandIcon, CalendarDaysIcon, UsersIcon, BookOpenIcon, BuildingOfficeIcon, MapPinIcon, MagnifyingGlassIcon, ArchiveBoxArrowDownIcon, ClockIcon } from './icons/Icons';
 import { supabase } from '../services/supabase';
 import AIProvidersStatus from './AIProvidersStatus';
 
@@ -23,6 +23,7 @@ const Sidebar: React.FC<SidebarProps> = ({ activePage, setActivePage, userProfil
     { name: Page.Historias, icon: <BookOpenIcon className="h-6 w-6" /> },
     { name: Page.Organizadores, icon: <BuildingOfficeIcon className="h-6 w-6" /> },
     { name: Page.Lugares, icon: <MapPinIcon className="h-6 w-6" /> },
+    { name: Page.Calendario, icon: <ClockIcon className="h-6 w-6" /> },
     { name: Page.Settings, icon: <GearIcon className="h-6 w-6" /> },
   ];
 
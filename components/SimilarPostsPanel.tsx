@@ -0,0 +1,121 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ArticleDraft, SimilarPostMatch, SimilarityCriterion, WordPressCredentials, WordPressPost } from '../types';
+import { CRITERION_LABELS, SIMILARITY_ALERT_THRESHOLD, findSimilarPosts } from '../services/duplicateDetection';
+import { getRecentCPTItemsWithContent } from '../services/wordpressService';
+import { isDemoMode } from '../services/aiFixtures';
+import LoadingSpinner from './LoadingSpinner';
+import { ArrowPathIcon, MagnifyingGlassIcon } from './icons/Icons';
+
+interface SimilarPostsPanelProps {
+  draft: ArticleDraft;
+  wordPressCredentials: WordPressCredentials;
+  onMatchesChange: (matches: SimilarPostMatch[]) => void;
+  onOpenForUpdate: (postId: number) => void;
+}
+
+const statusLabels: Record<WordPressPost['status'], string> = {
+  publish: 'Publicado',
+  draft: 'Rascunho',
+  pending: 'Pendente',
+  private: 'Privado',
+  future: 'Agendado',
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Compara o rascunho com as matérias dos últimos meses antes que ele vire um post novo
+const SimilarPostsPanel: React.FC<SimilarPostsPanelProps> = ({ draft, wordPressCredentials, onMatchesChange, onOpenForUpdate }) => {
+  const [posts, setPosts] = useState<WordPressPost[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasCredentials = Boolean(wordPressCredentials.siteUrl && wordPressCredentials.username && wordPressCredentials.applicationPassword);
+
+  useEffect(() => {
+    if (!hasCredentials || isDemoMode()) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    getRecentCPTItemsWithContent(wordPressCredentials, 'posts')
+      .then(items => { if (!cancelled) setPosts(items); })
+      .catch(e => {
+        console.error('Erro ao carregar matérias recentes:', e);
+        if (!cancelled) setError('Não foi possível carregar as matérias recentes para comparação.');
+      })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [wordPressCredentials, hasCredentials]);
+
+  const matches = useMemo(() => findSimilarPosts(draft, posts), [draft.title, draft.article_body_html, draft.focus_keyword, draft.verified_facts, posts]);
+
+  useEffect(() => {
+    onMatchesChange(matches);
+  }, [matches]);
+
+  const hasAlert = matches.some(match => match.score >= SIMILARITY_ALERT_THRESHOLD);
+
+  return (
+    <div className={`bg-white p-6 rounded-lg shadow-sm border ${hasAlert ? 'border-yellow-300' : 'border-gray-200'}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <MagnifyingGlassIcon className="h-5 w-5 text-brand-purple mr-2" />
+          <h2 className="text-lg font-semibold text-gray-800">Pautas Parecidas</h2>
+        </div>
+        {isLoading && <span className="flex items-center text-xs text-gray-500"><LoadingSpinner /> Comparando...</span>}
+      </div>
+      <p className="mt-1 text-sm text-gray-500">
+        Matérias publicadas, agendadas e rascunhos dos últimos 90 dias comparados com este rascunho por título, palavra-chave, fatos e trechos do texto.
+      </p>
+
+      {!hasCredentials && (
+        <p className="mt-3 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md p-3">Configure as credenciais do WordPress para comparar com as matérias do site.</p>
+      )}
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      {!isLoading && !error && hasCredentials && matches.length === 0 && (
+        <p className="mt-3 text-sm text-gray-500">Nenhuma matéria recente parecida com este rascunho.</p>
+      )}
+
+      {hasAlert && (
+        <p className="mt-3 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md p-3">
+          Esta pauta provavelmente já foi feita. Considere atualizar a matéria existente em vez de criar outra.
+        </p>
+      )}
+
+      {matches.length > 0 && (
+        <ul className="mt-4 divide-y divide-gray-100">
+          {matches.map(match => (
+            <li key={match.postId} className="py-3 flex items-start justify-between gap-3">
+              <div className="min-w-0 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className={`flex-shrink-0 px-2 py-0.5 text-xs font-semibold rounded-full ${match.score >= SIMILARITY_ALERT_THRESHOLD ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-600'}`}>
+                    {percent(match.score)}
+                  </span>
+                  <a href={match.link} target="_blank" rel="noopener noreferrer" className="font-medium text-brand-blue-dark hover:underline truncate">{match.title}</a>
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  {statusLabels[match.status]} · {new Date(match.date).toLocaleDateString('pt-BR')}
+                  {' · '}
+                  {(Object.keys(match.criteria) as SimilarityCriterion[]).map(criterion => `${CRITERION_LABELS[criterion]} ${percent(match.criteria[criterion]!)}`).join(', ')}
+                </p>
+                {match.matchedFacts.length > 0 && (
+                  <p className="mt-0.5 text-xs text-gray-500">Em comum: {match.matchedFacts.join('; ')}</p>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => onOpenForUpdate(match.postId)}
+                className="flex-shrink-0 flex items-center px-2 py-1 text-xs font-medium rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+              >
+                <ArrowPathIcon className="h-4 w-4 mr-1" />
+                Atualizar esta
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SimilarPostsPanel;
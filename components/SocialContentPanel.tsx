@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { SocialChannel, SocialContentPack, SocialPackSource } from '../types';
+import { generateSocialContentPack } from '../services/geminiService';
+import {
+  SOCIAL_CHANNEL_LABELS,
+  SOCIAL_CHANNEL_LIMITS,
+  formatHashtags,
+  formatInstagramPost,
+  getChannelLimitIssues,
+  getChannelText,
+  normalizeHashtag
+} from '../services/socialPack';
+import { useToast } from '../hooks/useToast';
+import LoadingSpinner from './LoadingSpinner';
+import { ShareIcon, ClipboardDocumentCheckIcon } from './icons/Icons';
+
+interface SocialContentPanelProps {
+  source: SocialPackSource;
+  systemInstruction: string;
+}
+
+const CHANNELS: SocialChannel[] = ['instagram', 'fio', 'whatsapp', 'newsletter'];
+
+const textareaClass = 'block w-full p-2 border-gray-300 rounded-md shadow-sm text-sm focus:ring-brand-purple focus:border-brand-purple';
+
+const CharCounter: React.FC<{ length: number; limit: number }> = ({ length, limit }) => (
+  <span className={`text-xs ${length > limit ? 'text-red-600 font-semibold' : 'text-gray-400'}`}>{length}/{limit}</span>
+);
+
+const CopyButton: React.FC<{ onCopy: () => void }> = ({ onCopy }) => (
+  <button type="button" onClick={onCopy} className="flex items-center text-xs font-medium text-brand-purple hover:underline">
+    <ClipboardDocumentCheckIcon className="h-4 w-4 mr-1" />
+    Copiar
+  </button>
+);
+
+const SocialContentPanel: React.FC<SocialContentPanelProps> = ({ source, systemInstruction }) => {
+  const { showToast } = useToast();
+  const [pack, setPack] = useState<SocialContentPack | null>(null);
+  const [channel, setChannel] = useState<SocialChannel>('instagram');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Texto livre das hashtags: normalizar a cada tecla impediria digitar o espaço entre elas
+  const [hashtagText, setHashtagText] = useState('');
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const { draft } = await generateSocialContentPack(source, systemInstruction);
+      setPack(draft);
+      setHashtagText(draft ? formatHashtags(draft.instagram_hashtags) : '');
+    } catch (e: any) {
+      console.error(e);
+      setError(`Não foi possível gerar o pacote social: ${e.message}`);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const updatePack = (changes: Partial<SocialContentPack>) => setPack(prev => prev ? { ...prev, ...changes } : prev);
+
+  const updateThreadPost = (index: number, text: string) =>
+    updatePack({ thread_posts: pack!.thread_posts.map((post, i) => i === index ? text : post) });
+
+  const handleCopy = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      showToast(`${label} copiado!`, 'success');
+    } catch (e) {
+      console.error('Erro ao copiar para a área de transferência:', e);
+      showToast('Não foi possível copiar. Selecione o texto e copie manualmente.', 'error');
+    }
+  };
+
+  const renderChannelEditor = () => {
+    if (!pack) return null;
+    switch (channel) {
+      case 'instagram':
+        return (
+          <div className="space-y-3">
+            <div>
+              <div className="flex justify-between mb-1">
+                <label htmlFor="social-instagram-caption" className="text-xs font-semibold text-gray-600">Legenda</label>
+                <CharCounter length={pack.instagram_caption.length} limit={SOCIAL_CHANNEL_LIMITS.instagramCaption} />
+              </div>
+              <textarea id="social-instagram-caption" rows={8} value={pack.instagram_caption} onChange={(e) => updatePack({ instagram_caption: e.target.value })} className={textareaClass} />
+            </div>
+            <div>
+              <div className="flex justify-between mb-1">
+                <label htmlFor="social-instagram-hashtags" className="text-xs font-semibold text-gray-600">Hashtags (separadas por espaço)</label>
+                <CharCounter length={pack.instagram_hashtags.length} limit={SOCIAL_CHANNEL_LIMITS.instagramHashtags} />
+              </div>
+              <textarea
+                id="social-instagram-hashtags"
+                rows={2}
+                value={hashtagText}
+                onChange={(e) => {
+                  setHashtagText(e.target.value);
+                  updatePack({ instagram_hashtags: e.target.value.split(/\s+/).map(normalizeHashtag).filter(Boolean) });
+                }}
+                className={textareaClass}
+              />
+            </div>
+            <div className="flex justify-between items-center">
+              <CharCounter length={formatInstagramPost(pack).length} limit={SOCIAL_CHANNEL_LIMITS.instagramPost} />
+              <CopyButton onCopy={() => handleCopy(formatInstagramPost(pack), 'Post do Instagram')} />
+            </div>
+          </div>
+        );
+      case 'fio':
+        return (
+          <div className="space-y-3">
+            {pack.thread_posts.map((post, index) => (
+              <div key={index}>
+                <div className="flex justify-between mb-1">
+                  <span className="text-xs font-semibold text-gray-600">Post {index + 1}</span>
+                  <div className="flex items-center space-x-3">
+                    <CharCounter length={post.length} limit={SOCIAL_CHANNEL_LIMITS.threadPost} />
+                    <CopyButton onCopy={() => handleCopy(post.trim(), `Post ${index + 1}`)} />
+                  </div>
+                </div>
+                <textarea rows={3} value={post} onChange={(e) => updateThreadPost(index, e.target.value)} className={textareaClass} />
+              </div>
+            ))}
+            <div className="flex justify-between items-center">
+              <div className="space-x-3">
+                {pack.thread_posts.length < SOCIAL_CHANNEL_LIMITS.threadPosts && (
+                  <button type="button" onClick={() => updatePack({ thread_posts: [...pack.thread_posts, ''] })} className="text-xs text-gray-600 hover:text-gray-900">
+                    + Adicionar post
+                  </button>
+                )}
+                {pack.thread_posts.length > 1 && (
+                  <button type="button" onClick={() => updatePack({ thread_posts: pack.thread_posts.slice(0, -1) })} className="text-xs text-gray-600 hover:text-gray-900">
+                    Remover último
+                  </button>
+                )}
+              </div>
+              <CopyButton onCopy={() => handleCopy(getChannelText(pack, 'fio'), 'Fio completo')} />
+            </div>
+          </div>
+        );
+      case 'whatsapp':
+      case 'newsletter': {
+        const field = channel === 'whatsapp' ? 'whatsapp_message' : 'newsletter_blurb';
+        const limit = channel === 'whatsapp' ? SOCIAL_CHANNEL_LIMITS.whatsapp : SOCIAL_CHANNEL_LIMITS.newsletter;
+        return (
+          <div className="space-y-2">
+            <textarea rows={channel === 'whatsapp' ? 10 : 5} value={pack[field]} onChange={(e) => updatePack({ [field]: e.target.value } as Partial<SocialContentPack>)} className={textareaClass} />
+            <div className="flex justify-between items-center">
+              <CharCounter length={pack[field].length} limit={limit} />
+              <CopyButton onCopy={() => handleCopy(getChannelText(pack, channel), SOCIAL_CHANNEL_LABELS[channel])} />
+            </div>
+          </div>
+        );
+      }
+    }
+  };
+
+  const issues = pack ? getChannelLimitIssues(pack, channel) : [];
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <ShareIcon className="h-5 w-5 text-brand-purple mr-2" />
+          <h2 className="text-lg font-semibold text-gray-800">Pacote Social</h2>
+        </div>
+        <button
+          type="button"
+          onClick={handleGenerate}
+          disabled={isGenerating}
+          className="flex items-center px-3 py-2 text-xs font-medium rounded-md shadow-sm text-white bg-brand-purple hover:opacity-90 disabled:bg-gray-400"
+        >
+          {isGenerating ? <><LoadingSpinner /> Gerando...</> : pack ? 'Gerar Novamente' : 'Gerar Pacote Social'}
+        </button>
+      </div>
+      <p className="mt-1 text-sm text-gray-500">
+        Legenda do Instagram, fio para X/Threads, mensagem do canal do WhatsApp e chamada de newsletter a partir {source.kind === 'agenda' ? 'deste evento' : 'desta matéria'}.
+      </p>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      {pack && (
+        <div className="mt-4">
+          <div className="flex border-b border-gray-200 text-sm">
+            {CHANNELS.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setChannel(option)}
+                className={`px-3 py-2 -mb-px border-b-2 ${channel === option ? 'border-brand-purple text-brand-purple' : 'border-transparent text-gray-500'} ${getChannelLimitIssues(pack, option).length > 0 ? 'text-red-600' : ''}`}
+              >
+                {SOCIAL_CHANNEL_LABELS[option]}
+              </button>
+            ))}
+          </div>
+          <div className="mt-3">{renderChannelEditor()}</div>
+          {issues.length > 0 && (
+            <ul className="mt-3 p-3 bg-red-50 border border-red-200 text-red-700 rounded-md text-xs list-disc pl-6">
+              {issues.map(issue => <li key={issue}>{issue}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SocialContentPanel;
@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import { StyleGuide, StyleDateFormat, StyleTimeFormat } from '../types';
+import { styleGuidePromptBlock, styleGuideService } from '../services/styleGuide';
+import { useAppContext } from '../hooks/useAppContext';
+import { useToast } from '../hooks/useToast';
+import { ClipboardDocumentCheckIcon, PlusIcon, TrashIcon } from './icons/Icons';
+
+const inputClasses = 'block w-full p-2 border-gray-300 rounded-md shadow-sm text-sm focus:ring-brand-purple focus:border-brand-purple disabled:bg-gray-50';
+
+// Linhas vazias do formulário não vão para o banco
+const cleanGuide = (guide: StyleGuide): StyleGuide => ({
+  terms: guide.terms
+    .map(term => ({ preferred: term.preferred.trim(), variants: term.variants.map(variant => variant.trim()).filter(Boolean) }))
+    .filter(term => term.preferred),
+  bannedPhrases: guide.bannedPhrases
+    .map(banned => ({ phrase: banned.phrase.trim(), suggestion: banned.suggestion.trim() }))
+    .filter(banned => banned.phrase),
+  capitalization: guide.capitalization.map(form => form.trim()).filter(Boolean),
+  dateTime: guide.dateTime,
+});
+
+const StyleGuideEditor: React.FC = () => {
+  const { userProfile } = useAppContext();
+  const { showToast } = useToast();
+  const teamId = userProfile?.team_id ?? null;
+
+  const [guide, setGuide] = useState<StyleGuide>(styleGuideService.getGuide());
+  const [isCustomized, setIsCustomized] = useState(styleGuideService.isCustomized());
+  const [isSaving, setIsSaving] = useState(false);
+
+  const refresh = () => {
+    setGuide(styleGuideService.getGuide());
+    setIsCustomized(styleGuideService.isCustomized());
+  };
+
+  // O guia é carregado em segundo plano no login; recarrega ao abrir a tela
+  useEffect(() => {
+    styleGuideService.loadTeamGuide(teamId).then(refresh);
+  }, [teamId]);
+
+  const disabled = !teamId || isSaving;
+
+  const updateTerm = (index: number, changes: Partial<StyleGuide['terms'][number]>) =>
+    setGuide(prev => ({ ...prev, terms: prev.terms.map((term, i) => i === index ? { ...term, ...changes } : term) }));
+
+  const updateBanned = (index: number, changes: Partial<StyleGuide['bannedPhrases'][number]>) =>
+    setGuide(prev => ({ ...prev, bannedPhrases: prev.bannedPhrases.map((banned, i) => i === index ? { ...banned, ...changes } : banned) }));
+
+  const updateDateTime = (changes: Partial<StyleGuide['dateTime']>) =>
+    setGuide(prev => ({ ...prev, dateTime: { ...prev.dateTime, ...changes } }));
+
+  const runAction = async (action: () => Promise<void>, successMessage: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      refresh();
+      showToast(successMessage, 'success');
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () =>
+    runAction(() => styleGuideService.saveTeamGuide(teamId!, cleanGuide(guide), userProfile!.id), 'Guia de estilo salvo para a equipe!');
+
+  const handleReset = () => {
+    if (!confirm('Voltar ao guia de estilo padrão? As regras da equipe serão apagadas.')) return;
+    runAction(() => styleGuideService.resetToDefault(teamId!), 'Guia de estilo padrão restaurado.');
+  };
+
+  return (
+    <div className="mt-8 bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+      <div className="flex items-center">
+        <ClipboardDocumentCheckIcon className="h-6 w-6 text-brand-purple mr-3" />
+        <h2 className="text-xl font-bold text-gray-800">Guia de Estilo da Redação</h2>
+      </div>
+      <p className="mt-1 text-sm text-gray-500">
+        Regras da equipe para grafias, expressões vetadas e formato de datas e horários. Elas entram nos prompts da IA e no corretor dos editores de notícia e história.
+      </p>
+
+      {!teamId && (
+        <div className="mt-4 p-3 bg-yellow-100 border border-yellow-200 text-yellow-800 rounded-md text-sm">
+          Você não faz parte de uma equipe: o guia padrão pode ser consultado, mas não personalizado.
+        </div>
+      )}
+
+      <div className="mt-6 space-y-6">
+        <section>
+          <h3 className="text-sm font-semibold text-gray-700">Termos</h3>
+          <p className="text-xs text-gray-500 mb-2">Forma preferida e as variantes (separadas por vírgula) que devem ser trocadas por ela.</p>
+          <div className="space-y-2">
+            {guide.terms.map((term, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                <input type="text" value={term.preferred} disabled={disabled} onChange={(e) => updateTerm(index, { preferred: e.target.value })} className={inputClasses} placeholder="Região Metropolitana do Recife" />
+                <input type="text" value={term.variants.join(',')} disabled={disabled} onChange={(e) => updateTerm(index, { variants: e.target.value.split(',') })} className={inputClasses} placeholder="Grande Recife, RMR" />
+                <button type="button" disabled={disabled} onClick={() => setGuide(prev => ({ ...prev, terms: prev.terms.filter((_, i) => i !== index) }))} className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-50" aria-label="Remover termo">
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button type="button" disabled={disabled} onClick={() => setGuide(prev => ({ ...prev, terms: [...prev.terms, { preferred: '', variants: [] }] }))} className="mt-2 flex items-center text-xs font-medium text-brand-purple hover:underline disabled:text-gray-400">
+            <PlusIcon className="h-4 w-4 mr-1" /> Adicionar termo
+          </button>
+        </section>
+
+        <section>
+          <h3 className="text-sm font-semibold text-gray-700">Expressões vetadas</h3>
+          <p className="text-xs text-gray-500 mb-2">Sem sugestão, a expressão só é apontada para o repórter reescrever o trecho.</p>
+          <div className="space-y-2">
+            {guide.bannedPhrases.map((banned, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                <input type="text" value={banned.phrase} disabled={disabled} onChange={(e) => updateBanned(index, { phrase: e.target.value })} className={inputClasses} placeholder="imperdível" />
+                <input type="text" value={banned.suggestion} disabled={disabled} onChange={(e) => updateBanned(index, { suggestion: e.target.value })} className={inputClasses} placeholder="Sugestão (opcional)" />
+                <button type="button" disabled={disabled} onClick={() => setGuide(prev => ({ ...prev, bannedPhrases: prev.bannedPhrases.filter((_, i) => i !== index) }))} className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-50" aria-label="Remover expressão">
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button type="button" disabled={disabled} onClick={() => setGuide(prev => ({ ...prev, bannedPhrases: [...prev.bannedPhrases, { phrase: '', suggestion: '' }] }))} className="mt-2 flex items-center text-xs font-medium text-brand-purple hover:underline disabled:text-gray-400">
+            <PlusIcon className="h-4 w-4 mr-1" /> Adicionar expressão
+          </button>
+        </section>
+
+        <section>
+          <label htmlFor="styleCapitalization" className="block text-sm font-semibold text-gray-700">Grafia de nomes</label>
+          <p className="text-xs text-gray-500 mb-2">Um nome por linha, exatamente como deve ser escrito (bairros, lugares, instituições).</p>
+          <textarea
+            id="styleCapitalization"
+            rows={5}
+            value={guide.capitalization.join('\n')}
+            disabled={disabled}
+            onChange={(e) => setGuide(prev => ({ ...prev, capitalization: e.target.value.split('\n') }))}
+            className={inputClasses}
+          />
+        </section>
+
+        <section className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="styleTimeFormat" className="block text-sm font-semibold text-gray-700 mb-1">Horários</label>
+            <select id="styleTimeFormat" value={guide.dateTime.timeFormat} disabled={disabled} onChange={(e) => updateDateTime({ timeFormat: e.target.value as StyleTimeFormat })} className={inputClasses}>
+              <option value="abreviado">20h, 20h30</option>
+              <option value="relogio">20:00, 20:30</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="styleDateFormat" className="block text-sm font-semibold text-gray-700 mb-1">Datas</label>
+            <select id="styleDateFormat" value={guide.dateTime.dateFormat} disabled={disabled} onChange={(e) => updateDateTime({ dateFormat: e.target.value as StyleDateFormat })} className={inputClasses}>
+              <option value="extenso">Por extenso (5 de setembro)</option>
+              <option value="numerico">Numérico (05/09)</option>
+            </select>
+          </div>
+          <label className="flex items-center text-sm text-gray-700">
+            <input type="checkbox" checked={guide.dateTime.ordinalFirstDay} disabled={disabled || guide.dateTime.dateFormat !== 'extenso'} onChange={(e) => updateDateTime({ ordinalFirstDay: e.target.checked })} className="h-4 w-4 rounded border-gray-300 text-brand-purple mr-2" />
+            "1º de maio" no primeiro dia do mês
+          </label>
+          <label className="flex items-center text-sm text-gray-700">
+            <input type="checkbox" checked={guide.dateTime.lowercaseMonthsAndWeekdays} disabled={disabled} onChange={(e) => updateDateTime({ lowercaseMonthsAndWeekdays: e.target.checked })} className="h-4 w-4 rounded border-gray-300 text-brand-purple mr-2" />
+            Meses e dias da semana em minúsculas
+          </label>
+        </section>
+
+        <section>
+          <h3 className="text-sm font-semibold text-gray-700 mb-1">Como o guia entra nos prompts</h3>
+          <pre className="p-3 bg-gray-50 rounded-md max-h-60 overflow-auto text-xs whitespace-pre-wrap">{styleGuidePromptBlock(cleanGuide(guide))}</pre>
+        </section>
+
+        {teamId && (
+          <div className="flex justify-end space-x-2">
+            {isCustomized && (
+              <button type="button" onClick={handleReset} disabled={isSaving} className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50">
+                Restaurar padrão
+              </button>
+            )}
+            {guide !== styleGuideService.getGuide() && (
+              <button type="button" onClick={refresh} disabled={isSaving} className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50">
+                Descartar alterações
+              </button>
+            )}
+            <button type="button" onClick={handleSave} disabled={isSaving} className="px-4 py-2 text-sm font-medium text-white bg-brand-purple rounded-md hover:opacity-90 disabled:opacity-50">
+              {isSaving ? 'Salvando...' : 'Salvar Guia'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StyleGuideEditor;
@@ -0,0 +1,80 @@
+import React, { useMemo } from 'react';
+import { StyleIssue, StyleIssueRule } from '../types';
+import { styleGuideService } from '../services/styleGuide';
+import { applyStyleFixes, lintHtml } from '../services/styleLinter';
+import { ClipboardDocumentCheckIcon } from './icons/Icons';
+
+interface StyleLintPanelProps {
+  html: string;
+  onFix: (html: string) => void;
+}
+
+const RULE_LABELS: Record<StyleIssueRule, string> = {
+  termo: 'Termo',
+  expressao_proibida: 'Expressão vetada',
+  maiusculas: 'Grafia',
+  horario: 'Horário',
+  data: 'Data',
+};
+
+const IssueContext: React.FC<{ issue: StyleIssue }> = ({ issue }) => {
+  const index = issue.context.indexOf(issue.match);
+  if (index < 0) return <span>{issue.context}</span>;
+  return (
+    <span>
+      {issue.context.slice(0, index)}
+      <mark className="bg-yellow-100 text-gray-900 rounded px-0.5">{issue.match}</mark>
+      {issue.context.slice(index + issue.match.length)}
+    </span>
+  );
+};
+
+// Confere o texto contra o guia de estilo da equipe, com correção em um clique
+const StyleLintPanel: React.FC<StyleLintPanelProps> = ({ html, onFix }) => {
+  const issues = useMemo(() => lintHtml(html, styleGuideService.getGuide()), [html]);
+  const fixable = issues.filter(issue => issue.replacement !== null);
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <ClipboardDocumentCheckIcon className="h-5 w-5 text-brand-purple mr-2" />
+          <h3 className="text-sm font-semibold text-gray-800">Guia de Estilo</h3>
+          <span className={`ml-2 px-2 py-0.5 text-xs rounded-full ${issues.length > 0 ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'}`}>
+            {issues.length > 0 ? `${issues.length} ocorrência(s)` : 'Tudo certo'}
+          </span>
+        </div>
+        {fixable.length > 1 && (
+          <button type="button" onClick={() => onFix(applyStyleFixes(html, fixable))} className="text-xs font-medium text-brand-purple hover:underline">
+            Corrigir todas ({fixable.length})
+          </button>
+        )}
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="mt-3 divide-y divide-gray-100 max-h-72 overflow-y-auto">
+          {issues.map(issue => (
+            <li key={issue.id} className="py-2 flex items-start justify-between gap-3 text-sm">
+              <div className="min-w-0">
+                <span className="mr-2 text-xs px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">{RULE_LABELS[issue.rule]}</span>
+                <span className="text-gray-600"><IssueContext issue={issue} /></span>
+                <p className="mt-0.5 text-xs text-gray-500">{issue.message}</p>
+              </div>
+              {issue.replacement !== null && (
+                <button
+                  type="button"
+                  onClick={() => onFix(applyStyleFixes(html, [issue]))}
+                  className="flex-shrink-0 px-2 py-1 text-xs font-medium rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+                >
+                  Corrigir
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default StyleLintPanel;
@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { MultilingualPlugin, TranslatableContent, TranslatedContent, TranslationLanguage, WordPressCredentials } from '../types';
+import { translateContent } from '../services/geminiService';
+import { createTranslatedPost, detectMultilingualPlugin } from '../services/wordpressService';
+import {
+  TRANSLATION_LANGUAGES,
+  buildGlossary,
+  fetchSiteGlossaryNames,
+  loadCustomGlossary,
+  saveCustomGlossary
+} from '../services/translationService';
+import { isDemoMode } from '../services/aiFixtures';
+import LoadingSpinner from './LoadingSpinner';
+import { GlobeAltIcon } from './icons/Icons';
+
+interface TranslationPanelProps {
+  content: TranslatableContent;
+  postType: string;
+  sourcePostId: number | null; // null: o original ainda não existe no WordPress
+  wordPressCredentials: WordPressCredentials;
+}
+
+const LANGUAGES: TranslationLanguage[] = ['en', 'es'];
+
+const pluginLabels: Record<MultilingualPlugin, string> = {
+  polylang: 'Polylang',
+  wpml: 'WPML',
+};
+
+const inputClass = 'block w-full p-2 border-gray-300 rounded-md shadow-sm text-sm focus:ring-brand-purple focus:border-brand-purple';
+
+const TranslationPanel: React.FC<TranslationPanelProps> = ({ content, postType, sourcePostId, wordPressCredentials }) => {
+  const [language, setLanguage] = useState<TranslationLanguage>('en');
+  const [customGlossaryText, setCustomGlossaryText] = useState(() => loadCustomGlossary().join('\n'));
+  const [siteNames, setSiteNames] = useState<string[]>([]);
+  const [translation, setTranslation] = useState<TranslatedContent | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [plugin, setPlugin] = useState<MultilingualPlugin>('polylang');
+  const [isCreating, setIsCreating] = useState(false);
+  const [createdLink, setCreatedLink] = useState<string | null>(null);
+
+  const hasCredentials = Boolean(wordPressCredentials.siteUrl && wordPressCredentials.username && wordPressCredentials.applicationPassword);
+
+  useEffect(() => {
+    if (!hasCredentials || isDemoMode()) return;
+    fetchSiteGlossaryNames(wordPressCredentials).then(setSiteNames);
+    detectMultilingualPlugin(wordPressCredentials)
+      .then(detected => { if (detected) setPlugin(detected); })
+      .catch(e => console.error('Não foi possível detectar o plugin de idiomas:', e));
+  }, [wordPressCredentials, hasCredentials]);
+
+  const customGlossary = useMemo(
+    () => customGlossaryText.split('\n').map(term => term.trim()).filter(Boolean),
+    [customGlossaryText]
+  );
+  const glossary = useMemo(() => buildGlossary(content, [...customGlossary, ...siteNames]), [content, customGlossary, siteNames]);
+
+  const handleTranslate = async () => {
+    setIsTranslating(true);
+    setError(null);
+    setWarnings([]);
+    setCreatedLink(null);
+    saveCustomGlossary(customGlossary);
+    try {
+      const result = await translateContent(content, language, glossary);
+      setTranslation(result.draft);
+      setWarnings(result.warnings);
+    } catch (e: any) {
+      console.error(e);
+      setError(`Não foi possível traduzir: ${e.message}`);
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  const updateTranslation = (changes: Partial<TranslatedContent>) => setTranslation(prev => prev ? { ...prev, ...changes } : prev);
+
+  // Categorias e tags não são copiadas: cada idioma tem seus próprios termos no plugin
+  const handleCreatePost = async () => {
+    if (!translation) return;
+    setIsCreating(true);
+    setError(null);
+    try {
+      const postData: any = {
+        title: translation.title,
+        content: translation.article_body_html,
+        excerpt: translation.summary || translation.seo_description,
+        status: 'draft' as const,
+      };
+      const newPost = await createTranslatedPost(wordPressCredentials, postType, postData, { plugin, language: translation.language, sourcePostId });
+      setCreatedLink(newPost.link);
+    } catch (e: any) {
+      console.error(e);
+      setError(`Falha ao criar a versão traduzida: ${e.message}`);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <GlobeAltIcon className="h-5 w-5 text-brand-purple mr-2" />
+          <h2 className="text-lg font-semibold text-gray-800">Tradução</h2>
+        </div>
+        <div className="flex items-center space-x-2">
+          <select value={language} onChange={(e) => setLanguage(e.target.value as TranslationLanguage)} disabled={isTranslating} className="p-1.5 text-xs border-gray-300 rounded-md shadow-sm">
+            {LANGUAGES.map(option => <option key={option} value={option}>{TRANSLATION_LANGUAGES[option].label}</option>)}
+          </select>
+          <button
+            type="button"
+            onClick={handleTranslate}
+            disabled={isTranslating || !content.article_body_html.trim()}
+            className="flex items-center px-3 py-2 text-xs font-medium rounded-md shadow-sm text-white bg-brand-purple hover:opacity-90 disabled:bg-gray-400"
+          >
+            {isTranslating ? <><LoadingSpinner /> Traduzindo...</> : translation ? 'Traduzir Novamente' : 'Traduzir'}
+          </button>
+        </div>
+      </div>
+      <p className="mt-1 text-sm text-gray-500">
+        Versão para turistas com SEO adaptado ao idioma. Nomes do glossário são mantidos no original.
+      </p>
+
+      <details className="mt-3 text-sm">
+        <summary className="cursor-pointer font-medium text-gray-700">
+          Glossário ({glossary.length} {glossary.length === 1 ? 'nome protegido' : 'nomes protegidos'} neste texto)
+        </summary>
+        <div className="mt-2 space-y-2">
+          {glossary.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {glossary.map(term => <span key={term} className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded">{term}</span>)}
+            </div>
+          )}
+          <label htmlFor="translation-glossary" className="block text-xs text-gray-500">
+            Lugares e artistas cadastrados no WordPress entram automaticamente. Acrescente outros nomes, um por linha:
+          </label>
+          <textarea id="translation-glossary" rows={3} value={customGlossaryText} onChange={(e) => setCustomGlossaryText(e.target.value)} className={inputClass} placeholder="Paço do Frevo" />
+        </div>
+      </details>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      {translation && (
+        <div className="mt-4 space-y-3">
+          {warnings.length > 0 && (
+            <ul className="p-3 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-md text-xs list-disc pl-6">
+              {warnings.map(warning => <li key={warning}>{warning}</li>)}
+            </ul>
+          )}
+          <div>
+            <label htmlFor="translation-title" className="text-xs font-semibold text-gray-600">Título</label>
+            <input id="translation-title" type="text" value={translation.title} onChange={(e) => updateTranslation({ title: e.target.value })} className={inputClass} />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="translation-keyword" className="text-xs font-semibold text-gray-600">Palavra-chave de foco</label>
+              <input id="translation-keyword" type="text" value={translation.focus_keyword} onChange={(e) => updateTranslation({ focus_keyword: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="translation-alt" className="text-xs font-semibold text-gray-600">Texto alternativo da imagem</label>
+              <input id="translation-alt" type="text" value={translation.suggested_alt_text} onChange={(e) => updateTranslation({ suggested_alt_text: e.target.value })} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="translation-seo" className="text-xs font-semibold text-gray-600">Meta description ({translation.seo_description.length} caracteres)</label>
+            <textarea id="translation-seo" rows={2} value={translation.seo_description} onChange={(e) => updateTranslation({ seo_description: e.target.value })} className={inputClass} />
+          </div>
+          {translation.summary && (
+            <div>
+              <label htmlFor="translation-summary" className="text-xs font-semibold text-gray-600">Resumo</label>
+              <textarea id="translation-summary" rows={2} value={translation.summary} onChange={(e) => updateTranslation({ summary: e.target.value })} className={inputClass} />
+            </div>
+          )}
+          <div
+            className="prose prose-sm max-w-none max-h-80 overflow-y-auto p-3 border border-gray-200 rounded-md prose-p:text-gray-600 prose-headings:text-gray-900"
+            dangerouslySetInnerHTML={{ __html: translation.article_body_html }}
+          />
+
+          {hasCredentials && (
+            <div className="pt-3 border-t border-gray-200 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <select value={plugin} onChange={(e) => setPlugin(e.target.value as MultilingualPlugin)} className="p-1.5 text-xs border-gray-300 rounded-md shadow-sm">
+                  {(Object.keys(pluginLabels) as MultilingualPlugin[]).map(option => <option key={option} value={option}>{pluginLabels[option]}</option>)}
+                </select>
+                <button
+                  type="button"
+                  onClick={handleCreatePost}
+                  disabled={isCreating}
+                  className="flex items-center px-3 py-2 text-xs font-medium rounded-md shadow-sm text-white bg-brand-blue-dark hover:bg-blue-800 disabled:bg-gray-400"
+                >
+                  {isCreating ? <><LoadingSpinner /> Criando...</> : `Criar rascunho em ${TRANSLATION_LANGUAGES[translation.language].label.toLowerCase()}`}
+                </button>
+              </div>
+              {!sourcePostId && (
+                <p className="text-xs text-gray-500">O original ainda não foi salvo no WordPress: a tradução será criada sem vínculo. Vincule as versões no painel do {pluginLabels[plugin]}.</p>
+              )}
+              {createdLink && (
+                <p className="text-xs text-green-700">
+                  Rascunho criado{sourcePostId ? ' e vinculado ao original' : ''}. <a href={createdLink} target="_blank" rel="noopener noreferrer" className="underline">Abrir no site</a>
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranslationPanel;
@@ -1,5 +1,9 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { supabase, clearSession } from '../services/supabase';
+import { aiProviderManager } from '../services/aiProviderService';
+import { DEFAULT_ROUTING_POLICIES, normalizeRoutingPolicies } from '../services/aiRouting';
+import { promptRegistry } from '../services/promptRegistry';
+import { styleGuideService } from '../services/styleGuide';
 import { UserProfile, AiPreferences, WordPressCredentials } from '../types';
 import { useToast } from './useToast';
 
@@ -37,6 +41,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
         systemInstruction: DEFAULT_SYSTEM_INSTRUCTION,
         enabledProviders: [],
         preferredProvider: null,
+        routingPolicies: DEFAULT_ROUTING_POLICIES,
     });
     const [wordPressCredentials, setWordPressCredentials] = useState<WordPressCredentials>({
         siteUrl: '',
@@ -69,6 +74,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
               systemInstruction: DEFAULT_SYSTEM_INSTRUCTION,
               enabledProviders: [],
               preferredProvider: null,
+              routingPolicies: DEFAULT_ROUTING_POLICIES,
             });
             setWordPressCredentials({
               siteUrl: '',
@@ -107,6 +113,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
                     systemInstruction: profileData.ai_system_instruction || DEFAULT_SYSTEM_INSTRUCTION,
                     enabledProviders: [],
                     preferredProvider: null,
+                    routingPolicies: normalizeRoutingPolicies(profileData.ai_routing_policies),
                 });
     
             } else {
@@ -135,6 +142,25 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
         }
     }, [session]);
 
+    // Atribui o consumo de IA ao usuário logado e carrega o orçamento do mês
+    useEffect(() => {
+        aiProviderManager.setUsageContext(session?.user?.id ?? null, userProfile?.team_id ?? null);
+    }, [session?.user?.id, userProfile?.team_id]);
+
+    useEffect(() => {
+        aiProviderManager.setRoutingPolicies(aiPreferences.routingPolicies);
+    }, [aiPreferences.routingPolicies]);
+
+    // Prompts personalizados pela equipe substituem os templates padrão
+    useEffect(() => {
+        promptRegistry.loadTeamOverrides(userProfile?.team_id ?? null);
+    }, [userProfile?.team_id]);
+
+    // Guia de estilo da equipe: vai para os prompts e para o corretor dos editores
+    useEffect(() => {
+        styleGuideService.loadTeamGuide(userProfile?.team_id ?? null);
+    }, [userProfile?.team_id]);
+
 
     const handleProfileUpdate = async (newProfile: Omit<UserProfile, 'id' | 'email'>) => {
         if (!userProfile) return;
@@ -165,6 +191,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
                 .update({
                     ai_tone: newPrefs.tone,
                     ai_system_instruction: newPrefs.systemInstruction,
+                    ai_routing_policies: newPrefs.routingPolicies,
                 })
                 .eq('id', session.user.id);
             if (error) throw error;
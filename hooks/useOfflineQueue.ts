@@ -0,0 +1,26 @@
+import { useState, useEffect } from 'react';
+import { offlineQueue } from '../services/offlineQueue';
+import { OfflineSave } from '../types';
+
+// Itens da fila offline (opcionalmente de um só tipo de post) e o estado da conexão
+export const useOfflineQueue = (postType?: string) => {
+  const [entries, setEntries] = useState<OfflineSave[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => offlineQueue.subscribe(all => {
+    setEntries(postType ? all.filter(entry => entry.postType === postType) : all);
+  }), [postType]);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return { entries, isOnline };
+};
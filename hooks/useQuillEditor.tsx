@@ -67,8 +67,8 @@ export const useQuillEditor = (placeholder: string) => {
         // Ensure Quill is initialized
         if (quill) {
             if (htmlContent) {
-                // Set the content using dangerouslyPasteHTML
-                quill.clipboard.dangerouslyPasteHTML(0, htmlContent);
+                // Without an index dangerouslyPasteHTML replaces the whole document instead of inserting
+                quill.clipboard.dangerouslyPasteHTML(htmlContent);
             } else {
                 // Clear the editor if no content is provided
                 quill.setText('');
@@ -0,0 +1,45 @@
+import React, { useState, useEffect } from 'react';
+import { SeoPlugin, SeoPluginMeta, WordPressCredentials, WordPressPost } from '../types';
+import { StoredSeoMeta, emptySeoMeta, seoPluginService } from '../services/seoPlugin';
+
+// Plugin de SEO do site, campos editáveis e valores que o plugin já tem para o item carregado.
+// O editor chama setSourcePost depois de carregar o item; a leitura espera a detecção do plugin.
+// A palavra-chave do editor recebe a salva no plugin quando ainda está vazia.
+export const useSeoPlugin = (
+  credentials: WordPressCredentials,
+  initialDescription: string | undefined,
+  setFocusKeyword: React.Dispatch<React.SetStateAction<string>>,
+) => {
+  const [seoPlugin, setSeoPlugin] = useState<SeoPlugin | null>(null);
+  const [seoMeta, setSeoMeta] = useState<SeoPluginMeta>(() => ({ ...emptySeoMeta(), description: initialDescription ?? '' }));
+  const [storedSeo, setStoredSeo] = useState<StoredSeoMeta | null>(null);
+  const [sourcePost, setSourcePost] = useState<WordPressPost | null>(null);
+
+  useEffect(() => {
+    if (!credentials.siteUrl) return;
+    let cancelled = false;
+    seoPluginService.detect(credentials).then(plugin => {
+      if (!cancelled) setSeoPlugin(plugin);
+    });
+    return () => { cancelled = true; };
+  }, [credentials]);
+
+  useEffect(() => {
+    if (!seoPlugin || !sourcePost) return;
+    let cancelled = false;
+    seoPluginService.read(credentials, seoPlugin, sourcePost).then(stored => {
+      if (cancelled || !stored) return;
+      setStoredSeo(stored);
+      // Do <head> só dá para confiar no robots; título e description podem ser do modelo do plugin
+      setSeoMeta(current => stored.fromHead
+        ? { ...current, noindex: stored.values.noindex, nofollow: stored.values.nofollow }
+        : { ...stored.values, focusKeyword: current.focusKeyword });
+      if (stored.values.focusKeyword) {
+        setFocusKeyword(current => current || stored.values.focusKeyword);
+      }
+    });
+    return () => { cancelled = true; };
+  }, [credentials, seoPlugin, sourcePost, setFocusKeyword]);
+
+  return { seoPlugin, seoMeta, setSeoMeta, storedSeo, setSourcePost };
+};
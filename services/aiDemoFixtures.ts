@@ -0,0 +1,266 @@
+import { AiCallType, ScrapedEvent } from "../types";
+
+// Respostas de demonstração usadas no modo offline quando o prompt não tem fixture gravada.
+// Seguem os schemas de draftSchemas.ts para que todos os fluxos de geração funcionem sem rede.
+
+const json = (value: unknown): string => '```json\n' + JSON.stringify(value, null, 2) + '\n```';
+
+const demoFacts = {
+  eventName: 'Festival Recife Sonoro',
+  eventDate: '2025-11-15',
+  eventLocation: 'Marco Zero, Recife',
+  organizers: ['Prefeitura do Recife'],
+  keyPeople: ['Lenine', 'Duda Beat']
+};
+
+const demoArticle = {
+  title: 'Festival Recife Sonoro reúne Lenine e Duda Beat no Marco Zero',
+  summary: 'O festival gratuito ocupa o Marco Zero em 15 de novembro com shows de artistas pernambucanos e feira de economia criativa.',
+  importance: 'Média',
+  category: 'Cultura',
+  subcategory: 'Música',
+  tags: ['Recife Sonoro', 'Marco Zero', 'Lenine', 'Duda Beat', 'shows gratuitos'],
+  seo_description: 'Festival Recife Sonoro tem shows gratuitos de Lenine e Duda Beat no Marco Zero em 15 de novembro. Veja a programação.',
+  article_body_html: [
+    '<p>O <strong>Festival Recife Sonoro</strong> acontece no dia 15 de novembro, no Marco Zero, com entrada gratuita.</p>',
+    '<h2>Programação</h2>',
+    '<p>Lenine e Duda Beat encabeçam a noite, que também recebe bandas da cena independente pernambucana.</p>',
+    '<h2>Serviço</h2>',
+    '<ul><li><strong>Quando:</strong> 15 de novembro, a partir das 17h</li><li><strong>Onde:</strong> Marco Zero, Bairro do Recife</li><li><strong>Quanto:</strong> gratuito</li></ul>'
+  ].join('\n'),
+  focus_keyword: 'Festival Recife Sonoro',
+  suggested_alt_text: 'Público em frente ao palco do Festival Recife Sonoro no Marco Zero',
+  event_details: { name: 'Festival Recife Sonoro', date: '2025-11-15', location: 'Marco Zero, Recife' },
+  suggested_image_searches: ['Marco Zero Recife show', 'Lenine ao vivo', 'Duda Beat palco']
+};
+
+const demoHistoria = {
+  title: 'A Rua da Aurora e o Recife que se olha no Capibaribe',
+  summary: 'Como a Rua da Aurora se tornou cartão-postal do Recife e testemunha das transformações da cidade desde o século XIX.',
+  category: 'Memória',
+  tags: ['Rua da Aurora', 'Capibaribe', 'patrimônio', 'história do Recife'],
+  seo_description: 'Conheça a história da Rua da Aurora, do casario do século XIX às margens do Capibaribe até os dias de hoje.',
+  article_body_html: [
+    '<p>Voltada para o nascer do sol, a <strong>Rua da Aurora</strong> ganhou o nome pela vista privilegiada sobre o Capibaribe.</p>',
+    '<h2>O casario</h2>',
+    '<p>Os sobrados coloridos abrigaram comerciantes, jornais e repartições públicas ao longo de dois séculos.</p>'
+  ].join('\n'),
+  focus_keyword: 'Rua da Aurora',
+  suggested_alt_text: 'Casario colorido da Rua da Aurora refletido no rio Capibaribe'
+};
+
+const demoOrganizador = {
+  title: 'Coletivo Manguebit Produções',
+  description_html: '<p>O <strong>Coletivo Manguebit Produções</strong> organiza shows e festivais de música independente no Recife desde 2012.</p>',
+  address: 'Rua do Bom Jesus, 200 - Bairro do Recife, Recife - PE',
+  phone: null,
+  website: 'https://exemplo.com.br/manguebit',
+  instagram: '@manguebitproducoes'
+};
+
+const demoArtista = {
+  title: 'Nação Zumbi',
+  biography_html: '<p>A <strong>Nação Zumbi</strong> é uma banda do Recife formada no início dos anos 1990, uma das fundadoras do movimento manguebeat.</p><p>O grupo mistura maracatu, rock, funk e hip hop, e segue em atividade com discos e turnês pelo Brasil e pelo exterior.</p>',
+  tipo_de_artista: 'Banda',
+  artista_ano_formacao: '1991',
+  artista_origem: 'Recife - PE',
+  website: 'https://exemplo.com.br/nacaozumbi',
+  email: null,
+  telefone: [],
+  redes_sociais: ['https://instagram.com/exemplo.nacaozumbi'],
+  videos_artistas: ['https://www.youtube.com/watch?v=exemplo']
+};
+
+const demoLugar = {
+  title: 'Teatro de Santa Isabel',
+  description_html: '<p>Inaugurado em 1850, o <strong>Teatro de Santa Isabel</strong> é um dos mais importantes teatros do país e fica na Praça da República, no bairro de Santo Antônio.</p><p>O prédio neoclássico recebe espetáculos de teatro, dança e música, além de visitas guiadas.</p>',
+  endereco: 'Praça da República, s/n',
+  bairro: 'Santo Antônio',
+  cidade: 'Recife',
+  estado: 'PE',
+  cep: '50010-040',
+  latitude: '-8.0589',
+  longitude: '-34.8785',
+  telefone: ['(81) 3355-0000'],
+  email: null,
+  website: 'https://exemplo.com.br/teatrosantaisabel',
+  redes_sociais: [],
+  horario_de_funcionamento: 'Visitas guiadas: terça a sexta, 10h às 16h\nBilheteria: 2h antes dos espetáculos'
+};
+
+const demoPlace = {
+  address: 'Praça Rio Branco, s/n',
+  neighborhood: 'Bairro do Recife',
+  city: 'Recife',
+  state: 'PE',
+  zipcode: '50030-310',
+  phone: null,
+  website: null,
+  description: 'Praça à beira-mar que marca o ponto inicial da cidade e recebe os grandes eventos gratuitos do Recife.'
+};
+
+const demoEvents = [
+  {
+    name: 'Festival Recife Sonoro',
+    start_date: '2025-11-15 17:00:00',
+    location: 'Recife, PE',
+    venue: 'Marco Zero',
+    summary: 'Festival gratuito com shows de Lenine, Duda Beat e bandas da cena independente pernambucana.',
+    source_url: 'https://exemplo.com.br/eventos/recife-sonoro',
+    category: 'Música'
+  },
+  {
+    name: 'Auto da Compadecida - Leitura Dramática',
+    start_date: '2025-11-20 19:30:00',
+    location: 'Recife, PE',
+    venue: 'Teatro de Santa Isabel',
+    summary: 'Leitura dramática do clássico de Ariano Suassuna com elenco pernambucano e debate após a sessão.',
+    source_url: 'https://exemplo.com.br/eventos/compadecida',
+    category: 'Teatro'
+  },
+  {
+    name: 'Feira de Gastronomia do Poço da Panela',
+    start_date: '2025-11-22',
+    location: 'Recife, PE',
+    venue: 'Largo do Poço da Panela',
+    summary: 'Feira com chefs e produtores locais, comidas típicas e música ao vivo no largo histórico.',
+    source_url: 'https://exemplo.com.br/eventos/feira-poco',
+    category: 'Gastronomia'
+  }
+];
+
+const demoSocialPack = {
+  instagram_caption: 'O Marco Zero vai ferver! 🎶\n\nO Festival Recife Sonoro traz Lenine e Duda Beat no dia 15 de novembro, a partir das 17h, com entrada gratuita.\n\nChama a galera e confere a programação completa no link da bio.',
+  instagram_hashtags: ['RecifeSonoro', 'MarcoZero', 'Lenine', 'DudaBeat', 'Recife', 'ShowGratuito'],
+  thread_posts: [
+    '1/3 Lenine e Duda Beat no Marco Zero, de graça? Sim! O Festival Recife Sonoro acontece em 15 de novembro, a partir das 17h. 🎶',
+    '2/3 Além dos shows, a noite tem bandas da cena independente pernambucana e feira de economia criativa.',
+    '3/3 Programação completa e dicas de como chegar no recifemais.com.br'
+  ],
+  whatsapp_message: '🎶 *Festival Recife Sonoro*\n\nLenine e Duda Beat se apresentam no Marco Zero com entrada gratuita.\n\n*Quando:* 15 de novembro, a partir das 17h\n*Onde:* Marco Zero, Bairro do Recife\n\nProgramação completa no recifemais.com.br',
+  newsletter_blurb: 'O Festival Recife Sonoro ocupa o Marco Zero em 15 de novembro com shows gratuitos de Lenine e Duda Beat. A programação inclui bandas da cena independente e feira de economia criativa.'
+};
+
+const demoRoundup = {
+  title: 'O que fazer em Recife: 3 programas para o fim de semana',
+  summary: 'Festival gratuito no Marco Zero, teatro no Santa Isabel e feira gastronômica no Poço da Panela estão entre os destaques.',
+  seo_description: 'O que fazer em Recife no fim de semana: Recife Sonoro no Marco Zero, Auto da Compadecida e feira no Poço da Panela.',
+  focus_keyword: 'o que fazer em Recife',
+  suggested_alt_text: 'Público no Marco Zero durante show, um dos destaques de o que fazer em Recife no fim de semana',
+  category: 'Agenda',
+  tags: ['o que fazer em Recife', 'fim de semana', 'agenda cultural'],
+  intro_html: '<p>O fim de semana no Recife tem música de graça no Marco Zero, clássico do teatro pernambucano e comida boa no Poço da Panela.</p>',
+  blurbs: [
+    { event_id: 'coletado-900001', text: 'Lenine e Duda Beat comandam a noite do festival, que também abre espaço para a cena independente.' },
+    { event_id: 'coletado-900002', text: 'A obra de Ariano Suassuna ganha leitura dramática com elenco pernambucano e debate depois da sessão.' },
+    { event_id: 'coletado-900003', text: 'Chefs e produtores locais ocupam o largo histórico com comidas típicas e música ao vivo.' }
+  ]
+};
+
+const demoTranslation = {
+  title: 'Recife Sonoro Festival brings Lenine and Duda Beat to Marco Zero',
+  summary: 'The free festival takes over Marco Zero on November 15 with shows by Pernambuco artists and a creative economy fair.',
+  article_body_html: [
+    '<p>The <strong>Festival Recife Sonoro</strong> takes place on November 15 at Marco Zero, Recife\'s historic main square, with free admission.</p>',
+    '<h2>Lineup</h2>',
+    '<p>Lenine and Duda Beat headline the night, which also features bands from Pernambuco\'s independent music scene.</p>',
+    '<h2>Practical information</h2>',
+    '<ul><li><strong>When:</strong> November 15, from 5 p.m.</li><li><strong>Where:</strong> Marco Zero, Bairro do Recife</li><li><strong>Price:</strong> free</li></ul>'
+  ].join('\n'),
+  seo_description: 'Free concerts in Recife: Lenine and Duda Beat play Marco Zero on November 15 at the Recife Sonoro festival. See the lineup.',
+  focus_keyword: 'free concerts in recife',
+  suggested_alt_text: 'Crowd at Marco Zero during a free concert in Recife',
+  tags: ['Recife Sonoro', 'Marco Zero', 'Lenine', 'Duda Beat', 'free concerts']
+};
+
+const demoArticleUpdate = {
+  title: demoArticle.title,
+  article_body_html: demoArticle.article_body_html
+    .replace('a partir das 17h', 'a partir das 16h')
+    .replace('<p>Lenine e Duda Beat encabeçam a noite, que também recebe bandas da cena independente pernambucana.</p>',
+      '<p>Lenine e Duda Beat encabeçam a noite, que também recebe bandas da cena independente pernambucana.</p>\n<p>A organização confirmou que a feira de economia criativa abre uma hora antes dos shows, às 16h.</p>'),
+  change_notes: [
+    'Horário de início antecipado para 16h, conforme o novo comunicado.',
+    'Novo parágrafo sobre a abertura da feira de economia criativa.'
+  ]
+};
+
+const demoHeadlineVariants = {
+  variants: [
+    {
+      title: 'Festival Recife Sonoro: Lenine e Duda Beat grátis no Recife',
+      seo_description: 'O Festival Recife Sonoro traz Lenine e Duda Beat ao Marco Zero em 15 de novembro, com entrada gratuita. Confira horários e a programação completa.',
+      style: 'servico'
+    },
+    {
+      title: 'Festival Recife Sonoro: 3 motivos para ir ao Marco Zero',
+      seo_description: 'Lenine, Duda Beat e a cena independente: veja por que o Festival Recife Sonoro é o programa gratuito do fim de semana no Marco Zero, em 15 de novembro.',
+      style: 'lista'
+    },
+    {
+      title: 'Festival Recife Sonoro: quem toca no Marco Zero dia 15?',
+      seo_description: 'Lenine e Duda Beat encabeçam o Festival Recife Sonoro, que ocupa o Marco Zero com shows gratuitos em 15 de novembro. Veja a programação completa.',
+      style: 'pergunta'
+    }
+  ]
+};
+
+export const DEMO_RESPONSES: Record<AiCallType, string> = {
+  extracao_fatos: json(demoFacts),
+  noticia: json(demoArticle),
+  evento: json(demoArticle),
+  social: json(demoArticle),
+  historia: json(demoHistoria),
+  organizador: json(demoOrganizador),
+  artista: json(demoArtista),
+  lugar: json(demoLugar),
+  roteiro: json(demoRoundup),
+  busca_lugar: json(demoPlace),
+  busca_eventos: json(demoEvents),
+  processamento_eventos: json(demoEvents),
+  pacote_social: json(demoSocialPack),
+  traducao: json(demoTranslation),
+  atualizacao_materia: json(demoArticleUpdate),
+  variantes_titulo: json(demoHeadlineVariants),
+  extracao_url: 'Vem aí o Festival Recife Sonoro! 🎶 Dia 15/11, a partir das 17h, no Marco Zero, com Lenine e Duda Beat. Entrada gratuita. #RecifeSonoro'
+};
+
+// Eventos brutos servidos pela página de eventos coletados no modo demonstração
+export const DEMO_SCRAPED_EVENTS: ScrapedEvent[] = [
+  {
+    id: 900001,
+    source_url: 'https://exemplo.com.br/eventos/recife-sonoro',
+    source_site: 'exemplo.com.br',
+    raw_title: 'FESTIVAL RECIFE SONORO - Lenine + Duda Beat',
+    raw_date: '15/11 às 17h',
+    raw_location: 'Marco Zero',
+    raw_data: { price: 'Gratuito' },
+    scraped_at: '2025-11-01T12:00:00.000Z',
+    processed_at: null,
+    processed: false
+  },
+  {
+    id: 900002,
+    source_url: 'https://exemplo.com.br/eventos/compadecida',
+    source_site: 'exemplo.com.br',
+    raw_title: 'Auto da Compadecida (leitura dramática)',
+    raw_date: '20 de novembro, 19h30',
+    raw_location: 'Teatro de Santa Isabel',
+    raw_data: { price: 'R$ 20' },
+    scraped_at: '2025-11-01T12:00:00.000Z',
+    processed_at: null,
+    processed: false
+  },
+  {
+    id: 900003,
+    source_url: 'https://exemplo.com.br/eventos/feira-poco',
+    source_site: 'exemplo.com.br',
+    raw_title: 'Feira Gastronômica - Poço da Panela',
+    raw_date: 'Sábado, 22/11',
+    raw_location: 'Poço da Panela',
+    raw_data: null,
+    scraped_at: '2025-11-01T12:00:00.000Z',
+    processed_at: null,
+    processed: false
+  }
+];
@@ -0,0 +1,128 @@
+import { AiCallType, AiFixture, AiMode, GroundingSource } from "../types";
+
+const MODE_STORAGE_KEY = 'ai-mode';
+const FIXTURES_STORAGE_KEY = 'ai-fixtures';
+const MAX_STORED_FIXTURES = 200;
+
+const VALID_MODES: AiMode[] = ['live', 'record', 'demo'];
+
+type ModeListener = (mode: AiMode) => void;
+const modeListeners = new Set<ModeListener>();
+
+// O modo salvo no navegador tem precedência sobre AI_MODE do .env
+export function getAiMode(): AiMode {
+  const saved = localStorage.getItem(MODE_STORAGE_KEY) as AiMode | null;
+  if (saved && VALID_MODES.includes(saved)) return saved;
+  const fromEnv = process.env.AI_MODE as AiMode | undefined;
+  return fromEnv && VALID_MODES.includes(fromEnv) ? fromEnv : 'live';
+}
+
+export function setAiMode(mode: AiMode) {
+  localStorage.setItem(MODE_STORAGE_KEY, mode);
+  modeListeners.forEach(listener => listener(mode));
+}
+
+export const isDemoMode = (): boolean => getAiMode() === 'demo';
+
+export function onAiModeChange(listener: ModeListener): () => void {
+  modeListeners.add(listener);
+  return () => { modeListeners.delete(listener); };
+}
+
+// FNV-1a de 32 bits sobre o prompt com espaços normalizados; o tamanho reduz colisões
+export function hashPrompt(prompt: string): string {
+  const normalized = prompt.replace(/\s+/g, ' ').trim();
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16).padStart(8, '0')}-${normalized.length}`;
+}
+
+const loadFixtures = (): AiFixture[] => {
+  const saved = localStorage.getItem(FIXTURES_STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved) as AiFixture[];
+  } catch (error) {
+    console.warn('Erro ao carregar fixtures de IA:', error);
+    return [];
+  }
+};
+
+const saveFixtures = (fixtures: AiFixture[]) => {
+  try {
+    localStorage.setItem(FIXTURES_STORAGE_KEY, JSON.stringify(fixtures.slice(-MAX_STORED_FIXTURES)));
+  } catch (error) {
+    // Cota do localStorage esgotada: exporte as fixtures e limpe antes de gravar mais
+    console.warn('Não foi possível salvar a fixture de IA:', error);
+  }
+};
+
+const isFixture = (value: any): value is AiFixture =>
+  value && typeof value.key === 'string' && typeof value.text === 'string';
+
+export const aiFixtureStore = {
+  find(prompt: string): AiFixture | null {
+    const key = hashPrompt(prompt);
+    return loadFixtures().find(fixture => fixture.key === key) ?? null;
+  },
+
+  // Fixture mais recente do tipo, usada quando o prompt exato nunca foi gravado
+  findLatestByType(generationType: AiCallType): AiFixture | null {
+    const matches = loadFixtures().filter(fixture => fixture.generationType === generationType);
+    return matches.length > 0 ? matches[matches.length - 1] : null;
+  },
+
+  record(
+    prompt: string,
+    generationType: AiCallType | undefined,
+    response: { text: string; sources?: GroundingSource[] | null },
+    provider: string,
+    model: string
+  ) {
+    const key = hashPrompt(prompt);
+    const fixture: AiFixture = {
+      key,
+      generationType: generationType ?? null,
+      promptPreview: prompt.replace(/\s+/g, ' ').trim().slice(0, 160),
+      text: response.text,
+      sources: response.sources ?? null,
+      provider,
+      model,
+      recordedAt: new Date().toISOString()
+    };
+    saveFixtures([...loadFixtures().filter(f => f.key !== key), fixture]);
+  },
+
+  list(): AiFixture[] {
+    return loadFixtures();
+  },
+
+  clear() {
+    localStorage.removeItem(FIXTURES_STORAGE_KEY);
+  },
+
+  exportJson(): string {
+    return JSON.stringify(loadFixtures(), null, 2);
+  },
+
+  // Mescla fixtures exportadas de outra máquina; as importadas substituem as de mesma chave
+  importJson(json: string): number {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch (error) {
+      console.error('Erro ao importar fixtures de IA:', error);
+      throw new Error('O arquivo não contém um JSON válido.');
+    }
+    if (!Array.isArray(parsed) || !parsed.every(isFixture)) {
+      throw new Error('O arquivo não é uma lista de fixtures de IA exportada por esta aplicação.');
+    }
+    const imported = parsed as AiFixture[];
+    const importedKeys = new Set(imported.map(f => f.key));
+    saveFixtures([...loadFixtures().filter(f => !importedKeys.has(f.key)), ...imported]);
+    return imported.length;
+  }
+};
@@ -0,0 +1,53 @@
+import { TokenUsage } from "../types";
+
+// Preço por modelo em USD por 1 milhão de tokens (tabela pública de cada provedor)
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-1.5-flash': { inputPerMillion: 0.075, outputPerMillion: 0.30 },
+  'gemini-1.5-pro': { inputPerMillion: 1.25, outputPerMillion: 5.00 },
+  'deepseek/deepseek-chat-v3-0324:free': { inputPerMillion: 0, outputPerMillion: 0 },
+  'meta-llama/Llama-3.2-3B-Instruct-Turbo': { inputPerMillion: 0.06, outputPerMillion: 0.06 },
+  'meta-llama/Llama-3.3-70B-Instruct-Turbo': { inputPerMillion: 0.88, outputPerMillion: 0.88 },
+  'llama-3.1-8b-instant': { inputPerMillion: 0.05, outputPerMillion: 0.08 },
+  'llama-3.3-70b-versatile': { inputPerMillion: 0.59, outputPerMillion: 0.79 },
+};
+
+// Permite cadastrar modelos conhecidos só em tempo de execução (ex: modelos locais, sempre gratuitos)
+export function registerModelPricing(model: string, pricing: ModelPricing) {
+  MODEL_PRICING[model] = pricing;
+}
+
+export function getModelPricing(model: string): ModelPricing | null {
+  return MODEL_PRICING[model] ?? null;
+}
+
+// Modelos fora da tabela são tratados como pagos para nunca escaparem do orçamento
+export function isFreeModel(model: string): boolean {
+  const pricing = getModelPricing(model);
+  return pricing !== null && pricing.inputPerMillion === 0 && pricing.outputPerMillion === 0;
+}
+
+export function calculateCost(model: string, usage: TokenUsage): number {
+  const pricing = getModelPricing(model);
+  if (!pricing) {
+    console.warn(`Modelo sem preço cadastrado: ${model}. Custo registrado como 0.`);
+    return 0;
+  }
+  return (usage.promptTokens * pricing.inputPerMillion + usage.completionTokens * pricing.outputPerMillion) / 1_000_000;
+}
+
+// Estimativa usada quando o provedor não informa o consumo (~4 caracteres por token)
+export function estimateTokenUsage(prompt: string, completion: string): TokenUsage {
+  return {
+    promptTokens: Math.ceil(prompt.length / 4),
+    completionTokens: Math.ceil(completion.length / 4),
+    estimated: true
+  };
+}
+
+export const formatUsd = (value: number): string =>
+  `US$ ${value < 0.01 && value > 0 ? value.toFixed(4) : value.toFixed(2)}`;
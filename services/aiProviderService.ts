@@ -1,78 +1,467 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { GroundingSource, AIProviderConfig } from "../types";
+import { GoogleGenerativeAI, UsageMetadata } from "@google/generative-ai";
+import { GroundingSource, AIProviderConfig, AiCallType, AiBudgetStatus, AiRoutingPolicies, AiTask, LocalProviderConfig, PromptRef, ProviderHealth, ProviderModel, TokenUsage } from "../types";
+import { analyticsService } from "./analyticsService";
+import { calculateCost, estimateTokenUsage, formatUsd, isFreeModel, registerModelPricing } from "./aiPricing";
+import { DEFAULT_ROUTING_POLICIES, RoutingCandidate, getTaskForCallType, rankCandidates } from "./aiRouting";
+import { CircuitBreaker, parseRetryAfter } from "./circuitBreaker";
+import { aiFixtureStore, getAiMode, isDemoMode } from "./aiFixtures";
+import { DEMO_RESPONSES } from "./aiDemoFixtures";
 
-// Função utilitária para limpar e fazer parse de JSON
+// Localiza o primeiro valor JSON (objeto ou array) no texto, ignorando cercas markdown
+// e texto extra antes/depois. A varredura respeita strings, então chaves dentro do HTML não atrapalham.
+function extractJSONCandidates(text: string): string[] {
+  const start = text.search(/[{[]/);
+  if (start === -1) return [text.trim()];
+
+  // Alternativa para quando aspas mal escapadas confundem a varredura: do início ao último fechamento
+  const lastClose = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  const greedy = lastClose > start ? text.slice(start, lastClose + 1) : text.slice(start);
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') stack.push(char === '{' ? '}' : ']');
+    else if ((char === '}' || char === ']') && stack.pop() === char && stack.length === 0) {
+      const balanced = text.slice(start, i + 1);
+      return balanced === greedy ? [balanced] : [balanced, greedy];
+    }
+  }
+
+  return [greedy];
+}
+
+// Corrige os defeitos mais comuns de JSON gerado por LLMs sem tocar no conteúdo das strings:
+// quebras de linha cruas, aspas não escapadas em atributos HTML, strings com crase e vírgulas finais.
+function sanitizeJSON(json: string): string {
+  let result = '';
+  let i = 0;
+
+  const isStringEnd = (index: number) => {
+    // Uma aspa fecha a string se o próximo caractere significativo for um delimitador JSON
+    const rest = json.slice(index + 1).match(/^\s*(.)/);
+    return !rest || [',', '}', ']', ':'].includes(rest[1]);
+  };
+
+  while (i < json.length) {
+    const char = json[i];
+
+    if (char === '"' || char === '`') {
+      const quote = char;
+      result += '"';
+      i++;
+      while (i < json.length) {
+        const c = json[i];
+        if (c === '\\') {
+          const next = json[i + 1];
+          // Escapes inválidos em JSON (ex: \' ou \`) viram o próprio caractere
+          if (next !== undefined) result += '"\\/bfnrtu'.includes(next) ? c + next : next;
+          i += 2;
+          continue;
+        }
+        if (c === quote && (quote === '`' || isStringEnd(i))) break;
+        if (c === '"') result += '\\"';
+        else if (c === '\n') result += '\\n';
+        else if (c === '\r') result += '\\r';
+        else if (c === '\t') result += '\\t';
+        else if (c >= ' ') result += c; // Demais caracteres de controle são descartados
+        i++;
+      }
+      result += '"';
+      i++;
+      continue;
+    }
+
+    if (char === ',') {
+      // Remove vírgulas finais antes de } ou ]
+      const rest = json.slice(i + 1).match(/^\s*(.)/);
+      if (rest && (rest[1] === '}' || rest[1] === ']')) {
+        i++;
+        continue;
+      }
+    }
+
+    result += char;
+    i++;
+  }
+
+  return result;
+}
+
+// Função utilitária para extrair e fazer parse do JSON de uma resposta da IA
 export function parseJSONResponse(text: string): any {
-  // Remove markdown code blocks
-  let cleanText = text.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-  
-  // Remove caracteres extras no início e fim
-  cleanText = cleanText.trim();
-  
-  // Remove caracteres de controle problemáticos
-  cleanText = cleanText.replace(/[\x00-\x1F\x7F-\x9F]/g, '');
-  
-  // Corrige template literals problemáticos (backticks dentro de strings)
-  cleanText = cleanText.replace(/"[^"]*`[^"]*"/g, (match) => {
-    return match.replace(/`/g, '\\`');
-  });
-  
-  // Remove template literals que não estão dentro de strings JSON válidas
-  cleanText = cleanText.replace(/`[\s\S]*?`/g, (match) => {
-    // Se está dentro de uma string JSON, mantém mas escapa
-    if (match.includes('\n') || match.includes('\r')) {
-      return '"' + match.slice(1, -1).replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\r/g, '\\r').replace(/\t/g, '\\t') + '"';
-    }
-    return match.replace(/`/g, '"');
-  });
-  
-  // Remove quebras de linha dentro de strings que podem causar problemas
-  cleanText = cleanText.replace(/"[^"]*\n[^"]*"/g, (match) => {
-    return match.replace(/\n/g, '\\n').replace(/\r/g, '\\r').replace(/\t/g, '\\t');
-  });
-  
-  // Tenta extrair apenas o JSON válido se houver texto extra
-  const jsonMatch = cleanText.match(/\{[\s\S]*\}|\[[\s\S]*\]/);
-  if (jsonMatch) {
-    cleanText = jsonMatch[0];
-  }
-  
-  // Última tentativa de limpeza: remove vírgulas extras antes de chaves/colchetes de fechamento
-  cleanText = cleanText.replace(/,\s*([}\]])/g, '$1');
-  
-  try {
-    // Tenta fazer o parse
-    return JSON.parse(cleanText);
-  } catch (error) {
-    console.error('Erro ao fazer parse do JSON:', {
-      originalText: text.substring(0, 500) + (text.length > 500 ? '...' : ''),
-      cleanedText: cleanText.substring(0, 500) + (cleanText.length > 500 ? '...' : ''),
-      error: error
-    });
-    
-    // Tentativa final: extrair apenas o conteúdo entre as primeiras chaves
-    const finalMatch = text.match(/\{[\s\S]*?\}/);
-    if (finalMatch) {
+  let lastError: unknown = null;
+
+  for (const candidate of extractJSONCandidates(text)) {
+    for (const attempt of [candidate, sanitizeJSON(candidate)]) {
       try {
-        const finalClean = finalMatch[0]
-          .replace(/`[\s\S]*?`/g, '""')
-          .replace(/,\s*([}\]])/g, '$1');
-        return JSON.parse(finalClean);
-      } catch (finalError) {
-        console.error('Tentativa final de parse também falhou:', finalError);
+        return JSON.parse(attempt);
+      } catch (error) {
+        lastError = error;
       }
     }
-    
-    throw new Error(`Falha ao analisar a resposta JSON: ${error}`);
   }
+
+  console.error('Erro ao fazer parse do JSON:', {
+    originalText: text.substring(0, 500) + (text.length > 500 ? '...' : ''),
+    error: lastError
+  });
+  throw new Error(`Falha ao analisar a resposta JSON: ${lastError instanceof Error ? lastError.message : lastError}`);
+}
+
+// Extrai o valor (possivelmente incompleto) de um campo string de um JSON ainda em streaming
+export function extractPartialJSONString(text: string, field: string): string | null {
+  const fieldMatch = new RegExp(`"${field}"\\s*:\\s*"`).exec(text);
+  if (!fieldMatch) return null;
+
+  let result = '';
+  let i = fieldMatch.index + fieldMatch[0].length;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      result += char;
+      i++;
+      continue;
+    }
+
+    // Sequência de escape incompleta no fim do buffer: aguarda o próximo chunk
+    const next = text[i + 1];
+    if (next === undefined) break;
+
+    if (next === 'u') {
+      const hex = text.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      result += String.fromCharCode(parseInt(hex, 16));
+      i += 6;
+      continue;
+    }
+
+    const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+    result += escapes[next] ?? next;
+    i += 2;
+  }
+
+  return result;
+}
+
+// Callback de streaming: recebe o texto acumulado até o momento e o provedor que está respondendo
+export type StreamCallback = (partialText: string, providerName: string) => void;
+
+export interface GenerationOptions {
+  // Provedores a evitar nesta chamada (ex: o que já falhou em reparar uma resposta).
+  // Se a exclusão deixar a lista vazia, ela é ignorada.
+  excludeProviders?: string[];
+  // Tipo de chamada registrado na contabilidade de uso
+  generationType?: AiCallType;
+  // Template de prompt que originou a chamada, para rastrear qual versão gerou cada rascunho
+  promptRef?: PromptRef;
+  // Limite de tokens da resposta; sem ele vale DEFAULT_MAX_OUTPUT_TOKENS
+  maxOutputTokens?: number;
+}
+
+export const DEFAULT_MAX_OUTPUT_TOKENS = 1000;
+
+export interface ProviderResponse {
+  text: string;
+  sources?: GroundingSource[] | null;
+  usage?: TokenUsage; // Ausente quando o provedor não informa o consumo
 }
 
 // Tipos para configuração dos provedores
 export interface AIProvider {
   name: string;
+  models: ProviderModel[]; // O primeiro é o modelo padrão do provedor
   isAvailable: boolean;
   priority: number;
-  generateContent: (prompt: string) => Promise<{ text: string; sources?: GroundingSource[] | null }>;
+  // maxTokens: limite da resposta, para os provedores que exigem um
+  generateContent: (prompt: string, model: string, maxTokens: number) => Promise<ProviderResponse>;
+  generateContentStream?: (prompt: string, model: string, onChunk: (chunk: string) => void, maxTokens: number) => Promise<ProviderResponse>;
+}
+
+// Passo da cadeia de fallback: o provedor e o modelo escolhidos pelo roteamento
+interface RouteStep {
+  provider: AIProvider;
+  model: string;
+}
+
+// Erro lançado quando o orçamento mensal de IA acabou e não há provedor gratuito para onde rebaixar
+export class BudgetExceededError extends Error {
+  constructor(public status: AiBudgetStatus) {
+    super(`Orçamento mensal de IA esgotado (${formatUsd(status.spentUsd)} de ${formatUsd(status.limitUsd ?? 0)}). A geração está bloqueada até o próximo mês.`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// Erro HTTP de um provedor, com o status e a espera pedida pela API (Retry-After)
+export class ProviderHttpError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'ProviderHttpError';
+  }
+
+  // 429, ou qualquer resposta que peça explicitamente para esperar (ex: 503 com Retry-After)
+  get isRateLimit(): boolean {
+    return this.status === 429 || this.retryAfterMs !== null;
+  }
+}
+
+function httpError(message: string, response: Response): ProviderHttpError {
+  return new ProviderHttpError(message, response.status, parseRetryAfter(response.headers.get('retry-after')));
+}
+
+// Prefixa a mensagem com o nome do provedor preservando status e Retry-After
+function wrapProviderError(providerName: string, error: any): Error {
+  const message = `Erro no ${providerName}: ${error.message || 'Erro desconhecido'}`;
+  return error instanceof ProviderHttpError
+    ? new ProviderHttpError(message, error.status, error.retryAfterMs)
+    : new Error(message);
+}
+
+// O SDK do Gemini expõe o status HTTP e, em 429, o RetryInfo com o atraso sugerido (ex: "30s")
+function geminiHttpError(message: string, error: any): Error {
+  if (typeof error?.status !== 'number') return new Error(message);
+  const retryInfo = error.errorDetails?.find((detail: any) => String(detail['@type'] || '').includes('RetryInfo'));
+  const delaySeconds = retryInfo?.retryDelay ? parseFloat(retryInfo.retryDelay) : NaN;
+  return new ProviderHttpError(message, error.status, Number.isNaN(delaySeconds) ? null : delaySeconds * 1000);
+}
+
+// Converte o campo `usage` das APIs compatíveis com OpenAI
+function toTokenUsage(usage: any): TokenUsage | undefined {
+  if (!usage || typeof usage.prompt_tokens !== 'number') return undefined;
+  return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens || 0, estimated: false };
+}
+
+function geminiTokenUsage(metadata?: UsageMetadata): TokenUsage | undefined {
+  if (!metadata) return undefined;
+  return { promptTokens: metadata.promptTokenCount, completionTokens: metadata.candidatesTokenCount || 0, estimated: false };
+}
+
+// Faz streaming de uma API compatível com OpenAI (chat/completions via SSE)
+async function streamChatCompletion(
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, unknown>,
+  onChunk: (chunk: string) => void
+): Promise<{ response: Response; text: string; usage?: TokenUsage }> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ ...body, stream: true })
+  });
+
+  // Erros HTTP são tratados por cada provedor, que conhece suas próprias mensagens
+  if (!response.ok) {
+    return { response, text: '' };
+  }
+  if (!response.body) {
+    throw new Error('Este navegador não suporta respostas em streaming');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let usage: TokenUsage | undefined;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      // Ignora linhas vazias e comentários de keep-alive (ex: ": OPENROUTER PROCESSING")
+      if (!trimmed.startsWith('data:')) continue;
+
+      const data = trimmed.slice(5).trim();
+      if (data === '[DONE]') {
+        return { response, text, usage };
+      }
+
+      let payload: any;
+      try {
+        payload = JSON.parse(data);
+      } catch {
+        continue;
+      }
+
+      if (payload.error) {
+        throw new Error(`Stream interrompido: ${payload.error.message || JSON.stringify(payload.error)}`);
+      }
+
+      // O consumo chega no último chunk (o Groq o coloca em x_groq.usage)
+      usage = toTokenUsage(payload.usage || payload.x_groq?.usage) || usage;
+
+      const delta = payload.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onChunk(delta);
+      }
+    }
+  }
+
+  return { response, text, usage };
+}
+
+export const LOCAL_PROVIDER_NAME = 'Modelo Local';
+const LOCAL_PROVIDER_STORAGE_KEY = 'ai-local-provider';
+
+const localHeaders = (config: LocalProviderConfig): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {})
+});
+
+const normalizeBaseUrl = (baseUrl: string) => baseUrl.trim().replace(/\/+$/, '');
+
+// Lista os modelos servidos por um endpoint compatível com OpenAI (GET /models)
+export async function discoverLocalModels(baseUrl: string, apiKey: string = ''): Promise<string[]> {
+  let response: Response;
+  try {
+    response = await fetch(`${normalizeBaseUrl(baseUrl)}/models`, {
+      headers: localHeaders({ baseUrl, apiKey, model: '', availableModels: [], contextWindow: 0 })
+    });
+  } catch (error: any) {
+    console.error('Erro ao descobrir modelos locais:', error);
+    throw new Error(`Não foi possível conectar a ${baseUrl}. Verifique se o servidor está rodando e se aceita requisições do navegador (CORS).`);
+  }
+
+  if (!response.ok) {
+    throw new Error(`O servidor local respondeu ${response.status} ao listar os modelos.`);
+  }
+
+  const data = await response.json();
+  const models: string[] = (data.data || data.models || [])
+    .map((model: any) => model.id || model.name)
+    .filter(Boolean);
+  if (models.length === 0) {
+    throw new Error('Nenhum modelo encontrado no servidor local. Carregue ou baixe um modelo primeiro.');
+  }
+  return models;
+}
+
+// Provedor para servidores locais (Ollama, llama.cpp, LM Studio): gratuito e sem envio de dados para a nuvem
+function createLocalProvider(config: LocalProviderConfig): AIProvider {
+  const url = `${normalizeBaseUrl(config.baseUrl)}/chat/completions`;
+  const modelIds = [config.model, ...config.availableModels.filter(id => id !== config.model)];
+  modelIds.forEach(id => registerModelPricing(id, { inputPerMillion: 0, outputPerMillion: 0 }));
+
+  return {
+    name: LOCAL_PROVIDER_NAME,
+    models: modelIds.map(id => ({ id, contextWindow: config.contextWindow, quality: 3, nominalLatencyMs: 10000 })),
+    isAvailable: true,
+    priority: 6,
+    generateContent: async (prompt: string, model: string) => {
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: localHeaders(config),
+          body: JSON.stringify({
+            model,
+            messages: [{ role: 'user', content: prompt }],
+            temperature: 0.7
+          })
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw httpError(`Servidor local: ${response.status} - ${errorText}`, response);
+        }
+
+        const data = await response.json();
+        return {
+          text: data.choices[0]?.message?.content || '',
+          sources: null,
+          usage: toTokenUsage(data.usage)
+        };
+      } catch (error: any) {
+        console.error('Erro no modelo local:', error);
+        throw wrapProviderError(LOCAL_PROVIDER_NAME, error);
+      }
+    },
+    generateContentStream: async (prompt: string, model: string, onChunk: (chunk: string) => void) => {
+      try {
+        const { response, text, usage } = await streamChatCompletion(
+          url,
+          localHeaders(config),
+          {
+            model,
+            messages: [{ role: 'user', content: prompt }],
+            temperature: 0.7
+          },
+          onChunk
+        );
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw httpError(`Servidor local: ${response.status} - ${errorText}`, response);
+        }
+
+        return { text, sources: null, usage };
+      } catch (error: any) {
+        console.error('Erro no streaming do modelo local:', error);
+        throw wrapProviderError(LOCAL_PROVIDER_NAME, error);
+      }
+    }
+  };
+}
+
+export const MOCK_PROVIDER_NAME = 'Modo Demonstração';
+const MOCK_MODEL = 'fixtures';
+const MOCK_CHUNK_SIZE = 40;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Provedor determinístico do modo demonstração: devolve a fixture gravada para o prompt
+// (pelo hash), senão a mais recente do mesmo tipo, senão a resposta de demonstração embutida.
+function createMockProvider(generationType?: AiCallType): AIProvider {
+  const resolveResponse = (prompt: string): ProviderResponse => {
+    const fixture = aiFixtureStore.find(prompt) ?? (generationType ? aiFixtureStore.findLatestByType(generationType) : null);
+    if (fixture) {
+      return { text: fixture.text, sources: fixture.sources };
+    }
+    if (generationType) {
+      return { text: DEMO_RESPONSES[generationType], sources: null };
+    }
+    throw new Error('Modo demonstração: não há fixture gravada para este prompt.');
+  };
+
+  return {
+    name: MOCK_PROVIDER_NAME,
+    models: [{ id: MOCK_MODEL, contextWindow: Number.MAX_SAFE_INTEGER, quality: 1, nominalLatencyMs: 300 }],
+    isAvailable: true,
+    priority: 0,
+    generateContent: async (prompt: string) => {
+      await wait(300);
+      return resolveResponse(prompt);
+    },
+    // Entrega a resposta em pedaços para exercitar a pré-visualização ao vivo
+    generateContentStream: async (prompt: string, _model: string, onChunk: (chunk: string) => void) => {
+      const response = resolveResponse(prompt);
+      for (let i = 0; i < response.text.length; i += MOCK_CHUNK_SIZE) {
+        await wait(20);
+        onChunk(response.text.slice(i, i + MOCK_CHUNK_SIZE));
+      }
+      return response;
+    }
+  };
 }
 
 // Configuração dos provedores de IA
@@ -80,6 +469,11 @@ class AIProviderManager {
   private providers: AIProvider[] = [];
   private userEnabledProviders: Set<string> = new Set();
   private userPreferredProvider: string | null = null;
+  private usageContext: { userId: string | null; teamId: string | null } = { userId: null, teamId: null };
+  private budgetStatus: AiBudgetStatus | null = null;
+  private routingPolicies: AiRoutingPolicies = DEFAULT_ROUTING_POLICIES;
+  private latencyStats: Map<string, number> = new Map();
+  private breakers: Map<string, CircuitBreaker> = new Map();
 
   constructor() {
     this.initializeProviders();
@@ -123,22 +517,49 @@ class AIProviderManager {
       
       this.providers.push({
         name: 'Google Gemini',
+        models: [
+          { id: 'gemini-1.5-flash', contextWindow: 1048576, quality: 4, nominalLatencyMs: 2500 },
+          { id: 'gemini-1.5-pro', contextWindow: 2097152, quality: 5, nominalLatencyMs: 6000 }
+        ],
         isAvailable: true,
         priority: 1,
-        generateContent: async (prompt: string) => {
+        generateContent: async (prompt: string, modelId: string) => {
           try {
-            const model = geminiAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
+            const model = geminiAI.getGenerativeModel({ model: modelId });
             const response = await model.generateContent(prompt);
             return {
               text: response.response.text(),
-              sources: null
+              sources: null,
+              usage: geminiTokenUsage(response.response.usageMetadata)
             };
           } catch (error: any) {
             console.error('Erro no Gemini:', error);
             if (error.message?.includes('API key not valid')) {
               throw new Error('Chave de API do Google Gemini inválida ou expirada');
             }
-            throw new Error(`Erro no Google Gemini: ${error.message || 'Erro desconhecido'}`);
+            throw geminiHttpError(`Erro no Google Gemini: ${error.message || 'Erro desconhecido'}`, error);
+          }
+        },
+        generateContentStream: async (prompt: string, modelId: string, onChunk: (chunk: string) => void) => {
+          try {
+            const model = geminiAI.getGenerativeModel({ model: modelId });
+            const result = await model.generateContentStream(prompt);
+            let text = '';
+            for await (const chunk of result.stream) {
+              const chunkText = chunk.text();
+              if (chunkText) {
+                text += chunkText;
+                onChunk(chunkText);
+              }
+            }
+            const finalResponse = await result.response;
+            return { text, sources: null, usage: geminiTokenUsage(finalResponse.usageMetadata) };
+          } catch (error: any) {
+            console.error('Erro no streaming do Gemini:', error);
+            if (error.message?.includes('API key not valid')) {
+              throw new Error('Chave de API do Google Gemini inválida ou expirada');
+            }
+            throw geminiHttpError(`Erro no Google Gemini: ${error.message || 'Erro desconhecido'}`, error);
           }
         }
       });
@@ -148,9 +569,10 @@ class AIProviderManager {
     if (false && process.env.HUGGINGFACE_API_KEY) {
       this.providers.push({
         name: 'Hugging Face',
+        models: [{ id: 'gpt2', contextWindow: 1024, quality: 1, nominalLatencyMs: 5000 }],
         isAvailable: true,
         priority: 2,
-        generateContent: async (prompt: string) => {
+        generateContent: async (prompt: string, _model: string, maxTokens: number) => {
           try {
             const response = await fetch('https://api-inference.huggingface.co/models/gpt2', {
               method: 'POST',
@@ -161,7 +583,7 @@ class AIProviderManager {
               body: JSON.stringify({
                 inputs: prompt,
                 parameters: {
-                  max_new_tokens: 1000,
+                  max_new_tokens: maxTokens,
                   temperature: 0.7
                 }
               })
@@ -169,7 +591,7 @@ class AIProviderManager {
             
             if (!response.ok) {
               const errorText = await response.text();
-              throw new Error(`Hugging Face API error: ${response.status} - ${errorText}`);
+              throw httpError(`Hugging Face API error: ${response.status} - ${errorText}`, response);
             }
             
             const data = await response.json();
@@ -182,7 +604,7 @@ class AIProviderManager {
             if (error.message?.includes('404')) {
               throw new Error('Modelo do Hugging Face não encontrado ou indisponível');
             }
-            throw new Error(`Erro no Hugging Face: ${error.message || 'Erro desconhecido'}`);
+            throw wrapProviderError('Hugging Face', error);
           }
         }
       });
@@ -192,9 +614,10 @@ class AIProviderManager {
     if (process.env.OPENROUTER_API_KEY) {
       this.providers.push({
         name: 'OpenRouter',
+        models: [{ id: 'deepseek/deepseek-chat-v3-0324:free', contextWindow: 163840, quality: 4, nominalLatencyMs: 8000 }],
         isAvailable: true,
         priority: 3,
-        generateContent: async (prompt: string) => {
+        generateContent: async (prompt: string, model: string, maxTokens: number) => {
           try {
             const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
               method: 'POST',
@@ -205,9 +628,9 @@ class AIProviderManager {
                 'X-Title': 'RecifeMais AI Assistant'
               },
               body: JSON.stringify({
-                model: 'deepseek/deepseek-chat-v3-0324:free', // Modelo gratuito
+                model, // Modelo gratuito
                 messages: [{ role: 'user', content: prompt }],
-                max_tokens: 1000,
+                max_tokens: maxTokens,
                 temperature: 0.7
               })
             });
@@ -215,19 +638,53 @@ class AIProviderManager {
             if (!response.ok) {
               const errorText = await response.text();
               if (response.status === 429) {
-                throw new Error('Limite de requisições do OpenRouter excedido. Tente novamente em alguns minutos.');
+                throw httpError('Limite de requisições do OpenRouter excedido. Tente novamente em alguns minutos.', response);
               }
-              throw new Error(`OpenRouter API error: ${response.status} - ${errorText}`);
+              throw httpError(`OpenRouter API error: ${response.status} - ${errorText}`, response);
             }
             
             const data = await response.json();
             return {
               text: data.choices[0]?.message?.content || '',
-              sources: null
+              sources: null,
+              usage: toTokenUsage(data.usage)
             };
           } catch (error: any) {
             console.error('Erro no OpenRouter:', error);
-            throw new Error(`Erro no OpenRouter: ${error.message || 'Erro desconhecido'}`);
+            throw wrapProviderError('OpenRouter', error);
+          }
+        },
+        generateContentStream: async (prompt: string, model: string, onChunk: (chunk: string) => void, maxTokens: number) => {
+          try {
+            const { response, text, usage } = await streamChatCompletion(
+              'https://openrouter.ai/api/v1/chat/completions',
+              {
+                'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
+                'Content-Type': 'application/json',
+                'HTTP-Referer': 'https://recifemais.com',
+                'X-Title': 'RecifeMais AI Assistant'
+              },
+              {
+                model,
+                messages: [{ role: 'user', content: prompt }],
+                max_tokens: maxTokens,
+                temperature: 0.7
+              },
+              onChunk
+            );
+
+            if (!response.ok) {
+              const errorText = await response.text();
+              if (response.status === 429) {
+                throw httpError('Limite de requisições do OpenRouter excedido. Tente novamente em alguns minutos.', response);
+              }
+              throw httpError(`OpenRouter API error: ${response.status} - ${errorText}`, response);
+            }
+
+            return { text, sources: null, usage };
+          } catch (error: any) {
+            console.error('Erro no streaming do OpenRouter:', error);
+            throw wrapProviderError('OpenRouter', error);
           }
         }
       });
@@ -237,9 +694,13 @@ class AIProviderManager {
     if (process.env.TOGETHER_API_KEY) {
       this.providers.push({
         name: 'Together AI',
+        models: [
+          { id: 'meta-llama/Llama-3.2-3B-Instruct-Turbo', contextWindow: 131072, quality: 2, nominalLatencyMs: 1500 },
+          { id: 'meta-llama/Llama-3.3-70B-Instruct-Turbo', contextWindow: 131072, quality: 4, nominalLatencyMs: 3500 }
+        ],
         isAvailable: true,
         priority: 4,
-        generateContent: async (prompt: string) => {
+        generateContent: async (prompt: string, model: string, maxTokens: number) => {
           try {
             const response = await fetch('https://api.together.xyz/v1/chat/completions', {
               method: 'POST',
@@ -248,9 +709,9 @@ class AIProviderManager {
                 'Content-Type': 'application/json'
               },
               body: JSON.stringify({
-                model: 'meta-llama/Llama-3.2-3B-Instruct-Turbo',
+                model,
                 messages: [{ role: 'user', content: prompt }],
-                max_tokens: 1000,
+                max_tokens: maxTokens,
                 temperature: 0.7
               })
             });
@@ -258,19 +719,51 @@ class AIProviderManager {
             if (!response.ok) {
               const errorText = await response.text();
               if (response.status === 401) {
-                throw new Error('Chave de API do Together AI inválida ou expirada');
+                throw httpError('Chave de API do Together AI inválida ou expirada', response);
               }
-              throw new Error(`Together AI API error: ${response.status} - ${errorText}`);
+              throw httpError(`Together AI API error: ${response.status} - ${errorText}`, response);
             }
             
             const data = await response.json();
             return {
               text: data.choices[0]?.message?.content || '',
-              sources: null
+              sources: null,
+              usage: toTokenUsage(data.usage)
             };
           } catch (error: any) {
             console.error('Erro no Together AI:', error);
-            throw new Error(`Erro no Together AI: ${error.message || 'Erro desconhecido'}`);
+            throw wrapProviderError('Together AI', error);
+          }
+        },
+        generateContentStream: async (prompt: string, model: string, onChunk: (chunk: string) => void, maxTokens: number) => {
+          try {
+            const { response, text, usage } = await streamChatCompletion(
+              'https://api.together.xyz/v1/chat/completions',
+              {
+                'Authorization': `Bearer ${process.env.TOGETHER_API_KEY}`,
+                'Content-Type': 'application/json'
+              },
+              {
+                model,
+                messages: [{ role: 'user', content: prompt }],
+                max_tokens: maxTokens,
+                temperature: 0.7
+              },
+              onChunk
+            );
+
+            if (!response.ok) {
+              const errorText = await response.text();
+              if (response.status === 401) {
+                throw httpError('Chave de API do Together AI inválida ou expirada', response);
+              }
+              throw httpError(`Together AI API error: ${response.status} - ${errorText}`, response);
+            }
+
+            return { text, sources: null, usage };
+          } catch (error: any) {
+            console.error('Erro no streaming do Together AI:', error);
+            throw wrapProviderError('Together AI', error);
           }
         }
       });
@@ -280,9 +773,13 @@ class AIProviderManager {
     if (process.env.GROQ_API_KEY) {
       this.providers.push({
         name: 'Groq',
+        models: [
+          { id: 'llama-3.1-8b-instant', contextWindow: 131072, quality: 2, nominalLatencyMs: 800 },
+          { id: 'llama-3.3-70b-versatile', contextWindow: 131072, quality: 4, nominalLatencyMs: 1500 }
+        ],
         isAvailable: true,
         priority: 5,
-        generateContent: async (prompt: string) => {
+        generateContent: async (prompt: string, model: string, maxTokens: number) => {
           try {
             const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
               method: 'POST',
@@ -291,62 +788,312 @@ class AIProviderManager {
                 'Content-Type': 'application/json'
               },
               body: JSON.stringify({
-                model: 'llama-3.1-8b-instant',
+                model,
                 messages: [{ role: 'user', content: prompt }],
-                max_tokens: 1000,
+                max_tokens: maxTokens,
                 temperature: 0.7
               })
             });
             
             if (!response.ok) {
               const errorText = await response.text();
-              throw new Error(`Groq API error: ${response.status} - ${errorText}`);
+              throw httpError(`Groq API error: ${response.status} - ${errorText}`, response);
             }
             
             const data = await response.json();
             return {
               text: data.choices[0]?.message?.content || '',
-              sources: null
+              sources: null,
+              usage: toTokenUsage(data.usage)
             };
           } catch (error: any) {
             console.error('Erro no Groq:', error);
-            throw new Error(`Erro no Groq: ${error.message || 'Erro desconhecido'}`);
+            throw wrapProviderError('Groq', error);
+          }
+        },
+        generateContentStream: async (prompt: string, model: string, onChunk: (chunk: string) => void, maxTokens: number) => {
+          try {
+            const { response, text, usage } = await streamChatCompletion(
+              'https://api.groq.com/openai/v1/chat/completions',
+              {
+                'Authorization': `Bearer ${process.env.GROQ_API_KEY}`,
+                'Content-Type': 'application/json'
+              },
+              {
+                model,
+                messages: [{ role: 'user', content: prompt }],
+                max_tokens: maxTokens,
+                temperature: 0.7
+              },
+              onChunk
+            );
+
+            if (!response.ok) {
+              const errorText = await response.text();
+              throw httpError(`Groq API error: ${response.status} - ${errorText}`, response);
+            }
+
+            return { text, sources: null, usage };
+          } catch (error: any) {
+            console.error('Erro no streaming do Groq:', error);
+            throw wrapProviderError('Groq', error);
           }
         }
       });
     }
 
+    // 6. Modelo local (Ollama, llama.cpp, LM Studio), configurado na tela ou via .env
+    const localConfig = this.loadLocalProviderConfig();
+    if (localConfig) {
+      this.providers.push(createLocalProvider(localConfig));
+    }
+
     // Ordena provedores por prioridade
     this.providers.sort((a, b) => a.priority - b.priority);
+    this.providers.forEach(provider => this.breakers.set(provider.name, new CircuitBreaker()));
+    this.breakers.set(MOCK_PROVIDER_NAME, new CircuitBreaker());
   }
 
-  // Método principal para gerar conteúdo com fallback automático
-  async generateContent(prompt: string): Promise<{ text: string; sources?: GroundingSource[] | null; usedProvider: string }> {
-    let availableProviders = this.providers
-      .filter(p => p.isAvailable && this.userEnabledProviders.has(p.name))
-      .sort((a, b) => a.priority - b.priority); // Ordena por prioridade (menor número = maior prioridade)
-    
-    // Se há um provedor preferido e ele está disponível, tenta ele primeiro
-    if (this.userPreferredProvider && this.userEnabledProviders.has(this.userPreferredProvider)) {
-      const preferredProvider = availableProviders.find(p => p.name === this.userPreferredProvider);
-      if (preferredProvider) {
-        availableProviders = [preferredProvider, ...availableProviders.filter(p => p.name !== this.userPreferredProvider)];
+  private loadLocalProviderConfig(): LocalProviderConfig | null {
+    const saved = localStorage.getItem(LOCAL_PROVIDER_STORAGE_KEY);
+    if (saved) {
+      try {
+        return JSON.parse(saved) as LocalProviderConfig;
+      } catch (error) {
+        console.warn('Erro ao carregar configuração do modelo local:', error);
       }
     }
+
+    if (process.env.LOCAL_LLM_BASE_URL && process.env.LOCAL_LLM_MODEL) {
+      return {
+        baseUrl: process.env.LOCAL_LLM_BASE_URL,
+        apiKey: process.env.LOCAL_LLM_API_KEY || '',
+        model: process.env.LOCAL_LLM_MODEL,
+        availableModels: [],
+        contextWindow: 8192
+      };
+    }
+    return null;
+  }
+
+  getLocalProviderConfig(): LocalProviderConfig | null {
+    return this.loadLocalProviderConfig();
+  }
+
+  // Registra (ou substitui) o provedor local e o habilita na cadeia de fallback
+  configureLocalProvider(config: LocalProviderConfig) {
+    if (!config.baseUrl.trim() || !config.model.trim()) {
+      throw new Error('Informe a URL base e o modelo do servidor local.');
+    }
+    localStorage.setItem(LOCAL_PROVIDER_STORAGE_KEY, JSON.stringify(config));
+
+    this.providers = this.providers.filter(p => p.name !== LOCAL_PROVIDER_NAME);
+    this.providers.push(createLocalProvider(config));
+    this.providers.sort((a, b) => a.priority - b.priority);
+    this.breakers.set(LOCAL_PROVIDER_NAME, new CircuitBreaker());
+
+    this.userEnabledProviders.add(LOCAL_PROVIDER_NAME);
+    this.saveUserPreferences();
+  }
+
+  removeLocalProvider() {
+    localStorage.removeItem(LOCAL_PROVIDER_STORAGE_KEY);
+    this.providers = this.providers.filter(p => p.name !== LOCAL_PROVIDER_NAME);
+    this.breakers.delete(LOCAL_PROVIDER_NAME);
+    this.updateProviderConfig(LOCAL_PROVIDER_NAME, false);
+  }
+
+  private getBreaker(provider: AIProvider): CircuitBreaker {
+    return this.breakers.get(provider.name)!;
+  }
+
+  // No modo demonstração toda chamada vai para o provedor de fixtures, sem rede
+  private resolveRoute(prompt: string, options: GenerationOptions): RouteStep[] {
+    if (isDemoMode()) {
+      return [{ provider: createMockProvider(options.generationType), model: MOCK_MODEL }];
+    }
+    return this.getRoute(prompt, getTaskForCallType(options.generationType), options.excludeProviders);
+  }
+
+  // No modo de gravação as respostas reais viram fixtures para o modo demonstração
+  private captureFixture(prompt: string, options: GenerationOptions, step: RouteStep, result: ProviderResponse) {
+    if (getAiMode() !== 'record' || step.provider.name === MOCK_PROVIDER_NAME) return;
+    aiFixtureStore.record(prompt, options.generationType, result, step.provider.name, step.model);
+  }
+
+  // Monta a cadeia de fallback (provedor + modelo) segundo a política de roteamento da tarefa
+  private getRoute(
+    prompt: string,
+    task: AiTask,
+    excludeProviders: string[] = [],
+    policies: AiRoutingPolicies = this.routingPolicies
+  ): RouteStep[] {
+    const enabledProviders = this.providers.filter(p => p.isAvailable && this.userEnabledProviders.has(p.name));
     
-    if (availableProviders.length === 0) {
+    if (enabledProviders.length === 0) {
       throw new Error('Nenhum provedor de IA está disponível no momento.');
     }
 
+    // Provedores com o circuito aberto ficam fora da rota até o fim do cooldown
+    const availableProviders = enabledProviders.filter(p => this.getBreaker(p).isCallPermitted());
+    if (availableProviders.length === 0) {
+      const nextRetry = Math.min(...enabledProviders.map(p => this.getBreaker(p).getHealth().retryAt ?? Date.now()));
+      throw new Error(`Todos os provedores de IA estão suspensos após falhas recentes. Nova tentativa possível às ${new Date(nextRetry).toLocaleTimeString()}.`);
+    }
+
+    let candidates: RoutingCandidate[] = availableProviders.flatMap(p =>
+      p.models.map(model => ({ providerName: p.name, priority: p.priority, model }))
+    );
+
+    // Orçamento esgotado: bloqueia ou rebaixa para os modelos gratuitos, conforme configurado
+    if (this.budgetStatus?.isExhausted) {
+      const freeCandidates = candidates.filter(c => isFreeModel(c.model.id));
+      if (this.budgetStatus.onExceed === 'block' || freeCandidates.length === 0) {
+        throw new BudgetExceededError(this.budgetStatus);
+      }
+      console.warn(`💸 Orçamento de IA esgotado, usando apenas modelos gratuitos: ${freeCandidates.map(c => c.model.id).join(', ')}`);
+      candidates = freeCandidates;
+    }
+
+    const policy = policies[task];
+    // O provedor preferido global só vale para a prioridade fixa sem provedor fixado na tarefa
+    const effectivePolicy = policy.strategy === 'prioridade' && !policy.pinnedProvider
+      ? { ...policy, pinnedProvider: this.userPreferredProvider, pinnedModel: null }
+      : policy;
+
+    const ranked = rankCandidates(
+      candidates,
+      effectivePolicy,
+      estimateTokenUsage(prompt, '').promptTokens,
+      c => this.latencyStats.get(`${c.providerName}:${c.model.id}`)
+    );
+    const route = ranked.map(c => ({ provider: this.providers.find(p => p.name === c.providerName)!, model: c.model.id }));
+
+    const remaining = route.filter(step => !excludeProviders.includes(step.provider.name));
+    return remaining.length > 0 ? remaining : route;
+  }
+
+  // Registra o consumo de uma tentativa e atualiza o gasto do mês em memória
+  private recordUsage(
+    step: RouteStep,
+    prompt: string,
+    options: GenerationOptions,
+    latencyMs: number,
+    result: ProviderResponse | null,
+    error?: Error
+  ) {
+    const { provider, model } = step;
+    // Respostas de demonstração não têm custo nem devem tocar a rede
+    if (provider.name === MOCK_PROVIDER_NAME) return;
+    const usage = result?.usage ?? estimateTokenUsage(result ? prompt : '', result?.text ?? '');
+    const cost = calculateCost(model, usage);
+
+    // Média móvel da latência por modelo, usada pela estratégia de menor latência
+    if (!error) {
+      const key = `${provider.name}:${model}`;
+      const previous = this.latencyStats.get(key);
+      this.latencyStats.set(key, previous === undefined ? latencyMs : previous * 0.7 + latencyMs * 0.3);
+    }
+
+    if (this.budgetStatus) {
+      const spentUsd = this.budgetStatus.spentUsd + cost;
+      const limitUsd = this.budgetStatus.limitUsd;
+      this.budgetStatus = {
+        ...this.budgetStatus,
+        spentUsd,
+        remainingUsd: limitUsd !== null ? Math.max(limitUsd - spentUsd, 0) : null,
+        isExhausted: limitUsd !== null && spentUsd >= limitUsd,
+        spentByProvider: {
+          ...this.budgetStatus.spentByProvider,
+          [provider.name]: (this.budgetStatus.spentByProvider[provider.name] || 0) + cost
+        }
+      };
+    }
+
+    if (!this.usageContext.userId) return;
+
+    // Sem await: o registro não deve atrasar a entrega do conteúdo
+    void analyticsService.logAiUsage({
+      user_id: this.usageContext.userId,
+      team_id: this.usageContext.teamId,
+      provider: provider.name,
+      model,
+      generation_type: options.generationType ?? null,
+      prompt_tokens: usage.promptTokens,
+      completion_tokens: usage.completionTokens,
+      tokens_estimated: usage.estimated,
+      latency_ms: latencyMs,
+      cost_usd: cost,
+      success: !error,
+      error_message: error?.message ?? null,
+      prompt_template_id: options.promptRef?.templateId ?? null,
+      prompt_version: options.promptRef?.version ?? null,
+      prompt_source: options.promptRef?.source ?? null
+    });
+  }
+
+  // Resposta vazia conta como falha: o provedor respondeu, mas não entregou nada utilizável
+  private recordProviderOutcome(provider: AIProvider, result: ProviderResponse, latencyMs: number) {
+    if (result.text && result.text.trim().length > 0) {
+      this.getBreaker(provider).recordSuccess(latencyMs);
+    } else {
+      this.recordProviderFailure(provider, new Error(`${provider.name} devolveu uma resposta vazia`), latencyMs);
+    }
+  }
+
+  // Alimenta o circuit breaker; limite de requisições (429/Retry-After) suspende o provedor na hora
+  private recordProviderFailure(provider: AIProvider, error: Error, latencyMs: number) {
+    const breaker = this.getBreaker(provider);
+    const rateLimit = error instanceof ProviderHttpError && error.isRateLimit ? { retryAfterMs: error.retryAfterMs } : null;
+    breaker.recordFailure(error.message, latencyMs, rateLimit);
+
+    const health = breaker.getHealth();
+    if (health.state === 'open' && health.retryAt) {
+      console.warn(`⛔ Circuito de ${provider.name} aberto até ${new Date(health.retryAt).toLocaleTimeString()}`);
+    }
+  }
+
+  // Erro de quando a rota terminou sem resposta. Sem nenhuma tentativa, todos os circuitos
+  // recusaram a chamada (abertos ou com a chamada de teste do meio-aberto em andamento)
+  private routeExhaustedError(route: RouteStep[], attempted: boolean, lastError: Error | null): Error {
+    if (lastError) {
+      return new Error(`Todos os provedores de IA falharam. Último erro: ${lastError.message}`);
+    }
+    if (attempted) {
+      return new Error('Todos os provedores de IA devolveram uma resposta vazia.');
+    }
+    const retryTimes = route
+      .map(step => this.getBreaker(step.provider).getHealth().retryAt)
+      .filter((retryAt): retryAt is number => retryAt !== null);
+    if (retryTimes.length === 0) {
+      return new Error('Todos os provedores de IA estão suspensos após falhas recentes, aguardando o resultado de uma chamada de teste. Tente novamente em instantes.');
+    }
+    return new Error(`Todos os provedores de IA estão suspensos após falhas recentes. Nova tentativa possível às ${new Date(Math.min(...retryTimes)).toLocaleTimeString()}.`);
+  }
+
+  // Método principal para gerar conteúdo com fallback automático
+  async generateContent(prompt: string, options: GenerationOptions = {}): Promise<ProviderResponse & { usedProvider: string }> {
+    const route = this.resolveRoute(prompt, options);
+    const maxTokens = options.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS;
     let lastError: Error | null = null;
+    let attempted = false;
 
-    for (const provider of availableProviders) {
+    for (const step of route) {
+      const { provider, model } = step;
+      // No estado meio-aberto só uma chamada de teste passa; as demais seguem para o próximo provedor
+      if (!this.getBreaker(provider).tryAcquire()) continue;
+      attempted = true;
+      const startedAt = performance.now();
       try {
-        console.log(`Tentando gerar conteúdo com ${provider.name}...`);
-        const result = await provider.generateContent(prompt);
+        console.log(`Tentando gerar conteúdo com ${provider.name} (${model})...`);
+        const result = await provider.generateContent(prompt, model, maxTokens);
+        const latencyMs = Math.round(performance.now() - startedAt);
+        this.recordUsage(step, prompt, options, latencyMs, result);
+        this.recordProviderOutcome(provider, result, latencyMs);
         
         if (result.text && result.text.trim().length > 0) {
           console.log(`✅ Sucesso com ${provider.name}`);
+          this.captureFixture(prompt, options, step, result);
           return {
             ...result,
             usedProvider: provider.name
@@ -355,30 +1102,132 @@ class AIProviderManager {
       } catch (error) {
         console.warn(`❌ Falha com ${provider.name}:`, error);
         lastError = error as Error;
-        
-        // Marca o provedor como indisponível temporariamente
-        provider.isAvailable = false;
-        
-        // Reativa após 5 minutos
-        setTimeout(() => {
-          provider.isAvailable = true;
-          console.log(`🔄 ${provider.name} reativado`);
-        }, 5 * 60 * 1000);
-        
+        const latencyMs = Math.round(performance.now() - startedAt);
+        this.recordUsage(step, prompt, options, latencyMs, null, lastError);
+        this.recordProviderFailure(provider, lastError, latencyMs);
         continue;
       }
     }
 
-    throw new Error(`Todos os provedores de IA falharam. Último erro: ${lastError?.message}`);
+    throw this.routeExhaustedError(route, attempted, lastError);
+  }
+
+  // Variante em streaming: notifica o texto parcial a cada chunk recebido.
+  // Se o stream de um provedor cair no meio, o próximo recomeça do zero e o
+  // callback volta a receber o texto desde o início.
+  async generateContentStream(prompt: string, onPartial: StreamCallback, options: GenerationOptions = {}): Promise<ProviderResponse & { usedProvider: string }> {
+    const route = this.resolveRoute(prompt, options);
+    const maxTokens = options.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS;
+    let lastError: Error | null = null;
+    let attempted = false;
+
+    for (const step of route) {
+      const { provider, model } = step;
+      if (!this.getBreaker(provider).tryAcquire()) continue;
+      attempted = true;
+      let accumulated = '';
+      onPartial('', provider.name);
+      const startedAt = performance.now();
+
+      try {
+        console.log(`Tentando gerar conteúdo (streaming) com ${provider.name} (${model})...`);
+        let result: ProviderResponse;
+
+        if (provider.generateContentStream) {
+          result = await provider.generateContentStream(prompt, model, (chunk) => {
+            accumulated += chunk;
+            onPartial(accumulated, provider.name);
+          }, maxTokens);
+        } else {
+          // Provedor sem suporte a streaming: entrega a resposta completa de uma vez
+          result = await provider.generateContent(prompt, model, maxTokens);
+          onPartial(result.text, provider.name);
+        }
+        const latencyMs = Math.round(performance.now() - startedAt);
+        this.recordUsage(step, prompt, options, latencyMs, result);
+        this.recordProviderOutcome(provider, result, latencyMs);
+
+        if (result.text && result.text.trim().length > 0) {
+          console.log(`✅ Sucesso com ${provider.name}`);
+          this.captureFixture(prompt, options, step, result);
+          return {
+            ...result,
+            usedProvider: provider.name
+          };
+        }
+      } catch (error) {
+        console.warn(`❌ Falha com ${provider.name}${accumulated ? ' (stream interrompido)' : ''}:`, error);
+        lastError = error as Error;
+        const latencyMs = Math.round(performance.now() - startedAt);
+        // Um stream interrompido já consumiu tokens: registra o que chegou a ser gerado
+        this.recordUsage(step, prompt, options, latencyMs, accumulated ? { text: accumulated } : null, lastError);
+        this.recordProviderFailure(provider, lastError, latencyMs);
+        continue;
+      }
+    }
+
+    throw this.routeExhaustedError(route, attempted, lastError);
+  }
+
+  // Define o usuário/equipe a quem o consumo é atribuído e carrega o orçamento do mês
+  async setUsageContext(userId: string | null, teamId: string | null = null): Promise<void> {
+    this.usageContext = { userId, teamId };
+    this.budgetStatus = null;
+    if (userId) {
+      await this.refreshBudgetStatus();
+    }
+  }
+
+  async refreshBudgetStatus(): Promise<AiBudgetStatus | null> {
+    const { userId, teamId } = this.usageContext;
+    if (!userId) return null;
+    try {
+      this.budgetStatus = await analyticsService.getAiBudgetStatus(userId, teamId);
+    } catch (error) {
+      console.warn('Erro ao carregar orçamento de IA:', error);
+    }
+    return this.budgetStatus;
+  }
+
+  getBudgetStatus(): AiBudgetStatus | null {
+    return this.budgetStatus;
+  }
+
+  // Políticas de roteamento por tarefa (persistidas no perfil junto com as AiPreferences)
+  setRoutingPolicies(policies: AiRoutingPolicies) {
+    this.routingPolicies = policies;
+  }
+
+  // Modelos de cada provedor configurado, para a escolha de modelo fixo por tarefa
+  getProviderModels(): { provider: string; models: ProviderModel[] }[] {
+    return this.providers.map(p => ({ provider: p.name, models: p.models }));
+  }
+
+  // Mostra a cadeia que seria usada para uma tarefa com a política informada (sem chamar a IA)
+  previewRoute(task: AiTask, policies: AiRoutingPolicies = this.routingPolicies): string[] {
+    try {
+      return this.getRoute('', task, [], policies).map(step => `${step.provider.name} · ${step.model}`);
+    } catch {
+      return [];
+    }
   }
 
   // Método para verificar status dos provedores
-  getProvidersStatus(): { name: string; isAvailable: boolean; priority: number }[] {
-    return this.providers.map(p => ({
-      name: p.name,
-      isAvailable: p.isAvailable,
-      priority: p.priority
-    }));
+  getProvidersStatus(): { name: string; isAvailable: boolean; priority: number; health: ProviderHealth }[] {
+    return this.providers.map(p => {
+      const health = this.getBreaker(p).getHealth();
+      return {
+        name: p.name,
+        isAvailable: p.isAvailable && health.state !== 'open',
+        priority: p.priority,
+        health
+      };
+    });
+  }
+
+  private isProviderUp(name: string): boolean {
+    const provider = this.providers.find(p => p.name === name);
+    return !!provider && provider.isAvailable && this.getBreaker(provider).getHealth().state !== 'open';
   }
 
   // Método para obter configurações dos provedores
@@ -387,7 +1236,7 @@ class AIProviderManager {
       {
         name: 'Google Gemini',
         isEnabled: this.userEnabledProviders.has('Google Gemini'),
-        isAvailable: this.providers.find(p => p.name === 'Google Gemini')?.isAvailable || false,
+        isAvailable: this.isProviderUp('Google Gemini'),
         priority: 1,
         description: 'Modelo avançado do Google com alta qualidade de resposta',
         requiresApiKey: true,
@@ -396,7 +1245,7 @@ class AIProviderManager {
       {
         name: 'OpenRouter',
         isEnabled: this.userEnabledProviders.has('OpenRouter'),
-        isAvailable: this.providers.find(p => p.name === 'OpenRouter')?.isAvailable || false,
+        isAvailable: this.isProviderUp('OpenRouter'),
         priority: 3,
         description: 'Acesso a múltiplos modelos gratuitos via OpenRouter',
         requiresApiKey: true,
@@ -405,7 +1254,7 @@ class AIProviderManager {
       {
         name: 'Together AI',
         isEnabled: this.userEnabledProviders.has('Together AI'),
-        isAvailable: this.providers.find(p => p.name === 'Together AI')?.isAvailable || false,
+        isAvailable: this.isProviderUp('Together AI'),
         priority: 4,
         description: 'Modelos open-source com boa performance',
         requiresApiKey: true,
@@ -414,11 +1263,20 @@ class AIProviderManager {
       {
         name: 'Groq',
         isEnabled: this.userEnabledProviders.has('Groq'),
-        isAvailable: this.providers.find(p => p.name === 'Groq')?.isAvailable || false,
+        isAvailable: this.isProviderUp('Groq'),
         priority: 5,
         description: 'Modelos open-source com alta velocidade de resposta',
         requiresApiKey: true,
         apiKeyEnvVar: 'GROQ_API_KEY'
+      },
+      {
+        name: LOCAL_PROVIDER_NAME,
+        isEnabled: this.userEnabledProviders.has(LOCAL_PROVIDER_NAME),
+        isAvailable: this.isProviderUp(LOCAL_PROVIDER_NAME),
+        priority: 6,
+        description: 'Servidor próprio compatível com OpenAI (Ollama, llama.cpp, LM Studio): o texto não sai da sua rede',
+        requiresApiKey: false,
+        apiKeyEnvVar: 'LOCAL_LLM_BASE_URL e LOCAL_LLM_MODEL'
       }
     ];
     
@@ -457,6 +1315,7 @@ class AIProviderManager {
   reactivateAllProviders(): void {
     this.providers.forEach(p => {
       p.isAvailable = true;
+      this.getBreaker(p).reset();
     });
     console.log('🔄 Todos os provedores foram reativados');
   }
@@ -476,6 +1335,11 @@ class AIProviderManager {
 export const aiProviderManager = new AIProviderManager();
 
 // Função de conveniência para usar no lugar das chamadas diretas do Gemini
-export async function generateWithFallback(prompt: string): Promise<{ text: string; sources?: GroundingSource[] | null; usedProvider: string }> {
-  return aiProviderManager.generateContent(prompt);
+export async function generateWithFallback(prompt: string, options?: GenerationOptions): Promise<ProviderResponse & { usedProvider: string }> {
+  return aiProviderManager.generateContent(prompt, options);
+}
+
+// Variante em streaming de generateWithFallback
+export async function generateWithFallbackStream(prompt: string, onPartial: StreamCallback, options?: GenerationOptions): Promise<ProviderResponse & { usedProvider: string }> {
+  return aiProviderManager.generateContentStream(prompt, onPartial, options);
 }
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { AiCallType, AiRoutingPolicies, AiRoutingPolicy, AiTask, ProviderModel, RoutingStrategy } from "../types";
+import { getModelPricing } from "./aiPricing";
+
+export const TASK_LABELS: Record<AiTask, string> = {
+  extracao_fatos: 'Extração de fatos',
+  redacao_artigo: 'Redação de artigos',
+  normalizacao_eventos: 'Normalização de eventos',
+  busca_lugar: 'Busca de lugares',
+  geral: 'Outras tarefas',
+};
+
+export const STRATEGY_LABELS: Record<RoutingStrategy, string> = {
+  prioridade: 'Prioridade fixa',
+  qualidade: 'Melhor qualidade',
+  custo: 'Menor custo',
+  velocidade: 'Menor latência',
+};
+
+// Extração e busca são curtas e frequentes; redação e normalização pedem o melhor modelo
+export const DEFAULT_ROUTING_POLICIES: AiRoutingPolicies = {
+  extracao_fatos: { strategy: 'velocidade', pinnedProvider: null, pinnedModel: null },
+  redacao_artigo: { strategy: 'qualidade', pinnedProvider: null, pinnedModel: null },
+  normalizacao_eventos: { strategy: 'qualidade', pinnedProvider: null, pinnedModel: null },
+  busca_lugar: { strategy: 'custo', pinnedProvider: null, pinnedModel: null },
+  geral: { strategy: 'prioridade', pinnedProvider: null, pinnedModel: null },
+};
+
+const CALL_TYPE_TASKS: Record<AiCallType, AiTask> = {
+  noticia: 'redacao_artigo',
+  evento: 'redacao_artigo',
+  social: 'redacao_artigo',
+  historia: 'redacao_artigo',
+  organizador: 'redacao_artigo',
+  artista: 'redacao_artigo',
+  lugar: 'redacao_artigo',
+  roteiro: 'redacao_artigo',
+  extracao_fatos: 'extracao_fatos',
+  extracao_url: 'extracao_fatos',
+  busca_eventos: 'normalizacao_eventos',
+  processamento_eventos: 'normalizacao_eventos',
+  busca_lugar: 'busca_lugar',
+  pacote_social: 'redacao_artigo',
+  traducao: 'redacao_artigo',
+  atualizacao_materia: 'redacao_artigo',
+  variantes_titulo: 'redacao_artigo',
+};
+
+export function getTaskForCallType(callType?: AiCallType): AiTask {
+  return callType ? CALL_TYPE_TASKS[callType] : 'geral';
+}
+
+// Completa as políticas salvas no perfil com os padrões (tarefas novas ou JSON parcial)
+export function normalizeRoutingPolicies(saved?: Partial<AiRoutingPolicies> | null): AiRoutingPolicies {
+  const policies = { ...DEFAULT_ROUTING_POLICIES };
+  for (const task of Object.keys(DEFAULT_ROUTING_POLICIES) as AiTask[]) {
+    const policy = saved?.[task];
+    if (policy && STRATEGY_LABELS[policy.strategy]) {
+      policies[task] = {
+        strategy: policy.strategy,
+        pinnedProvider: policy.pinnedProvider ?? null,
+        pinnedModel: policy.pinnedProvider ? policy.pinnedModel ?? null : null,
+      };
+    }
+  }
+  return policies;
+}
+
+export interface RoutingCandidate {
+  providerName: string;
+  priority: number;
+  model: ProviderModel;
+}
+
+// Espaço reservado para a resposta ao verificar se o prompt cabe no contexto do modelo
+const OUTPUT_TOKEN_RESERVE = 2000;
+
+const blendedPrice = (model: ProviderModel): number => {
+  const pricing = getModelPricing(model.id);
+  return pricing ? pricing.inputPerMillion + pricing.outputPerMillion : Number.POSITIVE_INFINITY;
+};
+
+// Ordena os pares provedor+modelo segundo a política da tarefa e devolve um modelo por provedor,
+// já na ordem da cadeia de fallback. `getLatency` devolve a latência medida, se houver.
+export function rankCandidates(
+  candidates: RoutingCandidate[],
+  policy: AiRoutingPolicy,
+  promptTokens: number,
+  getLatency: (candidate: RoutingCandidate) => number | undefined
+): RoutingCandidate[] {
+  const fitting = candidates.filter(c => c.model.contextWindow >= promptTokens + OUTPUT_TOKEN_RESERVE);
+  const pool = fitting.length > 0 ? fitting : candidates;
+  const latency = (c: RoutingCandidate) => getLatency(c) ?? c.model.nominalLatencyMs;
+
+  const comparators: Record<RoutingStrategy, (a: RoutingCandidate, b: RoutingCandidate) => number> = {
+    prioridade: (a, b) => a.priority - b.priority,
+    qualidade: (a, b) => b.model.quality - a.model.quality || latency(a) - latency(b),
+    custo: (a, b) => blendedPrice(a.model) - blendedPrice(b.model) || b.model.quality - a.model.quality,
+    velocidade: (a, b) => latency(a) - latency(b) || b.model.quality - a.model.quality,
+  };
+
+  // sort é estável: na prioridade fixa cada provedor mantém seu modelo padrão (o primeiro da lista)
+  const sorted = [...pool].sort(comparators[policy.strategy]);
+  const ranked = sorted.filter((c, index) => sorted.findIndex(other => other.providerName === c.providerName) === index);
+
+  if (!policy.pinnedProvider) return ranked;
+
+  const pinned =
+    pool.find(c => c.providerName === policy.pinnedProvider && c.model.id === policy.pinnedModel) ||
+    ranked.find(c => c.providerName === policy.pinnedProvider);
+  return pinned ? [pinned, ...ranked.filter(c => c.providerName !== pinned.providerName)] : ranked;
+}
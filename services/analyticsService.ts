@@ -5,7 +5,10 @@ import {
   PerformanceMetric, 
   FeatureUsageStats, 
   UserSession, 
-  ErrorLog 
+  ErrorLog,
+  AiUsageLog,
+  AiBudget,
+  AiBudgetStatus
 } from '../types';
 
 export const analyticsService = {
@@ -80,6 +83,83 @@ export const analyticsService = {
     return data || [];
   },
 
+  // Consumo de IA (tokens, latência e custo por chamada)
+  async logAiUsage(data: Omit<AiUsageLog, 'id' | 'created_at'>): Promise<void> {
+    const { error } = await supabase
+      .from('ai_usage_logs')
+      .insert(data);
+
+    if (error) {
+      console.error('Error logging AI usage:', error);
+      // Não lançar erro para não interromper o fluxo principal
+    }
+  },
+
+  // Gasto do período por provedor, somado no banco (ai_usage_spend_by_provider)
+  async getAiSpendByProvider(filters: { userId?: string; teamId?: string; dateFrom: string }): Promise<Record<string, number>> {
+    const { data, error } = await supabase.rpc('ai_usage_spend_by_provider', {
+      p_since: filters.dateFrom,
+      p_user_id: filters.userId ?? null,
+      p_team_id: filters.teamId ?? null
+    });
+
+    if (error) {
+      console.error('Error fetching AI spend:', error);
+      throw error;
+    }
+
+    const spentByProvider: Record<string, number> = {};
+    for (const row of data || []) {
+      spentByProvider[row.provider] = Number(row.spent_usd) || 0;
+    }
+    return spentByProvider;
+  },
+
+  // Orçamento mensal: o do usuário tem precedência sobre o da equipe
+  async getAiBudgetStatus(userId: string, teamId?: string | null): Promise<AiBudgetStatus> {
+    let query = supabase
+      .from('ai_budgets')
+      .select('*');
+
+    query = teamId
+      ? query.or(`user_id.eq.${userId},team_id.eq.${teamId}`)
+      : query.eq('user_id', userId);
+
+    const { data: budgets, error } = await query;
+
+    if (error) {
+      console.error('Error fetching AI budget:', error);
+      throw error;
+    }
+
+    const budget: AiBudget | undefined =
+      (budgets || []).find((b: AiBudget) => b.user_id === userId) ||
+      (budgets || []).find((b: AiBudget) => teamId && b.team_id === teamId);
+    const scope = budget ? (budget.user_id === userId ? 'user' : 'team') : null;
+
+    const monthStart = new Date();
+    monthStart.setDate(1);
+    monthStart.setHours(0, 0, 0, 0);
+
+    const spentByProvider: Record<string, number> = await this.getAiSpendByProvider({
+      userId: scope === 'team' ? undefined : userId,
+      teamId: scope === 'team' ? teamId! : undefined,
+      dateFrom: monthStart.toISOString()
+    });
+    const spentUsd = Object.values(spentByProvider).reduce((total, cost) => total + cost, 0);
+
+    const limitUsd = budget ? Number(budget.monthly_limit_usd) : null;
+    return {
+      limitUsd,
+      spentUsd,
+      remainingUsd: limitUsd !== null ? Math.max(limitUsd - spentUsd, 0) : null,
+      onExceed: budget?.on_exceed || 'downgrade',
+      isExhausted: limitUsd !== null && spentUsd >= limitUsd,
+      scope,
+      spentByProvider
+    };
+  },
+
   // Métricas de performance
   async recordPerformanceMetric(metricName: string, value: number, unit?: string, tags?: any): Promise<void> {
     const { error } = await supabase
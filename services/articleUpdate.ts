@@ -0,0 +1,45 @@
+import { DiffLine, DiffSegment, diffSequences, groupHunks } from "./textDiff";
+import { stripHtml } from "./factChecker";
+
+const escapeText = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Divide o HTML em blocos de nível superior (parágrafos, títulos, listas), a unidade do diff.
+// Os comentários do editor de blocos (<!-- wp:paragraph -->) ficam presos ao bloco que envolvem.
+// Original e revisão passam pela mesma serialização, então parágrafos intactos comparam iguais.
+export function splitHtmlBlocks(html: string): string[] {
+  const root = new DOMParser().parseFromString(`<div>${html}</div>`, 'text/html').body.firstElementChild!;
+  const blocks: string[] = [];
+  let pendingComments: string[] = [];
+
+  root.childNodes.forEach(node => {
+    if (node.nodeType === Node.COMMENT_NODE) {
+      const comment = `<!--${node.textContent}-->`;
+      // Comentário de fechamento pertence ao bloco anterior
+      if (node.textContent?.trim().startsWith('/') && blocks.length > 0 && pendingComments.length === 0) {
+        blocks[blocks.length - 1] += `\n${comment}`;
+      } else {
+        pendingComments.push(comment);
+      }
+      return;
+    }
+    const markup = node.nodeType === Node.ELEMENT_NODE
+      ? (node as Element).outerHTML
+      : escapeText(node.textContent?.trim() ?? '');
+    if (!markup) return;
+    blocks.push([...pendingComments, markup].join('\n'));
+    pendingComments = [];
+  });
+
+  if (pendingComments.length > 0) blocks.push(pendingComments.join('\n'));
+  return blocks;
+}
+
+export const joinHtmlBlocks = (blocks: string[]): string => blocks.join('\n\n');
+
+export const buildArticleUpdateDiff = (originalHtml: string, revisedHtml: string): DiffSegment[] =>
+  groupHunks(diffSequences(splitHtmlBlocks(originalHtml), splitHtmlBlocks(revisedHtml)));
+
+// Diff palavra a palavra entre dois blocos, para destacar o que mudou dentro do parágrafo
+export const diffBlockWords = (before: string, after: string): DiffLine[] =>
+  diffSequences(stripHtml(before).split(/(\s+)/), stripHtml(after).split(/(\s+)/));
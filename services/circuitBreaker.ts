@@ -0,0 +1,183 @@
+import { CircuitState, ProviderHealth } from "../types";
+
+export interface CircuitBreakerOptions {
+  windowSize: number; // Quantas chamadas recentes entram no cálculo das taxas
+  windowMs: number; // Chamadas mais antigas que isso são descartadas
+  minCalls: number; // Mínimo de chamadas na janela antes de avaliar as taxas
+  errorRateThreshold: number;
+  slowCallThresholdMs: number;
+  slowCallRateThreshold: number;
+  consecutiveFailureThreshold: number;
+  baseCooldownMs: number;
+  maxCooldownMs: number;
+}
+
+const DEFAULT_OPTIONS: CircuitBreakerOptions = {
+  windowSize: 20,
+  windowMs: 10 * 60 * 1000,
+  minCalls: 4,
+  errorRateThreshold: 0.5,
+  slowCallThresholdMs: 30000,
+  slowCallRateThreshold: 0.8,
+  consecutiveFailureThreshold: 3,
+  baseCooldownMs: 30 * 1000,
+  maxCooldownMs: 10 * 60 * 1000,
+};
+
+interface CallOutcome {
+  at: number;
+  success: boolean;
+  latencyMs: number;
+}
+
+// Circuit breaker de um provedor: fechado (normal), aberto (suspenso até o fim do cooldown)
+// e meio-aberto (uma única chamada de teste decide se volta a fechar ou reabre).
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private outcomes: CallOutcome[] = [];
+  private consecutiveFailures = 0;
+  private openCount = 0; // Aberturas seguidas, para o cooldown exponencial
+  private retryAt: number | null = null;
+  private trialInFlight = false;
+  private lastError: string | null = null;
+  private options: CircuitBreakerOptions;
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // Indica se o provedor pode entrar na rota agora (abertos com cooldown vencido passam a meio-aberto)
+  isCallPermitted(now: number = Date.now()): boolean {
+    if (this.state === 'open' && this.retryAt !== null && now >= this.retryAt) {
+      this.state = 'half-open';
+      this.trialInFlight = false;
+    }
+    if (this.state === 'half-open') return !this.trialInFlight;
+    return this.state === 'closed';
+  }
+
+  // Reserva a chamada; no estado meio-aberto apenas uma chamada de teste por vez é liberada
+  tryAcquire(now: number = Date.now()): boolean {
+    if (!this.isCallPermitted(now)) return false;
+    if (this.state === 'half-open') this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(latencyMs: number, now: number = Date.now()) {
+    this.pushOutcome({ at: now, success: true, latencyMs });
+    this.consecutiveFailures = 0;
+
+    if (this.state === 'half-open') {
+      // Teste bem-sucedido: recomeça com a janela limpa
+      this.state = 'closed';
+      this.outcomes = [{ at: now, success: true, latencyMs }];
+      this.openCount = 0;
+      this.retryAt = null;
+      this.trialInFlight = false;
+      return;
+    }
+
+    // Chamadas lentas demais também podem abrir o circuito
+    const { slowCallRate, recentCalls } = this.getRates(now);
+    if (recentCalls >= this.options.minCalls && slowCallRate >= this.options.slowCallRateThreshold) {
+      this.open(now, null);
+    }
+  }
+
+  // Limite de requisições abre o circuito na hora; o Retry-After, se houver, substitui o cooldown
+  recordFailure(
+    error: string,
+    latencyMs: number,
+    rateLimit: { retryAfterMs: number | null } | null = null,
+    now: number = Date.now()
+  ) {
+    this.pushOutcome({ at: now, success: false, latencyMs });
+    this.consecutiveFailures++;
+    this.lastError = error;
+
+    if (this.state === 'half-open' || rateLimit) {
+      this.open(now, rateLimit?.retryAfterMs ?? null);
+      return;
+    }
+
+    const { errorRate, recentCalls } = this.getRates(now);
+    const tooManyErrors = recentCalls >= this.options.minCalls && errorRate >= this.options.errorRateThreshold;
+    if (tooManyErrors || this.consecutiveFailures >= this.options.consecutiveFailureThreshold) {
+      this.open(now, null);
+    }
+  }
+
+  reset() {
+    this.state = 'closed';
+    this.outcomes = [];
+    this.consecutiveFailures = 0;
+    this.openCount = 0;
+    this.retryAt = null;
+    this.trialInFlight = false;
+    this.lastError = null;
+  }
+
+  getHealth(now: number = Date.now()): ProviderHealth {
+    this.isCallPermitted(now); // Atualiza aberto → meio-aberto se o cooldown já venceu
+    const { errorRate, slowCallRate, recentCalls, avgLatencyMs } = this.getRates(now);
+    return {
+      state: this.state,
+      recentCalls,
+      errorRate,
+      slowCallRate,
+      avgLatencyMs,
+      consecutiveFailures: this.consecutiveFailures,
+      retryAt: this.state === 'open' ? this.retryAt : null,
+      lastError: this.lastError,
+    };
+  }
+
+  private open(now: number, retryAfterMs: number | null) {
+    // Já aberto (falha de uma chamada que começou antes): não reinicia nem dobra o cooldown,
+    // só respeita um Retry-After mais longo
+    if (this.state === 'open') {
+      if (retryAfterMs !== null) this.retryAt = Math.max(this.retryAt ?? 0, now + retryAfterMs);
+      return;
+    }
+    const cooldown = Math.min(this.options.baseCooldownMs * 2 ** this.openCount, this.options.maxCooldownMs);
+    this.state = 'open';
+    this.openCount++;
+    this.retryAt = now + (retryAfterMs ?? cooldown);
+    this.trialInFlight = false;
+  }
+
+  private pushOutcome(outcome: CallOutcome) {
+    this.outcomes.push(outcome);
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private getRates(now: number) {
+    const recent = this.outcomes.filter(o => now - o.at <= this.options.windowMs);
+    const total = recent.length;
+    if (total === 0) {
+      return { errorRate: 0, slowCallRate: 0, recentCalls: 0, avgLatencyMs: null };
+    }
+    const failures = recent.filter(o => !o.success).length;
+    const slowCalls = recent.filter(o => o.success && o.latencyMs >= this.options.slowCallThresholdMs).length;
+    const successes = recent.filter(o => o.success);
+    return {
+      errorRate: failures / total,
+      slowCallRate: slowCalls / total,
+      recentCalls: total,
+      avgLatencyMs: successes.length > 0
+        ? Math.round(successes.reduce((sum, o) => sum + o.latencyMs, 0) / successes.length)
+        : null,
+    };
+  }
+}
+
+// Converte o cabeçalho Retry-After (segundos ou data HTTP) em milissegundos
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(seconds, 0) * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(date - now, 0);
+}
@@ -0,0 +1,243 @@
+import { AttachmentImage } from "../types";
+
+// Leitura de documentos anexados a comunicados (PDF, DOCX, ODT) direto no navegador.
+// DOCX e ODT são pacotes zip com XML; o texto de PDF vem do pdf.js, carregado só quando necessário.
+
+// Logos de assinatura e ícones de redes sociais ficam abaixo disso; fotos de divulgação, acima
+export const MIN_IMAGE_BYTES = 15_000;
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const ODF_TEXT_NS = 'urn:oasis:names:tc:opendocument:xmlns:text:1.0';
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+export type DocumentKind = 'pdf' | 'docx' | 'odt';
+
+export interface ExtractedDocument {
+  text: string;
+  images: AttachmentImage[];
+}
+
+// Só formatos que o recorte da imagem destacada aceita; SVG e EMF ficam de fora
+export const imageTypeOf = (fileName: string, mimeType = ''): string | null =>
+  IMAGE_TYPES[fileName.split('.').pop()?.toLowerCase() ?? '']
+  ?? (Object.values(IMAGE_TYPES).includes(mimeType) ? mimeType : null);
+
+export function documentKind(fileName: string, mimeType = ''): DocumentKind | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (mimeType === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || extension === 'docx') return 'docx';
+  if (mimeType === 'application/vnd.oasis.opendocument.text' || extension === 'odt') return 'odt';
+  return null;
+}
+
+export const toDataUrl = (bytes: Uint8Array, mimeType: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(new Blob([bytes], { type: mimeType }));
+  });
+
+const inflate = async (data: Uint8Array, format: CompressionFormat): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// --- Zip (DOCX/ODT) ---
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+// Lê o diretório central do zip; os tamanhos dos cabeçalhos locais podem vir zerados, os do diretório não
+function readZipEntries(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('O arquivo não é um documento válido (pacote zip corrompido).');
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  for (let i = 0; i < count && view.getUint32(position, true) === 0x02014b50; i++) {
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const name = new TextDecoder().decode(bytes.subarray(position + 46, position + 46 + nameLength));
+    entries.set(name, {
+      name,
+      method: view.getUint16(position + 10, true),
+      compressedSize: view.getUint32(position + 20, true),
+      localOffset: view.getUint32(position + 42, true),
+    });
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readZipEntry(bytes: Uint8Array, entry: ZipEntry): Promise<Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const start = entry.localOffset + 30 + view.getUint16(entry.localOffset + 26, true) + view.getUint16(entry.localOffset + 28, true);
+  const data = bytes.subarray(start, start + entry.compressedSize);
+  if (entry.method === 0) return data;
+  if (entry.method === 8) return inflate(data, 'deflate-raw');
+  throw new Error(`Compressão não suportada em "${entry.name}".`);
+}
+
+async function readZipXml(bytes: Uint8Array, entries: Map<string, ZipEntry>, name: string): Promise<Document> {
+  const entry = entries.get(name);
+  if (!entry) throw new Error(`O documento não contém "${name}".`);
+  const xml = new TextDecoder().decode(await readZipEntry(bytes, entry));
+  return new DOMParser().parseFromString(xml, 'application/xml');
+}
+
+async function readZipImages(bytes: Uint8Array, entries: Map<string, ZipEntry>, folder: string): Promise<AttachmentImage[]> {
+  const images: AttachmentImage[] = [];
+  for (const entry of entries.values()) {
+    const mimeType = imageTypeOf(entry.name);
+    if (!entry.name.startsWith(folder) || !mimeType) continue;
+    const data = await readZipEntry(bytes, entry);
+    if (data.length < MIN_IMAGE_BYTES) continue;
+    images.push({ name: entry.name.slice(folder.length), dataUrl: await toDataUrl(data, mimeType) });
+  }
+  return images;
+}
+
+// Texto de um parágrafo do Word: runs (w:t), tabulações e quebras de linha
+const wordParagraphText = (element: Element): string =>
+  Array.from(element.children).map(child => {
+    if (child.localName === 't') return child.textContent || '';
+    if (child.localName === 'tab') return '\t';
+    if (child.localName === 'br' || child.localName === 'cr') return '\n';
+    return wordParagraphText(child);
+  }).join('');
+
+async function extractDocx(bytes: Uint8Array): Promise<ExtractedDocument> {
+  const entries = readZipEntries(bytes);
+  const xml = await readZipXml(bytes, entries, 'word/document.xml');
+  const paragraphs = Array.from(xml.getElementsByTagNameNS(WORD_NS, 'p')).map(wordParagraphText);
+  return { text: paragraphs.join('\n'), images: await readZipImages(bytes, entries, 'word/media/') };
+}
+
+// Texto de um parágrafo ODF; parágrafos aninhados (notas, quadros) são lidos por conta própria
+const odfParagraphText = (element: Element): string =>
+  Array.from(element.childNodes).map(node => {
+    if (node.nodeType === Node.TEXT_NODE) return node.textContent || '';
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const child = node as Element;
+    if (child.localName === 'p' || child.localName === 'h') return '';
+    if (child.localName === 's') return ' '.repeat(Number(child.getAttributeNS(ODF_TEXT_NS, 'c')) || 1);
+    if (child.localName === 'tab') return '\t';
+    if (child.localName === 'line-break') return '\n';
+    return odfParagraphText(child);
+  }).join('');
+
+async function extractOdt(bytes: Uint8Array): Promise<ExtractedDocument> {
+  const entries = readZipEntries(bytes);
+  const xml = await readZipXml(bytes, entries, 'content.xml');
+  const paragraphs = Array.from(xml.getElementsByTagNameNS(ODF_TEXT_NS, '*'))
+    .filter(element => element.localName === 'p' || element.localName === 'h')
+    .map(odfParagraphText);
+  return { text: paragraphs.join('\n'), images: await readZipImages(bytes, entries, 'Pictures/') };
+}
+
+// --- PDF ---
+
+export const binaryString = (bytes: Uint8Array): string => {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return result;
+};
+
+// Fotos embutidas em PDF costumam ser JPEG puro (filtro DCTDecode): basta recortar o stream
+async function extractPdfJpegs(bytes: Uint8Array): Promise<AttachmentImage[]> {
+  const content = binaryString(bytes);
+  const streamStart = /\bobj\b((?:(?!endobj|stream)[\s\S]){0,4000})stream\r?\n/g;
+  const images: AttachmentImage[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = streamStart.exec(content))) {
+    const start = streamStart.lastIndex;
+    const end = content.indexOf('endstream', start);
+    if (end < 0) break;
+    streamStart.lastIndex = end + 'endstream'.length;
+    const dictionary = match[1];
+    if (!/\/Subtype\s*\/Image/.test(dictionary) || !/\/DCTDecode/.test(dictionary)) continue;
+    const data = bytes.subarray(start, end);
+    if (data.length < MIN_IMAGE_BYTES || data[0] !== 0xff || data[1] !== 0xd8) continue;
+    images.push({ name: `imagem-${images.length + 1}.jpg`, dataUrl: await toDataUrl(data, 'image/jpeg') });
+  }
+  return images;
+}
+
+type PdfJs = typeof import('pdfjs-dist');
+
+let pdfjsPromise: Promise<PdfJs> | null = null;
+
+// O pdf.js e o worker saem no build como chunks separados, baixados só no primeiro PDF
+const loadPdfjs = (): Promise<PdfJs> => {
+  if (!pdfjsPromise) {
+    pdfjsPromise = Promise.all([
+      import('pdfjs-dist'),
+      import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+    ]).then(([pdfjs, worker]) => {
+      pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+      return pdfjs;
+    }).catch(error => {
+      pdfjsPromise = null;
+      console.error('Erro ao carregar o leitor de PDF:', error);
+      throw new Error('Não foi possível carregar o leitor de PDF. Verifique a conexão e tente novamente.');
+    });
+  }
+  return pdfjsPromise;
+};
+
+async function extractPdf(bytes: Uint8Array): Promise<ExtractedDocument> {
+  const images = await extractPdfJpegs(bytes);
+  const pdfjs = await loadPdfjs();
+  // O pdf.js transfere o buffer para o worker, por isso recebe uma cópia
+  const pdf = await pdfjs.getDocument({ data: bytes.slice() }).promise;
+  const pages: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    pages.push(content.items.map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '').join(''));
+  }
+  await pdf.destroy();
+  return { text: pages.join('\n\n'), images };
+}
+
+// Normaliza quebras de linha, tira espaços sobrando e limita linhas vazias em sequência
+export const tidyText = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+export async function extractDocument(kind: DocumentKind, bytes: Uint8Array): Promise<ExtractedDocument> {
+  const extractors: Record<DocumentKind, (data: Uint8Array) => Promise<ExtractedDocument>> = {
+    pdf: extractPdf,
+    docx: extractDocx,
+    odt: extractOdt,
+  };
+  const extracted = await extractors[kind](bytes);
+  return { ...extracted, text: tidyText(extracted.text) };
+}
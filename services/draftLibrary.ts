@@ -0,0 +1,135 @@
+import { supabase } from './supabase';
+import { AnyDraft, GenerationType, GroundingSource, SavedDraft, SavedDraftStatus, WordPressPost } from '../types';
+
+export const DRAFT_STATUS_LABELS: Record<SavedDraftStatus, string> = {
+  novo: 'Novo',
+  enviado: 'Enviado ao editor',
+  publicado: 'Publicado',
+  descartado: 'Descartado',
+};
+
+export interface DraftLibraryFilters {
+  search: string;
+  status: SavedDraftStatus | 'todos';
+  generationType: GenerationType | 'todos';
+}
+
+const PAGE_SIZE = 50;
+
+// Vírgulas e parênteses quebram a sintaxe do filtro `or` do PostgREST
+const sanitizeSearch = (search: string): string => search.replace(/[,()%*\\]/g, ' ').trim();
+
+export const draftLibraryService = {
+  // Guarda cada geração; uma falha aqui não impede o uso do rascunho
+  async save(entry: {
+    userId: string;
+    teamId: string | null;
+    generationType: GenerationType;
+    inputText: string;
+    provider: string | null;
+    draft: AnyDraft;
+    sources: GroundingSource[];
+  }): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('generated_drafts')
+      .insert({
+        user_id: entry.userId,
+        team_id: entry.teamId,
+        generation_type: entry.generationType,
+        title: entry.draft.title || '(sem título)',
+        input_text: entry.inputText,
+        provider: entry.provider,
+        prompt_ref: 'prompt_ref' in entry.draft ? entry.draft.prompt_ref ?? null : null,
+        sources: entry.sources,
+        draft: entry.draft,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Erro ao salvar o rascunho na biblioteca:', error);
+      return null;
+    }
+    return data.id;
+  },
+
+  // Rascunhos do usuário e da equipe, dos mais recentes para os mais antigos
+  async list(filters: DraftLibraryFilters): Promise<SavedDraft[]> {
+    let query = supabase
+      .from('generated_drafts')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(PAGE_SIZE);
+
+    if (filters.status !== 'todos') query = query.eq('status', filters.status);
+    if (filters.generationType !== 'todos') query = query.eq('generation_type', filters.generationType);
+    const search = sanitizeSearch(filters.search);
+    if (search) query = query.or(`title.ilike.%${search}%,input_text.ilike.%${search}%`);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Erro ao carregar a biblioteca de rascunhos:', error);
+      throw new Error('Falha ao carregar a biblioteca de rascunhos.');
+    }
+    return (data || []) as SavedDraft[];
+  },
+
+  async setStatus(draftId: string, status: SavedDraftStatus): Promise<void> {
+    const { error } = await supabase
+      .from('generated_drafts')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('id', draftId);
+
+    if (error) {
+      console.error('Erro ao atualizar o status do rascunho:', error);
+      throw new Error('Falha ao atualizar o status do rascunho.');
+    }
+  },
+
+  // Envio ao editor: grava a versão enviada (título escolhido, links inseridos)
+  async markSent(draftId: string, draft: AnyDraft): Promise<void> {
+    const { error } = await supabase
+      .from('generated_drafts')
+      .update({ status: 'enviado', title: draft.title || '(sem título)', draft, updated_at: new Date().toISOString() })
+      .eq('id', draftId);
+
+    if (error) {
+      console.error('Erro ao marcar o rascunho como enviado:', error);
+    }
+  },
+
+  // Liga o rascunho ao item criado no WordPress; só conta como publicado se já saiu publicado
+  async attachPost(draftId: string, siteUrl: string, wpPostType: string, post: WordPressPost): Promise<void> {
+    const { error } = await supabase
+      .from('generated_drafts')
+      .update({
+        wp_site_url: siteUrl,
+        wp_post_type: wpPostType,
+        wp_post_id: post.id,
+        ...(post.status === 'publish' ? { status: 'publicado' } : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', draftId);
+
+    if (error) {
+      console.error('Erro ao vincular o rascunho ao post:', error);
+    }
+  },
+
+  // Post salvo como rascunho no WordPress e publicado depois, já pelo editor.
+  // O id do post só é único dentro do site, por isso o filtro inclui o site
+  async syncPublished(siteUrl: string, wpPostType: string, post: WordPressPost): Promise<void> {
+    if (post.status !== 'publish') return;
+    const { error } = await supabase
+      .from('generated_drafts')
+      .update({ status: 'publicado', updated_at: new Date().toISOString() })
+      .eq('wp_site_url', siteUrl)
+      .eq('wp_post_type', wpPostType)
+      .eq('wp_post_id', post.id)
+      .neq('status', 'publicado');
+
+    if (error) {
+      console.error('Erro ao atualizar o status do rascunho publicado:', error);
+    }
+  },
+};
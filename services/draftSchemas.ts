@@ -0,0 +1,294 @@
+import { SchemaNode, ValidationIssue } from "../types";
+import { SOCIAL_CHANNEL_LIMITS } from "./socialPack";
+
+// Schemas declarativos das respostas estruturadas da IA (espelham as interfaces de types.ts)
+
+const nullableString: SchemaNode = { type: 'string', nullable: true };
+const requiredText: SchemaNode = { type: 'string', minLength: 1 };
+const stringList: SchemaNode = { type: 'array', items: requiredText };
+
+export const extractedFactsSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    eventName: nullableString,
+    eventDate: nullableString,
+    eventLocation: nullableString,
+    organizers: { type: 'array', items: { type: 'string' }, nullable: true },
+    keyPeople: { type: 'array', items: { type: 'string' }, nullable: true },
+  },
+};
+
+export const articleDraftSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    title: requiredText,
+    summary: requiredText,
+    importance: { type: 'string', enum: ['Alta', 'Média', 'Baixa'] },
+    category: requiredText,
+    subcategory: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+    seo_description: requiredText,
+    article_body_html: requiredText,
+    focus_keyword: requiredText,
+    suggested_alt_text: requiredText,
+    event_details: {
+      type: 'object',
+      nullable: true,
+      optional: true,
+      properties: {
+        name: { type: 'string' },
+        date: { type: 'string' },
+        location: { type: 'string' },
+      },
+    },
+    suggested_image_searches: { type: 'array', items: { type: 'string' }, optional: true },
+  },
+};
+
+export const historiaDraftSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    title: requiredText,
+    summary: requiredText,
+    category: requiredText,
+    tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+    seo_description: requiredText,
+    article_body_html: requiredText,
+    focus_keyword: requiredText,
+    suggested_alt_text: requiredText,
+  },
+};
+
+export const organizadorDraftSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    title: requiredText,
+    description_html: requiredText,
+    address: nullableString,
+    phone: nullableString,
+    website: nullableString,
+    instagram: nullableString,
+  },
+};
+
+export const artistaDraftSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    title: requiredText,
+    biography_html: requiredText,
+    tipo_de_artista: { type: 'string', enum: ['Solo', 'Banda', 'Coletivo', 'Dupla'] },
+    artista_ano_formacao: { type: 'string', nullable: true, pattern: /^\d{4}$/ },
+    artista_origem: nullableString,
+    website: nullableString,
+    email: nullableString,
+    telefone: stringList,
+    redes_sociais: stringList,
+    videos_artistas: stringList,
+  },
+};
+
+// Coordenadas em graus decimais, como os campos de latitude/longitude do editor de lugares
+const coordinate: SchemaNode = { type: 'string', nullable: true, pattern: /^-?\d{1,3}\.\d+$/ };
+
+export const lugarDraftSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    title: requiredText,
+    description_html: requiredText,
+    endereco: nullableString,
+    bairro: nullableString,
+    cidade: nullableString,
+    estado: nullableString,
+    cep: nullableString,
+    latitude: coordinate,
+    longitude: coordinate,
+    telefone: stringList,
+    email: nullableString,
+    website: nullableString,
+    redes_sociais: stringList,
+    horario_de_funcionamento: nullableString,
+  },
+};
+
+export const placeDetailsDraftSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    address: nullableString,
+    neighborhood: nullableString,
+    city: nullableString,
+    state: nullableString,
+    zipcode: nullableString,
+    phone: nullableString,
+    website: nullableString,
+    description: nullableString,
+  },
+};
+
+export const googleEventsSchema: SchemaNode = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      name: requiredText,
+      start_date: { type: 'string', pattern: /^\d{4}-\d{2}-\d{2}( \d{2}:\d{2}(:\d{2})?)?$/ },
+      location: { type: 'string' },
+      venue: { type: 'string' },
+      summary: { type: 'string' },
+      source_url: { type: 'string' },
+      category: { type: 'string' },
+    },
+  },
+};
+
+export const roundupCopySchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    title: requiredText,
+    summary: requiredText,
+    seo_description: requiredText,
+    focus_keyword: requiredText,
+    suggested_alt_text: requiredText,
+    category: requiredText,
+    tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+    intro_html: requiredText,
+    blurbs: {
+      type: 'array',
+      items: { type: 'object', properties: { event_id: requiredText, text: requiredText } },
+    },
+  },
+};
+
+export const headlineVariantSetSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    variants: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: requiredText,
+          seo_description: requiredText,
+          style: { type: 'string', enum: ['direto', 'servico', 'lista', 'pergunta', 'curiosidade', 'urgencia'] },
+        },
+      },
+      minItems: 3,
+      maxItems: 5,
+    },
+  },
+};
+
+export const articleUpdateSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    title: requiredText,
+    article_body_html: requiredText,
+    change_notes: { type: 'array', items: requiredText, minItems: 1 },
+  },
+};
+
+// Campos vazios no original (ex.: resumo de um post antigo) podem voltar vazios
+export const translatedContentSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    title: requiredText,
+    summary: { type: 'string' },
+    article_body_html: requiredText,
+    seo_description: { type: 'string' },
+    focus_keyword: { type: 'string' },
+    suggested_alt_text: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+// Os limites de tamanho entram no schema para que respostas longas demais passem pelo reparo
+export const socialContentPackSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    instagram_caption: { type: 'string', minLength: 1, maxLength: SOCIAL_CHANNEL_LIMITS.instagramCaption },
+    instagram_hashtags: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1, maxItems: SOCIAL_CHANNEL_LIMITS.instagramHashtags },
+    thread_posts: {
+      type: 'array',
+      items: { type: 'string', minLength: 1, maxLength: SOCIAL_CHANNEL_LIMITS.threadPost },
+      minItems: 2,
+      maxItems: SOCIAL_CHANNEL_LIMITS.threadPosts,
+    },
+    whatsapp_message: { type: 'string', minLength: 1, maxLength: SOCIAL_CHANNEL_LIMITS.whatsapp },
+    newsletter_blurb: { type: 'string', minLength: 1, maxLength: SOCIAL_CHANNEL_LIMITS.newsletter },
+  },
+};
+
+const describeType = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+// Valida um valor contra o schema e devolve a lista de problemas encontrados (vazia = válido)
+export function validateAgainstSchema(value: unknown, schema: SchemaNode, path: string = ''): ValidationIssue[] {
+  const label = path || '(raiz)';
+
+  if (value === undefined) {
+    return schema.optional ? [] : [{ path: label, message: 'campo obrigatório ausente' }];
+  }
+  if (value === null) {
+    return schema.nullable ? [] : [{ path: label, message: 'não pode ser null' }];
+  }
+
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        return [{ path: label, message: `esperado string, recebido ${describeType(value)}` }];
+      }
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        return [{ path: label, message: 'não pode ser vazio' }];
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return [{ path: label, message: `tem ${value.length} caracteres, o máximo é ${schema.maxLength}` }];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [{ path: label, message: `valor "${value}" inválido, use um de: ${schema.enum.join(', ')}` }];
+      }
+      if (schema.pattern && !schema.pattern.test(value)) {
+        return [{ path: label, message: `valor "${value}" fora do formato esperado` }];
+      }
+      return [];
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [{ path: label, message: `esperado array, recebido ${describeType(value)}` }];
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return [{ path: label, message: `deve ter pelo menos ${schema.minItems} item(ns)` }];
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        return [{ path: label, message: `tem ${value.length} itens, o máximo é ${schema.maxItems}` }];
+      }
+      return value.flatMap((item, index) => validateAgainstSchema(item, schema.items, `${path}[${index}]`));
+    }
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return [{ path: label, message: `esperado objeto, recebido ${describeType(value)}` }];
+      }
+      const record = value as Record<string, unknown>;
+      return Object.entries(schema.properties).flatMap(([key, child]) =>
+        validateAgainstSchema(record[key], child, path ? `${path}.${key}` : key)
+      );
+    }
+  }
+}
+
+export const formatValidationIssues = (issues: ValidationIssue[], limit: number = 8): string => {
+  const shown = issues.slice(0, limit).map(issue => `${issue.path}: ${issue.message}`).join('; ');
+  return issues.length > limit ? `${shown}; e mais ${issues.length - limit} problema(s)` : shown;
+};
+
+// Erro lançado quando a IA não produz uma resposta válida nem após as tentativas de reparo
+export class DraftValidationError extends Error {
+  constructor(
+    public issues: ValidationIssue[],
+    public usedProvider?: string
+  ) {
+    super(`A resposta da IA${usedProvider ? ` (${usedProvider})` : ''} não segue o formato esperado: ${formatValidationIssues(issues)}`);
+    this.name = 'DraftValidationError';
+  }
+}
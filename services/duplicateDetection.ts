@@ -0,0 +1,146 @@
+import { ArticleDraft, ExtractedFacts, SimilarPostMatch, SimilarityCriterion, WordPressPost } from "../types";
+import { normalize, parseDates, sameDate, stripHtml, tokenCoverage } from "./factChecker";
+
+// Detecção de pauta repetida: compara o rascunho com as matérias recentes do site (publicadas, agendadas
+// e rascunhos de outros repórteres) por título, palavra-chave, fatos extraídos e trechos de texto.
+// Roda no navegador, sem IA, logo depois da geração.
+
+export const CRITERION_LABELS: Record<SimilarityCriterion, string> = {
+  titulo: 'Título',
+  palavra_chave: 'Palavra-chave',
+  fatos: 'Fatos',
+  texto: 'Texto',
+};
+
+const CRITERION_WEIGHTS: Record<SimilarityCriterion, number> = {
+  titulo: 0.25,
+  palavra_chave: 0.15,
+  fatos: 0.3,
+  texto: 0.3,
+};
+
+// Abaixo disso o post não é exibido; acima do alerta o envio ao editor pede confirmação
+const MIN_DISPLAY_SCORE = 0.25;
+export const SIMILARITY_ALERT_THRESHOLD = 0.5;
+const MAX_MATCHES = 5;
+
+// Sequências de três palavras; sobrevivem à reescrita de um mesmo comunicado melhor que frases inteiras
+const SHINGLE_SIZE = 3;
+// Evita que uma nota de dois parágrafos pareça idêntica a qualquer matéria que a contenha
+const MIN_SHINGLE_BASE = 20;
+
+const STOPWORDS = new Set([
+  'a', 'o', 'as', 'os', 'um', 'uma', 'uns', 'umas', 'de', 'da', 'do', 'das', 'dos', 'em', 'na', 'no', 'nas', 'nos',
+  'por', 'para', 'pela', 'pelo', 'pelas', 'pelos', 'com', 'sem', 'sob', 'e', 'ou', 'que', 'se', 'ao', 'aos',
+  'sua', 'seu', 'suas', 'seus', 'mais', 'como', 'mas', 'entre', 'sobre', 'ate', 'apos', 'tambem', 'ja', 'nao',
+  'ser', 'sera', 'sao', 'foi', 'tem', 'esta', 'este', 'essa', 'esse', 'isso', 'onde', 'quando',
+]);
+
+const decodeTitle = (rendered: string): string =>
+  (new DOMParser().parseFromString(rendered, 'text/html').body.textContent || '').trim();
+
+const contentTokens = (text: string): string[] =>
+  normalize(text).split(/[^a-z0-9]+/).filter(token => token.length > 1 && !STOPWORDS.has(token));
+
+const shingles = (tokens: string[]): Set<string> => {
+  const result = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    result.add(tokens.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+};
+
+const intersectionSize = (a: Set<string>, b: Set<string>): number => {
+  let count = 0;
+  a.forEach(item => { if (b.has(item)) count++; });
+  return count;
+};
+
+// Coeficiente de Dice sobre as palavras significativas dos títulos
+const titleSimilarity = (a: string, b: string): number => {
+  const tokensA = new Set(contentTokens(a).filter(token => token.length > 2));
+  const tokensB = new Set(contentTokens(b).filter(token => token.length > 2));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+  return (2 * intersectionSize(tokensA, tokensB)) / (tokensA.size + tokensB.size);
+};
+
+// Contenção em vez de Jaccard: uma nota curta dentro de uma matéria longa continua sendo a mesma pauta
+const textSimilarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  return Math.min(1, intersectionSize(a, b) / Math.max(Math.min(a.size, b.size), MIN_SHINGLE_BASE));
+};
+
+// A palavra-chave no título pesa mais do que só no corpo
+const keywordSimilarity = (keyword: string, title: string, body: string): number =>
+  Math.max(tokenCoverage(keyword, title), tokenCoverage(keyword, body) * 0.6);
+
+type DraftFact = { label: string; value: string; kind: 'data' | 'nome' };
+
+// Fatos verificados do rascunho; sem eles, os dados do evento sugerido
+const draftFacts = (draft: ArticleDraft): DraftFact[] => {
+  const facts: Partial<ExtractedFacts> = draft.verified_facts ?? {
+    eventName: draft.event_details?.name ?? null,
+    eventDate: draft.event_details?.date ?? null,
+    eventLocation: draft.event_details?.location ?? null,
+  };
+  const list: DraftFact[] = [];
+  if (facts.eventName) list.push({ label: 'evento', value: facts.eventName, kind: 'nome' });
+  if (facts.eventDate && parseDates(facts.eventDate).length > 0) list.push({ label: 'data', value: facts.eventDate, kind: 'data' });
+  if (facts.eventLocation) list.push({ label: 'local', value: facts.eventLocation, kind: 'nome' });
+  for (const name of [...(facts.organizers ?? []), ...(facts.keyPeople ?? [])]) {
+    if (name.trim()) list.push({ label: 'nome', value: name, kind: 'nome' });
+  }
+  return list;
+};
+
+const factAppears = (fact: DraftFact, text: string): boolean => {
+  if (fact.kind === 'data') {
+    const candidateDates = parseDates(text);
+    return parseDates(fact.value).some(date => candidateDates.some(other => sameDate(date, other)));
+  }
+  return tokenCoverage(fact.value, text) >= 0.8;
+};
+
+// Posts mais parecidos com o rascunho, do mais para o menos parecido
+export function findSimilarPosts(draft: ArticleDraft, posts: WordPressPost[]): SimilarPostMatch[] {
+  const draftText = [draft.summary, stripHtml(draft.article_body_html)].join('\n');
+  const draftShingles = shingles(contentTokens(draftText));
+  const facts = draftFacts(draft);
+  const keyword = draft.focus_keyword?.trim() ?? '';
+
+  const matches: SimilarPostMatch[] = [];
+  for (const post of posts) {
+    const title = decodeTitle(post.title.rendered);
+    const body = stripHtml(post.content?.rendered ?? '');
+    const postText = `${title}\n${body}`;
+
+    const criteria: Partial<Record<SimilarityCriterion, number>> = {
+      titulo: titleSimilarity(draft.title, title),
+      texto: textSimilarity(draftShingles, shingles(contentTokens(body))),
+    };
+    if (keyword) criteria.palavra_chave = keywordSimilarity(keyword, title, body);
+
+    const matchedFacts = facts.filter(fact => factAppears(fact, postText));
+    if (facts.length > 0) criteria.fatos = matchedFacts.length / facts.length;
+
+    const evaluated = Object.keys(criteria) as SimilarityCriterion[];
+    const totalWeight = evaluated.reduce((sum, criterion) => sum + CRITERION_WEIGHTS[criterion], 0);
+    const weighted = evaluated.reduce((sum, criterion) => sum + criteria[criterion]! * CRITERION_WEIGHTS[criterion], 0) / totalWeight;
+    // Texto praticamente igual é repetição mesmo com título e fatos diferentes
+    const score = Math.max(weighted, criteria.texto ?? 0);
+
+    if (score < MIN_DISPLAY_SCORE) continue;
+    matches.push({
+      postId: post.id,
+      title,
+      link: post.link,
+      status: post.status,
+      date: post.date,
+      score,
+      criteria,
+      matchedFacts: matchedFacts.map(fact => `${fact.label}: ${fact.value}`),
+    });
+  }
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, MAX_MATCHES);
+}
@@ -0,0 +1,156 @@
+import { CalendarEntry, CalendarEntryKind, WordPressPost } from '../types';
+
+// Calendário editorial: monta os dias da visão (mês ou semana), transforma os itens do
+// WordPress em entradas por dia, aponta os buracos de cobertura e calcula a nova data e
+// o status quando um item é arrastado para outro dia. Datas ficam no horário do site, sem fuso.
+
+export type CalendarView = 'mes' | 'semana';
+
+export interface CoverageRule {
+  postType: string;
+  kind: CalendarEntryKind;
+  weekdays: number[]; // 0 = domingo
+  message: string;
+}
+
+// Dias que precisam de pelo menos um item publicado ou agendado
+export const COVERAGE_RULES: CoverageRule[] = [
+  { postType: 'posts', kind: 'publicacao', weekdays: [1, 2, 3, 4, 5], message: 'Nenhuma notícia programada' },
+  { postType: 'agenda', kind: 'evento', weekdays: [5, 6, 0], message: 'Nenhum evento na agenda' },
+];
+
+// Eventos costumam ser publicados semanas antes; a busca da Agenda volta este tanto além do período
+export const AGENDA_LOOKBACK_DAYS = 120;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const toDayKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const fromDayKey = (day: string): Date => {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
+
+export const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Semanas começam no domingo; a visão de mês sempre mostra semanas completas
+export function calendarDays(view: CalendarView, anchor: Date): Date[] {
+  const first = view === 'mes' ? new Date(anchor.getFullYear(), anchor.getMonth(), 1) : anchor;
+  const start = addDays(first, -first.getDay());
+  if (view === 'semana') return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+
+  const lastOfMonth = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+  const end = addDays(lastOfMonth, 6 - lastOfMonth.getDay());
+  const days: Date[] = [];
+  for (let day = start; day <= end; day = addDays(day, 1)) days.push(day);
+  return days;
+}
+
+export const shiftAnchor = (view: CalendarView, anchor: Date, direction: 1 | -1): Date =>
+  view === 'mes'
+    ? new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1)
+    : addDays(anchor, 7 * direction);
+
+// Limites no formato aceito por `after`/`before` da API REST
+export const rangeBounds = (days: Date[]): { after: string; before: string } => ({
+  after: `${toDayKey(addDays(days[0], -1))}T23:59:59`,
+  before: `${toDayKey(addDays(days[days.length - 1], 1))}T00:00:00`,
+});
+
+// data_do_evento aparece como 2025-09-13, 20250913 (ACF) ou 13/09/2025
+export function parseEventDay(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  let match = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  match = trimmed.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  match = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (match) return `${match[3]}-${pad(Number(match[2]))}-${pad(Number(match[1]))}`;
+  return null;
+}
+
+const parseEventTime = (value: unknown): string | null => {
+  const match = typeof value === 'string' ? value.match(/(\d{1,2})[:h](\d{2})?/) : null;
+  return match ? `${pad(Number(match[1]))}:${match[2] ?? '00'}` : null;
+};
+
+const decodeTitle = (rendered: string): string =>
+  (new DOMParser().parseFromString(rendered, 'text/html').body.textContent || '').trim() || 'Sem título';
+
+const publicationEntry = (postType: string, post: WordPressPost): CalendarEntry => ({
+  key: `${postType}:${post.id}:publicacao`,
+  postType,
+  itemId: post.id,
+  kind: 'publicacao',
+  day: post.date.slice(0, 10),
+  time: post.date.slice(11, 16) || null,
+  date: post.date,
+  title: decodeTitle(post.title.rendered),
+  status: post.status,
+  author: post.author ?? null,
+  link: post.link,
+});
+
+// Publicações de todos os tipos dentro do período e eventos da Agenda pela data do evento
+export function buildEntries(itemsByType: Record<string, WordPressPost[]>, days: Date[]): CalendarEntry[] {
+  const first = toDayKey(days[0]);
+  const last = toDayKey(days[days.length - 1]);
+  const inRange = (day: string) => day >= first && day <= last;
+  const entries: CalendarEntry[] = [];
+
+  for (const [postType, posts] of Object.entries(itemsByType)) {
+    for (const post of posts) {
+      const publication = publicationEntry(postType, post);
+      if (inRange(publication.day)) entries.push(publication);
+
+      if (postType !== 'agenda') continue;
+      const eventDay = parseEventDay(post.meta?.data_do_evento);
+      if (!eventDay || !inRange(eventDay)) continue;
+      entries.push({
+        ...publication,
+        key: `${postType}:${post.id}:evento`,
+        kind: 'evento',
+        day: eventDay,
+        time: parseEventTime(post.meta?.horario_do_evento),
+      });
+    }
+  }
+
+  return entries.sort((a, b) => (a.day + (a.time ?? '')).localeCompare(b.day + (b.time ?? '')));
+}
+
+// Buracos de cobertura de hoje em diante; rascunhos não contam, porque podem não sair
+export function findGaps(entries: CalendarEntry[], days: Date[], today: Date = new Date()): Record<string, string[]> {
+  const todayKey = toDayKey(today);
+  const gaps: Record<string, string[]> = {};
+  for (const day of days) {
+    const dayKey = toDayKey(day);
+    if (dayKey < todayKey) continue;
+    for (const rule of COVERAGE_RULES) {
+      if (!rule.weekdays.includes(day.getDay())) continue;
+      const covered = entries.some(entry =>
+        entry.day === dayKey && entry.postType === rule.postType && entry.kind === rule.kind &&
+        (entry.status === 'publish' || entry.status === 'future')
+      );
+      if (!covered) (gaps[dayKey] ??= []).push(rule.message);
+    }
+  }
+  return gaps;
+}
+
+// Mantém o horário original. Para o futuro, o item passa a agendado (inclusive um já publicado:
+// o WordPress troca 'publish' com data futura por 'future', e o post sai do ar até a data); um
+// agendado levado para o passado é publicado. Rascunhos deixados no passado e itens privados só mudam de data.
+export function rescheduleTarget(entry: CalendarEntry, targetDay: string, now: Date = new Date()): { date: string; status: WordPressPost['status'] } {
+  const time = entry.date.slice(11, 19) || '09:00:00';
+  const date = `${targetDay}T${time}`;
+  if (entry.status === 'private') return { date, status: 'private' };
+  const [hours, minutes, seconds] = time.split(':').map(Number);
+  const target = fromDayKey(targetDay);
+  target.setHours(hours, minutes, seconds || 0);
+  if (target > now) return { date, status: 'future' };
+  return { date, status: entry.status === 'future' ? 'publish' : entry.status };
+}
@@ -0,0 +1,185 @@
+import { EntityCandidate, EntityLinkSuggestion, EntityRelations, EntityType, ExtractedFacts, WordPressCredentials } from "../types";
+import { getAllCPTItemsWithMeta } from "./wordpressService";
+import { normalize, stripHtml } from "./factChecker";
+
+export const ENTITY_TYPE_LABELS: Record<EntityType, string> = {
+  artista: 'Artista',
+  lugar: 'Lugar',
+  organizador: 'Organizador',
+};
+
+const ENTITY_TYPES: EntityType[] = ['artista', 'lugar', 'organizador'];
+
+// Abaixo disso a menção é tratada como entidade nova ("Classic Hall" x "Classic Hall Recife" passa)
+const MATCH_THRESHOLD = 0.8;
+
+// Nomes curtos demais ("Bar", "Rua") dariam falsos positivos na busca pelo texto
+const MIN_NAME_LENGTH = 4;
+
+// Páginas de 100 itens buscadas por tipo de entidade
+const CATALOG_MAX_PAGES = 10;
+
+const decodeTitle = (rendered: string): string =>
+  (new DOMParser().parseFromString(rendered, 'text/html').body.textContent || '').trim();
+
+// Catálogo de entidades do site; uma falha em um dos tipos não impede a ligação dos demais
+export async function fetchEntityCatalog(credentials: WordPressCredentials): Promise<{ entities: EntityCandidate[]; warnings: string[] }> {
+  const results = await Promise.allSettled(ENTITY_TYPES.map(type => getAllCPTItemsWithMeta(credentials, type, CATALOG_MAX_PAGES)));
+  const entities: EntityCandidate[] = [];
+  const warnings: string[] = [];
+  results.forEach((result, index) => {
+    const type = ENTITY_TYPES[index];
+    if (result.status === 'rejected') {
+      console.error(`Erro ao carregar o cadastro de ${type}:`, result.reason);
+      warnings.push(`Não foi possível carregar o cadastro de ${ENTITY_TYPE_LABELS[type].toLowerCase()}s.`);
+      return;
+    }
+    for (const post of result.value) {
+      const title = decodeTitle(post.title.rendered);
+      if (title) entities.push({ id: post.id, type, title, link: post.link });
+    }
+  });
+  return { entities, warnings };
+}
+
+const nameKey = (text: string): string => normalize(text).replace(/[^a-z0-9]+/g, ' ').trim();
+
+const bigrams = (text: string): string[] => {
+  const compact = text.replace(/ /g, '');
+  return Array.from({ length: Math.max(compact.length - 1, 0) }, (_, i) => compact.slice(i, i + 2));
+};
+
+// Coeficiente de Dice sobre bigramas. Um nome contido no outro como palavras inteiras conta como
+// forte só quando o menor tem duas palavras ou mais: um primeiro nome ("Maria") não basta.
+export function nameSimilarity(a: string, b: string): number {
+  const keyA = nameKey(a);
+  const keyB = nameKey(b);
+  if (!keyA || !keyB) return 0;
+  if (keyA === keyB) return 1;
+  const shorter = keyA.length <= keyB.length ? keyA : keyB;
+  const longer = shorter === keyA ? keyB : keyA;
+  if (
+    shorter.split(' ').length >= 2 &&
+    shorter.length >= MIN_NAME_LENGTH &&
+    ` ${longer} `.includes(` ${shorter} `)
+  ) return 0.9;
+
+  const pairsA = bigrams(keyA);
+  const pairsB = bigrams(keyB);
+  if (pairsA.length === 0 || pairsB.length === 0) return 0;
+  const remaining = [...pairsB];
+  let shared = 0;
+  for (const pair of pairsA) {
+    const index = remaining.indexOf(pair);
+    if (index >= 0) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (pairsA.length + pairsB.length);
+}
+
+const bestMatch = (mention: string, candidates: EntityCandidate[]): { match: EntityCandidate | null; score: number } => {
+  let best: { match: EntityCandidate | null; score: number } = { match: null, score: 0 };
+  for (const candidate of candidates) {
+    const score = nameSimilarity(mention, candidate.title);
+    if (score > best.score) best = { match: candidate, score };
+  }
+  return best.score >= MATCH_THRESHOLD ? best : { match: null, score: best.score };
+};
+
+// Menções vindas da extração de fatos: pessoas viram artistas, organizadores e o local do evento
+export function mentionsFromFacts(facts: ExtractedFacts | null | undefined): { type: EntityType; mention: string }[] {
+  if (!facts) return [];
+  return [
+    ...(facts.keyPeople ?? []).map(mention => ({ type: 'artista' as const, mention })),
+    ...(facts.organizers ?? []).map(mention => ({ type: 'organizador' as const, mention })),
+    // "Classic Hall, Olinda" -> "Classic Hall"
+    ...(facts.eventLocation ? [{ type: 'lugar' as const, mention: facts.eventLocation.split(',')[0] }] : []),
+  ].map(item => ({ ...item, mention: item.mention.trim() })).filter(item => item.mention.length > 0);
+}
+
+// Troca acentos e caixa caractere a caractere, preservando as posições do texto original
+const foldChar = (char: string): string => char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().charAt(0) || char;
+const fold = (text: string): string => text.split('').map(foldChar).join('');
+const isWordChar = (char: string | undefined): boolean => !!char && /[a-z0-9]/.test(char);
+
+// Posição da primeira ocorrência de `needle` como palavra inteira, ignorando acentos e caixa
+function findWholeWord(text: string, needle: string): number {
+  const haystack = fold(text);
+  const target = fold(needle.trim());
+  if (!target) return -1;
+  let index = haystack.indexOf(target);
+  while (index >= 0) {
+    if (!isWordChar(haystack[index - 1]) && !isWordChar(haystack[index + target.length])) return index;
+    index = haystack.indexOf(target, index + 1);
+  }
+  return -1;
+}
+
+// Propostas de ligação: menções dos fatos (cadastradas ou não) e nomes do cadastro citados no texto
+export function buildEntityLinks(
+  draft: { article_body_html: string; verified_facts?: ExtractedFacts | null },
+  catalog: EntityCandidate[]
+): EntityLinkSuggestion[] {
+  const text = stripHtml(draft.article_body_html);
+  const suggestions: EntityLinkSuggestion[] = [];
+  const linkedIds = new Set<string>();
+  const seenMentions = new Set<string>();
+
+  const add = (suggestion: Omit<EntityLinkSuggestion, 'id'>) => {
+    const id = `${suggestion.type}:${nameKey(suggestion.mention)}`;
+    const matchKey = suggestion.match ? `${suggestion.match.type}:${suggestion.match.id}` : null;
+    if (seenMentions.has(id) || (matchKey && linkedIds.has(matchKey))) return;
+    seenMentions.add(id);
+    if (matchKey) linkedIds.add(matchKey);
+    suggestions.push({ id, ...suggestion });
+  };
+
+  for (const { type, mention } of mentionsFromFacts(draft.verified_facts)) {
+    const { match, score } = bestMatch(mention, catalog.filter(candidate => candidate.type === type));
+    add({ type, mention, origin: 'fatos', match, score });
+  }
+
+  for (const candidate of catalog) {
+    if (candidate.title.length < MIN_NAME_LENGTH) continue;
+    const position = findWholeWord(text, candidate.title);
+    if (position < 0) continue;
+    add({ type: candidate.type, mention: text.slice(position, position + candidate.title.length), origin: 'texto', match: candidate, score: 1 });
+  }
+
+  return suggestions;
+}
+
+// Insere os links internos na primeira ocorrência de cada menção, fora de links e títulos já existentes
+export function applyEntityLinks(html: string, links: { mention: string; url: string }[]): string {
+  const root = new DOMParser().parseFromString(`<div>${html}</div>`, 'text/html').body.firstElementChild!;
+  const doc = root.ownerDocument;
+
+  for (const { mention, url } of links) {
+    const walker = doc.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    let node = walker.nextNode() as Text | null;
+    while (node) {
+      const blocked = node.parentElement?.closest('a, h1, h2, h3, h4, h5, h6');
+      const position = blocked ? -1 : findWholeWord(node.data, mention);
+      if (position >= 0) {
+        const target = node.splitText(position);
+        target.splitText(mention.trim().length);
+        const anchor = doc.createElement('a');
+        anchor.setAttribute('href', url);
+        target.replaceWith(anchor);
+        anchor.appendChild(target);
+        break;
+      }
+      node = walker.nextNode() as Text | null;
+    }
+  }
+
+  return root.innerHTML;
+}
+
+// Local e artistas confirmados viram as metas de relacionamento do item de agenda
+export const relationsFromLinks = (links: EntityLinkSuggestion[]): EntityRelations => ({
+  lugarId: links.find(link => link.type === 'lugar' && link.match)?.match?.id ?? null,
+  artistaIds: links.flatMap(link => link.type === 'artista' && link.match ? [link.match.id] : []),
+});
@@ -0,0 +1,210 @@
+import { ArticleDraft, ExtractedFacts, FactFlag, FactFlagField, FactFlagKind } from "../types";
+
+// Verificação determinística do rascunho: compara datas, horários, evento, local e nomes próprios
+// com os fatos verificados e o texto-fonte. Não chama a IA, então roda instantaneamente após a geração.
+
+export interface DateMention {
+  day: number;
+  month: number;
+  year: number | null;
+  text: string;
+}
+
+const MONTHS = ['janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho', 'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'];
+const MONTH_PATTERN = 'janeiro|fevereiro|março|marco|abril|maio|junho|julho|agosto|setembro|outubro|novembro|dezembro';
+
+// Palavras de ligação aceitas dentro de nomes próprios ("Teatro de Santa Isabel")
+const NAME_CONNECTORS = '(?:de|da|do|dos|das|e)';
+const NAME_PATTERN = new RegExp(
+  `[A-ZÀ-Ý][a-zà-ÿ]+(?:[ \\t]+(?:${NAME_CONNECTORS}[ \\t]+)?[A-ZÀ-Ý][a-zà-ÿ]+)+`,
+  'g'
+);
+
+export const normalize = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+export const stripHtml = (html: string): string =>
+  html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const significantTokens = (text: string): string[] =>
+  normalize(text).split(/[^a-z0-9]+/).filter(token => token.length > 2);
+
+// Parte dos termos significativos de `needle` que aparecem em `haystack`
+export const tokenCoverage = (needle: string, haystack: string): number => {
+  const tokens = significantTokens(needle);
+  if (tokens.length === 0) return 1;
+  const normalizedHaystack = normalize(haystack);
+  return tokens.filter(token => normalizedHaystack.includes(token)).length / tokens.length;
+};
+
+const isSimilar = (a: string, b: string): boolean =>
+  tokenCoverage(a, b) >= 0.6 || tokenCoverage(b, a) >= 0.6;
+
+export function parseDates(text: string): DateMention[] {
+  const dates: DateMention[] = [];
+  const fullYear = (year?: string) => !year ? null : year.length === 2 ? 2000 + Number(year) : Number(year);
+
+  for (const match of text.matchAll(new RegExp(`\\b(\\d{1,2})º?\\s+de\\s+(${MONTH_PATTERN})(?:\\s+de\\s+(\\d{4}))?`, 'gi'))) {
+    const monthName = normalize(match[2]);
+    const month = MONTHS.findIndex(m => normalize(m) === monthName) + 1;
+    dates.push({ day: Number(match[1]), month, year: fullYear(match[3]), text: match[0] });
+  }
+  for (const match of text.matchAll(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{4}|\d{2}))?\b/g)) {
+    dates.push({ day: Number(match[1]), month: Number(match[2]), year: fullYear(match[3]), text: match[0] });
+  }
+  for (const match of text.matchAll(/\b(\d{4})-(\d{2})-(\d{2})(?!\d)/g)) {
+    dates.push({ day: Number(match[3]), month: Number(match[2]), year: Number(match[1]), text: match[0] });
+  }
+  return dates.filter(d => d.day >= 1 && d.day <= 31 && d.month >= 1 && d.month <= 12);
+}
+
+export const sameDate = (a: DateMention, b: DateMention): boolean =>
+  a.day === b.day && a.month === b.month && (a.year === null || b.year === null || a.year === b.year);
+
+export function parseTimes(text: string): { value: string; text: string }[] {
+  const times: { value: string; text: string }[] = [];
+  const pad = (n: string | undefined) => (n ?? '00').padStart(2, '0');
+  for (const match of text.matchAll(/\b(\d{1,2})h(\d{2})?\b/gi)) {
+    times.push({ value: `${pad(match[1])}:${pad(match[2])}`, text: match[0] });
+  }
+  for (const match of text.matchAll(/\b(\d{1,2}):(\d{2})\b/g)) {
+    times.push({ value: `${pad(match[1])}:${match[2]}`, text: match[0] });
+  }
+  return times.filter(t => Number(t.value.slice(0, 2)) < 24);
+}
+
+const makeFlag = (
+  kind: FactFlagKind,
+  field: FactFlagField,
+  claim: string | null,
+  expected: string | null,
+  message: string
+): FactFlag => ({
+  id: `${field}:${kind}:${normalize(claim ?? expected ?? '')}`,
+  kind,
+  field,
+  claim,
+  expected,
+  message
+});
+
+export function checkFactConsistency(draft: ArticleDraft, sourceText: string, facts: ExtractedFacts | null): FactFlag[] {
+  const draftText = [draft.title, draft.summary, draft.seo_description, stripHtml(draft.article_body_html)].join('\n');
+  const factsText = facts ? Object.values(facts).flat().filter(Boolean).join('\n') : '';
+  const referenceText = `${sourceText}\n${factsText}`;
+  const normalizedReference = normalize(referenceText);
+  const flags: FactFlag[] = [];
+
+  // Nome do evento
+  if (facts?.eventName) {
+    if (draft.event_details?.name && !isSimilar(draft.event_details.name, facts.eventName)) {
+      flags.push(makeFlag('contradicao', 'nome_evento', draft.event_details.name, facts.eventName,
+        `O evento sugerido se chama "${draft.event_details.name}", mas o comunicado fala em "${facts.eventName}".`));
+    }
+    if (tokenCoverage(facts.eventName, draftText) < 0.6) {
+      flags.push(makeFlag('ausente', 'nome_evento', null, facts.eventName,
+        `O texto não menciona o evento "${facts.eventName}".`));
+    }
+  }
+
+  // Local
+  if (facts?.eventLocation) {
+    if (draft.event_details?.location && !isSimilar(draft.event_details.location, facts.eventLocation)) {
+      flags.push(makeFlag('contradicao', 'local', draft.event_details.location, facts.eventLocation,
+        `O local sugerido é "${draft.event_details.location}", mas o comunicado indica "${facts.eventLocation}".`));
+    }
+    if (tokenCoverage(facts.eventLocation, draftText) < 0.5) {
+      flags.push(makeFlag('ausente', 'local', null, facts.eventLocation,
+        `O texto não menciona o local "${facts.eventLocation}".`));
+    }
+  }
+
+  // Datas: precisam bater com a data verificada ou aparecer no texto-fonte
+  const factDates = facts?.eventDate ? parseDates(facts.eventDate) : [];
+  const sourceDates = parseDates(sourceText);
+  if (draft.event_details?.date && factDates.length > 0) {
+    const detailDates = parseDates(draft.event_details.date);
+    if (detailDates.length > 0 && !detailDates.some(d => factDates.some(f => sameDate(d, f)))) {
+      flags.push(makeFlag('contradicao', 'data', draft.event_details.date, facts!.eventDate,
+        `A data do evento sugerido (${draft.event_details.date}) difere da data verificada (${facts!.eventDate}).`));
+    }
+  }
+  for (const date of parseDates(draftText)) {
+    if (factDates.some(f => sameDate(date, f)) || sourceDates.some(s => sameDate(date, s))) continue;
+    flags.push(factDates.length > 0
+      ? makeFlag('contradicao', 'data', date.text, facts!.eventDate,
+          `A data "${date.text}" não confere com a data verificada (${facts!.eventDate}).`)
+      : makeFlag('sem_fonte', 'data', date.text, null,
+          `A data "${date.text}" não aparece no texto-fonte.`));
+  }
+
+  // Horários
+  const sourceTimes = new Set(parseTimes(referenceText).map(t => t.value));
+  for (const time of parseTimes(draftText)) {
+    if (!sourceTimes.has(time.value)) {
+      flags.push(makeFlag('sem_fonte', 'horario', time.text, null,
+        `O horário "${time.text}" não aparece no texto-fonte.`));
+    }
+  }
+
+  // Nomes próprios (pessoas, lugares, organizações) sem respaldo na fonte
+  for (const match of draftText.matchAll(NAME_PATTERN)) {
+    let name = match[0];
+    // No início da frase a primeira palavra pode estar em maiúscula só pela pontuação ("Nesta Sexta")
+    if (/(^|[.!?:\n])\s*$/.test(draftText.slice(0, match.index))) {
+      name = name.replace(/^\S+\s+(?:(?:de|da|do|dos|das|e)\s+)?/, '');
+      if (!/\s/.test(name)) continue;
+    }
+    if (normalizedReference.includes(normalize(name)) || tokenCoverage(name, referenceText) === 1) continue;
+    if (flags.some(flag => flag.claim === name)) continue; // Já apontado como contradição de local ou evento
+    flags.push(makeFlag('sem_fonte', 'pessoa', name, null,
+      `"${name}" não aparece no texto-fonte nem nos fatos verificados.`));
+  }
+
+  // Uma ocorrência por afirmação basta para o editor revisar
+  return flags.filter((flag, index) => flags.findIndex(other => other.id === flag.id) === index);
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Marca no HTML do corpo os trechos apontados pela verificação (só em nós de texto, nunca em atributos)
+export function highlightFactFlags(html: string, flags: FactFlag[]): string {
+  const claims = flags.filter(flag => flag.claim);
+  if (claims.length === 0) return html;
+
+  const doc = new DOMParser().parseFromString(`<div>${html}</div>`, 'text/html');
+  const root = doc.body.firstElementChild!;
+  const pattern = new RegExp(claims.map(flag => escapeRegExp(flag.claim!)).join('|'), 'g');
+  const walker = doc.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) textNodes.push(walker.currentNode as Text);
+
+  for (const node of textNodes) {
+    const text = node.textContent ?? '';
+    pattern.lastIndex = 0;
+    if (!pattern.test(text)) continue;
+
+    const fragment = doc.createDocumentFragment();
+    let lastIndex = 0;
+    for (const match of text.matchAll(pattern)) {
+      const flag = claims.find(f => f.claim === match[0])!;
+      fragment.append(text.slice(lastIndex, match.index));
+      const mark = doc.createElement('mark');
+      mark.textContent = match[0];
+      mark.title = flag.message;
+      mark.className = flag.kind === 'contradicao' ? 'bg-red-200 text-red-900' : 'bg-yellow-200 text-yellow-900';
+      fragment.append(mark);
+      lastIndex = match.index! + match[0].length;
+    }
+    fragment.append(text.slice(lastIndex));
+    node.replaceWith(fragment);
+  }
+  return root.innerHTML;
+}
@@ -1,54 +1,29 @@
 import { GoogleGenerativeAI, GenerateContentResponse } from "@google/generative-ai";
-import { AnyDraft, ArticleDraft, GroundingSource, ExtractedFacts, HistoriaDraft, OrganizadorDraft, PlaceDetailsDraft, GoogleEvent, ScrapedEvent, ScrapedEventDetails } from "../types";
-import { generateWithFallback } from "./aiProviderService";
+import { AiCallType, AnyDraft, ArticleDraft, ArticleUpdateDraft, ArtistaDraft, GroundingSource, ExtractedFacts, HistoriaDraft, LugarDraft, OrganizadorDraft, PlaceDetailsDraft, GoogleEvent, HeadlineVariantSet, PromptRef, RoundupCopy, RoundupEvent, RoundupRange, ScrapedEvent, ScrapedEventDetails, SchemaNode, SocialContentPack, SocialPackSource, TranslatableContent, TranslatedContent, TranslationLanguage, ValidationIssue } from "../types";
+import { BudgetExceededError, generateWithFallback, generateWithFallbackStream, parseJSONResponse, StreamCallback } from "./aiProviderService";
+import { DraftValidationError, validateAgainstSchema } from "./draftSchemas";
+import { promptRegistry, RenderedPrompt } from "./promptRegistry";
+import { buildRoundupDraft, buildRoundupPromptData, clusterRoundupEvents, formatRoundupDay } from "./roundupService";
+import { TRANSLATION_LANGUAGES, checkTranslation, protectGlossaryTerms, restoreGlossaryTerms } from "./translationService";
+import { withStyleGuide } from "./styleGuide";
 
 const API_KEY = process.env.API_KEY;
 
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
-}
-
-const ai = new GoogleGenerativeAI(API_KEY);
+// Sem chave o app continua funcionando: os provedores são resolvidos pelo aiProviderService
+// (outros provedores, modelo local ou modo demonstração)
+const ai = API_KEY ? new GoogleGenerativeAI(API_KEY) : null;
 
 async function extractFactsFromPressRelease(pressReleaseText: string): Promise<ExtractedFacts | null> {
-  const prompt = `
-    Sua única tarefa é analisar o comunicado de imprensa abaixo e extrair os fatos principais em um formato JSON.
-    - NÃO invente informações. Se um fato não estiver claramente declarado, use 'null' como valor.
-    - NÃO use conhecimento externo. Baseie-se APENAS no texto fornecido.
-    - Extraia nomes de eventos, datas, locais, organizadores e pessoas-chave mencionadas.
-
-    **Formato de Saída OBRATÓRIO:**
-    A resposta DEVE ser um único objeto JSON formatado como um bloco de código markdown \`\`\`json ... \`\`\`.
-    NÃO inclua nenhum texto, explicação ou introdução antes ou depois do bloco JSON.
-
-    **Estrutura do Objeto JSON:**
-    {
-      "eventName": "string | null",
-      "eventDate": "string | null",
-      "eventLocation": "string | null",
-      "organizers": ["string", ...] | null,
-      "keyPeople": ["string", ...] | null
-    }
-
-    **Comunicado de Imprensa para Análise:**
-    ---
-    ${pressReleaseText}
-    ---
-  `;
+  const prompt = promptRegistry.render('extracao_fatos', { comunicado: pressReleaseText });
 
   try {
-      const response = await generateWithFallback(prompt);
-      
-      if (response.text) {
-          const jsonMatch = response.text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-          const jsonText = jsonMatch ? jsonMatch[1] : response.text;
-          console.log(`✅ Fatos extraídos usando: ${response.usedProvider}`);
-          return JSON.parse(jsonText) as ExtractedFacts;
-      }
-      return null;
+      const { data, usedProvider } = await generateStructured<ExtractedFacts>(prompt, 'extracao_fatos');
+      console.log(`✅ Fatos extraídos usando: ${usedProvider}`);
+      return data;
 
   } catch (error) {
       console.error("Erro durante extração de fatos:", error);
+      if (error instanceof DraftValidationError || error instanceof BudgetExceededError) throw error;
       throw new Error("Falha ao extrair fatos do comunicado.");
   }
 }
@@ -56,7 +31,8 @@ async function extractFactsFromPressRelease(pressReleaseText: string): Promise<E
 
 export async function generateArticleFromPressRelease(
   pressReleaseText: string,
-  systemInstruction: string
+  systemInstruction: string,
+  onPartial?: StreamCallback
 ): Promise<{ draft: ArticleDraft | null, sources: GroundingSource[] | null }> {
   // Step 1: Extract facts with high precision
   const verifiedFacts = await extractFactsFromPressRelease(pressReleaseText);
@@ -65,58 +41,12 @@ export async function generateArticleFromPressRelease(
   }
   
   // Step 2: Generate the article using the verified facts as a source of truth
-  const prompt = `
-      ${systemInstruction}
-
-      **Tarefa Principal:** Atue como um estrategista de conteúdo e especialista em SEO. Transforme o comunicado de imprensa fornecido em uma notícia completa, engajadora e 100% otimizada para SEO.
-      
-      **VERIFICAÇÃO DE FATOS OBRATÓRIA:**
-      Use os "Fatos Verificados" abaixo como a ÚNICA fonte de verdade para detalhes críticos (nome do evento, data, local). NÃO contradiga estas informações.
-      Use a pesquisa web para ENRIQUECER o artigo com contexto, mas NÃO para substituir os fatos principais.
-
-      **Fatos Verificados (Fonte da Verdade):**
-      \`\`\`json
-      ${JSON.stringify(verifiedFacts, null, 2)}
-      \`\`\`
-
-      **Regras de Otimização (SEO - Rank Math Style):**
-      1.  **Palavra-chave de Foco:** Analise o comunicado e determine a palavra-chave de foco mais relevante.
-      2.  **Título (Title):** Deve conter a palavra-chave de foco (preferencialmente no início), ter 50-60 caracteres e um número.
-      3.  **Corpo do Artigo (Article Body):** Deve ter mais de 600 palavras, com a palavra-chave posicionada no primeiro parágrafo e em pelo menos um subtítulo (tag \`<h2>\` ou \`<h3>\`).
-      4.  **Meta Description (SEO Description):** 120-155 caracteres com a palavra-chave.
-      5.  **Imagem (Alt Text):** Crie um texto alternativo descritivo que DEVE conter a palavra-chave de foco.
-      6.  **Taxonomia:** Sugira UMA categoria principal e 3 a 5 tags.
-      7. **Detecção de Evento (Opcional):** Se o comunicado for sobre um evento, extraia as informações (baseando-se nos Fatos Verificados).
-      
-      **Regras de Estilo e Qualidade de Escrita:**
-      1.  **Fluidez e Legibilidade:** O texto DEVE ser fluído e de fácil leitura. Use parágrafos curtos (máximo 3-4 frases) para otimizar a experiência em telas de celular.
-      2.  **Citações e Fontes:** É PROIBIDO incluir citações numéricas no corpo do texto (como \`[1]\`, \`[2, 5]\`, etc.). Se precisar referenciar uma fonte externa da sua pesquisa web, faça-o de forma natural, inserindo um hiperlink (\`<a href="..." target="_blank">texto âncora</a>\`) diretamente no texto.
-
-      **Formato de Saída OBRATÓRIO:**
-      A resposta DEVE ser um único objeto JSON formatado como um bloco de código markdown \`\`\`json ... \`\`\`.
-      NÃO inclua nenhum texto antes ou depois do bloco JSON.
-
-      **Estrutura do Objeto JSON:**
-      {
-        "title": "string (Otimizado)",
-        "summary": "string (Resumo conciso)",
-        "importance": "'Alta' | 'Média' | 'Baixa'",
-        "category": "string (Apenas UMA)",
-        "subcategory": "string",
-        "tags": ["string", ...],
-        "seo_description": "string (Otimizado)",
-        "article_body_html": "string (HTML, >600 palavras)",
-        "focus_keyword": "string",
-        "suggested_alt_text": "string (Com palavra-chave)",
-        "event_details": { "name": "string", "date": "string", "location": "string" } | null
-      }
-
-      **Comunicado de Imprensa para Análise:**
-      ---
-      ${pressReleaseText}
-      ---
-    `;
-    const result = await executeGeneration<ArticleDraft>(prompt);
+  const prompt = promptRegistry.render('noticia_comunicado', {
+      instrucao_sistema: withStyleGuide(systemInstruction),
+      fatos_verificados: JSON.stringify(verifiedFacts, null, 2),
+      comunicado: pressReleaseText
+  });
+    const result = await executeGeneration<ArticleDraft>(prompt, 'noticia', onPartial);
     if (result.draft) {
         result.draft.verified_facts = verifiedFacts;
     }
@@ -125,68 +55,116 @@ export async function generateArticleFromPressRelease(
 
 export async function generateArticleFromScrapedData(
   scrapedData: ScrapedEventDetails,
-  systemInstruction: string
+  systemInstruction: string,
+  onPartial?: StreamCallback
 ): Promise<{ draft: ArticleDraft | null, sources: GroundingSource[] | null }> {
-  const prompt = `
-      ${systemInstruction}
+  const prompt = promptRegistry.render('noticia_dados_coletados', {
+      instrucao_sistema: withStyleGuide(systemInstruction),
+      dados_coletados: JSON.stringify(scrapedData, null, 2)
+  });
+    const result = await executeGeneration<ArticleDraft>(prompt, 'evento', onPartial);
+    return result;
+}
 
-      **Tarefa Principal:** Atue como um jornalista local e especialista em SEO. As informações abaixo foram extraídas de uma página de venda de ingressos. Transforme esses dados brutos em uma notícia de evento completa, engajadora e otimizada para o portal 'recifemais.com.br'.
+// Caminho inverso do fluxo "social": da matéria ou do item da agenda para as peças de cada canal
+export async function generateSocialContentPack(
+  source: SocialPackSource,
+  systemInstruction: string
+): Promise<{ draft: SocialContentPack | null, sources: GroundingSource[] | null }> {
+  const prompt = promptRegistry.render('pacote_social', {
+      instrucao_sistema: withStyleGuide(systemInstruction),
+      conteudo: JSON.stringify(source, null, 2)
+  });
+    return executeGeneration<SocialContentPack>(prompt, 'pacote_social');
+}
 
-      **Dados Extraídos (Fonte Principal):**
-      ---
-      ${JSON.stringify(scrapedData, null, 2)}
-      ---
+// Roteiro semanal: a IA escreve abertura e chamadas; o post é montado a partir dos eventos selecionados
+export async function generateWeekendRoundup(
+  events: RoundupEvent[],
+  range: RoundupRange,
+  systemInstruction: string,
+  onPartial?: StreamCallback
+): Promise<{ draft: ArticleDraft | null, sources: GroundingSource[] | null }> {
+  if (events.length === 0) {
+      throw new Error("Selecione ao menos um evento para montar o roteiro.");
+  }
+  const prompt = promptRegistry.render('roteiro_semanal', {
+      instrucao_sistema: withStyleGuide(systemInstruction),
+      periodo: `${formatRoundupDay(range.startDate)} a ${formatRoundupDay(range.endDate)}`,
+      eventos: JSON.stringify(buildRoundupPromptData(clusterRoundupEvents(events)), null, 2)
+  });
 
-      **Processo de Escrita e Enriquecimento:**
-      1.  **Use os Dados Fornecidos:** Os dados extraídos são a sua fonte principal. Use o título, data, local e descrição como base.
-      2.  **Tom Jornalístico:** Reescreva a descrição. Páginas de venda de ingressos são promocionais. Seu texto deve ser informativo e jornalístico. Remova frases como "compre seu ingresso" ou "garanta sua vaga".
-      3.  **Pesquisa Web para Contexto:** Use a pesquisa web para enriquecer o artigo. Pesquise sobre o artista, o local do evento ou edições passadas para adicionar mais detalhes e contexto.
-      4.  **Complete as Informações:** Se os dados extraídos forem incompletos (ex: sem hora), use a pesquisa para tentar encontrar essa informação.
-
-      **Regras de Otimização (SEO) e Estilo (Idênticas à geração de press release):**
-      - Palavra-chave de Foco, Título, Corpo do Artigo (>600 palavras), Meta Description, Alt Text, Taxonomia, etc.
-      - O corpo do artigo deve ser em HTML, com parágrafos curtos e subtítulos.
-      - É PROIBIDO incluir citações numéricas como [1]. Integre fontes com links <a>.
-
-      **Formato de Saída OBRATÓRIO (JSON):**
-      A resposta DEVE ser um único objeto JSON formatado como um bloco de código markdown \`\`\`json ... \`\`\`.
-      NÃO inclua nenhum texto antes ou depois do bloco JSON.
-
-      **Estrutura do Objeto JSON:**
-      {
-        "title": "string (Otimizado)",
-        "summary": "string (Resumo conciso)",
-        "importance": "'Alta' | 'Média' | 'Baixa'",
-        "category": "string (Use 'Agenda' ou similar)",
-        "subcategory": "string",
-        "tags": ["string", ...],
-        "seo_description": "string (Otimizado)",
-        "article_body_html": "string (HTML, >600 palavras)",
-        "focus_keyword": "string",
-        "suggested_alt_text": "string (Com palavra-chave)",
-        "event_details": { "name": "string", "date": "string", "location": "string" }
-      }
-    `;
-    const result = await executeGeneration<ArticleDraft>(prompt);
-    return result;
+    try {
+        const { data, sources, usedProvider } = await generateStructured<RoundupCopy>(prompt, 'roteiro', onPartial);
+        const draft = buildRoundupDraft(data, events);
+        draft.prompt_ref = prompt.ref;
+        console.log(`✅ Roteiro gerado com sucesso usando: ${usedProvider} (${events.length} eventos)`);
+        return { draft, sources };
+    } catch (error) {
+        console.error("Erro ao gerar roteiro com IA:", error);
+        if (error instanceof DraftValidationError || error instanceof BudgetExceededError) throw error;
+        if (error instanceof Error) {
+            throw new Error(`Erro na geração do roteiro: ${error.message}`);
+        }
+        throw new Error("Ocorreu um erro desconhecido ao se comunicar com a IA.");
+    }
 }
 
-export async function extractTextFromUrl(url: string): Promise<string | null> {
-    const prompt = `
-        Sua tarefa é agir como um extrator de conteúdo web. Acesse a URL a seguir e extraia o conteúdo de texto principal da postagem da rede social, como a legenda ou descrição.
+// Atualização de matéria publicada: a IA devolve o texto completo revisado e o editor aceita as mudanças trecho a trecho
+export async function generateArticleUpdate(
+  post: { title: string; contentHtml: string },
+  newInformation: string,
+  systemInstruction: string
+): Promise<{ draft: ArticleUpdateDraft | null, sources: GroundingSource[] | null }> {
+  const prompt = promptRegistry.render('atualizacao_materia', {
+      instrucao_sistema: withStyleGuide(systemInstruction),
+      data_atual: new Date().toLocaleDateString('pt-BR', { day: 'numeric', month: 'long', year: 'numeric' }),
+      titulo: post.title,
+      conteudo_atual: post.contentHtml,
+      novas_informacoes: newInformation
+  });
+    return executeGeneration<ArticleUpdateDraft>(prompt, 'atualizacao_materia');
+}
 
-        URL: ${url}
+// Variações de título e meta description para o editor comparar; a pontuação é feita fora da IA
+export async function generateHeadlineVariants(
+  draft: { title: string; summary: string; focus_keyword: string },
+  systemInstruction: string
+): Promise<{ draft: HeadlineVariantSet | null, sources: GroundingSource[] | null }> {
+  const prompt = promptRegistry.render('variantes_titulo', {
+      instrucao_sistema: withStyleGuide(systemInstruction),
+      titulo: draft.title,
+      resumo: draft.summary,
+      palavra_chave: draft.focus_keyword
+  });
+    return executeGeneration<HeadlineVariantSet>(prompt, 'variantes_titulo');
+}
 
-        **Regras de Saída:**
-        - Retorne APENAS o texto bruto e não formatado da descrição da postagem.
-        - NÃO adicione nenhuma explicação, introdução ou formatação.
-        - NÃO resuma. Forneça o texto completo.
-        - Se não conseguir acessar o conteúdo ou encontrar uma descrição, retorne o texto "ERRO: CONTEUDO_NAO_ENCONTRADO".
-    `;
+// Tradução: os nomes do glossário viajam como marcadores e voltam intactos; o resultado é conferido contra o original
+export async function translateContent(
+  content: TranslatableContent,
+  language: TranslationLanguage,
+  glossary: string[]
+): Promise<{ draft: TranslatedContent | null, sources: GroundingSource[] | null, warnings: string[] }> {
+  const { content: protectedContent, placeholders } = protectGlossaryTerms(content, glossary);
+  const prompt = promptRegistry.render('traducao', {
+      idioma: TRANSLATION_LANGUAGES[language].promptName,
+      conteudo: JSON.stringify(protectedContent, null, 2)
+  });
+
+    const { draft, sources } = await executeGeneration<TranslatedContent>(prompt, 'traducao');
+    if (!draft) return { draft: null, sources, warnings: [] };
+
+    const translated: TranslatedContent = { ...restoreGlossaryTerms(draft, placeholders), language };
+    return { draft: translated, sources, warnings: checkTranslation(content, translated, glossary) };
+}
+
+export async function extractTextFromUrl(url: string): Promise<string | null> {
+    const prompt = promptRegistry.render('extracao_url', { url });
 
     try {
         // Usa o sistema de fallback com múltiplos provedores
-        const response = await generateWithFallback(prompt);
+        const response = await generateWithFallback(prompt.text, { generationType: 'extracao_url', promptRef: prompt.ref });
 
         const text = response.text?.trim();
 
@@ -235,49 +213,14 @@ export async function extractTextFromUrl(url: string): Promise<string | null> {
 
 export async function generateArticleFromExtractedText(
   postText: string,
-  systemInstruction: string
+  systemInstruction: string,
+  onPartial?: StreamCallback
 ): Promise<{ draft: ArticleDraft | null, sources: GroundingSource[] | null }> {
-  const prompt = `
-      ${systemInstruction}
-
-      **Tarefa Principal:** Atue como um estrategista de conteúdo e especialista em SEO. O texto abaixo foi extraído de uma postagem de rede social. Transforme-o em uma notícia completa, engajadora e otimizada para SEO para o portal 'recifemais.com.br'.
-
-      **Texto Extraído da Rede Social (Fonte Principal):**
-      ---
-      ${postText}
-      ---
-
-      **Processo de Escrita e Enriquecimento:**
-      1.  **Análise do Texto:** Use o "Texto Extraído" como a fonte principal de informação.
-      2.  **Pesquisa Web para Contexto:** Use a pesquisa na web para enriquecer o artigo. Pesquise sobre as pessoas, lugares ou eventos mencionados para adicionar contexto, informações de fundo e explicar a relevância da postagem. NÃO use a pesquisa para substituir as informações do texto original.
-      3.  **Busca de Imagem:** Sugira 2 a 3 termos de busca para encontrar uma imagem de alta qualidade no Google Images. Priorize buscas que incluam o domínio 'recifemais.com.br' (ex: "Evento X recifemais.com.br").
-
-      **Regras de Otimização (SEO) e Estilo (Idênticas à geração de press release):**
-      - Palavra-chave de Foco, Título, Corpo do Artigo (>600 palavras), Meta Description, Alt Text, Taxonomia, etc.
-      - Use parágrafos curtos.
-      - É PROIBIDO incluir citações numéricas como [1]. Integre fontes com links <a>.
-
-      **Formato de Saída OBRATÓRIO (JSON):**
-      A resposta DEVE ser um único objeto JSON formatado como um bloco de código markdown \`\`\`json ... \`\`\`.
-      NÃO inclua nenhum texto antes ou depois do bloco JSON.
-
-      **Estrutura do Objeto JSON:**
-      {
-        "title": "string (Otimizado)",
-        "summary": "string (Resumo conciso)",
-        "importance": "'Alta' | 'Média' | 'Baixa'",
-        "category": "string (Apenas UMA)",
-        "subcategory": "string",
-        "tags": ["string", ...],
-        "seo_description": "string (Otimizado)",
-        "article_body_html": "string (HTML, >600 palavras)",
-        "focus_keyword": "string",
-        "suggested_alt_text": "string (Com palavra-chave)",
-        "event_details": { "name": "string", "date": "string", "location": "string" } | null,
-        "suggested_image_searches": ["string", ...]
-      }
-    `;
-    const result = await executeGeneration<ArticleDraft>(prompt);
+  const prompt = promptRegistry.render('noticia_rede_social', {
+      instrucao_sistema: withStyleGuide(systemInstruction),
+      texto_post: postText
+  });
+    const result = await executeGeneration<ArticleDraft>(prompt, 'social', onPartial);
     return result;
 }
 
@@ -301,7 +244,7 @@ Crie uma história envolvente e visual para Instagram. Retorne um JSON com:
 }`;
 
     // Usa o sistema de fallback com múltiplos provedores
-    const response = await generateWithFallback(prompt);
+    const response = await generateWithFallback(prompt, { generationType: 'historia' });
     
     if (response.text) {
       try {
@@ -335,39 +278,14 @@ Crie uma história envolvente e visual para Instagram. Retorne um JSON com:
 
 export async function generateHistoriaFromTopic(
   topic: string,
-  systemInstruction: string
+  systemInstruction: string,
+  onPartial?: StreamCallback
 ): Promise<{ draft: HistoriaDraft | null, sources: GroundingSource[] | null }> {
-    const prompt = `
-      ${systemInstruction.replace('notícia', 'história')}
-
-      **Tarefa Principal:** Atue como um contador de histórias e estrategista de conteúdo. Pesquise na web sobre o tópico fornecido e escreva uma "história" longa, detalhada e envolvente. O estilo deve ser mais narrativo e menos factual que uma notícia.
-      
-      **Tópico para a História:** "${topic}"
-
-      **Regras de SEO e Estrutura:**
-      1.  **Título (Title):** Crie um título cativante que inclua o tópico principal.
-      2.  **Corpo do Artigo (Article Body):** Deve ter mais de 800 palavras, dividido em seções com subtítulos (<h2>, <h3>). Use uma linguagem rica e descritiva.
-      3.  **Meta Description (SEO Description):** 120-155 caracteres que resumem a história e despertam curiosidade.
-      4.  **Palavra-chave de Foco:** Use o tópico principal como a palavra-chave de foco.
-      5.  **Imagem (Alt Text):** Crie um texto alternativo que descreva uma imagem ideal para a história e inclua a palavra-chave.
-      6.  **Taxonomia:** Sugira UMA categoria principal (ex: 'Histórias', 'Cultura', 'Personagens') e 3 a 5 tags relevantes.
-      7. **Fontes:** Integre links para fontes externas (\`<a href="...">\`) de forma natural no texto. NÃO use citações como [1].
-
-      **Formato de Saída OBRATÓRIO (JSON):**
-      \`\`\`json
-      {
-        "title": "string",
-        "summary": "string (Um parágrafo de introdução/resumo)",
-        "category": "string",
-        "tags": ["string", ...],
-        "seo_description": "string",
-        "article_body_html": "string (HTML, >800 palavras)",
-        "focus_keyword": "string",
-        "suggested_alt_text": "string"
-      }
-      \`\`\`
-    `;
-    const result = await executeGeneration<HistoriaDraft>(prompt);
+    const prompt = promptRegistry.render('historia', {
+        instrucao_sistema: withStyleGuide(systemInstruction.replace('notícia', 'história')),
+        topico: topic
+    });
+    const result = await executeGeneration<HistoriaDraft>(prompt, 'historia', onPartial);
     return result;
 }
 
@@ -391,7 +309,7 @@ Crie um conteúdo focado em organizadores de eventos. Retorne um JSON com:
 }`;
 
     // Usa o sistema de fallback com múltiplos provedores
-    const response = await generateWithFallback(prompt);
+    const response = await generateWithFallback(prompt, { generationType: 'organizador' });
     
     if (response.text) {
       try {
@@ -423,36 +341,41 @@ Crie um conteúdo focado em organizadores de eventos. Retorne um JSON com:
 
 export async function generateOrganizadorProfile(
   organizationName: string,
-  systemInstruction: string
+  systemInstruction: string,
+  onPartial?: StreamCallback
 ): Promise<{ draft: OrganizadorDraft | null, sources: GroundingSource[] | null }> {
-    const prompt = `
-      ${systemInstruction.replace('jornalista expert e editor de SEO', 'pesquisador e redator de perfis')}
-
-      **Tarefa Principal:** Crie um perfil detalhado e bem escrito para a organização fornecida. Use a pesquisa web para encontrar o site oficial, redes sociais e outras fontes confiáveis.
-      
-      **Nome da Organização:** "${organizationName}"
-
-      **Instruções de Extração e Escrita:**
-      1.  **Pesquisa:** Encontre o site oficial, endereço físico, telefone de contato principal e perfil do Instagram, se existirem.
-      2.  **Descrição:** Escreva uma descrição informativa sobre a organização em HTML (mínimo de 2 parágrafos). Descreva sua missão, história e atividades principais.
-      3.  **Dados Estruturados:** Extraia as informações de contato para os campos específicos. Se não encontrar uma informação, use 'null'. NÃO invente dados.
-
-      **Formato de Saída OBRATÓRIO (JSON):**
-      \`\`\`json
-      {
-        "title": "${organizationName}",
-        "description_html": "string (HTML com a descrição)",
-        "address": "string | null",
-        "phone": "string | null",
-        "website": "string (URL completa) | null",
-        "instagram": "string (ex: @perfil) | null"
-      }
-      \`\`\`
-    `;
-    const result = await executeGeneration<OrganizadorDraft>(prompt);
+    const prompt = promptRegistry.render('organizador', {
+        instrucao_sistema: withStyleGuide(systemInstruction.replace('jornalista expert e editor de SEO', 'pesquisador e redator de perfis')),
+        nome_organizacao: organizationName
+    });
+    const result = await executeGeneration<OrganizadorDraft>(prompt, 'organizador', onPartial);
     return result;
 }
 
+export async function generateArtistaProfile(
+  artistName: string,
+  systemInstruction: string,
+  onPartial?: StreamCallback
+): Promise<{ draft: ArtistaDraft | null, sources: GroundingSource[] | null }> {
+    const prompt = promptRegistry.render('artista', {
+        instrucao_sistema: withStyleGuide(systemInstruction.replace('jornalista expert e editor de SEO', 'pesquisador e redator de perfis')),
+        nome_artista: artistName
+    });
+    return executeGeneration<ArtistaDraft>(prompt, 'artista', onPartial);
+}
+
+export async function generateLugarProfile(
+  placeName: string,
+  systemInstruction: string,
+  onPartial?: StreamCallback
+): Promise<{ draft: LugarDraft | null, sources: GroundingSource[] | null }> {
+    const prompt = promptRegistry.render('lugar', {
+        instrucao_sistema: withStyleGuide(systemInstruction.replace('jornalista expert e editor de SEO', 'pesquisador e redator de perfis')),
+        nome_lugar: placeName
+    });
+    return executeGeneration<LugarDraft>(prompt, 'lugar', onPartial);
+}
+
 async function generatePlaceDetailsDraft(facts: ExtractedFacts, sources?: GroundingSource[]): Promise<PlaceDetailsDraft | null> {
   try {
     const sourcesText = sources ? sources.map(s => `- ${s.web.title}: ${s.web.uri}`).join('\n') : '';
@@ -473,7 +396,7 @@ Crie informações detalhadas sobre o local. Retorne um JSON com:
 }`;
 
     // Usa o sistema de fallback com múltiplos provedores
-    const response = await generateWithFallback(prompt);
+    const response = await generateWithFallback(prompt, { generationType: 'busca_lugar' });
     
     if (response.text) {
       try {
@@ -508,88 +431,25 @@ Crie informações detalhadas sobre o local. Retorne um JSON com:
 export async function searchPlaceInformation(
   placeName: string,
 ): Promise<{ draft: PlaceDetailsDraft | null, sources: GroundingSource[] | null }> {
-    const prompt = `
-      **Tarefa:** Atue como um assistente de pesquisa. Sua única função é encontrar informações detalhadas sobre o seguinte local usando a pesquisa na web e retornar os dados em um formato JSON estrito.
-
-      **Local para Pesquisar:** "${placeName}"
-
-      **Instruções de Extração:**
-      1.  **Pesquisa Abrangente:** Encontre o endereço completo, telefone, site oficial e uma breve descrição sobre o local.
-      2.  **Dados Estruturados:** Extraia as seguintes informações. Se um campo não for encontrado, use 'null' como valor. NÃO invente dados.
-      3.  **Endereço:** Separe o endereço em 'address' (rua e número), 'neighborhood' (bairro), 'city' (cidade), 'state' (estado) e 'zipcode' (CEP).
-
-      **Formato de Saída OBRATÓRIO (JSON):**
-      A resposta DEVE ser um único objeto JSON formatado como um bloco de código markdown \`\`\`json ... \`\`\`.
-      NÃO inclua nenhum texto, explicação ou introdução antes ou depois do bloco JSON.
-      \`\`\`json
-      {
-        "address": "string | null",
-        "neighborhood": "string | null",
-        "city": "string | null",
-        "state": "string | null",
-        "zipcode": "string | null",
-        "phone": "string | null",
-        "website": "string (URL completa) | null",
-        "description": "string (Um parágrafo de descrição) | null"
-      }
-      \`\`\`
-    `;
-    const result = await executeGeneration<PlaceDetailsDraft>(prompt);
+    const prompt = promptRegistry.render('busca_lugar', { nome_lugar: placeName });
+    const result = await executeGeneration<PlaceDetailsDraft>(prompt, 'busca_lugar');
     return result;
 }
 
 export async function searchGoogleEvents(
   query: string
 ): Promise<{ events: GoogleEvent[], sources: GroundingSource[] | null }> {
-  const prompt = `
-    Sua tarefa é atuar como um pesquisador de eventos locais para a região de Recife, Pernambuco, Brasil.
-    Com base na consulta do usuário, use a Pesquisa Google para encontrar eventos relevantes.
-    Retorne os resultados como um array JSON dentro de um bloco de código markdown.
-
-    **Consulta:** "${query}"
-
-    **Estrutura do Array JSON:**
-    [
-      {
-        "name": "string",
-        "start_date": "string no formato YYYY-MM-DD HH:MM:SS, ou YYYY-MM-DD se a hora for desconhecida",
-        "location": "string, ex: 'Recife, PE'",
-        "venue": "string, ex: 'Classic Hall'",
-        "summary": "string, um resumo conciso de um parágrafo sobre o evento.",
-        "source_url": "string, a URL direta para a página de origem.",
-        "category": "string, uma categoria relevante como 'Música', 'Teatro', 'Arte & Exposições', 'Gastronomia', 'Festival', 'Esporte', 'Tecnologia' ou 'Outros'."
-      }
-    ]
-
-    **Regras:**
-    - A saída final DEVE ser APENAS o bloco JSON markdown. Não inclua nenhum texto introdutório ou explicações.
-    - Se nenhum evento for encontrado, retorne um array vazio [].
-    - Extraia as informações com a maior precisão possível dos resultados da pesquisa.
-    - Atribua a categoria mais apropriada para cada evento.
-  `;
+  const prompt = promptRegistry.render('busca_eventos', { consulta: query });
 
   try {
-    // Usa o sistema de fallback com múltiplos provedores
-    const response = await generateWithFallback(prompt);
-    
-    if (response.text) {
-        try {
-            // Usa a função parseJSONResponse melhorada do aiProviderService
-            const { parseJSONResponse } = await import('./aiProviderService');
-            const events = parseJSONResponse(response.text) as GoogleEvent[];
-            console.log(`✅ Busca de eventos realizada com sucesso usando: ${response.usedProvider}`);
-            return { events, sources: response.sources };
-        } catch (parseError) {
-             console.error("Erro ao analisar JSON da busca de Eventos do Google:", parseError);
-             console.error("Resposta bruta:", response.text);
-             throw new Error(`A IA retornou dados em um formato inesperado (${response.usedProvider}).`);
-        }
-    }
-    
-    return { events: [], sources: null };
+    // Usa o sistema de fallback com múltiplos provedores, validando e reparando a resposta
+    const { data: events, sources, usedProvider } = await generateStructured<GoogleEvent[]>(prompt, 'busca_eventos');
+    console.log(`✅ Busca de eventos realizada com sucesso usando: ${usedProvider}`);
+    return { events, sources };
 
   } catch (error) {
     console.error("Erro ao buscar eventos com IA:", error);
+    if (error instanceof DraftValidationError || error instanceof BudgetExceededError) throw error;
     if (error instanceof Error) {
         throw new Error(`Erro na busca de eventos: ${error.message}`);
     }
@@ -655,79 +515,21 @@ export async function searchGoogleEvents(
 }
 
 export async function processScrapedEvents(scrapedEvents: ScrapedEvent[]): Promise<GoogleEvent[]> {
-    const prompt = `
-      Você é um assistente de curadoria de eventos. Sua tarefa é analisar a lista de eventos brutos coletados de diferentes sites, limpá-los, remover duplicatas e padronizá-los em um formato JSON consistente.
-
-      **Eventos Brutos para Análise:**
-      \`\`\`json
-      ${JSON.stringify(scrapedEvents.map(e => ({ title: e.raw_title, date: e.raw_date, source: e.source_site, url: e.source_url, data: e.raw_data })), null, 2)}
-      \`\`\`
-
-      **Regras de Processamento:**
-      1.  **Remover Duplicatas:** Identifique eventos que são essencialmente os mesmos, mesmo que os títulos ou datas sejam ligeiramente diferentes. Mantenha apenas uma entrada para cada evento real.
-      2.  **Padronizar Dados:** Converta todas as datas para o formato "YYYY-MM-DD HH:MM:SS" sempre que possível. Se a hora não estiver disponível, use "YYYY-MM-DD".
-      3.  **Extrair Informações:** Extraia o nome do evento, data de início, local, nome do local (venue), um breve resumo e a URL de origem.
-      4.  **Categorizar:** Atribua a cada evento uma das seguintes categorias: 'Música', 'Teatro', 'Arte & Exposições', 'Gastronomia', 'Festival', 'Esporte', 'Tecnologia', ou 'Outros'.
-      5.  **Qualidade:** Se um evento não tiver informações suficientes (como nome ou data), descarte-o.
-
-      **Formato de Saída OBRATÓRIO (JSON):**
-      A resposta DEVE ser um único array JSON formatado como um bloco de código markdown \`\`\`json ... \`\`\`.
-      NÃO inclua nenhum texto antes ou depois do bloco JSON. Se nenhum evento válido for encontrado, retorne um array vazio \`[]\`.
-
-      **Estrutura do Array JSON:**
-      [
-        {
-          "name": "string",
-          "start_date": "string no formato YYYY-MM-DD HH:MM:SS ou YYYY-MM-DD",
-          "location": "string, ex: 'Recife, PE'",
-          "venue": "string, ex: 'Classic Hall'",
-          "summary": "string, um resumo conciso de um parágrafo sobre o evento.",
-          "source_url": "string, a URL direta para a página de origem.",
-          "category": "string, uma das categorias permitidas."
-        }
-      ]
-    `;
+    const prompt = promptRegistry.render('processamento_eventos', {
+        eventos_brutos: JSON.stringify(scrapedEvents.map(e => ({ title: e.raw_title, date: e.raw_date, source: e.source_site, url: e.source_url, data: e.raw_data })), null, 2)
+    });
 
     try {
-        // Usa o sistema de fallback com múltiplos provedores
-        const response = await generateWithFallback(prompt);
-
-        if (response.text) {
-            try {
-                // Usa a função parseJSONResponse melhorada do aiProviderService
-                const { parseJSONResponse } = await import('./aiProviderService');
-                const events = parseJSONResponse(response.text) as GoogleEvent[];
-                
-                // Validar estrutura da resposta
-                if (!Array.isArray(events)) {
-                    throw new Error('Resposta da IA não é um array válido de eventos');
-                }
-                
-                console.log(`✅ Processamento de eventos realizado com sucesso usando: ${response.usedProvider}`, {
-                    totalEvents: events.length,
-                    inputEvents: scrapedEvents.length,
-                    timestamp: new Date().toISOString()
-                });
-                
-                return events;
-            } catch (parseError) {
-                console.error("❌ Erro ao analisar JSON do processamento de eventos:", {
-                    error: parseError instanceof Error ? parseError.message : parseError,
-                    provider: response.usedProvider,
-                    responseLength: response.text?.length || 0,
-                    responsePreview: response.text?.substring(0, 200) + '...',
-                    timestamp: new Date().toISOString()
-                });
-                
-                // Log da resposta completa apenas em desenvolvimento
-                if (process.env.NODE_ENV === 'development') {
-                    console.error('Resposta completa da IA:', response.text);
-                }
-                
-                throw new Error(`A IA retornou dados em um formato inesperado (${response.usedProvider}): ${parseError instanceof Error ? parseError.message : 'Erro desconhecido'}`);
-            }
-        }
-        return [];
+        // Usa o sistema de fallback com múltiplos provedores, validando e reparando a resposta
+        const { data: events, usedProvider } = await generateStructured<GoogleEvent[]>(prompt, 'processamento_eventos');
+
+        console.log(`✅ Processamento de eventos realizado com sucesso usando: ${usedProvider}`, {
+            totalEvents: events.length,
+            inputEvents: scrapedEvents.length,
+            timestamp: new Date().toISOString()
+        });
+
+        return events;
     } catch (error) {
         console.error("❌ Erro ao processar eventos com a IA:", {
             error: error instanceof Error ? error.message : error,
@@ -735,6 +537,7 @@ export async function processScrapedEvents(scrapedEvents: ScrapedEvent[]): Promi
             timestamp: new Date().toISOString()
         });
         
+        if (error instanceof DraftValidationError || error instanceof BudgetExceededError) throw error;
         if (error instanceof Error) {
             throw new Error(`Erro no processamento de eventos: ${error.message}`);
         }
@@ -791,34 +594,91 @@ export async function processScrapedEvents(scrapedEvents: ScrapedEvent[]): Promi
 }
 
 
-// Generic helper function to run generation and handle response
-async function executeGeneration<T>(prompt: string): Promise<{ draft: T | null, sources: GroundingSource[] | null, usedProvider?: string }> {
+// Número máximo de rodadas de reparo quando a resposta não passa na validação do schema
+const MAX_REPAIR_ATTEMPTS = 2;
+
+function buildRepairPrompt(originalPrompt: string, previousResponse: string, issues: ValidationIssue[]): string {
+    return `
+      A sua resposta anterior NÃO segue o formato JSON exigido. Corrija-a.
+
+      **Problemas Encontrados na Validação:**
+      ${issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n      ')}
+
+      **Sua Resposta Anterior:**
+      ---
+      ${previousResponse}
+      ---
+
+      **Regras da Correção:**
+      1.  Corrija TODOS os problemas listados acima, preservando o restante do conteúdo.
+      2.  Escape corretamente as aspas dentro de strings (inclusive em atributos HTML).
+      3.  Retorne APENAS o JSON corrigido, em um bloco de código markdown \`\`\`json ... \`\`\`.
+
+      **Instruções Originais (para referência):**
+      ${originalPrompt}
+    `;
+}
+
+function parseAndValidate<T>(text: string, schema: SchemaNode): { data: T | null, issues: ValidationIssue[] } {
+    let parsed: unknown;
     try {
-        // Usa o sistema de fallback com múltiplos provedores
-        const response = await generateWithFallback(prompt);
-        
-        if (response.text) {
-            try {
-                // Usa a função parseJSONResponse melhorada do aiProviderService
-                const { parseJSONResponse } = await import('./aiProviderService');
-                const parsedJson = parseJSONResponse(response.text);
-                console.log(`✅ Conteúdo gerado com sucesso usando: ${response.usedProvider}`);
-                return { 
-                    draft: parsedJson as T, 
-                    sources: response.sources,
-                    usedProvider: response.usedProvider
-                };
-            } catch (parseError) {
-                 console.error("Erro ao analisar resposta JSON:", parseError);
-                 console.error("Texto original da resposta:", response.text);
-                 throw new Error(`Falha ao analisar a resposta JSON da IA (${response.usedProvider}).`);
-            }
+        parsed = parseJSONResponse(text);
+    } catch (parseError) {
+        const message = parseError instanceof Error ? parseError.message : 'JSON inválido';
+        return { data: null, issues: [{ path: '(raiz)', message }] };
+    }
+    const issues = validateAgainstSchema(parsed, schema);
+    return { data: issues.length === 0 ? parsed as T : null, issues };
+}
+
+// Gera uma resposta estruturada, valida contra o schema e, se necessário, pede à IA que a repare.
+// A primeira rodada de reparo vai ao mesmo provedor; as seguintes evitam quem já falhou.
+async function generateStructured<T>(
+    prompt: RenderedPrompt,
+    generationType: AiCallType,
+    onPartial?: StreamCallback
+): Promise<{ data: T, sources: GroundingSource[] | null, usedProvider: string }> {
+    const schema = prompt.outputSchema;
+    if (!schema) {
+        throw new Error(`O template de prompt "${prompt.ref.templateId}" não define um schema de saída.`);
+    }
+    const options = { generationType, promptRef: prompt.ref, maxOutputTokens: prompt.maxOutputTokens };
+    const generate = (currentPrompt: string, excludeProviders: string[]) => onPartial
+        ? generateWithFallbackStream(currentPrompt, onPartial, { ...options, excludeProviders })
+        : generateWithFallback(currentPrompt, { ...options, excludeProviders });
+
+    let response = await generate(prompt.text, []);
+    const failedProviders: string[] = [];
+
+    for (let attempt = 0; ; attempt++) {
+        const { data, issues } = parseAndValidate<T>(response.text, schema);
+        if (data !== null) {
+            return { data, sources: response.sources ?? null, usedProvider: response.usedProvider };
         }
-        
-        return { draft: null, sources: null };
+
+        console.warn(`⚠️ Resposta inválida de ${response.usedProvider} (tentativa ${attempt + 1}):`, issues);
+        if (attempt >= MAX_REPAIR_ATTEMPTS) {
+            throw new DraftValidationError(issues, response.usedProvider);
+        }
+
+        if (attempt > 0) failedProviders.push(response.usedProvider);
+        response = await generate(buildRepairPrompt(prompt.text, response.text, issues), failedProviders);
+    }
+}
+
+// Generic helper function to run generation and handle response.
+// When `onPartial` is given, the response is streamed and the partial text is reported as it arrives.
+// The draft records which prompt template version produced it.
+async function executeGeneration<T extends { prompt_ref?: PromptRef }>(prompt: RenderedPrompt, generationType: AiCallType, onPartial?: StreamCallback): Promise<{ draft: T | null, sources: GroundingSource[] | null, usedProvider?: string }> {
+    try {
+        const { data, sources, usedProvider } = await generateStructured<T>(prompt, generationType, onPartial);
+        data.prompt_ref = prompt.ref;
+        console.log(`✅ Conteúdo gerado com sucesso usando: ${usedProvider} (prompt ${prompt.ref.templateId} v${prompt.ref.version})`);
+        return { draft: data, sources, usedProvider };
 
     } catch (error) {
         console.error("Erro ao gerar conteúdo com IA:", error);
+        if (error instanceof DraftValidationError || error instanceof BudgetExceededError) throw error;
         if (error instanceof Error) {
             throw new Error(`Erro na geração de conteúdo: ${error.message}`);
         }
@@ -0,0 +1,88 @@
+import { supabase } from './supabase';
+import { analyzeHeadline } from './seoService';
+import { HeadlineCandidate, HeadlineStyle, HeadlineVariant } from '../types';
+
+export const HEADLINE_STYLE_LABELS: Record<HeadlineStyle, string> = {
+  original: 'Original',
+  direto: 'Direto',
+  servico: 'Serviço',
+  lista: 'Lista',
+  pergunta: 'Pergunta',
+  curiosidade: 'Curiosidade',
+  urgencia: 'Urgência',
+};
+
+// \b não reconhece letras acentuadas ("você"), daí os limites de palavra em Unicode
+const wordsPattern = (alternatives: string) => new RegExp(`(?<![\\p{L}\\d])(${alternatives})(?![\\p{L}\\d])`, 'iu');
+
+const POWER_WORDS = wordsPattern('grátis|gratuit[oa]s?|imperdíve(l|is)|nov[oa]s?|melhores|guia|agora|hoje|exclusiv[oa]s?|como|segredos?|últim[oa]s?');
+const READER_WORDS = wordsPattern('você|confira|veja|descubra|saiba|aproveite');
+
+// Heurística de apelo ao clique (0-100); não substitui um teste A/B real, só ajuda a comparar as opções
+export function headlineAppealScore(title: string): number {
+  const words = title.split(/\s+/).filter(Boolean);
+  let score = 0;
+  if (/\d/.test(title)) score += 20;
+  if (POWER_WORDS.test(title)) score += 20;
+  if (/[?:]/.test(title)) score += 15;
+  if (title.length >= 40 && title.length <= 70) score += 20;
+  if (READER_WORDS.test(title)) score += 15;
+  // Palavras inteiras em caixa alta soam como caça-clique
+  if (!words.some(word => word.length > 3 && /\p{L}/u.test(word) && word === word.toUpperCase())) score += 10;
+  return Math.min(score, 100);
+}
+
+export const scoreHeadlineCandidates = (candidates: HeadlineCandidate[], focusKeyword: string): HeadlineVariant[] =>
+  candidates.map(candidate => {
+    const analysis = analyzeHeadline({ title: candidate.title, seoDescription: candidate.seo_description, focusKeyword });
+    return {
+      ...candidate,
+      seo_score: analysis.score,
+      appeal_score: headlineAppealScore(candidate.title),
+      checks: analysis.checks,
+    };
+  });
+
+export const headlineVariantService = {
+  // Registra as variações exibidas e a escolhida; falhas não impedem o envio ao editor
+  async recordChoice(choice: {
+    userId: string;
+    teamId: string | null;
+    generationType: string;
+    focusKeyword: string;
+    variants: HeadlineVariant[];
+    chosenIndex: number;
+  }): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('headline_variant_choices')
+      .insert({
+        user_id: choice.userId,
+        team_id: choice.teamId,
+        generation_type: choice.generationType,
+        focus_keyword: choice.focusKeyword || null,
+        variants: choice.variants,
+        chosen_index: choice.chosenIndex,
+        chosen_style: choice.variants[choice.chosenIndex].style,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Erro ao registrar a escolha de título:', error);
+      return null;
+    }
+    return data.id;
+  },
+
+  // Liga a escolha ao post criado no WordPress, quando o rascunho é salvo
+  async attachPost(choiceId: string, wpPostType: string, wpPostId: number): Promise<void> {
+    const { error } = await supabase
+      .from('headline_variant_choices')
+      .update({ wp_post_type: wpPostType, wp_post_id: wpPostId })
+      .eq('id', choiceId);
+
+    if (error) {
+      console.error('Erro ao vincular a escolha de título ao post:', error);
+    }
+  },
+};
@@ -0,0 +1,48 @@
+// Banco IndexedDB do navegador, compartilhado pela fila offline e pelos snapshots de revisão.
+// O nome ficou o da primeira versão (só a fila) para não perder salvamentos ainda pendentes.
+const DB_NAME = 'recifemais-offline-queue';
+const DB_VERSION = 2;
+
+export const OFFLINE_QUEUE_STORE = 'saves';
+export const SNAPSHOTS_STORE = 'snapshots';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(OFFLINE_QUEUE_STORE, { keyPath: 'key' });
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' }).createIndex('itemKey', 'itemKey');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Resolve só quando a transação termina, para que o dado já esteja gravado em disco
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
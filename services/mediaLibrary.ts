@@ -0,0 +1,44 @@
+import { WordPressMedia } from '../types';
+import { stripHtml } from './factChecker';
+
+// Apoio à biblioteca de mídia: miniaturas, textos exibidos e os campos de galeria dos CPTs.
+
+// O WordPress não tem campo de crédito; o site registra este meta do anexo com show_in_rest
+export const MEDIA_CREDIT_META_KEY = 'credito';
+
+// Meta dos CPTs com a galeria de fotos (lista de ids de anexos)
+export const GALLERY_META_KEY = 'galeria';
+
+export const MEDIA_TYPE_LABELS: Record<'image' | 'video' | 'audio' | 'application', string> = {
+  image: 'Imagens',
+  video: 'Vídeos',
+  audio: 'Áudios',
+  application: 'Documentos',
+};
+
+export const isImage = (media: WordPressMedia) => media.media_type === 'image';
+
+export const thumbnailUrl = (media: WordPressMedia): string => {
+  const sizes = media.media_details?.sizes;
+  return sizes?.medium?.source_url ?? sizes?.thumbnail?.source_url ?? media.source_url;
+};
+
+export const mediaTitle = (media: WordPressMedia): string =>
+  media.title.raw ?? stripHtml(media.title.rendered);
+
+export const mediaCaption = (media: WordPressMedia): string =>
+  media.caption.raw ?? stripHtml(media.caption.rendered);
+
+export const mediaCredit = (media: WordPressMedia): string =>
+  typeof media.meta?.[MEDIA_CREDIT_META_KEY] === 'string' ? media.meta[MEDIA_CREDIT_META_KEY] : '';
+
+// Só imagens precisam de texto alternativo
+export const isMissingAlt = (media: WordPressMedia) => isImage(media) && !media.alt_text.trim();
+
+// A galeria pode vir como lista de ids, lista de objetos do ACF ou texto "12,34"
+export function parseGalleryIds(value: unknown): number[] {
+  const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return raw
+    .map(item => Number(typeof item === 'object' && item !== null ? (item as { id?: unknown }).id : item))
+    .filter(id => Number.isInteger(id) && id > 0);
+}
@@ -0,0 +1,296 @@
+import { OfflineSave, OfflineSaveStatus, SeoPlugin, SeoPluginMeta, WordPressCredentials, WordPressPost } from '../types';
+import { WordPressConnectionError, createCPTItem, getCPTItemById, getCPTItemsModifiedSince, updateCPTItem, uploadMedia } from './wordpressService';
+import { draftLibraryService } from './draftLibrary';
+import { headlineVariantService } from './headlineVariants';
+import { OFFLINE_QUEUE_STORE, runRequest } from './localDb';
+import { revisionHistory } from './revisionHistory';
+import { seoPluginService } from './seoPlugin';
+
+// Fila offline dos editores: todo salvamento é gravado primeiro no IndexedDB do navegador
+// e só sai da fila depois de aceito pelo WordPress. Sem conexão, fica pendente até a
+// conexão voltar; se o item mudou no servidor desde que foi aberto, fica em conflito
+// até o usuário decidir entre sobrescrever e descartar a versão local.
+
+export const OFFLINE_STATUS_LABELS: Record<OfflineSaveStatus, string> = {
+  pendente: 'Pendente',
+  sincronizando: 'Sincronizando',
+  erro: 'Erro',
+  conflito: 'Conflito',
+};
+
+export type SaveOutcome = 'sincronizado' | 'pendente' | 'conflito';
+
+// Mensagens para quando o salvamento não chegou ao WordPress na hora
+export const QUEUED_SAVE_MESSAGES: Record<Exclude<SaveOutcome, 'sincronizado'>, string> = {
+  pendente: 'Sem conexão com o WordPress. As alterações foram salvas neste navegador e serão enviadas quando a conexão voltar.',
+  conflito: 'O item foi alterado no WordPress depois que você o abriu. Suas alterações ficaram guardadas neste navegador; resolva o conflito na lista.',
+};
+
+export interface QueuedSaveRequest {
+  postType: string;
+  itemId: number | null;
+  title: string;
+  data: Partial<WordPressPost>;
+  mediaFile: File | null;
+  baseModified: string | null;
+  draftId?: string | null;
+  headlineChoiceId?: string | null;
+  seo?: { plugin: SeoPlugin; values: SeoPluginMeta } | null;
+}
+
+// Meta gravado nos itens criados pela fila, com a chave da entrada. O site registra o campo
+// com show_in_rest para que a fila encontre um item criado numa tentativa cuja resposta se perdeu.
+export const OFFLINE_KEY_META = '_offline_key';
+
+// Margem para diferenças entre o relógio do navegador e o do servidor na busca do item criado
+const CREATE_LOOKUP_MARGIN_MS = 60 * 60 * 1000;
+
+class SyncConflictError extends Error {
+  constructor() {
+    super('O item foi alterado no WordPress por outra pessoa desde que foi aberto.');
+    this.name = 'SyncConflictError';
+  }
+}
+
+const getEntry = (key: string) => runRequest<OfflineSave | undefined>(OFFLINE_QUEUE_STORE, 'readonly', store => store.get(key));
+const putEntry = (entry: OfflineSave) => runRequest(OFFLINE_QUEUE_STORE, 'readwrite', store => store.put(entry));
+const deleteEntry = (key: string) => runRequest(OFFLINE_QUEUE_STORE, 'readwrite', store => store.delete(key));
+const getAllEntries = () => runRequest<OfflineSave[]>(OFFLINE_QUEUE_STORE, 'readonly', store => store.getAll());
+
+type QueueListener = (entries: OfflineSave[]) => void;
+const listeners = new Set<QueueListener>();
+// Chaves sendo enviadas agora; evita que o salvamento do editor e a sincronização automática enviem o mesmo item
+const inFlight = new Set<string>();
+
+const notify = async () => {
+  if (listeners.size === 0) return;
+  try {
+    const entries = await getAllEntries();
+    listeners.forEach(listener => listener(entries));
+  } catch (error) {
+    console.error('Erro ao ler a fila offline:', error);
+  }
+};
+
+const updateEntry = async (entry: OfflineSave, changes: Partial<OfflineSave>): Promise<OfflineSave> => {
+  const updated = { ...entry, ...changes, updatedAt: new Date().toISOString() };
+  await putEntry(updated);
+  await notify();
+  return updated;
+};
+
+const hasCredentials = (credentials: WordPressCredentials) =>
+  Boolean(credentials.siteUrl && credentials.username && credentials.applicationPassword);
+
+// Item criado numa tentativa anterior cuja resposta não chegou (a conexão caiu depois do envio).
+// null quando com certeza não foi criado; sem como confirmar, a entrada vai para erro em vez de
+// criar um item duplicado.
+const findCreatedItem = async (credentials: WordPressCredentials, entry: OfflineSave): Promise<WordPressPost | null> => {
+  const since = new Date(new Date(entry.createSentAt!).getTime() - CREATE_LOOKUP_MARGIN_MS).toISOString();
+  const { posts, totalItems } = await getCPTItemsModifiedSince(credentials, entry.postType, since);
+  const created = posts.find(post => post.meta?.[OFFLINE_KEY_META] === entry.key);
+  // A busca traz só alguns campos; o item completo vai para o histórico de revisões
+  if (created) return getCPTItemById(credentials, entry.postType, created.id);
+  if (totalItems === 0) return null;
+  const metaExposed = posts.some(post => post.meta && OFFLINE_KEY_META in post.meta);
+  if (metaExposed && posts.length >= totalItems) return null;
+  throw new Error('A conexão caiu enquanto o item era criado e não foi possível confirmar se ele chegou ao WordPress. Confira a lista de itens antes de tentar de novo.');
+};
+
+// Envia um item da fila; o vínculo com a biblioteca de rascunhos e com o título escolhido
+// acontece aqui porque o post pode ser criado bem depois de o editor ter sido fechado
+const pushEntry = async (credentials: WordPressCredentials, entry: OfflineSave, force: boolean): Promise<WordPressPost> => {
+  let current = await updateEntry(entry, { status: 'sincronizando', error: null });
+
+  if (current.itemId && current.baseModified && !force) {
+    const serverItem = await getCPTItemById(credentials, current.postType, current.itemId);
+    if (serverItem.modified_gmt && serverItem.modified_gmt !== current.baseModified) {
+      throw new SyncConflictError();
+    }
+  }
+
+  // A imagem sobe antes e a fila guarda o id, para não enviá-la de novo se o item falhar
+  if (current.mediaFile) {
+    const uploadedMedia = await uploadMedia(credentials, current.mediaFile);
+    current = await updateEntry(current, { mediaFile: null, data: { ...current.data, featured_media: uploadedMedia.id } });
+  }
+
+  const data = current.seo
+    ? { ...current.data, meta: { ...current.data.meta, ...seoPluginService.payloadMeta(current.seo.plugin, current.seo.values) } }
+    : current.data;
+  // Só os campos do editor: os do plugin de SEO têm gravação própria e podem ser protegidos
+  const savedMetaKeys = Object.keys(current.data.meta ?? {});
+  // O item já foi salvo; uma falha aqui não pode fazê-lo voltar para a fila e ser criado de novo
+  const saveSeo = async (post: WordPressPost) => {
+    if (!current.seo) return;
+    try {
+      await seoPluginService.afterSave(credentials, current.seo.plugin, post, current.seo.values);
+    } catch (error) {
+      console.error('Erro ao gravar os dados de SEO no plugin:', error);
+    }
+  };
+
+  if (current.itemId) {
+    const updatedItem = await updateCPTItem(credentials, current.postType, current.itemId, data);
+    await saveSeo(updatedItem);
+    await draftLibraryService.syncPublished(credentials.siteUrl, current.postType, updatedItem);
+    await revisionHistory.recordSnapshot(current.postType, updatedItem, savedMetaKeys);
+    return updatedItem;
+  }
+
+  // Com force, o usuário já confirmou que o item da tentativa anterior não está no WordPress
+  let newItem = current.createSentAt && !force ? await findCreatedItem(credentials, current) : null;
+  if (!newItem) {
+    // Marcado antes do envio: se a resposta se perder, a próxima tentativa procura o item antes de criar outro
+    current = await updateEntry(current, { createSentAt: new Date().toISOString() });
+    try {
+      newItem = await createCPTItem(credentials, current.postType, { ...data, meta: { ...data.meta, [OFFLINE_KEY_META]: current.key } });
+    } catch (error) {
+      // O WordPress respondeu com erro, então nada foi criado
+      if (!(error instanceof WordPressConnectionError)) await updateEntry(current, { createSentAt: null });
+      throw error;
+    }
+  }
+  await saveSeo(newItem);
+  await revisionHistory.recordSnapshot(current.postType, newItem, savedMetaKeys);
+  if (current.draftId) {
+    await draftLibraryService.attachPost(current.draftId, credentials.siteUrl, current.postType, newItem);
+  }
+  if (current.headlineChoiceId) {
+    await headlineVariantService.attachPost(current.headlineChoiceId, current.postType, newItem.id);
+  }
+  return newItem;
+};
+
+// Conexão caída volta para pendente; conflito e erro da API esperam uma ação do usuário
+const syncEntry = async (credentials: WordPressCredentials, entry: OfflineSave, force = false): Promise<SaveOutcome> => {
+  if (inFlight.has(entry.key)) return 'pendente';
+  inFlight.add(entry.key);
+  try {
+    await pushEntry(credentials, entry, force);
+    await deleteEntry(entry.key);
+    await notify();
+    return 'sincronizado';
+  } catch (error: any) {
+    // Relê a entrada: o envio da imagem pode tê-la atualizado antes da falha
+    const latest = (await getEntry(entry.key)) ?? entry;
+    if (error instanceof WordPressConnectionError) {
+      await updateEntry(latest, { status: 'pendente', error: error.message });
+      return 'pendente';
+    }
+    if (error instanceof SyncConflictError) {
+      await updateEntry(latest, { status: 'conflito', error: error.message });
+      return 'conflito';
+    }
+    console.error(`Erro ao sincronizar ${entry.key} com o WordPress:`, error);
+    await updateEntry(latest, { status: 'erro', error: error.message || 'Falha ao enviar ao WordPress.' });
+    throw error;
+  } finally {
+    inFlight.delete(entry.key);
+  }
+};
+
+export const offlineQueue = {
+  // Grava na fila e tenta enviar em seguida. Erros da API (validação, permissão) são
+  // repassados ao editor e a entrada sai da fila, como acontecia antes do modo offline.
+  async save(credentials: WordPressCredentials, request: QueuedSaveRequest): Promise<SaveOutcome> {
+    const key = request.itemId
+      ? `${request.postType}:${request.itemId}`
+      : `${request.postType}:local-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const existing = request.itemId ? await getEntry(key) : undefined;
+
+    const entry: OfflineSave = {
+      key,
+      postType: request.postType,
+      itemId: request.itemId,
+      title: request.title,
+      data: request.data,
+      // Salvar de novo sem trocar a imagem mantém a que ainda não foi enviada
+      mediaFile: request.mediaFile ?? existing?.mediaFile ?? null,
+      // A comparação continua sendo com a versão que existia antes da primeira edição offline
+      baseModified: existing?.baseModified ?? request.baseModified,
+      draftId: request.draftId ?? null,
+      headlineChoiceId: request.headlineChoiceId ?? null,
+      seo: request.seo ?? null,
+      status: 'pendente',
+      error: null,
+      updatedAt: new Date().toISOString(),
+    };
+    // Imagem que já subiu numa tentativa anterior, antes de o item falhar
+    if (!entry.mediaFile && existing?.data.featured_media !== undefined && entry.data.featured_media === undefined) {
+      entry.data = { ...entry.data, featured_media: existing.data.featured_media };
+    }
+    await putEntry(entry);
+    await notify();
+
+    if (!navigator.onLine || !hasCredentials(credentials)) return 'pendente';
+
+    try {
+      return await syncEntry(credentials, entry);
+    } catch (error) {
+      await deleteEntry(key);
+      await notify();
+      throw error;
+    }
+  },
+
+  async list(): Promise<OfflineSave[]> {
+    return getAllEntries();
+  },
+
+  // Envia tudo o que está pendente; erros e conflitos ficam para o usuário resolver
+  async syncAll(credentials: WordPressCredentials): Promise<number> {
+    if (!navigator.onLine || !hasCredentials(credentials)) return 0;
+    const entries = await getAllEntries();
+    let synced = 0;
+    for (const entry of entries) {
+      // 'sincronizando' que sobrou de uma aba fechada no meio do envio volta a ser tentado
+      if (entry.status !== 'pendente' && !(entry.status === 'sincronizando' && !inFlight.has(entry.key))) continue;
+      try {
+        if (await syncEntry(credentials, entry) === 'sincronizado') synced++;
+      } catch {
+        // Já registrado na entrada com status 'erro'
+      }
+    }
+    return synced;
+  },
+
+  async retry(credentials: WordPressCredentials, key: string): Promise<SaveOutcome> {
+    const entry = await getEntry(key);
+    if (!entry) return 'sincronizado';
+    return syncEntry(credentials, entry);
+  },
+
+  // Resolve o conflito mantendo a versão local por cima da do servidor, ou cria de novo um item
+  // que o usuário confirmou não ter chegado ao WordPress
+  async overwrite(credentials: WordPressCredentials, key: string): Promise<SaveOutcome> {
+    const entry = await getEntry(key);
+    if (!entry) return 'sincronizado';
+    return syncEntry(credentials, entry, true);
+  },
+
+  async discard(key: string): Promise<void> {
+    await deleteEntry(key);
+    await notify();
+  },
+
+  subscribe(listener: QueueListener): () => void {
+    listeners.add(listener);
+    getAllEntries()
+      .then(entries => listener(entries))
+      .catch(error => console.error('Erro ao ler a fila offline:', error));
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  // Sincroniza ao abrir o app e sempre que o navegador volta a ficar online
+  startAutoSync(credentials: WordPressCredentials): () => void {
+    const run = () => {
+      offlineQueue.syncAll(credentials).catch(error => console.error('Erro na sincronização automática:', error));
+    };
+    run();
+    window.addEventListener('online', run);
+    return () => window.removeEventListener('online', run);
+  },
+};
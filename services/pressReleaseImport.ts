@@ -0,0 +1,293 @@
+import { supabase } from './supabase';
+import { AttachmentImage, ImportedPressRelease } from '../types';
+import { MIN_IMAGE_BYTES, binaryString, documentKind, extractDocument, imageTypeOf, tidyText, toDataUrl } from './documentExtraction';
+import { normalize } from './factChecker';
+
+export const PRESS_RELEASE_ACCEPT = '.eml,.mbox,.pdf,.docx,.odt,message/rfc822,application/mbox,application/pdf';
+
+// Exportações de caixa postal podem ter milhares de mensagens; só as mais recentes são lidas
+const MAX_MAILBOX_MESSAGES = 50;
+const MAX_FILE_BYTES = 100 * 1024 * 1024;
+
+// Abaixo disso o comunicado provavelmente está numa imagem ou num PDF escaneado
+const MIN_TEXT_LENGTH = 200;
+
+// Corpo e cabeçalhos são mantidos em binário (um caractere por byte) até o charset ser conhecido
+interface MimeEntity {
+  headers: Record<string, string>;
+  body: string;
+}
+
+interface MessageParts {
+  plain: string[];
+  html: string[];
+  files: { name: string; mimeType: string; data: Uint8Array }[];
+}
+
+const bytesFromBinary = (binary: string): Uint8Array => Uint8Array.from(binary, char => char.charCodeAt(0) & 0xff);
+
+const decodeBytes = (bytes: Uint8Array, charset = 'utf-8'): string => {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase() || 'utf-8').decode(bytes);
+  } catch {
+    // Charset desconhecido pelo navegador
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+};
+
+const decodeBase64 = (text: string): string => {
+  const clean = text.replace(/[^A-Za-z0-9+/]/g, '');
+  try {
+    return atob(clean.padEnd(Math.ceil(clean.length / 4) * 4, '='));
+  } catch {
+    return '';
+  }
+};
+
+const decodeQuotedPrintable = (text: string): string =>
+  text.replace(/=\r?\n/g, '').replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+
+// Cabeçalhos em UTF-8 cru (sem =?...?=) também aparecem; Windows-1252 cobre os clientes antigos
+const decodeRawHeader = (binary: string): string => {
+  if (!/[\x80-\xff]/.test(binary)) return binary;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytesFromBinary(binary));
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytesFromBinary(binary));
+  }
+};
+
+// RFC 2047: "=?utf-8?Q?Lan=C3=A7amento?=" -> "Lançamento"; palavras codificadas vizinhas se juntam sem espaço
+const decodeHeader = (value: string): string =>
+  decodeRawHeader(value)
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      const binary = encoding.toUpperCase() === 'B' ? decodeBase64(text) : decodeQuotedPrintable(text.replace(/_/g, ' '));
+      return decodeBytes(bytesFromBinary(binary), charset);
+    })
+    .trim();
+
+function parseEntity(raw: string): MimeEntity {
+  const separator = raw.search(/\r?\n\r?\n/);
+  const headerBlock = separator < 0 ? raw : raw.slice(0, separator);
+  const body = separator < 0 ? '' : raw.slice(separator).replace(/^\r?\n\r?\n/, '');
+  const headers: Record<string, string> = {};
+  for (const line of headerBlock.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // Cabeçalhos repetidos (Received) não interessam; fica o primeiro
+    if (!(name in headers)) headers[name] = line.slice(colon + 1).trim();
+  }
+  return { headers, body };
+}
+
+function headerParam(value: string | undefined, param: string): string | null {
+  if (!value) return null;
+  // RFC 2231: filename*=utf-8''Release%20Festival.pdf
+  const extended = value.match(new RegExp(`;\\s*${param}\\*(?:0\\*)?=([^']*)'[^']*'([^;]+)`, 'i'));
+  if (extended) {
+    const binary = extended[2].trim().replace(/%([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    return decodeBytes(bytesFromBinary(binary), extended[1] || 'utf-8');
+  }
+  const plain = value.match(new RegExp(`;\\s*${param}=(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+  return plain ? decodeHeader(plain[1] ?? plain[2]) : null;
+}
+
+const mediaType = (entity: MimeEntity): string =>
+  (entity.headers['content-type'] || 'text/plain').split(';')[0].trim().toLowerCase();
+
+function decodeBody(entity: MimeEntity): string {
+  const encoding = (entity.headers['content-transfer-encoding'] || '').trim().toLowerCase();
+  if (encoding === 'base64') return decodeBase64(entity.body);
+  if (encoding === 'quoted-printable') return decodeQuotedPrintable(entity.body);
+  return entity.body;
+}
+
+// Partes entre "--boundary" e "--boundary--"; preâmbulo e epílogo são descartados
+function splitMultipart(body: string, boundary: string): string[] {
+  const parts: string[] = [];
+  for (const section of body.split(`--${boundary}`).slice(1)) {
+    if (section.startsWith('--')) break;
+    parts.push(section.replace(/^[ \t]*\r?\n/, '').replace(/\r?\n$/, ''));
+  }
+  return parts;
+}
+
+function collectParts(entity: MimeEntity, parts: MessageParts): void {
+  const type = mediaType(entity);
+  if (type.startsWith('multipart/')) {
+    const boundary = headerParam(entity.headers['content-type'], 'boundary');
+    if (boundary) splitMultipart(entity.body, boundary).forEach(part => collectParts(parseEntity(part), parts));
+    return;
+  }
+  // Comunicado encaminhado como anexo: o texto dele conta como corpo
+  if (type === 'message/rfc822') {
+    collectParts(parseEntity(decodeBody(entity)), parts);
+    return;
+  }
+
+  const disposition = entity.headers['content-disposition'] || '';
+  const name = headerParam(disposition, 'filename') || headerParam(entity.headers['content-type'], 'name');
+  const data = bytesFromBinary(decodeBody(entity));
+  if (!name && !/^attachment/i.test(disposition) && (type === 'text/plain' || type === 'text/html')) {
+    const text = decodeBytes(data, headerParam(entity.headers['content-type'], 'charset') || 'utf-8');
+    (type === 'text/plain' ? parts.plain : parts.html).push(text);
+    return;
+  }
+  parts.files.push({ name: name || 'anexo', mimeType: type, data });
+}
+
+const htmlToText = (html: string): string => {
+  const withBreaks = html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(p|div|h[1-6]|li|tr)>/gi, '$&\n');
+  const doc = new DOMParser().parseFromString(withBreaks, 'text/html');
+  doc.querySelectorAll('script, style').forEach(element => element.remove());
+  return doc.body.textContent || '';
+};
+
+// "Fwd: RES: Lançamento" -> "Lançamento"
+const cleanSubject = (subject: string): string => subject.replace(/^((fwd?|enc|res?|tr|rv)\s*:\s*)+/i, '').trim();
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+async function buildRelease(release: Omit<ImportedPressRelease, 'fingerprints' | 'warnings'>, messageId: string | null, warnings: string[]): Promise<ImportedPressRelease> {
+  if (release.text.length < MIN_TEXT_LENGTH) {
+    warnings.push('Pouco texto encontrado. Se o comunicado estiver em imagem ou em PDF escaneado, cole o texto manualmente.');
+  }
+  // Reenvios e encaminhamentos ganham outro Message-ID; o hash do texto cobre esse caso
+  const fingerprints = [`texto:${await sha256(normalize(release.text))}`];
+  if (messageId) fingerprints.push(`msgid:${messageId}`);
+  return { ...release, fingerprints, warnings };
+}
+
+async function releaseFromMessage(raw: string, fileName: string): Promise<ImportedPressRelease> {
+  const entity = parseEntity(raw);
+  const parts: MessageParts = { plain: [], html: [], files: [] };
+  collectParts(entity, parts);
+
+  // Na versão alternativa em HTML o texto é o mesmo do texto puro
+  const sections = [parts.plain.length > 0 ? parts.plain.join('\n\n') : parts.html.map(htmlToText).join('\n\n')];
+  const images: AttachmentImage[] = [];
+  const attachments: string[] = [];
+  const warnings: string[] = [];
+
+  for (const file of parts.files) {
+    const kind = documentKind(file.name, file.mimeType);
+    const imageType = imageTypeOf(file.name, file.mimeType);
+    if (kind) {
+      try {
+        const extracted = await extractDocument(kind, file.data);
+        if (extracted.text) sections.push(`--- Anexo: ${file.name} ---\n${extracted.text}`);
+        images.push(...extracted.images);
+        attachments.push(file.name);
+      } catch (error) {
+        console.error(`Erro ao ler o anexo ${file.name}:`, error);
+        warnings.push(`Não foi possível ler o anexo "${file.name}".`);
+      }
+    } else if (imageType && file.data.length >= MIN_IMAGE_BYTES) {
+      images.push({ name: file.name, dataUrl: await toDataUrl(file.data, imageType) });
+    }
+  }
+
+  const date = new Date(entity.headers['date'] || '');
+  return buildRelease({
+    fileName,
+    subject: cleanSubject(decodeHeader(entity.headers['subject'] || '')) || '(sem assunto)',
+    sender: decodeHeader(entity.headers['from'] || ''),
+    date: isNaN(date.getTime()) ? null : date.toISOString(),
+    text: tidyText(sections.filter(Boolean).join('\n\n')),
+    images,
+    attachments,
+  }, entity.headers['message-id']?.trim() || null, warnings);
+}
+
+// mbox: cada mensagem começa numa linha "From "; no corpo, essas linhas vêm escapadas como ">From "
+const splitMailbox = (content: string): string[] =>
+  content
+    .split(/^From .*\r?\n/m)
+    .filter(message => message.trim())
+    .map(message => message.replace(/^>(>*From )/gm, '$1'));
+
+// Lê um .eml, .mbox ou documento; caixas postais trazem as mensagens mais recentes primeiro
+export async function importPressReleaseFile(file: File): Promise<{ releases: ImportedPressRelease[]; skipped: number }> {
+  if (file.size > MAX_FILE_BYTES) {
+    throw new Error('Arquivo muito grande. Exporte apenas a pasta ou etiqueta com os comunicados.');
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  const kind = documentKind(file.name, file.type);
+  if (kind) {
+    const extracted = await extractDocument(kind, bytes);
+    const release = await buildRelease({
+      fileName: file.name,
+      subject: file.name.replace(/\.[^.]+$/, ''),
+      sender: '',
+      date: null,
+      text: extracted.text,
+      images: extracted.images,
+      attachments: [file.name],
+    }, null, []);
+    return { releases: [release], skipped: 0 };
+  }
+
+  if (!/\.(eml|mbox)$/i.test(file.name) && !['message/rfc822', 'application/mbox'].includes(file.type)) {
+    throw new Error('Formato não suportado. Use arquivos .eml, .mbox, PDF, DOCX ou ODT.');
+  }
+
+  const content = binaryString(bytes);
+  const messages = content.startsWith('From ') ? splitMailbox(content) : [content];
+  const recent = messages.slice(-MAX_MAILBOX_MESSAGES).reverse();
+  const releases: ImportedPressRelease[] = [];
+  for (const message of recent) {
+    releases.push(await releaseFromMessage(message, file.name));
+  }
+  return { releases, skipped: messages.length - recent.length };
+}
+
+// Título e corpo que seguem para a geração da notícia, com o remetente como contexto
+export const pressReleaseInput = (release: ImportedPressRelease): string =>
+  [
+    `Assunto: ${release.subject}`,
+    ...(release.sender ? [`Enviado por: ${release.sender}`] : []),
+    '',
+    release.text,
+  ].join('\n');
+
+export const pressReleaseHistoryService = {
+  // Registro anterior do mesmo comunicado (pelo hash do texto ou pelo Message-ID), na equipe ou do usuário
+  async findProcessed(release: ImportedPressRelease): Promise<{ subject: string; created_at: string } | null> {
+    const { data, error } = await supabase
+      .from('processed_press_releases')
+      .select('subject, created_at')
+      .overlaps('fingerprints', release.fingerprints)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      console.error('Erro ao verificar comunicados já processados:', error);
+      return null;
+    }
+    return data[0] ?? null;
+  },
+
+  // Chamado quando o comunicado vira rascunho; falhas não impedem a geração
+  async markProcessed(release: ImportedPressRelease, userId: string, teamId: string | null): Promise<void> {
+    const { error } = await supabase
+      .from('processed_press_releases')
+      .insert({
+        user_id: userId,
+        team_id: teamId,
+        fingerprints: release.fingerprints,
+        subject: release.subject,
+        sender: release.sender || null,
+        file_name: release.fileName,
+      });
+
+    if (error) {
+      console.error('Erro ao registrar o comunicado processado:', error);
+    }
+  },
+};
@@ -0,0 +1,176 @@
+import { supabase } from './supabase';
+import { PromptRef, PromptSource, PromptTemplate, PromptTemplateId, PromptTemplateOverride, SchemaNode } from '../types';
+import { DEFAULT_PROMPT_TEMPLATES } from './promptTemplates';
+
+// Template efetivo: o padrão ou a versão ativa da equipe
+export interface ResolvedPromptTemplate extends PromptTemplate {
+  source: PromptSource;
+  baseVersion: number; // Versão do padrão em que a personalização foi baseada
+}
+
+export interface RenderedPrompt {
+  text: string;
+  outputSchema: SchemaNode | null;
+  maxOutputTokens?: number;
+  ref: PromptRef;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+let activeTeamId: string | null = null;
+let teamOverrides = new Map<PromptTemplateId, PromptTemplateOverride>();
+
+export function getTemplatePlaceholders(body: string): string[] {
+  return Array.from(new Set(Array.from(body.matchAll(PLACEHOLDER_PATTERN), match => match[1])));
+}
+
+// Problemas que impedem salvar uma personalização: variáveis obrigatórias ausentes ou desconhecidas
+export function validateTemplateBody(templateId: PromptTemplateId, body: string): string[] {
+  const expected = DEFAULT_PROMPT_TEMPLATES[templateId].variables.map(v => v.name);
+  const used = getTemplatePlaceholders(body);
+  return [
+    ...expected.filter(name => !used.includes(name)).map(name => `A variável {{${name}}} não aparece no template.`),
+    ...used.filter(name => !expected.includes(name)).map(name => `A variável {{${name}}} não existe neste template.`)
+  ];
+}
+
+export function renderTemplateBody(body: string, variables: Record<string, string>): string {
+  return body.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Variável ${placeholder} sem valor ao montar o prompt.`);
+    }
+    return variables[name];
+  });
+}
+
+const resolveTemplate = (templateId: PromptTemplateId): ResolvedPromptTemplate => {
+  const template = DEFAULT_PROMPT_TEMPLATES[templateId];
+  const override = teamOverrides.get(templateId);
+  if (!override) {
+    return { ...template, source: 'padrao', baseVersion: template.version };
+  }
+  return { ...template, body: override.body, version: override.version, source: 'equipe', baseVersion: override.base_version };
+};
+
+export const promptRegistry = {
+  // Carrega as versões ativas da equipe; sem equipe (ou em caso de erro) valem os padrões
+  async loadTeamOverrides(teamId: string | null): Promise<void> {
+    activeTeamId = teamId;
+    teamOverrides = new Map();
+    if (!teamId) return;
+
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select('*')
+      .eq('team_id', teamId)
+      .eq('is_active', true);
+
+    if (error) {
+      console.error('Erro ao carregar prompts da equipe:', error);
+      return;
+    }
+    if (activeTeamId !== teamId) return; // Outra equipe foi carregada enquanto esperávamos
+
+    (data as PromptTemplateOverride[] || []).forEach(override => teamOverrides.set(override.template_id, override));
+  },
+
+  getTemplate(templateId: PromptTemplateId): ResolvedPromptTemplate {
+    return resolveTemplate(templateId);
+  },
+
+  listTemplates(): ResolvedPromptTemplate[] {
+    return (Object.keys(DEFAULT_PROMPT_TEMPLATES) as PromptTemplateId[]).map(resolveTemplate);
+  },
+
+  render(templateId: PromptTemplateId, variables: Record<string, string>): RenderedPrompt {
+    const template = resolveTemplate(templateId);
+    return {
+      text: renderTemplateBody(template.body, variables),
+      outputSchema: template.outputSchema,
+      maxOutputTokens: template.maxOutputTokens,
+      ref: { templateId, version: template.version, source: template.source }
+    };
+  },
+
+  async getVersionHistory(teamId: string, templateId: PromptTemplateId): Promise<PromptTemplateOverride[]> {
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select('*')
+      .eq('team_id', teamId)
+      .eq('template_id', templateId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Erro ao buscar histórico do prompt:', error);
+      throw new Error('Falha ao carregar o histórico de versões do prompt.');
+    }
+    return data || [];
+  },
+
+  // Cada alteração vira uma nova versão ativa; as anteriores ficam no histórico
+  async saveOverride(teamId: string, templateId: PromptTemplateId, body: string, userId: string): Promise<PromptTemplateOverride> {
+    const problems = validateTemplateBody(templateId, body);
+    if (problems.length > 0) {
+      throw new Error(problems.join(' '));
+    }
+
+    const history = await this.getVersionHistory(teamId, templateId);
+    const defaultVersion = DEFAULT_PROMPT_TEMPLATES[templateId].version;
+    // Versões da equipe continuam a numeração do padrão para nunca repetirem um número já usado
+    const nextVersion = Math.max(defaultVersion, ...history.map(o => o.version)) + 1;
+
+    // A troca da versão ativa acontece numa transação: se a nova falhar, a anterior continua ativa
+    const { data, error } = await supabase.rpc('save_prompt_template_version', {
+      p_team_id: teamId,
+      p_template_id: templateId,
+      p_version: nextVersion,
+      p_base_version: defaultVersion,
+      p_body: body,
+      p_created_by: userId
+    });
+
+    if (error) {
+      console.error('Erro ao salvar prompt da equipe:', error);
+      throw new Error('Falha ao salvar a nova versão do prompt.');
+    }
+
+    if (teamId === activeTeamId) teamOverrides.set(templateId, data);
+    return data;
+  },
+
+  // Reativa uma versão anterior da equipe sem criar uma nova
+  async activateVersion(teamId: string, templateId: PromptTemplateId, version: number): Promise<void> {
+    const { data, error } = await supabase.rpc('activate_prompt_template_version', {
+      p_team_id: teamId,
+      p_template_id: templateId,
+      p_version: version
+    });
+
+    if (error) {
+      console.error('Erro ao reativar versão do prompt:', error);
+      throw new Error(`Falha ao reativar a versão ${version} do prompt.`);
+    }
+
+    if (teamId === activeTeamId) teamOverrides.set(templateId, data);
+  },
+
+  // Volta ao template padrão mantendo o histórico da equipe
+  async resetToDefault(teamId: string, templateId: PromptTemplateId): Promise<void> {
+    await this.deactivateOverrides(teamId, templateId);
+    if (teamId === activeTeamId) teamOverrides.delete(templateId);
+  },
+
+  async deactivateOverrides(teamId: string, templateId: PromptTemplateId): Promise<void> {
+    const { error } = await supabase
+      .from('prompt_templates')
+      .update({ is_active: false })
+      .eq('team_id', teamId)
+      .eq('template_id', templateId)
+      .eq('is_active', true);
+
+    if (error) {
+      console.error('Erro ao desativar versões do prompt:', error);
+      throw new Error('Falha ao atualizar as versões do prompt.');
+    }
+  }
+};
@@ -0,0 +1,710 @@
+import { PromptTemplate, PromptTemplateId } from "../types";
+import {
+  extractedFactsSchema,
+  articleDraftSchema,
+  historiaDraftSchema,
+  organizadorDraftSchema,
+  artistaDraftSchema,
+  lugarDraftSchema,
+  placeDetailsDraftSchema,
+  googleEventsSchema,
+  socialContentPackSchema,
+  roundupCopySchema,
+  translatedContentSchema,
+  articleUpdateSchema,
+  headlineVariantSetSchema
+} from "./draftSchemas";
+import { SOCIAL_CHANNEL_LIMITS } from "./socialPack";
+
+// Templates padrão dos prompts da IA. Ao alterar o texto de um template, incremente `version`:
+// a versão fica registrada em cada rascunho gerado e nas personalizações das equipes.
+
+// Textos longos (matéria completa em HTML dentro do JSON) não cabem no limite padrão dos provedores
+const LONG_FORM_MAX_OUTPUT_TOKENS = 4096;
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplate> = {
+  extracao_fatos: {
+    id: 'extracao_fatos',
+    label: 'Extração de fatos do comunicado',
+    version: 1,
+    variables: [
+      { name: 'comunicado', description: 'Texto do comunicado de imprensa', example: 'A Prefeitura do Recife realiza no dia 15 de novembro o Festival Recife Sonoro, no Marco Zero.' }
+    ],
+    outputSchema: extractedFactsSchema,
+    body: `Sua única tarefa é analisar o comunicado de imprensa abaixo e extrair os fatos principais em um formato JSON.
+- NÃO invente informações. Se um fato não estiver claramente declarado, use 'null' como valor.
+- NÃO use conhecimento externo. Baseie-se APENAS no texto fornecido.
+- Extraia nomes de eventos, datas, locais, organizadores e pessoas-chave mencionadas.
+
+**Formato de Saída OBRATÓRIO:**
+A resposta DEVE ser um único objeto JSON formatado como um bloco de código markdown \`\`\`json ... \`\`\`.
+NÃO inclua nenhum texto, explicação ou introdução antes ou depois do bloco JSON.
+
+**Estrutura do Objeto JSON:**
+{
+  "eventName": "string | null",
+  "eventDate": "string | null",
+  "eventLocation": "string | null",
+  "organizers": ["string", ...] | null,
+  "keyPeople": ["string", ...] | null
+}
+
+**Comunicado de Imprensa para Análise:**
+---
+{{comunicado}}
+---`
+  },
+  noticia_comunicado: {
+    id: 'noticia_comunicado',
+    label: 'Notícia a partir de comunicado',
+    version: 1,
+    variables: [
+      { name: 'instrucao_sistema', description: 'Instrução do sistema definida nas preferências de IA', example: 'Você é um jornalista expert e editor de SEO para o portal de notícias \'recifemais.com.br\'.' },
+      { name: 'fatos_verificados', description: 'Fatos extraídos do comunicado (JSON)', example: '{\n  "eventName": "Festival Recife Sonoro",\n  "eventDate": "2025-11-15"\n}' },
+      { name: 'comunicado', description: 'Texto do comunicado de imprensa', example: 'A Prefeitura do Recife realiza no dia 15 de novembro o Festival Recife Sonoro, no Marco Zero.' }
+    ],
+    outputSchema: articleDraftSchema,
+    maxOutputTokens: LONG_FORM_MAX_OUTPUT_TOKENS,
+    body: `{{instrucao_sistema}}
+
+**Tarefa Principal:** Atue como um estrategista de conteúdo e especialista em SEO. Transforme o comunicado de imprensa fornecido em uma notícia completa, engajadora e 100% otimizada para SEO.
+
+**VERIFICAÇÃO DE FATOS OBRATÓRIA:**
+Use os "Fatos Verificados" abaixo como a ÚNICA fonte de verdade para detalhes críticos (nome do evento, data, local). NÃO contradiga estas informações.
+Use a pesquisa web para ENRIQUECER o artigo com contexto, mas NÃO para substituir os fatos principais.
+
+**Fatos Verificados (Fonte da Verdade):**
+\`\`\`json
+{{fatos_verificados}}
+\`\`\`
+
+**Regras de Otimização (SEO - Rank Math Style):**
+1.  **Palavra-chave de Foco:** Analise o comunicado e determine a palavra-chave de foco mais relevante.
+2.  **Título (Title):** Deve conter a palavra-chave de foco (preferencialmente no início), ter 50-60 caracteres e um número.
+3.  **Corpo do Artigo (Article Body):** Deve ter mais de 600 palavras, com a palavra-chave posicionada no primeiro parágrafo e em pelo menos um subtítulo (tag \`<h2>\` ou \`<h3>\`).
+4.  **Meta Description (SEO Description):** 120-155 caracteres com a palavra-chave.
+5.  **Imagem (Alt Text):** Crie um texto alternativo descritivo que DEVE conter a palavra-chave de foco.
+6.  **Taxonomia:** Sugira UMA categoria principal e 3 a 5 tags.
+7. **Detecção de Evento (Opcional):** Se o comunicado for sobre um evento, extraia as informações (baseando-se nos Fatos Verificados).
+
+**Regras de Estilo e Qualidade de Escrita:**
+1.  **Fluidez e Legibilidade:** O texto DEVE ser fluído e de fácil leitura. Use parágrafos curtos (máximo 3-4 frases) para otimizar a experiência em telas de celular.
+2.  **Citações e Fontes:** É PROIBIDO incluir citações numéricas no corpo do texto (como \`[1]\`, \`[2, 5]\`, etc.). Se precisar referenciar uma fonte externa da sua pesquisa web, faça-o de forma natural, inserindo um hiperlink (\`<a href="..." target="_blank">texto âncora</a>\`) diretamente no texto.
+
+**Formato de Saída OBRATÓRIO:**
+A resposta DEVE ser um único objeto JSON formatado como um bloco de código markdown \`\`\`json ... \`\`\`.
+NÃO inclua nenhum texto antes ou depois do bloco JSON.
+
+**Estrutura do Objeto JSON:**
+{
+  "title": "string (Otimizado)",
+  "summary": "string (Resumo conciso)",
+  "importance": "'Alta' | 'Média' | 'Baixa'",
+  "category": "string (Apenas UMA)",
+  "subcategory": "string",
+  "tags": ["string", ...],
+  "seo_description": "string (Otimizado)",
+  "article_body_html": "string (HTML, >600 palavras)",
+  "focus_keyword": "string",
+  "suggested_alt_text": "string (Com palavra-chave)",
+  "event_details": { "name": "string", "date": "string", "location": "string" } | null
+}
+
+**Comunicado de Imprensa para Análise:**
+---
+{{comunicado}}
+---`
+  },
+  noticia_dados_coletados: {
+    id: 'noticia_dados_coletados',
+    label: 'Notícia a partir de página de ingressos',
+    version: 1,
+    variables: [
+      { name: 'instrucao_sistema', description: 'Instrução do sistema definida nas preferências de IA', example: 'Você é um jornalista expert e editor de SEO para o portal de notícias \'recifemais.com.br\'.' },
+      { name: 'dados_coletados', description: 'Dados extraídos da página (JSON)', example: '{\n  "title": "Festival Recife Sonoro",\n  "sourceUrl": "https://exemplo.com.br/eventos/recife-sonoro"\n}' }
+    ],
+    outputSchema: articleDraftSchema,
+    maxOutputTokens: LONG_FORM_MAX_OUTPUT_TOKENS,
+    body: `{{instrucao_sistema}}
+
+**Tarefa Principal:** Atue como um jornalista local e especialista em SEO. As informações abaixo foram extraídas de uma página de venda de ingressos. Transforme esses dados brutos em uma notícia de evento completa, engajadora e otimizada para o portal 'recifemais.com.br'.
+
+**Dados Extraídos (Fonte Principal):**
+---
+{{dados_coletados}}
+---
+
+**Processo de Escrita e Enriquecimento:**
+1.  **Use os Dados Fornecidos:** Os dados extraídos são a sua fonte principal. Use o título, data, local e descrição como base.
+2.  **Tom Jornalístico:** Reescreva a descrição. Páginas de venda de ingressos são promocionais. Seu texto deve ser informativo e jornalístico. Remova frases como "compre seu ingresso" ou "garanta sua vaga".
+3.  **Pesquisa Web para Contexto:** Use a pesquisa web para enriquecer o artigo. Pesquise sobre o artista, o local do evento ou edições passadas para adicionar mais detalhes e contexto.
+4.  **Complete as Informações:** Se os dados extraídos forem incompletos (ex: sem hora), use a pesquisa para tentar encontrar essa informação.
+
+**Regras de Otimização (SEO) e Estilo (Idênticas à geração de press release):**
+- Palavra-chave de Foco, Título, Corpo do Artigo (>600 palavras), Meta Description, Alt Text, Taxonomia, etc.
+- O corpo do artigo deve ser em HTML, com parágrafos curtos e subtítulos.
+- É PROIBIDO incluir citações numéricas como [1]. Integre fontes com links <a>.
+
+**Formato de Saída OBRATÓRIO (JSON):**
+A resposta DEVE ser um único objeto JSON formatado como um bloco de código markdown \`\`\`json ... \`\`\`.
+NÃO inclua nenhum texto antes ou depois do bloco JSON.
+
+**Estrutura do Objeto JSON:**
+{
+  "title": "string (Otimizado)",
+  "summary": "string (Resumo conciso)",
+  "importance": "'Alta' | 'Média' | 'Baixa'",
+  "category": "string (Use 'Agenda' ou similar)",
+  "subcategory": "string",
+  "tags": ["string", ...],
+  "seo_description": "string (Otimizado)",
+  "article_body_html": "string (HTML, >600 palavras)",
+  "focus_keyword": "string",
+  "suggested_alt_text": "string (Com palavra-chave)",
+  "event_details": { "name": "string", "date": "string", "location": "string" }
+}`
+  },
+  noticia_rede_social: {
+    id: 'noticia_rede_social',
+    label: 'Notícia a partir de post de rede social',
+    version: 1,
+    variables: [
+      { name: 'instrucao_sistema', description: 'Instrução do sistema definida nas preferências de IA', example: 'Você é um jornalista expert e editor de SEO para o portal de notícias \'recifemais.com.br\'.' },
+      { name: 'texto_post', description: 'Texto extraído da postagem', example: 'Vem aí o Festival Recife Sonoro! Dia 15/11 no Marco Zero. #RecifeSonoro' }
+    ],
+    outputSchema: articleDraftSchema,
+    maxOutputTokens: LONG_FORM_MAX_OUTPUT_TOKENS,
+    body: `{{instrucao_sistema}}
+
+**Tarefa Principal:** Atue como um estrategista de conteúdo e especialista em SEO. O texto abaixo foi extraído de uma postagem de rede social. Transforme-o em uma notícia completa, engajadora e otimizada para SEO para o portal 'recifemais.com.br'.
+
+**Texto Extraído da Rede Social (Fonte Principal):**
+---
+{{texto_post}}
+---
+
+**Processo de Escrita e Enriquecimento:**
+1.  **Análise do Texto:** Use o "Texto Extraído" como a fonte principal de informação.
+2.  **Pesquisa Web para Contexto:** Use a pesquisa na web para enriquecer o artigo. Pesquise sobre as pessoas, lugares ou eventos mencionados para adicionar contexto, informações de fundo e explicar a relevância da postagem. NÃO use a pesquisa para substituir as informações do texto original.
+3.  **Busca de Imagem:** Sugira 2 a 3 termos de busca para encontrar uma imagem de alta qualidade no Google Images. Priorize buscas que incluam o domínio 'recifemais.com.br' (ex: "Evento X recifemais.com.br").
+
+**Regras de Otimização (SEO) e Estilo (Idênticas à geração de press release):**
+- Palavra-chave de Foco, Título, Corpo do Artigo (>600 palavras), Meta Description, Alt Text, Taxonomia, etc.
+- Use parágrafos curtos.
+- É PROIBIDO incluir citações numéricas como [1]. Integre fontes com links <a>.
+
+**Formato de Saída OBRATÓRIO (JSON):**
+A resposta DEVE ser um único objeto JSON formatado como um bloco de código markdown \`\`\`json ... \`\`\`.
+NÃO inclua nenhum texto antes ou depois do bloco JSON.
+
+**Estrutura do Objeto JSON:**
+{
+  "title": "string (Otimizado)",
+  "summary": "string (Resumo conciso)",
+  "importance": "'Alta' | 'Média' | 'Baixa'",
+  "category": "string (Apenas UMA)",
+  "subcategory": "string",
+  "tags": ["string", ...],
+  "seo_description": "string (Otimizado)",
+  "article_body_html": "string (HTML, >600 palavras)",
+  "focus_keyword": "string",
+  "suggested_alt_text": "string (Com palavra-chave)",
+  "event_details": { "name": "string", "date": "string", "location": "string" } | null,
+  "suggested_image_searches": ["string", ...]
+}`
+  },
+  extracao_url: {
+    id: 'extracao_url',
+    label: 'Extração de texto de URL',
+    version: 1,
+    variables: [
+      { name: 'url', description: 'Endereço da postagem', example: 'https://www.instagram.com/p/exemplo/' }
+    ],
+    outputSchema: null,
+    body: `Sua tarefa é agir como um extrator de conteúdo web. Acesse a URL a seguir e extraia o conteúdo de texto principal da postagem da rede social, como a legenda ou descrição.
+
+URL: {{url}}
+
+**Regras de Saída:**
+- Retorne APENAS o texto bruto e não formatado da descrição da postagem.
+- NÃO adicione nenhuma explicação, introdução ou formatação.
+- NÃO resuma. Forneça o texto completo.
+- Se não conseguir acessar o conteúdo ou encontrar uma descrição, retorne o texto "ERRO: CONTEUDO_NAO_ENCONTRADO".`
+  },
+  historia: {
+    id: 'historia',
+    label: 'História a partir de tópico',
+    version: 1,
+    variables: [
+      { name: 'instrucao_sistema', description: 'Instrução do sistema (com "notícia" trocada por "história")', example: 'Você é um jornalista expert e editor de SEO para o portal de notícias \'recifemais.com.br\'.' },
+      { name: 'topico', description: 'Tópico da história', example: 'A história da Rua da Aurora' }
+    ],
+    outputSchema: historiaDraftSchema,
+    maxOutputTokens: LONG_FORM_MAX_OUTPUT_TOKENS,
+    body: `{{instrucao_sistema}}
+
+**Tarefa Principal:** Atue como um contador de histórias e estrategista de conteúdo. Pesquise na web sobre o tópico fornecido e escreva uma "história" longa, detalhada e envolvente. O estilo deve ser mais narrativo e menos factual que uma notícia.
+
+**Tópico para a História:** "{{topico}}"
+
+**Regras de SEO e Estrutura:**
+1.  **Título (Title):** Crie um título cativante que inclua o tópico principal.
+2.  **Corpo do Artigo (Article Body):** Deve ter mais de 800 palavras, dividido em seções com subtítulos (<h2>, <h3>). Use uma linguagem rica e descritiva.
+3.  **Meta Description (SEO Description):** 120-155 caracteres que resumem a história e despertam curiosidade.
+4.  **Palavra-chave de Foco:** Use o tópico principal como a palavra-chave de foco.
+5.  **Imagem (Alt Text):** Crie um texto alternativo que descreva uma imagem ideal para a história e inclua a palavra-chave.
+6.  **Taxonomia:** Sugira UMA categoria principal (ex: 'Histórias', 'Cultura', 'Personagens') e 3 a 5 tags relevantes.
+7. **Fontes:** Integre links para fontes externas (\`<a href="...">\`) de forma natural no texto. NÃO use citações como [1].
+
+**Formato de Saída OBRATÓRIO (JSON):**
+\`\`\`json
+{
+  "title": "string",
+  "summary": "string (Um parágrafo de introdução/resumo)",
+  "category": "string",
+  "tags": ["string", ...],
+  "seo_description": "string",
+  "article_body_html": "string (HTML, >800 palavras)",
+  "focus_keyword": "string",
+  "suggested_alt_text": "string"
+}
+\`\`\``
+  },
+  organizador: {
+    id: 'organizador',
+    label: 'Perfil de organizador',
+    version: 1,
+    variables: [
+      { name: 'instrucao_sistema', description: 'Instrução do sistema (com a persona de pesquisador e redator de perfis)', example: 'Você é um pesquisador e redator de perfis para o portal de notícias \'recifemais.com.br\'.' },
+      { name: 'nome_organizacao', description: 'Nome da organização', example: 'Coletivo Manguebit Produções' }
+    ],
+    outputSchema: organizadorDraftSchema,
+    body: `{{instrucao_sistema}}
+
+**Tarefa Principal:** Crie um perfil detalhado e bem escrito para a organização fornecida. Use a pesquisa web para encontrar o site oficial, redes sociais e outras fontes confiáveis.
+
+**Nome da Organização:** "{{nome_organizacao}}"
+
+**Instruções de Extração e Escrita:**
+1.  **Pesquisa:** Encontre o site oficial, endereço físico, telefone de contato principal e perfil do Instagram, se existirem.
+2.  **Descrição:** Escreva uma descrição informativa sobre a organização em HTML (mínimo de 2 parágrafos). Descreva sua missão, história e atividades principais.
+3.  **Dados Estruturados:** Extraia as informações de contato para os campos específicos. Se não encontrar uma informação, use 'null'. NÃO invente dados.
+
+**Formato de Saída OBRATÓRIO (JSON):**
+\`\`\`json
+{
+  "title": "{{nome_organizacao}}",
+  "description_html": "string (HTML com a descrição)",
+  "address": "string | null",
+  "phone": "string | null",
+  "website": "string (URL completa) | null",
+  "instagram": "string (ex: @perfil) | null"
+}
+\`\`\``
+  },
+  artista: {
+    id: 'artista',
+    label: 'Perfil de artista',
+    version: 1,
+    variables: [
+      { name: 'instrucao_sistema', description: 'Instrução do sistema (com a persona de pesquisador e redator de perfis)', example: 'Você é um pesquisador e redator de perfis para o portal de notícias \'recifemais.com.br\'.' },
+      { name: 'nome_artista', description: 'Nome do artista, banda ou coletivo', example: 'Nação Zumbi' }
+    ],
+    outputSchema: artistaDraftSchema,
+    body: `{{instrucao_sistema}}
+
+**Tarefa Principal:** Crie o perfil completo do artista fornecido para o cadastro de artistas do portal. Use a pesquisa web para encontrar o site oficial, redes sociais, entrevistas e outras fontes confiáveis.
+
+**Nome do Artista:** "{{nome_artista}}"
+
+**Instruções de Extração e Escrita:**
+1.  **Biografia:** Escreva uma biografia informativa em HTML (mínimo de 3 parágrafos): origem, trajetória, estilo musical ou artístico, trabalhos de destaque e relação com a cena cultural de Pernambuco, se houver.
+2.  **Tipo de Artista:** Use exatamente um dos valores "Solo", "Banda", "Coletivo" ou "Dupla".
+3.  **Formação e Origem:** 'artista_ano_formacao' é o ano (4 dígitos) de início da carreira ou formação do grupo; 'artista_origem' é a cidade de origem (ex: "Olinda - PE").
+4.  **Contato e Links:** Inclua apenas URLs completas de perfis oficiais em 'redes_sociais' e de vídeos oficiais (YouTube, Vimeo) em 'videos_artistas'. Telefones e e-mail somente se forem de contato público para imprensa ou contratação.
+5.  **Dados Ausentes:** Se não encontrar uma informação, use 'null' (ou lista vazia). NÃO invente dados.
+
+**Formato de Saída OBRATÓRIO (JSON):**
+\`\`\`json
+{
+  "title": "{{nome_artista}}",
+  "biography_html": "string (HTML com a biografia)",
+  "tipo_de_artista": "Solo | Banda | Coletivo | Dupla",
+  "artista_ano_formacao": "string (ex: 1991) | null",
+  "artista_origem": "string | null",
+  "website": "string (URL completa) | null",
+  "email": "string | null",
+  "telefone": ["string", ...],
+  "redes_sociais": ["string (URL completa)", ...],
+  "videos_artistas": ["string (URL completa)", ...]
+}
+\`\`\``
+  },
+  lugar: {
+    id: 'lugar',
+    label: 'Perfil de lugar',
+    version: 1,
+    variables: [
+      { name: 'instrucao_sistema', description: 'Instrução do sistema (com a persona de pesquisador e redator de perfis)', example: 'Você é um pesquisador e redator de perfis para o portal de notícias \'recifemais.com.br\'.' },
+      { name: 'nome_lugar', description: 'Nome do lugar', example: 'Teatro de Santa Isabel' }
+    ],
+    outputSchema: lugarDraftSchema,
+    body: `{{instrucao_sistema}}
+
+**Tarefa Principal:** Crie o perfil completo do lugar fornecido para o guia de lugares do portal. Use a pesquisa web para encontrar o site oficial, redes sociais, mapas e outras fontes confiáveis.
+
+**Nome do Lugar:** "{{nome_lugar}}"
+
+**Instruções de Extração e Escrita:**
+1.  **Descrição:** Escreva uma descrição informativa em HTML (mínimo de 2 parágrafos): o que é o lugar, história, o que o visitante encontra e por que vale a visita.
+2.  **Endereço:** Separe em 'endereco' (rua e número), 'bairro', 'cidade', 'estado' (sigla, ex: "PE") e 'cep'.
+3.  **Coordenadas:** 'latitude' e 'longitude' em graus decimais com ponto (ex: "-8.0631"), somente se encontradas em fonte confiável.
+4.  **Horário de Funcionamento:** Texto simples, um dia ou intervalo por linha (ex: "Terça a sexta: 9h às 17h").
+5.  **Contato e Links:** Telefones no formato "(81) 3355-0000"; apenas URLs completas de perfis oficiais em 'redes_sociais'.
+6.  **Dados Ausentes:** Se não encontrar uma informação, use 'null' (ou lista vazia). NÃO invente dados.
+
+**Formato de Saída OBRATÓRIO (JSON):**
+\`\`\`json
+{
+  "title": "{{nome_lugar}}",
+  "description_html": "string (HTML com a descrição)",
+  "endereco": "string | null",
+  "bairro": "string | null",
+  "cidade": "string | null",
+  "estado": "string | null",
+  "cep": "string | null",
+  "latitude": "string | null",
+  "longitude": "string | null",
+  "telefone": ["string", ...],
+  "email": "string | null",
+  "website": "string (URL completa) | null",
+  "redes_sociais": ["string (URL completa)", ...],
+  "horario_de_funcionamento": "string | null"
+}
+\`\`\``
+  },
+  busca_lugar: {
+    id: 'busca_lugar',
+    label: 'Pesquisa de lugar',
+    version: 1,
+    variables: [
+      { name: 'nome_lugar', description: 'Nome do lugar', example: 'Teatro de Santa Isabel' }
+    ],
+    outputSchema: placeDetailsDraftSchema,
+    body: `**Tarefa:** Atue como um assistente de pesquisa. Sua única função é encontrar informações detalhadas sobre o seguinte local usando a pesquisa na web e retornar os dados em um formato JSON estrito.
+
+**Local para Pesquisar:** "{{nome_lugar}}"
+
+**Instruções de Extração:**
+1.  **Pesquisa Abrangente:** Encontre o endereço completo, telefone, site oficial e uma breve descrição sobre o local.
+2.  **Dados Estruturados:** Extraia as seguintes informações. Se um campo não for encontrado, use 'null' como valor. NÃO invente dados.
+3.  **Endereço:** Separe o endereço em 'address' (rua e número), 'neighborhood' (bairro), 'city' (cidade), 'state' (estado) e 'zipcode' (CEP).
+
+**Formato de Saída OBRATÓRIO (JSON):**
+A resposta DEVE ser um único objeto JSON formatado como um bloco de código markdown \`\`\`json ... \`\`\`.
+NÃO inclua nenhum texto, explicação ou introdução antes ou depois do bloco JSON.
+\`\`\`json
+{
+  "address": "string | null",
+  "neighborhood": "string | null",
+  "city": "string | null",
+  "state": "string | null",
+  "zipcode": "string | null",
+  "phone": "string | null",
+  "website": "string (URL completa) | null",
+  "description": "string (Um parágrafo de descrição) | null"
+}
+\`\`\``
+  },
+  busca_eventos: {
+    id: 'busca_eventos',
+    label: 'Busca de eventos',
+    version: 1,
+    variables: [
+      { name: 'consulta', description: 'Consulta digitada pelo usuário', example: 'shows gratuitos no fim de semana' }
+    ],
+    outputSchema: googleEventsSchema,
+    body: `Sua tarefa é atuar como um pesquisador de eventos locais para a região de Recife, Pernambuco, Brasil.
+Com base na consulta do usuário, use a Pesquisa Google para encontrar eventos relevantes.
+Retorne os resultados como um array JSON dentro de um bloco de código markdown.
+
+**Consulta:** "{{consulta}}"
+
+**Estrutura do Array JSON:**
+[
+  {
+    "name": "string",
+    "start_date": "string no formato YYYY-MM-DD HH:MM:SS, ou YYYY-MM-DD se a hora for desconhecida",
+    "location": "string, ex: 'Recife, PE'",
+    "venue": "string, ex: 'Classic Hall'",
+    "summary": "string, um resumo conciso de um parágrafo sobre o evento.",
+    "source_url": "string, a URL direta para a página de origem.",
+    "category": "string, uma categoria relevante como 'Música', 'Teatro', 'Arte & Exposições', 'Gastronomia', 'Festival', 'Esporte', 'Tecnologia' ou 'Outros'."
+  }
+]
+
+**Regras:**
+- A saída final DEVE ser APENAS o bloco JSON markdown. Não inclua nenhum texto introdutório ou explicações.
+- Se nenhum evento for encontrado, retorne um array vazio [].
+- Extraia as informações com a maior precisão possível dos resultados da pesquisa.
+- Atribua a categoria mais apropriada para cada evento.`
+  },
+  processamento_eventos: {
+    id: 'processamento_eventos',
+    label: 'Normalização de eventos coletados',
+    version: 1,
+    variables: [
+      { name: 'eventos_brutos', description: 'Eventos coletados pelo scraper (JSON)', example: '[\n  { "title": "FESTIVAL RECIFE SONORO", "date": "15/11 às 17h" }\n]' }
+    ],
+    outputSchema: googleEventsSchema,
+    body: `Você é um assistente de curadoria de eventos. Sua tarefa é analisar a lista de eventos brutos coletados de diferentes sites, limpá-los, remover duplicatas e padronizá-los em um formato JSON consistente.
+
+**Eventos Brutos para Análise:**
+\`\`\`json
+{{eventos_brutos}}
+\`\`\`
+
+**Regras de Processamento:**
+1.  **Remover Duplicatas:** Identifique eventos que são essencialmente os mesmos, mesmo que os títulos ou datas sejam ligeiramente diferentes. Mantenha apenas uma entrada para cada evento real.
+2.  **Padronizar Dados:** Converta todas as datas para o formato "YYYY-MM-DD HH:MM:SS" sempre que possível. Se a hora não estiver disponível, use "YYYY-MM-DD".
+3.  **Extrair Informações:** Extraia o nome do evento, data de início, local, nome do local (venue), um breve resumo e a URL de origem.
+4.  **Categorizar:** Atribua a cada evento uma das seguintes categorias: 'Música', 'Teatro', 'Arte & Exposições', 'Gastronomia', 'Festival', 'Esporte', 'Tecnologia', ou 'Outros'.
+5.  **Qualidade:** Se um evento não tiver informações suficientes (como nome ou data), descarte-o.
+
+**Formato de Saída OBRATÓRIO (JSON):**
+A resposta DEVE ser um único array JSON formatado como um bloco de código markdown \`\`\`json ... \`\`\`.
+NÃO inclua nenhum texto antes ou depois do bloco JSON. Se nenhum evento válido for encontrado, retorne um array vazio \`[]\`.
+
+**Estrutura do Array JSON:**
+[
+  {
+    "name": "string",
+    "start_date": "string no formato YYYY-MM-DD HH:MM:SS ou YYYY-MM-DD",
+    "location": "string, ex: 'Recife, PE'",
+    "venue": "string, ex: 'Classic Hall'",
+    "summary": "string, um resumo conciso de um parágrafo sobre o evento.",
+    "source_url": "string, a URL direta para a página de origem.",
+    "category": "string, uma das categorias permitidas."
+  }
+]`
+  },
+  pacote_social: {
+    id: 'pacote_social',
+    label: 'Pacote de divulgação nas redes',
+    version: 1,
+    variables: [
+      { name: 'instrucao_sistema', description: 'Instrução do sistema definida nas preferências de IA', example: 'Você é um jornalista expert e editor de SEO para o portal de notícias \'recifemais.com.br\'.' },
+      { name: 'conteudo', description: 'Matéria ou item da agenda a divulgar (JSON)', example: '{\n  "kind": "materia",\n  "title": "Festival Recife Sonoro reúne Lenine e Duda Beat no Marco Zero"\n}' }
+    ],
+    outputSchema: socialContentPackSchema,
+    body: `{{instrucao_sistema}}
+
+**Tarefa Principal:** Atue como social media do portal 'recifemais.com.br'. A partir do conteúdo abaixo (uma matéria ou um evento da agenda), crie as peças de divulgação para cada canal.
+
+**Regras Gerais:**
+1.  Use APENAS as informações do conteúdo fornecido. NÃO invente datas, horários, locais, preços ou nomes.
+2.  Adapte o tom a cada canal, mantendo a linguagem próxima do público do Recife.
+3.  Respeite RIGOROSAMENTE os limites de caracteres de cada canal (contando espaços e emojis).
+
+**Canais:**
+1.  **Instagram (instagram_caption e instagram_hashtags):** Legenda com gancho na primeira linha, parágrafos curtos e chamada para o link na bio. Máximo de ${SOCIAL_CHANNEL_LIMITS.instagramCaption} caracteres na legenda, sem hashtags no texto. Entre 5 e 15 hashtags relevantes em \`instagram_hashtags\`, sem o símbolo "#" (máximo ${SOCIAL_CHANNEL_LIMITS.instagramHashtags}).
+2.  **Fio para X/Threads (thread_posts):** De 2 a ${SOCIAL_CHANNEL_LIMITS.threadPosts} posts encadeados, cada um com no máximo ${SOCIAL_CHANNEL_LIMITS.threadPost} caracteres. O primeiro post deve funcionar sozinho; numere os posts no formato "1/N".
+3.  **Canal do WhatsApp (whatsapp_message):** Mensagem direta com no máximo ${SOCIAL_CHANNEL_LIMITS.whatsapp} caracteres. Use *negrito* do WhatsApp para destacar o serviço (data, horário, local, ingressos) quando houver.
+4.  **Newsletter (newsletter_blurb):** Chamada de 2 a 3 frases, com no máximo ${SOCIAL_CHANNEL_LIMITS.newsletter} caracteres, sem emojis.
+
+**Formato de Saída OBRATÓRIO:**
+A resposta DEVE ser um único objeto JSON formatado como um bloco de código markdown \`\`\`json ... \`\`\`.
+NÃO inclua nenhum texto antes ou depois do bloco JSON.
+
+**Estrutura do Objeto JSON:**
+{
+  "instagram_caption": "string",
+  "instagram_hashtags": ["string", ...],
+  "thread_posts": ["string", ...],
+  "whatsapp_message": "string",
+  "newsletter_blurb": "string"
+}
+
+**Conteúdo para Divulgação:**
+\`\`\`json
+{{conteudo}}
+\`\`\``
+  },
+  roteiro_semanal: {
+    id: 'roteiro_semanal',
+    label: 'Roteiro "O que fazer em Recife"',
+    version: 1,
+    variables: [
+      { name: 'instrucao_sistema', description: 'Instrução do sistema definida nas preferências de IA', example: 'Você é um jornalista expert e editor de SEO para o portal de notícias \'recifemais.com.br\'.' },
+      { name: 'periodo', description: 'Período do roteiro por extenso', example: 'Sexta-feira, 14 de novembro a Domingo, 16 de novembro' },
+      { name: 'eventos', description: 'Eventos agrupados por dia e bairro, com o id de cada um (JSON)', example: '[\n  {\n    "dia": "Sábado, 15 de novembro",\n    "bairro": "Recife Antigo",\n    "eventos": [{ "id": "agenda-42", "nome": "Festival Recife Sonoro" }]\n  }\n]' }
+    ],
+    outputSchema: roundupCopySchema,
+    maxOutputTokens: LONG_FORM_MAX_OUTPUT_TOKENS,
+    body: `{{instrucao_sistema}}
+
+**Tarefa Principal:** Escreva o roteiro "O que fazer em Recife" para o período **{{periodo}}**, usando SOMENTE os eventos listados abaixo. A estrutura do post (dias, bairros, links e serviço) é montada automaticamente; você escreve a abertura e uma chamada para cada evento.
+
+**Regras:**
+1.  **Abertura (intro_html):** 1 a 2 parágrafos em HTML (\`<p>\`) apresentando os destaques do período. Não liste todos os eventos.
+2.  **Chamadas (blurbs):** Para CADA evento, uma chamada de 1 a 2 frases, com o \`event_id\` exatamente igual ao \`id\` recebido. Texto puro, sem HTML e sem repetir horário e local (já aparecem no post).
+3.  **Fidelidade:** NÃO invente atrações, preços, horários ou detalhes que não estejam nos dados. Se a descrição for vazia, escreva uma chamada genérica a partir do nome e da categoria.
+4.  **SEO:** Título com 50-60 caracteres contendo "O que fazer em Recife" ou variação natural; meta description com 120-155 caracteres; palavra-chave de foco; texto alternativo com a palavra-chave.
+5.  **Taxonomia:** UMA categoria principal (ex: 'Agenda', 'Roteiros') e 3 a 5 tags.
+
+**Formato de Saída OBRATÓRIO:**
+A resposta DEVE ser um único objeto JSON formatado como um bloco de código markdown \`\`\`json ... \`\`\`.
+NÃO inclua nenhum texto antes ou depois do bloco JSON.
+
+**Estrutura do Objeto JSON:**
+{
+  "title": "string",
+  "summary": "string",
+  "seo_description": "string",
+  "focus_keyword": "string",
+  "suggested_alt_text": "string",
+  "category": "string",
+  "tags": ["string", ...],
+  "intro_html": "string (HTML)",
+  "blurbs": [{ "event_id": "string", "text": "string" }, ...]
+}
+
+**Eventos do Período:**
+\`\`\`json
+{{eventos}}
+\`\`\``
+  },
+  traducao: {
+    id: 'traducao',
+    label: 'Tradução de matérias e histórias',
+    version: 1,
+    variables: [
+      { name: 'idioma', description: 'Idioma de destino por extenso', example: 'inglês' },
+      { name: 'conteudo', description: 'Campos da matéria em português, com os termos do glossário já protegidos (JSON)', example: '{\n  "title": "[[T1]] recebe festival de frevo no sábado",\n  "focus_keyword": "festival de frevo recife"\n}' }
+    ],
+    outputSchema: translatedContentSchema,
+    maxOutputTokens: LONG_FORM_MAX_OUTPUT_TOKENS,
+    body: `**Tarefa Principal:** Você é tradutor e editor de SEO do portal 'recifemais.com.br', que recebe muitos turistas. Traduza para o **{{idioma}}** a matéria abaixo, escrita em português do Brasil.
+
+**Regras:**
+1.  **HTML:** Preserve EXATAMENTE a estrutura de \`article_body_html\`: as mesmas tags, na mesma ordem, com os mesmos atributos (links, classes). Traduza apenas o texto entre as tags.
+2.  **Glossário:** Marcadores no formato [[T1]], [[T2]]... representam nomes de lugares, artistas e eventos que NÃO podem ser traduzidos. Copie cada marcador exatamente como está, na posição adequada da frase traduzida.
+3.  **Tom:** Tradução natural para um leitor estrangeiro, não literal. Mantenha o registro jornalístico e, quando necessário, acrescente contexto curto para referências locais (ex.: "frevo, Recife's traditional carnival music").
+4.  **SEO idiomático:** \`focus_keyword\` deve ser o termo que um turista realmente buscaria no idioma de destino (ex.: "o que fazer em recife" → "things to do in recife"), e não uma tradução palavra por palavra. \`seo_description\` com 120-155 caracteres contendo a palavra-chave. \`suggested_alt_text\` descreve a imagem no idioma de destino.
+5.  **Campos vazios:** Se um campo vier vazio, devolva-o vazio.
+6.  **Tags:** Traduza as tags, mantendo nomes próprios.
+
+**Formato de Saída OBRATÓRIO:**
+A resposta DEVE ser um único objeto JSON formatado como um bloco de código markdown \`\`\`json ... \`\`\`.
+NÃO inclua nenhum texto antes ou depois do bloco JSON.
+
+**Estrutura do Objeto JSON:**
+{
+  "title": "string",
+  "summary": "string",
+  "article_body_html": "string (HTML)",
+  "seo_description": "string",
+  "focus_keyword": "string",
+  "suggested_alt_text": "string",
+  "tags": ["string", ...]
+}
+
+**Matéria Original:**
+\`\`\`json
+{{conteudo}}
+\`\`\``
+  },
+  atualizacao_materia: {
+    id: 'atualizacao_materia',
+    label: 'Atualização de matéria publicada',
+    version: 1,
+    variables: [
+      { name: 'instrucao_sistema', description: 'Instrução do sistema definida nas preferências de IA', example: 'Você é um jornalista expert e editor de SEO para o portal de notícias \'recifemais.com.br\'.' },
+      { name: 'data_atual', description: 'Data de hoje por extenso', example: '18 de outubro de 2026' },
+      { name: 'titulo', description: 'Título atual da matéria', example: 'Onde comer bem no Recife Antigo' },
+      { name: 'conteudo_atual', description: 'HTML atual da matéria, como está no WordPress', example: '<p>O restaurante funciona de terça a domingo...</p>' },
+      { name: 'novas_informacoes', description: 'Informações novas enviadas pelo editor (texto ou conteúdo extraído de URL)', example: 'O restaurante fechou em agosto de 2026.' }
+    ],
+    outputSchema: articleUpdateSchema,
+    maxOutputTokens: LONG_FORM_MAX_OUTPUT_TOKENS,
+    body: `{{instrucao_sistema}}
+
+**Tarefa Principal:** Hoje é {{data_atual}}. Atualize a matéria publicada abaixo com as novas informações, para que ela continue correta e útil para o leitor.
+
+**Regras:**
+1.  **Mudança mínima:** Altere apenas os parágrafos afetados pelas novas informações ou que estejam claramente desatualizados (datas passadas, lugares fechados, preços antigos). Todos os outros parágrafos devem ser copiados EXATAMENTE como estão, caractere por caractere, incluindo tags, atributos e comentários HTML (\`<!-- wp:... -->\`).
+2.  **Estrutura:** Mantenha a ordem e a estrutura dos blocos. Um parágrafo novo só deve ser criado quando a informação não couber em um existente.
+3.  **Fidelidade:** Use apenas as novas informações e o conteúdo atual. NÃO invente datas, horários, endereços, preços ou nomes.
+4.  **Informação superada:** Se algo deixou de valer (ex.: um lugar fechou), reescreva o trecho deixando isso claro, em vez de apagar sem explicação.
+5.  **Título:** Só altere o título se ele estiver incorreto ou desatualizado; caso contrário, repita-o exatamente.
+6.  **Notas de mudança (change_notes):** Liste cada alteração feita em uma frase curta, citando o motivo.
+
+**Formato de Saída OBRATÓRIO:**
+A resposta DEVE ser um único objeto JSON formatado como um bloco de código markdown \`\`\`json ... \`\`\`.
+NÃO inclua nenhum texto antes ou depois do bloco JSON.
+
+**Estrutura do Objeto JSON:**
+{
+  "title": "string",
+  "article_body_html": "string (HTML completo da matéria atualizada)",
+  "change_notes": ["string", ...]
+}
+
+**Título Atual:** {{titulo}}
+
+**Conteúdo Atual:**
+\`\`\`html
+{{conteudo_atual}}
+\`\`\`
+
+**Novas Informações:**
+\`\`\`
+{{novas_informacoes}}
+\`\`\``
+  },
+  variantes_titulo: {
+    id: 'variantes_titulo',
+    label: 'Variações de título e meta description',
+    version: 1,
+    variables: [
+      { name: 'instrucao_sistema', description: 'Instrução do sistema definida nas preferências de IA', example: 'Você é um jornalista expert e editor de SEO para o portal de notícias \'recifemais.com.br\'.' },
+      { name: 'titulo', description: 'Título gerado no rascunho', example: 'Festival Recife Sonoro reúne Lenine e Duda Beat no Marco Zero' },
+      { name: 'resumo', description: 'Resumo do rascunho', example: 'O festival gratuito ocupa o Marco Zero em 15 de novembro.' },
+      { name: 'palavra_chave', description: 'Palavra-chave de foco do rascunho', example: 'festival recife sonoro' }
+    ],
+    outputSchema: headlineVariantSetSchema,
+    body: `{{instrucao_sistema}}
+
+**Tarefa Principal:** Escreva de 3 a 5 alternativas de título e meta description para a matéria abaixo. Elas serão comparadas lado a lado pelo editor, então cada alternativa deve seguir um estilo DIFERENTE.
+
+**Estilos disponíveis (campo style):**
+- "direto": fato principal na frente, sem rodeios.
+- "servico": foco na informação útil (data, preço, onde).
+- "lista": número na frente ("5 motivos...", "3 shows...").
+- "pergunta": pergunta que a matéria responde.
+- "curiosidade": desperta interesse sem esconder o assunto (nada de caça-cliques enganoso).
+- "urgencia": destaca prazo ou oportunidade limitada, SOMENTE se a matéria tiver essa informação.
+
+**Regras:**
+1.  Todo título deve conter a palavra-chave de foco "{{palavra_chave}}", de preferência no início, e ter entre 50 e 60 caracteres.
+2.  Toda meta description deve ter entre 120 e 155 caracteres e conter a palavra-chave.
+3.  Use apenas informações do título e do resumo. NÃO invente números, datas ou atrações.
+4.  Não repita o título original.
+
+**Formato de Saída OBRATÓRIO:**
+A resposta DEVE ser um único objeto JSON formatado como um bloco de código markdown \`\`\`json ... \`\`\`.
+NÃO inclua nenhum texto antes ou depois do bloco JSON.
+
+**Estrutura do Objeto JSON:**
+{
+  "variants": [
+    { "title": "string", "seo_description": "string", "style": "direto" | "servico" | "lista" | "pergunta" | "curiosidade" | "urgencia" },
+    ...
+  ]
+}
+
+**Título Original:** {{titulo}}
+
+**Resumo:** {{resumo}}`
+  }
+};
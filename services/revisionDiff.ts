@@ -0,0 +1,89 @@
+import { DiffLine } from './textDiff';
+import { buildArticleUpdateDiff, diffBlockWords } from './articleUpdate';
+import { stripHtml } from './factChecker';
+import { ItemRevision } from '../types';
+
+// Comparação lado a lado entre duas versões de um item: à esquerda a versão escolhida
+// (com o que saiu riscado), à direita a atual (com o que entrou destacado).
+
+// Uma linha da comparação; null quando o bloco só existe de um dos lados
+export interface SideBySideRow {
+  left: DiffLine[] | null;
+  right: DiffLine[] | null;
+  changed: boolean;
+}
+
+export interface FieldDiff {
+  field: string;
+  label: string;
+  rows: SideBySideRow[];
+  changed: boolean;
+}
+
+const wordRow = (before: string, after: string): SideBySideRow => {
+  const words = diffBlockWords(before, after);
+  return {
+    left: words.filter(word => word.type !== 'adicionada'),
+    right: words.filter(word => word.type !== 'removida'),
+    changed: words.some(word => word.type !== 'igual'),
+  };
+};
+
+const plainRow = (text: string, side: 'left' | 'right'): SideBySideRow => {
+  const line: DiffLine[] = [{ type: side === 'left' ? 'removida' : 'adicionada', text: stripHtml(text) }];
+  return side === 'left' ? { left: line, right: null, changed: true } : { left: null, right: line, changed: true };
+};
+
+// Conteúdo: diff por bloco (parágrafo, título, lista) e, dentro dos blocos reescritos, palavra a palavra
+export function diffContentSideBySide(before: string, after: string): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  for (const segment of buildArticleUpdateDiff(before, after)) {
+    if (segment.type === 'igual') {
+      segment.items.forEach(block => rows.push(wordRow(block, block)));
+      continue;
+    }
+    const { removed, added } = segment.hunk;
+    const paired = Math.min(removed.length, added.length);
+    for (let i = 0; i < paired; i++) rows.push(wordRow(removed[i], added[i]));
+    removed.slice(paired).forEach(block => rows.push(plainRow(block, 'left')));
+    added.slice(paired).forEach(block => rows.push(plainRow(block, 'right')));
+  }
+  return rows;
+}
+
+const formatMetaValue = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.filter(item => item !== '' && item !== null).map(formatMetaValue).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const metaLabel = (key: string): string => {
+  const label = key.replace(/^_+/, '').replace(/[_-]+/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+// Compara a versão escolhida com a atual. Campos meta só entram quando a versão escolhida os
+// tem (revisões do WordPress normalmente não guardam meta) e algum dos lados está preenchido.
+export function buildRevisionDiff(revision: ItemRevision, current: ItemRevision): FieldDiff[] {
+  const fields: FieldDiff[] = [];
+  const addField = (field: string, label: string, rows: SideBySideRow[]) =>
+    fields.push({ field, label, rows, changed: rows.some(row => row.changed) });
+
+  addField('title', 'Título', [wordRow(revision.title, current.title)]);
+  addField('content', 'Conteúdo', diffContentSideBySide(revision.content, current.content));
+  if (revision.excerpt || current.excerpt) {
+    addField('excerpt', 'Resumo', [wordRow(revision.excerpt, current.excerpt)]);
+  }
+
+  if (revision.meta) {
+    const keys = Array.from(new Set([...Object.keys(revision.meta), ...Object.keys(current.meta ?? {})]));
+    for (const key of keys) {
+      const before = formatMetaValue(revision.meta[key]);
+      const after = formatMetaValue(current.meta?.[key]);
+      if (!before && !after) continue;
+      addField(`meta.${key}`, metaLabel(key), [wordRow(before, after)]);
+    }
+  }
+  return fields;
+}
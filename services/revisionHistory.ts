@@ -0,0 +1,126 @@
+import { ItemRevision, WordPressCredentials, WordPressPost, WordPressRevision } from '../types';
+import { getCPTItemRevisions, updateCPTItem } from './wordpressService';
+import { SNAPSHOTS_STORE, runRequest } from './localDb';
+
+// Histórico de versões de um item: as revisões que o WordPress guarda e os snapshots que
+// este navegador grava a cada salvamento aceito (esses incluem os campos meta, que o
+// WordPress normalmente não versiona).
+
+const MAX_SNAPSHOTS_PER_ITEM = 20;
+
+interface LocalSnapshot extends ItemRevision {
+  itemKey: string;
+  // Campos meta que o editor enviou neste salvamento; só eles voltam numa restauração.
+  // Os demais (protegidos ou somente leitura) fariam o WordPress recusar o item inteiro.
+  savedMetaKeys?: string[];
+}
+
+const itemKey = (postType: string, itemId: number) => `${postType}:${itemId}`;
+
+const decodeHtmlEntities = (text: string): string =>
+  new DOMParser().parseFromString(text, 'text/html').body.textContent || '';
+
+// Datas *_gmt da API vêm sem fuso
+const fromGmt = (date: string): string => new Date(`${date}Z`).toISOString();
+
+// Versão atual do item (carregado com context=edit) no mesmo formato das revisões
+export const currentVersion = (post: WordPressPost): ItemRevision => ({
+  id: 'atual',
+  source: 'wordpress',
+  date: post.modified_gmt ? fromGmt(post.modified_gmt) : post.date,
+  title: post.title.raw ?? decodeHtmlEntities(post.title.rendered),
+  content: post.content?.raw ?? post.content?.rendered ?? '',
+  excerpt: post.excerpt?.raw ?? '',
+  meta: post.meta ?? null,
+});
+
+const fromWordPressRevision = (revision: WordPressRevision): ItemRevision => ({
+  id: `wp-${revision.id}`,
+  source: 'wordpress',
+  date: fromGmt(revision.date_gmt),
+  title: revision.title.raw ?? decodeHtmlEntities(revision.title.rendered),
+  content: revision.content.raw ?? revision.content.rendered,
+  excerpt: revision.excerpt?.raw ?? '',
+  meta: revision.meta && Object.keys(revision.meta).length > 0 ? revision.meta : null,
+});
+
+const sameVersion = (a: ItemRevision, b: ItemRevision): boolean =>
+  a.title === b.title && a.content === b.content && a.excerpt === b.excerpt && JSON.stringify(a.meta) === JSON.stringify(b.meta);
+
+const getSnapshots = async (postType: string, itemId: number): Promise<LocalSnapshot[]> => {
+  const snapshots = await runRequest<LocalSnapshot[]>(SNAPSHOTS_STORE, 'readonly', store =>
+    store.index('itemKey').getAll(itemKey(postType, itemId))
+  );
+  return snapshots.sort((a, b) => b.date.localeCompare(a.date));
+};
+
+// Campos meta que os editores já enviaram para o item, em qualquer salvamento registrado
+const getSavedMetaKeys = async (postType: string, itemId: number): Promise<Set<string>> => {
+  try {
+    const snapshots = await getSnapshots(postType, itemId);
+    return new Set(snapshots.flatMap(snapshot => snapshot.savedMetaKeys ?? []));
+  } catch (error) {
+    console.error('Erro ao ler os snapshots locais:', error);
+    return new Set();
+  }
+};
+
+export const revisionHistory = {
+  // Chamado depois de cada salvamento aceito pelo WordPress; uma falha aqui não afeta o salvamento
+  async recordSnapshot(postType: string, post: WordPressPost, savedMetaKeys: string[] = []): Promise<void> {
+    try {
+      const snapshot: LocalSnapshot = {
+        ...currentVersion(post),
+        id: `local-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        source: 'local',
+        date: new Date().toISOString(),
+        itemKey: itemKey(postType, post.id),
+        savedMetaKeys,
+      };
+      const existing = await getSnapshots(postType, post.id);
+      if (existing[0] && sameVersion(existing[0], snapshot)) return;
+
+      await runRequest(SNAPSHOTS_STORE, 'readwrite', store => store.put(snapshot));
+      for (const old of existing.slice(MAX_SNAPSHOTS_PER_ITEM - 1)) {
+        await runRequest(SNAPSHOTS_STORE, 'readwrite', store => store.delete(old.id));
+      }
+    } catch (error) {
+      console.error('Erro ao gravar o snapshot local do item:', error);
+    }
+  },
+
+  // Revisões do WordPress e snapshots locais, da mais recente para a mais antiga.
+  // Sem conexão (ou sem suporte a revisões no tipo de post) os snapshots locais continuam disponíveis.
+  async list(credentials: WordPressCredentials, postType: string, itemId: number): Promise<{ revisions: ItemRevision[]; remoteError: string | null }> {
+    const [remote, local] = await Promise.allSettled([
+      getCPTItemRevisions(credentials, postType, itemId),
+      getSnapshots(postType, itemId),
+    ]);
+
+    const revisions: ItemRevision[] = [];
+    let remoteError: string | null = null;
+    if (remote.status === 'fulfilled') revisions.push(...remote.value.map(fromWordPressRevision));
+    else remoteError = remote.reason?.message || 'Falha ao carregar as revisões do WordPress.';
+    if (local.status === 'fulfilled') revisions.push(...local.value);
+    else console.error('Erro ao ler os snapshots locais:', local.reason);
+
+    return { revisions: revisions.sort((a, b) => b.date.localeCompare(a.date)), remoteError };
+  },
+
+  // Volta o item para a versão escolhida. Campos meta só são restaurados quando a versão os tem,
+  // para que uma revisão do WordPress (que não guarda meta) não apague os atuais, e só os que os
+  // editores gravam, conhecidos pelos snapshots deste navegador.
+  async restore(credentials: WordPressCredentials, postType: string, itemId: number, revision: ItemRevision): Promise<WordPressPost> {
+    const itemData: any = { title: revision.title, content: revision.content };
+    if (revision.excerpt) itemData.excerpt = revision.excerpt;
+    if (revision.meta) {
+      const editableKeys = await getSavedMetaKeys(postType, itemId);
+      const meta = Object.fromEntries(Object.entries(revision.meta).filter(([key]) => editableKeys.has(key)));
+      if (Object.keys(meta).length > 0) itemData.meta = meta;
+    }
+
+    const updatedItem = await updateCPTItem(credentials, postType, itemId, itemData);
+    await revisionHistory.recordSnapshot(postType, updatedItem, Object.keys(itemData.meta ?? {}));
+    return updatedItem;
+  },
+};
@@ -0,0 +1,351 @@
+import { supabase } from './supabase';
+import {
+  ArticleDraft,
+  ProcessedEvent,
+  RoundupCluster,
+  RoundupCopy,
+  RoundupEvent,
+  RoundupEventOrigin,
+  RoundupRange,
+  ScrapedEvent,
+  WordPressCredentials,
+  WordPressPost
+} from '../types';
+import { getAllCPTItemsWithMeta } from './wordpressService';
+import { normalize, parseDates, parseTimes } from './factChecker';
+import { isDemoMode } from './aiFixtures';
+import { DEMO_SCRAPED_EVENTS } from './aiDemoFixtures';
+
+// Meta do post com o JSON-LD da agenda. Dentro do conteúdo o <script> some (o kses o remove
+// para autores e o Quill ao reeditar); o site registra o campo com show_in_rest e o imprime no <head>
+export const STRUCTURED_DATA_META_KEY = 'dados_estruturados';
+
+// Eventos que aparecem em mais de uma fonte ficam com a versão mais "oficial"
+const ORIGIN_PRIORITY: Record<RoundupEventOrigin, number> = { agenda: 0, processado: 1, coletado: 2 };
+
+export const UNKNOWN_NEIGHBORHOOD = 'Outros locais';
+
+const MAX_DESCRIPTION_CHARS = 400;
+
+interface PlaceInfo {
+  title: string;
+  link: string;
+  neighborhood: string | null;
+}
+
+const htmlToText = (html: string): string =>
+  (new DOMParser().parseFromString(html, 'text/html').body.textContent || '').replace(/\s+/g, ' ').trim();
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toLocalDateString = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Sexta a domingo do fim de semana atual (ou do próximo, de segunda a quinta)
+export function getNextWeekendRange(today: Date = new Date()): RoundupRange {
+  const day = today.getDay();
+  const daysUntilFriday = day === 0 ? -2 : day === 6 ? -1 : 5 - day;
+  const friday = new Date(today.getFullYear(), today.getMonth(), today.getDate() + daysUntilFriday);
+  const sunday = new Date(friday.getFullYear(), friday.getMonth(), friday.getDate() + 2);
+  return { startDate: toLocalDateString(friday), endDate: toLocalDateString(sunday) };
+}
+
+export const formatRoundupDay = (date: string): string => {
+  const label = new Date(`${date}T12:00:00`).toLocaleDateString('pt-BR', { weekday: 'long', day: 'numeric', month: 'long' });
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+const isInRange = (date: string, range: RoundupRange) => date >= range.startDate && date <= range.endDate;
+
+// "2025-11-15 19:30:00" ou "2025-11-15T19:30" -> data e horário (meia-noite = horário desconhecido)
+const splitDateTime = (value: string): { date: string | null; time: string | null } => {
+  const match = value.match(/^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2}))?/);
+  if (!match) return { date: null, time: null };
+  return { date: match[1], time: match[2] && match[2] !== '00:00' ? match[2] : null };
+};
+
+// Datas livres dos eventos coletados ("15/11 às 17h"); sem ano, vale o ano do período pedido
+const parseLooseDate = (text: string, range: RoundupRange): string | null => {
+  const iso = splitDateTime(text).date;
+  if (iso) return iso;
+  const [mention] = parseDates(text);
+  if (!mention) return null;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const years = mention.year ? [mention.year] : [Number(range.startDate.slice(0, 4)), Number(range.endDate.slice(0, 4))];
+  const candidates = years.map(year => `${year}-${pad(mention.month)}-${pad(mention.day)}`);
+  return candidates.find(date => isInRange(date, range)) ?? candidates[0];
+};
+
+const findPlaceByName = (places: PlaceInfo[], venue: string | null): PlaceInfo | null => {
+  if (!venue) return null;
+  const target = normalize(venue);
+  return places.find(place => {
+    const name = normalize(place.title);
+    return name === target || target.includes(name) || name.includes(target);
+  }) ?? null;
+};
+
+function fromAgendaItem(post: WordPressPost, placesById: Map<number, PlaceInfo>): RoundupEvent | null {
+  const date = post.meta?.data_do_evento;
+  if (!date) return null;
+  const place = placesById.get(Number(post.meta?.local_do_evento)) ?? null;
+  return {
+    id: `agenda-${post.id}`,
+    origin: 'agenda',
+    title: htmlToText(post.title.rendered),
+    date: String(date).slice(0, 10),
+    time: post.meta?.horario_do_evento || null,
+    venue: place?.title ?? null,
+    neighborhood: place?.neighborhood ?? null,
+    category: null,
+    description: '',
+    url: post.link,
+    venue_url: place?.link ?? null,
+  };
+}
+
+function fromProcessedEvent(event: ProcessedEvent, places: PlaceInfo[]): RoundupEvent | null {
+  if (!event.event_date) return null;
+  const { date, time } = splitDateTime(event.event_date);
+  if (!date) return null;
+  const place = findPlaceByName(places, event.location);
+  return {
+    id: `processado-${event.id}`,
+    origin: 'processado',
+    title: event.title,
+    date,
+    time,
+    venue: place?.title ?? event.location,
+    neighborhood: place?.neighborhood ?? event.metadata?.neighborhood ?? null,
+    category: event.category?.name ?? null,
+    description: (event.description || '').slice(0, MAX_DESCRIPTION_CHARS),
+    url: event.scraped_event?.source_url ?? null,
+    venue_url: place?.link ?? null,
+  };
+}
+
+function fromScrapedEvent(event: ScrapedEvent, range: RoundupRange, places: PlaceInfo[]): RoundupEvent | null {
+  if (!event.raw_title || !event.raw_date) return null;
+  const date = parseLooseDate(event.raw_date, range);
+  if (!date) return null;
+  const [time] = parseTimes(event.raw_date);
+  const place = findPlaceByName(places, event.raw_location);
+  return {
+    id: `coletado-${event.id}`,
+    origin: 'coletado',
+    title: event.raw_title,
+    date,
+    time: time?.value ?? null,
+    venue: place?.title ?? event.raw_location,
+    neighborhood: place?.neighborhood ?? null,
+    category: event.raw_data?.category ?? null,
+    description: String(event.raw_data?.description ?? '').slice(0, MAX_DESCRIPTION_CHARS),
+    url: event.source_url,
+    venue_url: place?.link ?? null,
+  };
+}
+
+async function fetchProcessedEvents(range: RoundupRange): Promise<ProcessedEvent[]> {
+  const { data, error } = await supabase
+    .from('processed_events')
+    .select(`
+      *,
+      category:event_categories(*),
+      scraped_event:scraped_events(*)
+    `)
+    .in('status', ['approved', 'published'])
+    .gte('event_date', range.startDate)
+    .lte('event_date', `${range.endDate} 23:59:59`);
+
+  if (error) {
+    console.error('Erro ao buscar eventos processados para o roteiro:', error);
+    throw new Error('Falha ao buscar os eventos processados.');
+  }
+  return data || [];
+}
+
+async function fetchPendingScrapedEvents(): Promise<ScrapedEvent[]> {
+  if (isDemoMode()) return DEMO_SCRAPED_EVENTS;
+
+  const { data, error } = await supabase
+    .from('scraped_events')
+    .select('*')
+    .eq('processed', false)
+    .order('scraped_at', { ascending: false })
+    .limit(500);
+
+  if (error) {
+    console.error('Erro ao buscar eventos coletados para o roteiro:', error);
+    throw new Error('Falha ao buscar os eventos coletados.');
+  }
+  return data || [];
+}
+
+const dedupeKey = (event: RoundupEvent) => `${event.date}|${normalize(event.title)}`;
+
+// Reúne os eventos do período nas três fontes. Uma fonte indisponível não impede o roteiro:
+// o problema volta em `warnings` para o editor saber o que ficou de fora.
+export async function collectRoundupEvents(
+  credentials: WordPressCredentials,
+  range: RoundupRange,
+  categories: string[]
+): Promise<{ events: RoundupEvent[]; warnings: string[] }> {
+  const warnings: string[] = [];
+  const hasWordPress = !isDemoMode() && !!credentials.siteUrl && !!credentials.username && !!credentials.applicationPassword;
+
+  const [agendaResult, placesResult, processedResult, scrapedResult] = await Promise.allSettled([
+    hasWordPress ? getAllCPTItemsWithMeta(credentials, 'agenda') : Promise.resolve([]),
+    hasWordPress ? getAllCPTItemsWithMeta(credentials, 'lugar') : Promise.resolve([]),
+    isDemoMode() ? Promise.resolve([]) : fetchProcessedEvents(range),
+    fetchPendingScrapedEvents(),
+  ]);
+
+  const valueOf = <T>(result: PromiseSettledResult<T[]>, source: string): T[] => {
+    if (result.status === 'fulfilled') return result.value;
+    warnings.push(`${source}: ${result.reason instanceof Error ? result.reason.message : 'erro desconhecido'}`);
+    return [];
+  };
+
+  if (!hasWordPress && !isDemoMode()) {
+    warnings.push('Agenda: configure as credenciais do WordPress para incluir os itens da Agenda.');
+  }
+
+  const placesById = new Map<number, PlaceInfo>(
+    valueOf(placesResult, 'Lugares').map(place => [place.id, {
+      title: htmlToText(place.title.rendered),
+      link: place.link,
+      neighborhood: place.meta?.bairro || null,
+    }])
+  );
+  const places = Array.from(placesById.values());
+
+  const candidates: RoundupEvent[] = [
+    ...valueOf(agendaResult, 'Agenda').map(post => fromAgendaItem(post, placesById)).filter((e): e is RoundupEvent => e !== null),
+    ...valueOf(processedResult, 'Eventos processados').map(event => fromProcessedEvent(event, places)).filter((e): e is RoundupEvent => e !== null),
+    ...valueOf(scrapedResult, 'Eventos coletados').map(event => fromScrapedEvent(event, range, places)).filter((e): e is RoundupEvent => e !== null),
+  ];
+
+  // Eventos sem categoria (como os da Agenda) continuam no roteiro mesmo com filtro ativo
+  const wantedCategories = categories.map(normalize);
+  const matching = candidates.filter(event =>
+    isInRange(event.date, range) &&
+    (wantedCategories.length === 0 || !event.category || wantedCategories.includes(normalize(event.category)))
+  );
+
+  const unique = new Map<string, RoundupEvent>();
+  for (const event of matching) {
+    const existing = unique.get(dedupeKey(event));
+    if (!existing || ORIGIN_PRIORITY[event.origin] < ORIGIN_PRIORITY[existing.origin]) {
+      unique.set(dedupeKey(event), existing ? { ...event, description: event.description || existing.description } : event);
+    }
+  }
+
+  const events = Array.from(unique.values()).sort((a, b) =>
+    a.date.localeCompare(b.date) || (a.time ?? '99:99').localeCompare(b.time ?? '99:99') || a.title.localeCompare(b.title)
+  );
+  return { events, warnings };
+}
+
+// Agrupa por dia e, dentro do dia, por bairro (bairro desconhecido vai por último)
+export function clusterRoundupEvents(events: RoundupEvent[]): RoundupCluster[] {
+  const clusters = new Map<string, RoundupCluster>();
+  for (const event of events) {
+    const neighborhood = event.neighborhood || UNKNOWN_NEIGHBORHOOD;
+    const key = `${event.date}|${neighborhood}`;
+    if (!clusters.has(key)) clusters.set(key, { date: event.date, neighborhood, events: [] });
+    clusters.get(key)!.events.push(event);
+  }
+  const neighborhoodOrder = (name: string) => name === UNKNOWN_NEIGHBORHOOD ? '\uffff' : name;
+  return Array.from(clusters.values()).sort((a, b) =>
+    a.date.localeCompare(b.date) || neighborhoodOrder(a.neighborhood).localeCompare(neighborhoodOrder(b.neighborhood))
+  );
+}
+
+// Dados enviados à IA: só o necessário para escrever as chamadas, com o id de cada evento
+export const buildRoundupPromptData = (clusters: RoundupCluster[]) =>
+  clusters.map(cluster => ({
+    dia: formatRoundupDay(cluster.date),
+    bairro: cluster.neighborhood,
+    eventos: cluster.events.map(event => ({
+      id: event.id,
+      nome: event.title,
+      horario: event.time,
+      local: event.venue,
+      categoria: event.category,
+      descricao: event.description || null,
+    })),
+  }));
+
+export function buildItemListJsonLd(events: RoundupEvent[], listName: string): string {
+  const itemList = {
+    '@context': 'https://schema.org',
+    '@type': 'ItemList',
+    name: listName,
+    numberOfItems: events.length,
+    itemListElement: events.map((event, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      item: {
+        '@type': 'Event',
+        name: event.title,
+        startDate: event.time ? `${event.date}T${event.time}` : event.date,
+        ...(event.url ? { url: event.url } : {}),
+        ...(event.venue ? {
+          location: {
+            '@type': 'Place',
+            name: event.venue,
+            address: {
+              '@type': 'PostalAddress',
+              addressLocality: event.neighborhood ? `${event.neighborhood}, Recife` : 'Recife',
+              addressRegion: 'PE',
+            },
+            ...(event.venue_url ? { url: event.venue_url } : {}),
+          },
+        } : {}),
+      },
+    })),
+  };
+  // Títulos vêm de páginas de terceiros: escapar "<" impede que um "</script>" encerre o bloco no post
+  return JSON.stringify(itemList, null, 2).replace(/</g, '\\u003c');
+}
+
+const linkTo = (text: string, url: string | null) =>
+  url ? `<a href="${escapeHtml(url)}">${escapeHtml(text)}</a>` : escapeHtml(text);
+
+// Monta o post do roteiro: a IA escreve a abertura e as chamadas; os dias, bairros e links vêm dos dados
+export function buildRoundupDraft(copy: RoundupCopy, events: RoundupEvent[]): ArticleDraft {
+  const blurbs = new Map(copy.blurbs.map(blurb => [blurb.event_id, blurb.text.trim()]));
+  const sections: string[] = [copy.intro_html.trim()];
+  let currentDate: string | null = null;
+
+  for (const cluster of clusterRoundupEvents(events)) {
+    if (cluster.date !== currentDate) {
+      currentDate = cluster.date;
+      sections.push(`<h2>${escapeHtml(formatRoundupDay(cluster.date))}</h2>`);
+    }
+    sections.push(`<h3>${escapeHtml(cluster.neighborhood)}</h3>`);
+    for (const event of cluster.events) {
+      const details = [event.time, event.venue ? linkTo(event.venue, event.venue_url) : null].filter(Boolean).join(' · ');
+      const blurb = blurbs.get(event.id) || event.description;
+      sections.push(
+        `<p><strong>${linkTo(event.title, event.url)}</strong>${details ? ` — ${details}` : ''}${blurb ? `<br>${escapeHtml(blurb)}` : ''}</p>`
+      );
+    }
+  }
+
+  return {
+    title: copy.title,
+    importance: 'Média',
+    category: copy.category,
+    subcategory: '',
+    tags: copy.tags,
+    seo_description: copy.seo_description,
+    article_body_html: sections.join('\n'),
+    summary: copy.summary,
+    focus_keyword: copy.focus_keyword,
+    suggested_alt_text: copy.suggested_alt_text,
+    verified_facts: null,
+    structured_data: buildItemListJsonLd(events, copy.title),
+  };
+}
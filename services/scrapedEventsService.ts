@@ -1,10 +1,19 @@
 import { supabase } from './supabase';
 import { ScrapedEvent, ProcessedEvent, EventSource, EventCategory } from '../types';
+import { isDemoMode } from './aiFixtures';
+import { DEMO_SCRAPED_EVENTS } from './aiDemoFixtures';
+
+// IDs dos eventos de demonstração já processados nesta sessão
+const demoProcessedIds = new Set<number>();
 
 export const scrapedEventsService = {
   // Buscar eventos não processados
   async getUnprocessedEvents(): Promise<ScrapedEvent[]> {
     console.log('📋 Buscando eventos não processados...');
+
+    if (isDemoMode()) {
+      return DEMO_SCRAPED_EVENTS.filter(event => !demoProcessedIds.has(event.id));
+    }
     
     try {
       const startTime = Date.now();
@@ -111,6 +120,12 @@ export const scrapedEventsService = {
   // Invocar scraper
   async invokeScraper(url: string): Promise<any> {
     console.log(`🔍 Iniciando scraping para URL: ${url}`);
+
+    if (isDemoMode()) {
+      // Simula uma nova coleta: os eventos de demonstração voltam a ficar pendentes
+      demoProcessedIds.clear();
+      return { eventsScraped: DEMO_SCRAPED_EVENTS.length, errors: [] };
+    }
     
     try {
       const startTime = Date.now();
@@ -221,6 +236,11 @@ export const scrapedEventsService = {
   // Marcar eventos como processados
   async markEventsAsProcessed(eventIds: number[]): Promise<void> {
     console.log(`🔄 Marcando ${eventIds.length} eventos como processados...`);
+
+    if (isDemoMode()) {
+      eventIds.forEach(id => demoProcessedIds.add(id));
+      return;
+    }
     
     try {
       const startTime = Date.now();
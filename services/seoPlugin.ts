@@ -0,0 +1,198 @@
+import { SeoPlugin, SeoPluginMeta, WordPressCredentials, WordPressPost } from '../types';
+import { detectSeoPlugin, getRankMathHead, updateRankMathMeta } from './wordpressService';
+
+// Camada de adaptação para os plugins de SEO: cada plugin guarda palavra-chave, título,
+// description, canonical e robots em campos meta próprios. Os editores trabalham com
+// SeoPluginMeta e o adaptador traduz para o plugin detectado no site.
+
+export const SEO_PLUGIN_LABELS: Record<SeoPlugin, string> = {
+  rankmath: 'Rank Math',
+  yoast: 'Yoast SEO',
+};
+
+export const emptySeoMeta = (): SeoPluginMeta => ({
+  focusKeyword: '',
+  title: '',
+  description: '',
+  canonical: '',
+  noindex: false,
+  nofollow: false,
+});
+
+// Valores que o plugin tem para o item. Quando os campos meta não estão expostos na API,
+// vêm do <head> gerado pelo plugin (fromHead): título e description já com os modelos
+// aplicados, que não devem ser gravados de volta como valores personalizados.
+export interface StoredSeoMeta {
+  values: SeoPluginMeta;
+  fromHead: boolean;
+}
+
+interface SeoAdapter {
+  // Campos meta enviados junto com o item no create/update
+  payloadMeta: (values: SeoPluginMeta) => Record<string, any>;
+  // Gravação extra depois de salvar o item, para plugins com endpoint próprio
+  afterSave: (credentials: WordPressCredentials, post: WordPressPost, values: SeoPluginMeta) => Promise<void>;
+  read: (credentials: WordPressCredentials, post: WordPressPost) => Promise<StoredSeoMeta | null>;
+}
+
+// Campos de texto vazios ficam de fora para não apagar o que já está no plugin
+const filled = (fields: Record<string, string>): Record<string, string> =>
+  Object.fromEntries(Object.entries(fields).filter(([, value]) => value.trim() !== ''));
+
+const readHead = (html: string): Omit<SeoPluginMeta, 'focusKeyword'> => {
+  const doc = new DOMParser().parseFromString(`<head>${html}</head>`, 'text/html');
+  const robots = doc.querySelector('meta[name="robots"]')?.getAttribute('content') ?? '';
+  return {
+    title: doc.querySelector('title')?.textContent?.trim() ?? '',
+    description: doc.querySelector('meta[name="description"]')?.getAttribute('content') ?? '',
+    canonical: doc.querySelector('link[rel="canonical"]')?.getAttribute('href') ?? '',
+    noindex: robots.includes('noindex'),
+    nofollow: robots.includes('nofollow'),
+  };
+};
+
+const INDEXING_DIRECTIVES = ['index', 'noindex', 'follow', 'nofollow'];
+
+// O rank_math_robots substitui a lista inteira: só é enviado quando noindex/nofollow mudaram no
+// editor, para não trocar o padrão do site, e mantém noarchive, nosnippet etc. da lista gravada
+const rankMathRobots = (values: SeoPluginMeta): Record<string, string[]> => {
+  if (!values.robotsChanged) return {};
+  const kept = (values.robots ?? []).filter(directive => !INDEXING_DIRECTIVES.includes(directive));
+  return { rank_math_robots: [values.noindex ? 'noindex' : 'index', ...(values.nofollow ? ['nofollow'] : []), ...kept] };
+};
+
+const rankMathAdapter: SeoAdapter = {
+  payloadMeta: (values) => ({
+    ...filled({
+      rank_math_focus_keyword: values.focusKeyword,
+      rank_math_title: values.title,
+      rank_math_description: values.description,
+      rank_math_canonical_url: values.canonical,
+    }),
+    ...rankMathRobots(values),
+  }),
+  afterSave: (credentials, post, values) => updateRankMathMeta(credentials, post.id, rankMathAdapter.payloadMeta(values)),
+  async read(credentials, post) {
+    const meta = post.meta ?? {};
+    // Sites que registraram os campos do Rank Math na API REST devolvem os valores gravados
+    if ('rank_math_title' in meta || 'rank_math_description' in meta) {
+      const robots: string[] = Array.isArray(meta.rank_math_robots) ? meta.rank_math_robots : [];
+      return {
+        values: {
+          focusKeyword: meta.rank_math_focus_keyword ?? '',
+          title: meta.rank_math_title ?? '',
+          description: meta.rank_math_description ?? '',
+          canonical: meta.rank_math_canonical_url ?? '',
+          noindex: robots.includes('noindex'),
+          nofollow: robots.includes('nofollow'),
+          robots,
+        },
+        fromHead: false,
+      };
+    }
+    const head = await getRankMathHead(credentials, post.link);
+    return { values: { focusKeyword: '', ...readHead(head) }, fromHead: true };
+  },
+};
+
+// Os campos do Yoast são protegidos (começam com "_"): o site precisa registrá-los com
+// show_in_rest para que o /wp/v2 aceite gravá-los
+const YOAST_FIELDS = {
+  focusKeyword: '_yoast_wpseo_focuskw',
+  title: '_yoast_wpseo_title',
+  description: '_yoast_wpseo_metadesc',
+  canonical: '_yoast_wpseo_canonical',
+  noindex: '_yoast_wpseo_meta-robots-noindex',
+  nofollow: '_yoast_wpseo_meta-robots-nofollow',
+};
+
+const yoastAdapter: SeoAdapter = {
+  payloadMeta: (values) => ({
+    ...filled({
+      [YOAST_FIELDS.focusKeyword]: values.focusKeyword,
+      [YOAST_FIELDS.title]: values.title,
+      [YOAST_FIELDS.description]: values.description,
+      [YOAST_FIELDS.canonical]: values.canonical,
+    }),
+    // '1' força noindex/nofollow; vazio segue o padrão do tipo de post. Como no Rank Math, só vão
+    // quando mudaram no editor, para não apagar um '2' (index forçado) gravado no item
+    ...(values.robotsChanged ? {
+      [YOAST_FIELDS.noindex]: values.noindex ? '1' : '',
+      [YOAST_FIELDS.nofollow]: values.nofollow ? '1' : '',
+    } : {}),
+  }),
+  async afterSave(_credentials, post) {
+    if (!post.meta || !(YOAST_FIELDS.description in post.meta)) {
+      console.warn('Os campos do Yoast não estão expostos na API REST; os dados de SEO não foram gravados.');
+    }
+  },
+  async read(_credentials, post) {
+    const meta = post.meta ?? {};
+    if (YOAST_FIELDS.description in meta) {
+      return {
+        values: {
+          focusKeyword: meta[YOAST_FIELDS.focusKeyword] ?? '',
+          title: meta[YOAST_FIELDS.title] ?? '',
+          description: meta[YOAST_FIELDS.description] ?? '',
+          canonical: meta[YOAST_FIELDS.canonical] ?? '',
+          noindex: meta[YOAST_FIELDS.noindex] === '1',
+          nofollow: meta[YOAST_FIELDS.nofollow] === '1',
+        },
+        fromHead: false,
+      };
+    }
+    const head = post.yoast_head_json;
+    if (!head) return null;
+    return {
+      values: {
+        focusKeyword: '',
+        title: head.title ?? '',
+        description: head.description ?? '',
+        canonical: head.canonical ?? '',
+        noindex: head.robots?.index === 'noindex',
+        nofollow: head.robots?.follow === 'nofollow',
+      },
+      fromHead: true,
+    };
+  },
+};
+
+const adapters: Record<SeoPlugin, SeoAdapter> = {
+  rankmath: rankMathAdapter,
+  yoast: yoastAdapter,
+};
+
+const detectionCache = new Map<string, Promise<SeoPlugin | null>>();
+
+export const seoPluginService = {
+  // Uma detecção por site; falhas não ficam em cache
+  detect(credentials: WordPressCredentials): Promise<SeoPlugin | null> {
+    const cached = detectionCache.get(credentials.siteUrl);
+    if (cached) return cached;
+    const detection = detectSeoPlugin(credentials).catch(error => {
+      detectionCache.delete(credentials.siteUrl);
+      console.error('Erro ao detectar o plugin de SEO:', error);
+      return null;
+    });
+    detectionCache.set(credentials.siteUrl, detection);
+    return detection;
+  },
+
+  payloadMeta(plugin: SeoPlugin, values: SeoPluginMeta): Record<string, any> {
+    return adapters[plugin].payloadMeta(values);
+  },
+
+  afterSave(credentials: WordPressCredentials, plugin: SeoPlugin, post: WordPressPost, values: SeoPluginMeta): Promise<void> {
+    return adapters[plugin].afterSave(credentials, post, values);
+  },
+
+  // null quando não dá para ler
+  async read(credentials: WordPressCredentials, plugin: SeoPlugin, post: WordPressPost): Promise<StoredSeoMeta | null> {
+    try {
+      return await adapters[plugin].read(credentials, post);
+    } catch (error) {
+      console.error('Erro ao ler os dados de SEO do plugin:', error);
+      return null;
+    }
+  },
+};
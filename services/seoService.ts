@@ -22,20 +22,54 @@ const getWordCount = (text: string): number => {
     return text.trim().split(/\s+/).filter(Boolean).length;
 };
 
+// Sem palavra-chave, as regras que dependem dela falham em vez de passar com includes('')
+const containsKeyword = (text: string, keyword: string): boolean => {
+    const cleanK = cleanKeyword(keyword);
+    return cleanK !== '' && cleanText(text).includes(cleanK);
+};
+
 const getKeywordOccurrences = (text: string, keyword: string): number => {
     if (!keyword) return 0;
     const regex = new RegExp(`\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi');
     return (text.match(regex) || []).length;
 };
 
+type HeadlineInput = {
+    title: string;
+    seoDescription: string;
+    focusKeyword: string;
+};
+
+// Regras do título, usadas tanto na análise do post quanto na comparação de variações de título
+const titleKeywordCheck = ({ title, focusKeyword }: Pick<SeoInput, 'title' | 'focusKeyword'>): SeoCheck => ({
+    check: "Palavra-chave de foco no título de SEO",
+    category: 'Basic',
+    status: containsKeyword(title, focusKeyword) ? 'pass' : 'fail',
+    feedback: "Adicione a palavra-chave de foco ao título para melhores rankings."
+});
+
+const titleKeywordPositionCheck = ({ title, focusKeyword }: Pick<SeoInput, 'title' | 'focusKeyword'>): SeoCheck => {
+    const cleanT = cleanText(title);
+    const cleanK = cleanKeyword(focusKeyword);
+    const position = cleanT.indexOf(cleanK);
+    return {
+        check: "Palavra-chave de foco no início do título de SEO",
+        category: 'Title',
+        status: cleanK !== '' && position !== -1 && position < title.length / 2 ? 'pass' : 'fail',
+        feedback: "Coloque a palavra-chave de foco perto do início do título."
+    };
+};
+
+const titleNumberCheck = ({ title }: Pick<SeoInput, 'title'>): SeoCheck => ({
+    check: "Título de SEO contém um número",
+    category: 'Title',
+    status: /\d/.test(title) ? 'pass' : 'fail',
+    feedback: "Adicionar um número ao título pode aumentar a taxa de cliques."
+});
+
 const checks: ((input: SeoInput) => SeoCheck)[] = [
     // Basic SEO
-    ({ title, focusKeyword }) => ({
-        check: "Palavra-chave de foco no título de SEO",
-        category: 'Basic',
-        status: cleanText(title).includes(cleanKeyword(focusKeyword)) ? 'pass' : 'fail',
-        feedback: "Adicione a palavra-chave de foco ao título para melhores rankings."
-    }),
+    titleKeywordCheck,
     ({ urlSlug, focusKeyword }) => ({
         check: "Palavra-chave de foco no URL",
         category: 'Basic',
@@ -142,23 +176,8 @@ const checks: ((input: SeoInput) => SeoCheck)[] = [
         };
     },
     // Title Readability
-    ({ title, focusKeyword }) => {
-        const cleanT = cleanText(title);
-        const cleanK = cleanKeyword(focusKeyword);
-        const position = cleanT.indexOf(cleanK);
-        return {
-            check: "Palavra-chave de foco no início do título de SEO",
-            category: 'Title',
-            status: position !== -1 && position < title.length / 2 ? 'pass' : 'fail',
-            feedback: "Coloque a palavra-chave de foco perto do início do título."
-        };
-    },
-    ({ title }) => ({
-        check: "Título de SEO contém um número",
-        category: 'Title',
-        status: /\d/.test(title) ? 'pass' : 'fail',
-        feedback: "Adicionar um número ao título pode aumentar a taxa de cliques."
-    }),
+    titleKeywordPositionCheck,
+    titleNumberCheck,
     // Content Readability
     ({ content }) => {
         const doc = new DOMParser().parseFromString(content, 'text/html');
@@ -202,6 +221,30 @@ const checks: ((input: SeoInput) => SeoCheck)[] = [
     },
 ];
 
+const headlineChecks: ((input: HeadlineInput) => SeoCheck)[] = [
+    titleKeywordCheck,
+    titleKeywordPositionCheck,
+    titleNumberCheck,
+    ({ title }) => ({
+        check: "Comprimento do título de SEO",
+        category: 'Title',
+        status: title.length >= 50 && title.length <= 60 ? 'pass' : 'fail',
+        feedback: `O título tem ${title.length} caracteres. O ideal é entre 50 e 60 para não ser cortado na busca.`
+    }),
+    ({ seoDescription }) => ({
+        check: "Comprimento da meta description",
+        category: 'Basic',
+        status: seoDescription.length >= 120 && seoDescription.length <= 155 ? 'pass' : 'fail',
+        feedback: `A meta description tem ${seoDescription.length} caracteres. O recomendado é entre 120 e 155.`
+    }),
+    ({ seoDescription, focusKeyword }) => ({
+        check: "Palavra-chave de foco na meta description",
+        category: 'Basic',
+        status: containsKeyword(seoDescription, focusKeyword) ? 'pass' : 'fail',
+        feedback: "Inclua a palavra-chave de foco na meta description."
+    }),
+];
+
 export function analyzeSeoRealtime(input: SeoInput): SeoAnalysis {
     if (!input.focusKeyword) {
         return {
@@ -235,4 +278,13 @@ export function analyzeSeoRealtime(input: SeoInput): SeoAnalysis {
         score: totalScore,
         checks: allChecks
     };
-}
\ No newline at end of file
+}
+
+// Pontuação só do título e da meta description (0-100), para comparar variações lado a lado
+export function analyzeHeadline(input: HeadlineInput): SeoAnalysis {
+    const allChecks = headlineChecks.map(checkFn => checkFn(input));
+    return {
+        score: Math.round((allChecks.filter(c => c.status === 'pass').length / allChecks.length) * 100),
+        checks: allChecks
+    };
+}
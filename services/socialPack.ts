@@ -0,0 +1,111 @@
+import { ArticleDraft, SocialChannel, SocialContentPack, SocialPackSource } from "../types";
+import { stripHtml } from "./factChecker";
+
+// Limites de cada canal. A legenda do Instagram fica abaixo dos 2.200 caracteres do post
+// para sobrar espaço para as hashtags; o fio usa o limite do X, o mais restrito dos dois.
+export const SOCIAL_CHANNEL_LIMITS = {
+  instagramPost: 2200,
+  instagramCaption: 1800,
+  instagramHashtags: 30,
+  threadPost: 280,
+  threadPosts: 8,
+  whatsapp: 1000,
+  newsletter: 400,
+};
+
+export const SOCIAL_CHANNEL_LABELS: Record<SocialChannel, string> = {
+  instagram: 'Instagram',
+  fio: 'Fio X/Threads',
+  whatsapp: 'Canal do WhatsApp',
+  newsletter: 'Newsletter',
+};
+
+// Corpo enviado à IA: o suficiente para o contexto sem estourar prompts de modelos pequenos
+const MAX_BODY_CHARS = 4000;
+
+export const normalizeHashtag = (tag: string): string => tag.trim().replace(/^#+/, '').replace(/\s+/g, '');
+
+export const formatHashtags = (tags: string[]): string =>
+  tags.map(normalizeHashtag).filter(Boolean).map(tag => `#${tag}`).join(' ');
+
+export const formatInstagramPost = (pack: SocialContentPack): string =>
+  [pack.instagram_caption.trim(), formatHashtags(pack.instagram_hashtags)].filter(Boolean).join('\n\n');
+
+// Texto pronto para colar em cada canal
+export function getChannelText(pack: SocialContentPack, channel: SocialChannel): string {
+  switch (channel) {
+    case 'instagram':
+      return formatInstagramPost(pack);
+    case 'fio':
+      return pack.thread_posts.map(post => post.trim()).join('\n\n');
+    case 'whatsapp':
+      return pack.whatsapp_message.trim();
+    case 'newsletter':
+      return pack.newsletter_blurb.trim();
+  }
+}
+
+// Problemas de tamanho por canal, para avisar o editor enquanto ele ajusta o texto
+export function getChannelLimitIssues(pack: SocialContentPack, channel: SocialChannel): string[] {
+  const issues: string[] = [];
+  switch (channel) {
+    case 'instagram': {
+      const length = formatInstagramPost(pack).length;
+      if (length > SOCIAL_CHANNEL_LIMITS.instagramPost) {
+        issues.push(`O post tem ${length} caracteres; o Instagram aceita até ${SOCIAL_CHANNEL_LIMITS.instagramPost}.`);
+      }
+      if (pack.instagram_hashtags.length > SOCIAL_CHANNEL_LIMITS.instagramHashtags) {
+        issues.push(`Use no máximo ${SOCIAL_CHANNEL_LIMITS.instagramHashtags} hashtags.`);
+      }
+      break;
+    }
+    case 'fio':
+      pack.thread_posts.forEach((post, index) => {
+        if (post.length > SOCIAL_CHANNEL_LIMITS.threadPost) {
+          issues.push(`O post ${index + 1} tem ${post.length} caracteres; o limite é ${SOCIAL_CHANNEL_LIMITS.threadPost}.`);
+        }
+      });
+      break;
+    case 'whatsapp':
+      if (pack.whatsapp_message.length > SOCIAL_CHANNEL_LIMITS.whatsapp) {
+        issues.push(`A mensagem tem ${pack.whatsapp_message.length} caracteres; o limite é ${SOCIAL_CHANNEL_LIMITS.whatsapp}.`);
+      }
+      break;
+    case 'newsletter':
+      if (pack.newsletter_blurb.length > SOCIAL_CHANNEL_LIMITS.newsletter) {
+        issues.push(`A chamada tem ${pack.newsletter_blurb.length} caracteres; o limite é ${SOCIAL_CHANNEL_LIMITS.newsletter}.`);
+      }
+      break;
+  }
+  return issues;
+}
+
+export function sourceFromArticleDraft(draft: ArticleDraft): SocialPackSource {
+  return {
+    kind: 'materia',
+    title: draft.title,
+    summary: draft.summary,
+    body_text: stripHtml(draft.article_body_html).slice(0, MAX_BODY_CHARS),
+    event: draft.event_details
+      ? { date: draft.event_details.date, time: '', location: draft.event_details.location, tickets: '' }
+      : null,
+  };
+}
+
+export function sourceFromAgendaItem(item: {
+  title: string;
+  contentHtml: string;
+  date: string;
+  time: string;
+  location: string;
+  tickets: string;
+}): SocialPackSource {
+  const bodyText = stripHtml(item.contentHtml);
+  return {
+    kind: 'agenda',
+    title: item.title,
+    summary: bodyText.slice(0, 300),
+    body_text: bodyText.slice(0, MAX_BODY_CHARS),
+    event: { date: item.date, time: item.time, location: item.location, tickets: item.tickets },
+  };
+}
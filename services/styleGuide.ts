@@ -0,0 +1,133 @@
+import { supabase } from './supabase';
+import { StyleGuide } from '../types';
+
+// Ponto de partida para equipes que ainda não cadastraram o próprio guia
+export const DEFAULT_STYLE_GUIDE: StyleGuide = {
+  terms: [
+    { preferred: 'Região Metropolitana do Recife', variants: ['Grande Recife', 'RMR'] },
+    { preferred: 'Marco Zero', variants: ['Marco-Zero'] },
+  ],
+  bannedPhrases: [
+    { phrase: 'imperdível', suggestion: '' },
+    { phrase: 'não perca', suggestion: '' },
+    { phrase: 'sucesso absoluto', suggestion: '' },
+    { phrase: 'promete agitar', suggestion: '' },
+  ],
+  capitalization: ['Boa Viagem', 'Casa Forte', 'Poço da Panela', 'Rio Capibaribe'],
+  dateTime: {
+    timeFormat: 'abreviado',
+    dateFormat: 'extenso',
+    ordinalFirstDay: true,
+    lowercaseMonthsAndWeekdays: true,
+  },
+};
+
+let activeTeamId: string | null = null;
+let activeGuide: StyleGuide = DEFAULT_STYLE_GUIDE;
+let teamCustomized = false;
+
+// Registros antigos ou editados à mão podem não ter todos os campos
+const withDefaults = (rules: Partial<StyleGuide> | null | undefined): StyleGuide => ({
+  terms: rules?.terms ?? DEFAULT_STYLE_GUIDE.terms,
+  bannedPhrases: rules?.bannedPhrases ?? DEFAULT_STYLE_GUIDE.bannedPhrases,
+  capitalization: rules?.capitalization ?? DEFAULT_STYLE_GUIDE.capitalization,
+  dateTime: { ...DEFAULT_STYLE_GUIDE.dateTime, ...rules?.dateTime },
+});
+
+const quoted = (items: string[]) => items.map(item => `"${item}"`).join(', ');
+
+// Bloco anexado à instrução do sistema, para que a IA já escreva dentro do padrão da casa
+export function styleGuidePromptBlock(guide: StyleGuide): string {
+  const lines: string[] = [];
+  for (const term of guide.terms.filter(term => term.preferred.trim())) {
+    lines.push(term.variants.length > 0
+      ? `- Escreva "${term.preferred}", nunca ${quoted(term.variants)}.`
+      : `- Escreva "${term.preferred}".`);
+  }
+  if (guide.capitalization.length > 0) {
+    lines.push(`- Respeite exatamente a grafia destes nomes: ${quoted(guide.capitalization)}.`);
+  }
+  if (guide.bannedPhrases.length > 0) {
+    lines.push(`- Não use expressões promocionais como ${quoted(guide.bannedPhrases.map(banned => banned.phrase))}.`);
+  }
+  lines.push(guide.dateTime.timeFormat === 'abreviado'
+    ? '- Horários no formato 20h ou 20h30 (nunca 20:00, 20h00 ou 20hs).'
+    : '- Horários no formato 20:00 ou 20:30.');
+  lines.push(guide.dateTime.dateFormat === 'extenso'
+    ? `- Datas por extenso: "5 de setembro"${guide.dateTime.ordinalFirstDay ? ', com "1º" para o primeiro dia do mês' : ''}.`
+    : '- Datas no formato numérico: 05/09 ou 05/09/2025.');
+  if (guide.dateTime.lowercaseMonthsAndWeekdays) {
+    lines.push('- Meses e dias da semana em letras minúsculas.');
+  }
+  return `Guia de estilo da redação (obrigatório):\n${lines.join('\n')}`;
+}
+
+export const withStyleGuide = (systemInstruction: string): string =>
+  `${systemInstruction}\n\n${styleGuidePromptBlock(activeGuide)}`;
+
+export const styleGuideService = {
+  // Carrega o guia da equipe; sem equipe (ou em caso de erro) vale o guia padrão
+  async loadTeamGuide(teamId: string | null): Promise<void> {
+    activeTeamId = teamId;
+    activeGuide = DEFAULT_STYLE_GUIDE;
+    teamCustomized = false;
+    if (!teamId) return;
+
+    const { data, error } = await supabase
+      .from('style_guides')
+      .select('rules')
+      .eq('team_id', teamId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Erro ao carregar o guia de estilo da equipe:', error);
+      return;
+    }
+    if (activeTeamId !== teamId || !data) return; // Outra equipe foi carregada enquanto esperávamos
+
+    activeGuide = withDefaults(data.rules);
+    teamCustomized = true;
+  },
+
+  getGuide(): StyleGuide {
+    return activeGuide;
+  },
+
+  isCustomized(): boolean {
+    return teamCustomized;
+  },
+
+  async saveTeamGuide(teamId: string, guide: StyleGuide, userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('style_guides')
+      .upsert({ team_id: teamId, rules: guide, updated_by: userId, updated_at: new Date().toISOString() }, { onConflict: 'team_id' });
+
+    if (error) {
+      console.error('Erro ao salvar o guia de estilo:', error);
+      throw new Error('Falha ao salvar o guia de estilo da equipe.');
+    }
+
+    if (teamId === activeTeamId) {
+      activeGuide = guide;
+      teamCustomized = true;
+    }
+  },
+
+  // Apaga o guia da equipe, que volta a usar o padrão
+  async resetToDefault(teamId: string): Promise<void> {
+    const { error } = await supabase
+      .from('style_guides')
+      .delete()
+      .eq('team_id', teamId);
+
+    if (error) {
+      console.error('Erro ao restaurar o guia de estilo padrão:', error);
+      throw new Error('Falha ao restaurar o guia de estilo padrão.');
+    }
+
+    if (teamId === activeTeamId) {
+      activeGuide = DEFAULT_STYLE_GUIDE;
+      teamCustomized = false;
+    }
+  },
+};
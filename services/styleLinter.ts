@@ -0,0 +1,230 @@
+import { StyleGuide, StyleIssue } from "../types";
+
+// Corretor determinístico do guia de estilo: roda sobre o texto do HTML (nunca sobre tags ou atributos)
+
+const MONTHS = ['janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho', 'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'];
+const WEEKDAYS = ['segunda-feira', 'terça-feira', 'quarta-feira', 'quinta-feira', 'sexta-feira', 'sábado', 'domingo'];
+
+const MONTH_ALTERNATIVES = MONTHS.join('|');
+
+// Trechos que não são texto corrido
+const SKIPPED_ELEMENTS = 'script, style, code, pre';
+
+const CONTEXT_CHARS = 30;
+
+type TextIssue = Omit<StyleIssue, 'id' | 'nodeIndex' | 'context'>;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// \b não reconhece letras acentuadas, daí os limites de palavra em Unicode; espaços do termo aceitam quebras e duplicações
+const wordPattern = (text: string) =>
+  new RegExp(`(?<![\\p{L}\\d])${escapeRegExp(text.trim()).replace(/\s+/g, '\\s+')}(?![\\p{L}\\d])`, 'giu');
+
+const upperFirst = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const sameWords = (a: string, b: string) => a.replace(/\s+/g, ' ') === b.replace(/\s+/g, ' ');
+
+const isSentenceStart = (text: string, index: number) => /(^\s*|[.!?:]\s+)$/.test(text.slice(0, index));
+
+// "Rua Sete de Setembro", "Parque 13 de Maio": o mês faz parte de um nome próprio
+const isInsideProperName = (text: string, index: number) =>
+  /\p{Lu}[\p{L}.]*\s+(\d{1,2}|\p{Lu}\p{L}*)\s+de\s+$/u.test(text.slice(0, index));
+
+// Número logo depois de uma palavra com maiúscula ("Parque 13 de Maio") não é data
+const followsProperName = (text: string, index: number) => /\p{Lu}[\p{L}.]*\s+$/u.test(text.slice(0, index));
+
+const matchesOf = (text: string, pattern: RegExp) =>
+  Array.from(text.matchAll(pattern), match => ({ text: match[0], start: match.index!, end: match.index! + match[0].length, groups: match }));
+
+function termIssues(text: string, guide: StyleGuide): TextIssue[] {
+  const issues: TextIssue[] = [];
+  for (const term of guide.terms) {
+    const preferred = term.preferred.trim();
+    if (!preferred) continue;
+    // Uma variante contida na forma preferida ("Recife" em "Região Metropolitana do Recife") não conta
+    const preferredRanges = matchesOf(text, wordPattern(preferred));
+    for (const variant of term.variants.map(item => item.trim()).filter(Boolean)) {
+      for (const match of matchesOf(text, wordPattern(variant))) {
+        if (preferredRanges.some(range => match.start < range.end && match.end > range.start)) continue;
+        issues.push({ rule: 'termo', match: match.text, replacement: preferred, message: `Use "${preferred}" em vez de "${match.text}".`, start: match.start, end: match.end });
+      }
+    }
+  }
+  return issues;
+}
+
+function capitalizationIssues(text: string, forms: string[], message: (form: string) => string, skip?: (index: number) => boolean): TextIssue[] {
+  const issues: TextIssue[] = [];
+  for (const form of forms.map(item => item.trim()).filter(Boolean)) {
+    for (const match of matchesOf(text, wordPattern(form))) {
+      if (sameWords(match.text, form)) continue;
+      // Maiúscula no início da frase é legítima mesmo para formas em minúsculas
+      if (sameWords(match.text, upperFirst(form)) && isSentenceStart(text, match.start)) continue;
+      if (skip?.(match.start)) continue;
+      issues.push({ rule: 'maiusculas', match: match.text, replacement: form, message: message(form), start: match.start, end: match.end });
+    }
+  }
+  return issues;
+}
+
+function bannedPhraseIssues(text: string, guide: StyleGuide): TextIssue[] {
+  const issues: TextIssue[] = [];
+  for (const banned of guide.bannedPhrases) {
+    if (!banned.phrase.trim()) continue;
+    const suggestion = banned.suggestion.trim();
+    for (const match of matchesOf(text, wordPattern(banned.phrase))) {
+      const replacement = suggestion && (/^\p{Lu}/u.test(match.text) ? upperFirst(suggestion) : suggestion);
+      issues.push({
+        rule: 'expressao_proibida',
+        match: match.text,
+        replacement: replacement || null,
+        message: suggestion ? `Expressão vetada pelo guia: troque por "${suggestion}".` : `Expressão promocional vetada pelo guia: reescreva o trecho.`,
+        start: match.start,
+        end: match.end,
+      });
+    }
+  }
+  return issues;
+}
+
+// Horário com "h": 20h, 20hs, 20 hrs, 08h30, 20h30min
+const HOUR_WITH_H = /(?<![\p{L}\d:])([01]?\d|2[0-3])\s?(?:h|hs|hrs?)(?:([0-5]\d)(?:min)?)?(?![\p{L}\d])/giu;
+// Horário com dois-pontos: 20:00, 8:30
+const HOUR_WITH_COLON = /(?<![\d:])([01]?\d|2[0-3]):([0-5]\d)(?![\d:])/g;
+// No formato relógio, "2h" só é horário depois de "às", "das", "até"...; sem isso pode ser duração
+const TIME_CONTEXT = /(?:às|as|das|até|e)\s+$/i;
+
+function timeIssues(text: string, guide: StyleGuide): TextIssue[] {
+  const issues: TextIssue[] = [];
+  const add = (match: { text: string; start: number; end: number }, replacement: string) => {
+    if (replacement === match.text) return;
+    issues.push({ rule: 'horario', match: match.text, replacement, message: `Horário no padrão da casa: "${replacement}".`, start: match.start, end: match.end });
+  };
+
+  if (guide.dateTime.timeFormat === 'abreviado') {
+    for (const match of matchesOf(text, HOUR_WITH_H)) {
+      const minutes = match.groups[2];
+      add(match, `${Number(match.groups[1])}h${minutes && minutes !== '00' ? minutes : ''}`);
+    }
+    for (const match of matchesOf(text, HOUR_WITH_COLON)) {
+      const minutes = match.groups[2];
+      add(match, `${Number(match.groups[1])}h${minutes !== '00' ? minutes : ''}`);
+    }
+  } else {
+    for (const match of matchesOf(text, HOUR_WITH_H)) {
+      if (!TIME_CONTEXT.test(text.slice(0, match.start))) continue;
+      add(match, `${match.groups[1].padStart(2, '0')}:${match.groups[2] || '00'}`);
+    }
+  }
+  return issues;
+}
+
+// Data numérica com mês de dois dígitos (05/09, 5/09/2025); "24/7" e frações ficam de fora
+const NUMERIC_DATE = /(?<![\d/])(0?[1-9]|[12]\d|3[01])\/(0[1-9]|1[0-2])(?:\/(\d{4}|\d{2}))?(?![\d/])/g;
+const WRITTEN_DATE = new RegExp(`(?<![\\p{L}\\d])(0?[1-9]|[12]\\d|3[01])(º|°|o)?\\s+de\\s+(${MONTH_ALTERNATIVES})(?:\\s+de\\s+(\\d{4}))?(?![\\p{L}\\d])`, 'giu');
+
+function dateIssues(text: string, guide: StyleGuide): TextIssue[] {
+  const { dateFormat, ordinalFirstDay, lowercaseMonthsAndWeekdays } = guide.dateTime;
+  const issues: TextIssue[] = [];
+  const add = (match: { text: string; start: number; end: number }, replacement: string) => {
+    if (sameWords(replacement, match.text)) return;
+    issues.push({ rule: 'data', match: match.text, replacement, message: `Data no padrão da casa: "${replacement}".`, start: match.start, end: match.end });
+  };
+  const dayText = (day: number) => (day === 1 && ordinalFirstDay ? '1º' : String(day));
+
+  if (dateFormat === 'extenso') {
+    for (const match of matchesOf(text, NUMERIC_DATE)) {
+      const year = match.groups[3];
+      const fullYear = year && year.length === 2 ? `20${year}` : year;
+      add(match, `${dayText(Number(match.groups[1]))} de ${MONTHS[Number(match.groups[2]) - 1]}${fullYear ? ` de ${fullYear}` : ''}`);
+    }
+    for (const match of matchesOf(text, WRITTEN_DATE)) {
+      if (followsProperName(text, match.start)) continue;
+      const month = lowercaseMonthsAndWeekdays ? match.groups[3].toLowerCase() : match.groups[3];
+      const year = match.groups[4];
+      add(match, `${dayText(Number(match.groups[1]))} de ${month}${year ? ` de ${year}` : ''}`);
+    }
+  } else {
+    for (const match of matchesOf(text, WRITTEN_DATE)) {
+      if (followsProperName(text, match.start)) continue;
+      const month = MONTHS.indexOf(match.groups[3].toLowerCase()) + 1;
+      const year = match.groups[4];
+      add(match, `${match.groups[1].padStart(2, '0')}/${String(month).padStart(2, '0')}${year ? `/${year}` : ''}`);
+    }
+  }
+  return issues;
+}
+
+// Ocorrências sobrepostas (data que inclui o mês, por exemplo): fica a que começa antes, ou a mais longa
+const withoutOverlaps = (issues: TextIssue[]): TextIssue[] => {
+  const sorted = [...issues].sort((a, b) => a.start - b.start || b.end - a.end);
+  const kept: TextIssue[] = [];
+  for (const issue of sorted) {
+    if (kept.length > 0 && issue.start < kept[kept.length - 1].end) continue;
+    kept.push(issue);
+  }
+  return kept;
+};
+
+export function lintText(text: string, guide: StyleGuide): TextIssue[] {
+  const namedForms = [...guide.capitalization, ...guide.terms.map(term => term.preferred)];
+  return withoutOverlaps([
+    ...dateIssues(text, guide),
+    ...timeIssues(text, guide),
+    ...termIssues(text, guide),
+    ...bannedPhraseIssues(text, guide),
+    ...capitalizationIssues(text, namedForms, form => `Grafia correta: "${form}".`),
+    ...(guide.dateTime.lowercaseMonthsAndWeekdays
+      ? [
+          ...capitalizationIssues(text, MONTHS, () => 'Meses em letras minúsculas.', index => isInsideProperName(text, index)),
+          ...capitalizationIssues(text, WEEKDAYS, () => 'Dias da semana em letras minúsculas.'),
+        ]
+      : []),
+  ]);
+}
+
+const parseFragment = (html: string): Element =>
+  new DOMParser().parseFromString(`<div>${html}</div>`, 'text/html').body.firstElementChild!;
+
+const textNodesOf = (root: Element): Text[] => {
+  const walker = root.ownerDocument.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const nodes: Text[] = [];
+  let node = walker.nextNode() as Text | null;
+  while (node) {
+    nodes.push(node);
+    node = walker.nextNode() as Text | null;
+  }
+  return nodes;
+};
+
+const contextOf = (text: string, start: number, end: number): string =>
+  `${start > CONTEXT_CHARS ? '…' : ''}${text.slice(Math.max(0, start - CONTEXT_CHARS), end + CONTEXT_CHARS).trim()}${end + CONTEXT_CHARS < text.length ? '…' : ''}`;
+
+export function lintHtml(html: string, guide: StyleGuide): StyleIssue[] {
+  const issues: StyleIssue[] = [];
+  textNodesOf(parseFragment(html)).forEach((node, nodeIndex) => {
+    if (node.parentElement?.closest(SKIPPED_ELEMENTS)) return;
+    for (const issue of lintText(node.data, guide)) {
+      issues.push({ ...issue, id: `${nodeIndex}:${issue.start}:${issue.rule}`, nodeIndex, context: contextOf(node.data, issue.start, issue.end) });
+    }
+  });
+  return issues;
+}
+
+// Aplica as correções sobre o mesmo HTML que foi analisado; ocorrências que não batem mais são ignoradas
+export function applyStyleFixes(html: string, issues: StyleIssue[]): string {
+  const fixable = issues.filter(issue => issue.replacement !== null);
+  if (fixable.length === 0) return html;
+
+  const root = parseFragment(html);
+  const nodes = textNodesOf(root);
+  let applied = 0;
+  // De trás para frente em cada nó, para as posições das demais ocorrências continuarem válidas
+  for (const issue of [...fixable].sort((a, b) => a.nodeIndex - b.nodeIndex || b.start - a.start)) {
+    const node = nodes[issue.nodeIndex];
+    if (!node || node.data.slice(issue.start, issue.end) !== issue.match) continue;
+    node.data = node.data.slice(0, issue.start) + issue.replacement + node.data.slice(issue.end);
+    applied++;
+  }
+  return applied > 0 ? root.innerHTML : html;
+}
@@ -0,0 +1,79 @@
+export type DiffLineType = 'igual' | 'adicionada' | 'removida';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+// Trecho alterado: itens removidos do original e os que entram no lugar deles
+export interface DiffHunk {
+  id: number;
+  removed: string[];
+  added: string[];
+}
+
+export type DiffSegment =
+  | { type: 'igual'; items: string[] }
+  | { type: 'alteracao'; hunk: DiffHunk };
+
+// Diff linha a linha pela maior subsequência comum (LCS); suficiente para textos de alguns milhares de linhas
+export function diffLines(before: string, after: string): DiffLine[] {
+  return diffSequences(before.split('\n'), after.split('\n'));
+}
+
+// Mesmo algoritmo para qualquer sequência já dividida (parágrafos, palavras)
+export function diffSequences(a: string[], b: string[]): DiffLine[] {
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'igual', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removida', text: a[i++] });
+    } else {
+      lines.push({ type: 'adicionada', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removida', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'adicionada', text: b[j++] });
+  return lines;
+}
+
+export const hasChanges = (lines: DiffLine[]): boolean => lines.some(line => line.type !== 'igual');
+
+// Agrupa remoções e adições consecutivas em trechos que o editor aceita ou rejeita de uma vez
+export function groupHunks(lines: DiffLine[]): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  let nextId = 1;
+  for (const line of lines) {
+    const last = segments[segments.length - 1];
+    if (line.type === 'igual') {
+      if (last?.type === 'igual') last.items.push(line.text);
+      else segments.push({ type: 'igual', items: [line.text] });
+    } else {
+      const hunk = last?.type === 'alteracao' ? last.hunk : null;
+      const target = hunk ?? { id: nextId++, removed: [], added: [] };
+      if (!hunk) segments.push({ type: 'alteracao', hunk: target });
+      (line.type === 'removida' ? target.removed : target.added).push(line.text);
+    }
+  }
+  return segments;
+}
+
+// Trechos aceitos entram com a versão nova; os rejeitados mantêm o original
+export const applyHunks = (segments: DiffSegment[], acceptedIds: Set<number>): string[] =>
+  segments.flatMap(segment => {
+    if (segment.type === 'igual') return segment.items;
+    return acceptedIds.has(segment.hunk.id) ? segment.hunk.added : segment.hunk.removed;
+  });
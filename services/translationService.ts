@@ -0,0 +1,163 @@
+import { ArticleDraft, HistoriaDraft, TranslatableContent, TranslationLanguage, WordPressCredentials } from "../types";
+import { getAllCPTItemsWithMeta } from "./wordpressService";
+
+export const TRANSLATION_LANGUAGES: Record<TranslationLanguage, { label: string; promptName: string }> = {
+  en: { label: 'Inglês', promptName: 'inglês' },
+  es: { label: 'Espanhol', promptName: 'espanhol' },
+};
+
+const GLOSSARY_STORAGE_KEY = 'translation_glossary';
+
+// Termos mais curtos que isso dariam falsos positivos ("Bar", "Rua")
+const MIN_TERM_LENGTH = 4;
+
+const TEXT_FIELDS = ['title', 'summary', 'article_body_html', 'seo_description', 'focus_keyword', 'suggested_alt_text'] as const;
+
+const PLACEHOLDER_PATTERN = /\[\[T\d+\]\]/g;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Ocorrências do termo como palavra inteira ("Recife" não casa dentro de "Recifense")
+const termPattern = (term: string) => new RegExp(`(?<![\\p{L}\\d])${escapeRegExp(term)}(?![\\p{L}\\d])`, 'gu');
+
+const mapContent = <T extends TranslatableContent>(content: T, transform: (text: string) => string): T => {
+  const mapped = { ...content, tags: content.tags.map(transform) };
+  for (const field of TEXT_FIELDS) (mapped as TranslatableContent)[field] = transform(content[field]);
+  return mapped;
+};
+
+const allText = (content: TranslatableContent): string =>
+  [...TEXT_FIELDS.map(field => content[field]), ...content.tags].join('\n');
+
+export const contentFromDraft = (draft: ArticleDraft | HistoriaDraft): TranslatableContent => ({
+  title: draft.title,
+  summary: draft.summary,
+  article_body_html: draft.article_body_html,
+  seo_description: draft.seo_description,
+  focus_keyword: draft.focus_keyword,
+  suggested_alt_text: draft.suggested_alt_text,
+  tags: draft.tags,
+});
+
+// Posts já publicados não guardam resumo nem meta description separados: o resumo sai do começo do texto
+export const contentFromPost = (post: { title: string; contentHtml: string; focusKeyword: string; altText: string }): TranslatableContent => {
+  const plainText = (new DOMParser().parseFromString(post.contentHtml, 'text/html').body.textContent || '').replace(/\s+/g, ' ').trim();
+  return {
+    title: post.title,
+    summary: '',
+    article_body_html: post.contentHtml,
+    seo_description: plainText.slice(0, 155),
+    focus_keyword: post.focusKeyword,
+    suggested_alt_text: post.altText,
+    tags: [],
+  };
+};
+
+// Glossário da equipe: nomes que nunca devem ser traduzidos, além dos cadastrados no WordPress
+export const loadCustomGlossary = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(GLOSSARY_STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter((term): term is string => typeof term === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomGlossary = (terms: string[]) => {
+  localStorage.setItem(GLOSSARY_STORAGE_KEY, JSON.stringify(terms));
+};
+
+// Nomes de lugares e artistas cadastrados no site; uma falha em um dos tipos não impede a tradução
+export async function fetchSiteGlossaryNames(credentials: WordPressCredentials): Promise<string[]> {
+  const results = await Promise.allSettled([
+    getAllCPTItemsWithMeta(credentials, 'lugar', 3),
+    getAllCPTItemsWithMeta(credentials, 'artista', 3),
+  ]);
+  const names: string[] = [];
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      console.error('Erro ao carregar nomes para o glossário de tradução:', result.reason);
+      continue;
+    }
+    for (const item of result.value) {
+      const name = new DOMParser().parseFromString(item.title.rendered, 'text/html').body.textContent?.trim();
+      if (name) names.push(name);
+    }
+  }
+  return names;
+}
+
+// Só entram no prompt os termos que aparecem no conteúdo; os mais longos primeiro,
+// para "Teatro de Santa Isabel" ser protegido inteiro antes de "Santa Isabel"
+export function buildGlossary(content: TranslatableContent, candidates: string[]): string[] {
+  const text = allText(content);
+  const terms = new Set(
+    candidates.map(term => term.trim()).filter(term => term.length >= MIN_TERM_LENGTH && termPattern(term).test(text))
+  );
+  return [...terms].sort((a, b) => b.length - a.length);
+}
+
+// Troca os termos do glossário por marcadores [[T1]], [[T2]]... que a IA copia sem traduzir
+export function protectGlossaryTerms(content: TranslatableContent, glossary: string[]): { content: TranslatableContent; placeholders: Record<string, string> } {
+  const placeholders: Record<string, string> = {};
+  let protectedContent = content;
+  glossary.forEach((term, index) => {
+    const token = `[[T${index + 1}]]`;
+    const pattern = termPattern(term);
+    let used = false;
+    protectedContent = mapContent(protectedContent, text => text.replace(pattern, () => {
+      used = true;
+      return token;
+    }));
+    if (used) placeholders[token] = term;
+  });
+  return { content: protectedContent, placeholders };
+}
+
+export const restoreGlossaryTerms = <T extends TranslatableContent>(content: T, placeholders: Record<string, string>): T =>
+  mapContent(content, text => text.replace(PLACEHOLDER_PATTERN, token => placeholders[token] ?? token));
+
+// Sequência de tags de abertura e fechamento, ignorando atributos e texto
+export const getHtmlStructure = (html: string): string[] =>
+  [...html.matchAll(/<(\/?)([a-zA-Z][a-zA-Z0-9]*)/g)].map(match => `${match[1]}${match[2].toLowerCase()}`);
+
+const getLinks = (html: string): string[] =>
+  [...html.matchAll(/href\s*=\s*["']([^"']*)["']/gi)].map(match => match[1]);
+
+// Avisos para o editor revisar antes de publicar a tradução
+export function checkTranslation(original: TranslatableContent, translated: TranslatableContent, glossary: string[]): string[] {
+  const warnings: string[] = [];
+
+  const originalStructure = getHtmlStructure(original.article_body_html);
+  const translatedStructure = getHtmlStructure(translated.article_body_html);
+  if (originalStructure.length !== translatedStructure.length) {
+    warnings.push(`A estrutura HTML da tradução difere do original (${originalStructure.length} tags no original, ${translatedStructure.length} na tradução).`);
+  } else {
+    const position = originalStructure.findIndex((tag, index) => tag !== translatedStructure[index]);
+    if (position >= 0) {
+      warnings.push(`A estrutura HTML da tradução difere do original na tag ${position + 1}: <${originalStructure[position]}> no original, <${translatedStructure[position]}> na tradução.`);
+    }
+  }
+
+  const originalLinks = getLinks(original.article_body_html);
+  const translatedLinks = getLinks(translated.article_body_html);
+  const missingLinks = originalLinks.filter(link => !translatedLinks.includes(link));
+  if (missingLinks.length > 0) {
+    warnings.push(`Links alterados ou removidos na tradução: ${missingLinks.join(', ')}.`);
+  }
+
+  const translatedText = allText(translated);
+  const leftovers = translatedText.match(PLACEHOLDER_PATTERN);
+  if (leftovers) {
+    warnings.push(`Marcadores do glossário não reconhecidos: ${[...new Set(leftovers)].join(', ')}.`);
+  }
+
+  const originalText = allText(original);
+  for (const term of glossary) {
+    if (termPattern(term).test(originalText) && !termPattern(term).test(translatedText)) {
+      warnings.push(`O nome "${term}" não aparece na tradução.`);
+    }
+  }
+
+  return warnings;
+}
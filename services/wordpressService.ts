@@ -1,4 +1,4 @@
-import { WordPressCredentials, WordPressPost, WordPressTaxonomy, WordPressTerm } from "../types";
+import { MediaQuery, MultilingualPlugin, SeoPlugin, TranslationLanguage, WordPressAuthor, WordPressCredentials, WordPressMedia, WordPressPost, WordPressRevision, WordPressTaxonomy, WordPressTerm } from "../types";
 
 // Helper to create the Authorization header
 function getAuthHeader(credentials: WordPressCredentials): string {
@@ -12,6 +12,15 @@ const handleApiError = async (response: Response) => {
     throw new Error(`Erro na API do WordPress: ${message}`);
 };
 
+// A requisição nem chegou ao site (sem internet, CORS, servidor fora do ar).
+// A fila offline usa esta classe para distinguir "tentar de novo depois" de um erro da API.
+export class WordPressConnectionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WordPressConnectionError';
+    }
+}
+
 // New centralized fetch helper to handle CORS errors gracefully
 const performFetch = async (url: string, options: RequestInit) => {
     try {
@@ -19,8 +28,12 @@ const performFetch = async (url: string, options: RequestInit) => {
         if (!response.ok) await handleApiError(response);
         return response;
     } catch (error) {
-        if (error instanceof TypeError && error.message === 'Failed to fetch') {
-            throw new Error(
+        // Cada navegador usa uma mensagem diferente ('Failed to fetch', 'Load failed', 'NetworkError...')
+        if (error instanceof TypeError) {
+            if (!navigator.onLine) {
+                throw new WordPressConnectionError('Sem conexão com a internet.');
+            }
+            throw new WordPressConnectionError(
                 'Falha de conexão com o seu site. Isso geralmente é um problema de CORS no servidor WordPress. ' +
                 'Solução: Instale o plugin "WP-CORS" no seu WordPress e ative o acesso para a API REST.'
             );
@@ -84,6 +97,140 @@ export async function getCPTItems(credentials: WordPressCredentials, postType: s
     }
 }
 
+// Fetches every published/scheduled item of a CPT including its meta fields (used for cross-referencing agenda and places)
+export async function getAllCPTItemsWithMeta(credentials: WordPressCredentials, postType: string, maxPages: number = 5): Promise<WordPressPost[]> {
+    const { siteUrl } = credentials;
+    if (!siteUrl) throw new Error("A URL do site WordPress não está definida.");
+
+    const normalizedUrl = siteUrl.endsWith('/') ? siteUrl.slice(0, -1) : siteUrl;
+    const items: WordPressPost[] = [];
+
+    try {
+        for (let page = 1; page <= maxPages; page++) {
+            const apiUrl = `${normalizedUrl}/wp-json/wp/v2/${postType}?page=${page}&per_page=100&status=publish,future&_fields=id,date,link,title,status,meta`;
+            const response = await performFetch(apiUrl, {
+                headers: { 'Authorization': getAuthHeader(credentials) },
+            });
+            items.push(...await response.json());
+
+            const totalPages = parseInt(response.headers.get('X-WP-TotalPages') || '1', 10);
+            if (page >= totalPages) break;
+        }
+        return items;
+    } catch (error) {
+        console.error(`Failed to fetch WordPress items with meta for CPT "${postType}":`, error);
+        if (error instanceof Error) throw error;
+        throw new Error(`Falha ao buscar itens de "${postType}". Verifique a conexão e as configurações.`);
+    }
+}
+
+// Itens recentes de um CPT com o conteúdo, inclusive rascunhos e pendentes (usado na detecção de pautas repetidas)
+export async function getRecentCPTItemsWithContent(credentials: WordPressCredentials, postType: string, sinceDays: number = 90, maxPages: number = 2): Promise<WordPressPost[]> {
+    const { siteUrl } = credentials;
+    if (!siteUrl) throw new Error("A URL do site WordPress não está definida.");
+
+    const normalizedUrl = siteUrl.endsWith('/') ? siteUrl.slice(0, -1) : siteUrl;
+    const after = new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000).toISOString();
+    const items: WordPressPost[] = [];
+
+    try {
+        for (let page = 1; page <= maxPages; page++) {
+            const apiUrl = `${normalizedUrl}/wp-json/wp/v2/${postType}?page=${page}&per_page=100&after=${encodeURIComponent(after)}&status=publish,future,draft,pending&_fields=id,date,link,title,status,content`;
+            const response = await performFetch(apiUrl, {
+                headers: { 'Authorization': getAuthHeader(credentials) },
+            });
+            items.push(...await response.json());
+
+            const totalPages = parseInt(response.headers.get('X-WP-TotalPages') || '1', 10);
+            if (page >= totalPages) break;
+        }
+        return items;
+    } catch (error) {
+        console.error(`Failed to fetch recent WordPress items for CPT "${postType}":`, error);
+        if (error instanceof Error) throw error;
+        throw new Error(`Falha ao buscar itens recentes de "${postType}". Verifique a conexão e as configurações.`);
+    }
+}
+
+// Itens de todos os status alterados (ou criados) depois de `since`, com os campos meta.
+// totalItems permite saber se a busca trouxe tudo ou parou em maxPages.
+export async function getCPTItemsModifiedSince(credentials: WordPressCredentials, postType: string, since: string, maxPages: number = 3): Promise<{ posts: WordPressPost[], totalItems: number }> {
+    const { siteUrl } = credentials;
+    if (!siteUrl) throw new Error("A URL do site WordPress não está definida.");
+
+    const normalizedUrl = siteUrl.endsWith('/') ? siteUrl.slice(0, -1) : siteUrl;
+    const posts: WordPressPost[] = [];
+    let totalItems = 0;
+
+    try {
+        for (let page = 1; page <= maxPages; page++) {
+            const apiUrl = `${normalizedUrl}/wp-json/wp/v2/${postType}?page=${page}&per_page=100&modified_after=${encodeURIComponent(since)}&status=publish,future,draft,pending,private&orderby=modified&order=desc&_fields=id,date,link,title,status,modified_gmt,meta`;
+            const response = await performFetch(apiUrl, {
+                headers: { 'Authorization': getAuthHeader(credentials) },
+            });
+            posts.push(...await response.json());
+
+            totalItems = parseInt(response.headers.get('X-WP-Total') || '0', 10);
+            const totalPages = parseInt(response.headers.get('X-WP-TotalPages') || '1', 10);
+            if (page >= totalPages) break;
+        }
+        return { posts, totalItems };
+    } catch (error) {
+        console.error(`Failed to fetch recently modified WordPress items for CPT "${postType}":`, error);
+        if (error instanceof Error) throw error;
+        throw new Error(`Falha ao buscar itens alterados de "${postType}". Verifique a conexão e as configurações.`);
+    }
+}
+
+// Itens com data de publicação no intervalo, de todos os status, para o calendário editorial.
+// `after` e `before` seguem o horário do site, sem fuso (YYYY-MM-DDTHH:mm:ss).
+export async function getCPTItemsByDateRange(credentials: WordPressCredentials, postType: string, after: string, before: string, includeMeta: boolean = false, maxPages: number = 3): Promise<WordPressPost[]> {
+    const { siteUrl } = credentials;
+    if (!siteUrl) throw new Error("A URL do site WordPress não está definida.");
+
+    const normalizedUrl = siteUrl.endsWith('/') ? siteUrl.slice(0, -1) : siteUrl;
+    const fields = `id,date,link,title,status,author${includeMeta ? ',meta' : ''}`;
+    const items: WordPressPost[] = [];
+
+    try {
+        for (let page = 1; page <= maxPages; page++) {
+            const apiUrl = `${normalizedUrl}/wp-json/wp/v2/${postType}?page=${page}&per_page=100&after=${encodeURIComponent(after)}&before=${encodeURIComponent(before)}&status=publish,future,draft,pending,private&orderby=date&order=asc&_fields=${fields}`;
+            const response = await performFetch(apiUrl, {
+                headers: { 'Authorization': getAuthHeader(credentials) },
+            });
+            items.push(...await response.json());
+
+            const totalPages = parseInt(response.headers.get('X-WP-TotalPages') || '1', 10);
+            if (page >= totalPages) break;
+        }
+        return items;
+    } catch (error) {
+        console.error(`Failed to fetch WordPress items by date for CPT "${postType}":`, error);
+        if (error instanceof Error) throw error;
+        throw new Error(`Falha ao buscar itens de "${postType}" no período.`);
+    }
+}
+
+// Usuários que podem assinar posts, para o filtro por autor
+export async function getAuthors(credentials: WordPressCredentials): Promise<WordPressAuthor[]> {
+    const { siteUrl } = credentials;
+    if (!siteUrl) throw new Error("A URL do site WordPress não está definida.");
+
+    const normalizedUrl = siteUrl.endsWith('/') ? siteUrl.slice(0, -1) : siteUrl;
+    const apiUrl = `${normalizedUrl}/wp-json/wp/v2/users?per_page=100&_fields=id,name`;
+
+    try {
+        const response = await performFetch(apiUrl, {
+            headers: { 'Authorization': getAuthHeader(credentials) },
+        });
+        return await response.json();
+    } catch (error) {
+        console.error("Failed to fetch WordPress authors:", error);
+        if (error instanceof Error) throw error;
+        throw new Error("Falha ao buscar os autores do WordPress.");
+    }
+}
+
 // Generic function to fetch a single item by ID from any CPT
 export async function getCPTItemById(credentials: WordPressCredentials, postType: string, itemId: number): Promise<WordPressPost> {
     const { siteUrl } = credentials;
@@ -105,6 +252,26 @@ export async function getCPTItemById(credentials: WordPressCredentials, postType
     }
 }
 
+// Revisões guardadas pelo WordPress (o tipo de post precisa ter suporte a 'revisions'), da mais recente para a mais antiga
+export async function getCPTItemRevisions(credentials: WordPressCredentials, postType: string, itemId: number): Promise<WordPressRevision[]> {
+    const { siteUrl } = credentials;
+    if (!siteUrl) throw new Error("A URL do site WordPress não está definida.");
+
+    const normalizedUrl = siteUrl.endsWith('/') ? siteUrl.slice(0, -1) : siteUrl;
+    const apiUrl = `${normalizedUrl}/wp-json/wp/v2/${postType}/${itemId}/revisions?context=edit&per_page=100`;
+
+    try {
+        const response = await performFetch(apiUrl, {
+            headers: { 'Authorization': getAuthHeader(credentials) },
+        });
+        return await response.json();
+    } catch (error) {
+        console.error(`Failed to fetch revisions of item ${itemId} from CPT ${postType}:`, error);
+        if (error instanceof Error) throw error;
+        throw new Error(`Falha ao buscar as revisões do item de ${postType}.`);
+    }
+}
+
 // Generic function to create a new item in any CPT
 export async function createCPTItem(credentials: WordPressCredentials, postType: string, itemData: Partial<WordPressPost>): Promise<WordPressPost> {
     const { siteUrl } = credentials;
@@ -175,6 +342,91 @@ export async function deleteCPTItem(credentials: WordPressCredentials, postType:
     }
 }
 
+// Identifica o plugin de idiomas pelos namespaces que ele registra na API REST
+export async function detectMultilingualPlugin(credentials: WordPressCredentials): Promise<MultilingualPlugin | null> {
+    const { namespaces = [] } = await discoverApiEndpoints(credentials);
+    if (namespaces.includes('pll/v1')) return 'polylang';
+    if (namespaces.some((namespace: string) => namespace.startsWith('wpml/'))) return 'wpml';
+    return null;
+}
+
+// Identifica o plugin de SEO pelos namespaces da API REST; com os dois ativos, usa o Rank Math
+export async function detectSeoPlugin(credentials: WordPressCredentials): Promise<SeoPlugin | null> {
+    const { namespaces = [] } = await discoverApiEndpoints(credentials);
+    if (namespaces.includes('rankmath/v1')) return 'rankmath';
+    if (namespaces.includes('yoast/v1')) return 'yoast';
+    return null;
+}
+
+// Rank Math não expõe seus campos no /wp/v2; o endpoint do próprio plugin grava os metadados do post
+export async function updateRankMathMeta(credentials: WordPressCredentials, postId: number, meta: Record<string, any>): Promise<void> {
+    const { siteUrl } = credentials;
+    if (!siteUrl) throw new Error("A URL do site WordPress não está definida.");
+
+    const normalizedUrl = siteUrl.endsWith('/') ? siteUrl.slice(0, -1) : siteUrl;
+    const apiUrl = `${normalizedUrl}/wp-json/rankmath/v1/updateMeta`;
+
+    try {
+        await performFetch(apiUrl, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': getAuthHeader(credentials),
+            },
+            body: JSON.stringify({ objectType: 'post', objectID: postId, meta }),
+        });
+    } catch (error) {
+        console.error(`Failed to update Rank Math meta of post ${postId}:`, error);
+        if (error instanceof Error) throw error;
+        throw new Error("Falha ao gravar os dados de SEO no Rank Math.");
+    }
+}
+
+// <head> que o Rank Math gera para uma URL do site (título, description, canonical, robots)
+export async function getRankMathHead(credentials: WordPressCredentials, url: string): Promise<string> {
+    const { siteUrl } = credentials;
+    if (!siteUrl) throw new Error("A URL do site WordPress não está definida.");
+
+    const normalizedUrl = siteUrl.endsWith('/') ? siteUrl.slice(0, -1) : siteUrl;
+    const apiUrl = `${normalizedUrl}/wp-json/rankmath/v1/getHead?url=${encodeURIComponent(url)}`;
+
+    try {
+        const response = await performFetch(apiUrl, {
+            headers: { 'Authorization': getAuthHeader(credentials) },
+        });
+        const data = await response.json();
+        return data.head || '';
+    } catch (error) {
+        console.error(`Failed to fetch Rank Math head for ${url}:`, error);
+        if (error instanceof Error) throw error;
+        throw new Error("Falha ao ler os dados de SEO do Rank Math.");
+    }
+}
+
+// Cria a versão traduzida de um post, vinculada ao original em português quando ele já existe no WordPress.
+// Polylang (Pro) aceita `lang` e `translations` direto na API REST. O WPML não expõe o vínculo via REST:
+// gravamos os metadados abaixo e o site os aplica com `wpml_set_element_language_details` no hook
+// `rest_after_insert_{post_type}` (os metadados precisam estar registrados com show_in_rest).
+export async function createTranslatedPost(
+    credentials: WordPressCredentials,
+    postType: string,
+    itemData: Partial<WordPressPost>,
+    options: { plugin: MultilingualPlugin; language: TranslationLanguage; sourcePostId: number | null }
+): Promise<WordPressPost> {
+    const { plugin, language, sourcePostId } = options;
+    const translatedData: Partial<WordPressPost> = plugin === 'polylang'
+        ? { ...itemData, lang: language, ...(sourcePostId ? { translations: { pt: sourcePostId } } : {}) }
+        : {
+            ...itemData,
+            meta: {
+                ...itemData.meta,
+                wpml_language: language,
+                ...(sourcePostId ? { wpml_translation_of: sourcePostId } : {}),
+            },
+        };
+    return createCPTItem(credentials, postType, translatedData);
+}
+
 // Function to fetch all public taxonomies
 export async function getTaxonomies(credentials: WordPressCredentials): Promise<Record<string, WordPressTaxonomy>> {
     const { siteUrl } = credentials;
@@ -241,3 +493,69 @@ export async function uploadMedia(credentials: WordPressCredentials, file: File)
         throw new Error("Falha ao enviar a imagem para o WordPress.");
     }
 }
+
+// Biblioteca de mídia com busca, filtro por tipo e por mês, ou só os ids de `include` (na ordem dada)
+export async function getMediaItems(credentials: WordPressCredentials, query: MediaQuery = {}): Promise<{ items: WordPressMedia[], totalPages: number, totalItems: number }> {
+    const { siteUrl } = credentials;
+    if (!siteUrl) throw new Error("A URL do site WordPress não está definida.");
+
+    const normalizedUrl = siteUrl.endsWith('/') ? siteUrl.slice(0, -1) : siteUrl;
+    const params = new URLSearchParams({
+        context: 'edit',
+        page: String(query.page ?? 1),
+        per_page: String(query.include ? Math.min(query.include.length, 100) : query.perPage ?? 24),
+        _fields: 'id,date,title,caption,alt_text,media_type,mime_type,source_url,media_details,meta',
+    });
+    if (query.search) params.set('search', query.search);
+    if (query.mediaType) params.set('media_type', query.mediaType);
+    if (query.month) {
+        const [year, month] = query.month.split('-').map(Number);
+        const lastDay = new Date(year, month, 0).getDate();
+        params.set('after', `${query.month}-01T00:00:00`);
+        params.set('before', `${query.month}-${lastDay}T23:59:59`);
+    }
+    if (query.include) {
+        params.set('include', query.include.join(','));
+        params.set('orderby', 'include');
+    }
+    const apiUrl = `${normalizedUrl}/wp-json/wp/v2/media?${params.toString()}`;
+
+    try {
+        const response = await performFetch(apiUrl, {
+            headers: { 'Authorization': getAuthHeader(credentials) },
+        });
+        const totalPages = parseInt(response.headers.get('X-WP-TotalPages') || '1', 10);
+        const totalItems = parseInt(response.headers.get('X-WP-Total') || '0', 10);
+        const items = await response.json();
+        return { items, totalPages, totalItems };
+    } catch (error) {
+        console.error("Failed to fetch WordPress media library:", error);
+        if (error instanceof Error) throw error;
+        throw new Error("Falha ao carregar a biblioteca de mídia.");
+    }
+}
+
+// Atualiza texto alternativo, legenda e campos meta de um anexo existente
+export async function updateMediaItem(credentials: WordPressCredentials, mediaId: number, data: { alt_text?: string; caption?: string; meta?: { [key: string]: any } }): Promise<WordPressMedia> {
+    const { siteUrl } = credentials;
+    if (!siteUrl) throw new Error("A URL do site WordPress não está definida.");
+
+    const normalizedUrl = siteUrl.endsWith('/') ? siteUrl.slice(0, -1) : siteUrl;
+    const apiUrl = `${normalizedUrl}/wp-json/wp/v2/media/${mediaId}?context=edit`;
+
+    try {
+        const response = await performFetch(apiUrl, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': getAuthHeader(credentials),
+            },
+            body: JSON.stringify(data),
+        });
+        return await response.json();
+    } catch (error) {
+        console.error(`Failed to update media ${mediaId}:`, error);
+        if (error instanceof Error) throw error;
+        throw new Error("Falha ao atualizar os dados da imagem.");
+    }
+}
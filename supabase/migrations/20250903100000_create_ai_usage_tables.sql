@@ -0,0 +1,135 @@
+-- Create AI usage accounting tables
+-- Records every AI call (tokens, latency, provider, model, cost) and the monthly budgets per user/team
+
+-- Teams group users that share a monthly AI budget
+CREATE TABLE IF NOT EXISTS teams (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES teams(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_profiles_team_id ON profiles(team_id);
+
+COMMENT ON COLUMN profiles.team_id IS 'Team the user belongs to (shares the team AI budget)';
+
+-- team_id is the boundary for team data and the team budget: only admins (service role or a direct
+-- database session) may set it. "Users can update own profile" does not restrict columns.
+CREATE OR REPLACE FUNCTION prevent_profile_team_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF COALESCE(auth.role(), 'service_role') IN ('authenticated', 'anon') THEN
+        IF TG_OP = 'INSERT' AND NEW.team_id IS NOT NULL THEN
+            RAISE EXCEPTION 'Only admins can assign a team to a profile';
+        END IF;
+        IF TG_OP = 'UPDATE' AND NEW.team_id IS DISTINCT FROM OLD.team_id THEN
+            RAISE EXCEPTION 'Only admins can change the team of a profile';
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS prevent_profiles_team_change ON profiles;
+CREATE TRIGGER prevent_profiles_team_change
+    BEFORE INSERT OR UPDATE ON profiles
+    FOR EACH ROW EXECUTE FUNCTION prevent_profile_team_change();
+
+-- One row per AI call attempt
+CREATE TABLE IF NOT EXISTS ai_usage_logs (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    team_id UUID REFERENCES teams(id) ON DELETE SET NULL,
+    provider VARCHAR(100) NOT NULL,
+    model VARCHAR(255) NOT NULL,
+    generation_type VARCHAR(50),
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    tokens_estimated BOOLEAN NOT NULL DEFAULT FALSE,
+    latency_ms INTEGER,
+    cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+    success BOOLEAN NOT NULL DEFAULT TRUE,
+    error_message TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_logs_user_created ON ai_usage_logs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_logs_team_created ON ai_usage_logs(team_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_logs_provider ON ai_usage_logs(provider);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_logs_generation_type ON ai_usage_logs(generation_type);
+
+-- Monthly budget (USD) for a user or for a whole team
+CREATE TABLE IF NOT EXISTS ai_budgets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID UNIQUE REFERENCES profiles(id) ON DELETE CASCADE,
+    team_id UUID UNIQUE REFERENCES teams(id) ON DELETE CASCADE,
+    monthly_limit_usd NUMERIC(10, 2) NOT NULL CHECK (monthly_limit_usd >= 0),
+    on_exceed VARCHAR(20) NOT NULL DEFAULT 'downgrade' CHECK (on_exceed IN ('block', 'downgrade')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (user_id IS NOT NULL OR team_id IS NOT NULL)
+);
+
+-- Enable Row Level Security
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_usage_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_budgets ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+DROP POLICY IF EXISTS "Users can view own team" ON teams;
+CREATE POLICY "Users can view own team" ON teams
+    FOR SELECT USING (id IN (SELECT team_id FROM profiles WHERE id = auth.uid()));
+
+DROP POLICY IF EXISTS "Users can view own or team ai usage" ON ai_usage_logs;
+CREATE POLICY "Users can view own or team ai usage" ON ai_usage_logs
+    FOR SELECT USING (
+        auth.uid() = user_id
+        OR team_id IN (SELECT team_id FROM profiles WHERE id = auth.uid())
+    );
+
+DROP POLICY IF EXISTS "Users can insert own ai usage" ON ai_usage_logs;
+CREATE POLICY "Users can insert own ai usage" ON ai_usage_logs
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND (team_id IS NULL OR team_id = (SELECT team_id FROM profiles WHERE id = auth.uid()))
+    );
+
+DROP POLICY IF EXISTS "Users can view own or team budget" ON ai_budgets;
+CREATE POLICY "Users can view own or team budget" ON ai_budgets
+    FOR SELECT USING (
+        auth.uid() = user_id
+        OR team_id IN (SELECT team_id FROM profiles WHERE id = auth.uid())
+    );
+
+-- Budgets are managed by admins (service role); users only read them
+
+-- Monthly spend per provider, summed in the database so the budget check does not depend on
+-- how many rows a response can carry. Runs with the caller's permissions (RLS applies).
+CREATE OR REPLACE FUNCTION ai_usage_spend_by_provider(
+    p_since TIMESTAMP WITH TIME ZONE,
+    p_user_id UUID DEFAULT NULL,
+    p_team_id UUID DEFAULT NULL
+)
+RETURNS TABLE (provider VARCHAR(100), spent_usd NUMERIC) AS $$
+    SELECT l.provider, SUM(l.cost_usd) AS spent_usd
+    FROM ai_usage_logs l
+    WHERE l.created_at >= p_since
+      AND (p_user_id IS NULL OR l.user_id = p_user_id)
+      AND (p_team_id IS NULL OR l.team_id = p_team_id)
+    GROUP BY l.provider;
+$$ LANGUAGE sql STABLE;
+
+-- Create triggers for updated_at
+DROP TRIGGER IF EXISTS update_teams_updated_at ON teams;
+CREATE TRIGGER update_teams_updated_at
+    BEFORE UPDATE ON teams
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_ai_budgets_updated_at ON ai_budgets;
+CREATE TRIGGER update_ai_budgets_updated_at
+    BEFORE UPDATE ON ai_budgets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE ai_usage_logs IS 'Token usage, latency and estimated cost of every AI call';
+COMMENT ON TABLE ai_budgets IS 'Monthly AI spend limit per user or team; on_exceed decides between blocking and downgrading to free providers';
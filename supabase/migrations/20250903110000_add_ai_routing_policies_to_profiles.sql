@@ -0,0 +1,7 @@
+-- Add per-task AI routing policies to profiles
+-- Stores, for each task (fact extraction, article writing, event normalisation, place lookup),
+-- the routing strategy and an optional pinned provider/model
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS ai_routing_policies JSONB DEFAULT '{}';
+
+COMMENT ON COLUMN profiles.ai_routing_policies IS 'Per-task AI routing policies: { task: { strategy, pinnedProvider, pinnedModel } }';
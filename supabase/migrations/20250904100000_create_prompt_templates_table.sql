@@ -0,0 +1,125 @@
+-- Create prompt template overrides
+-- Teams can customize the default AI prompt templates; every save is a new version and the history is kept
+
+CREATE TABLE IF NOT EXISTS prompt_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    template_id VARCHAR(100) NOT NULL,
+    version INTEGER NOT NULL CHECK (version > 0),
+    base_version INTEGER NOT NULL,
+    body TEXT NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (team_id, template_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_templates_team_template ON prompt_templates(team_id, template_id, version DESC);
+
+-- At most one active version per team and template
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_templates_one_active
+    ON prompt_templates(team_id, template_id) WHERE is_active;
+
+-- Trace which prompt version produced each AI call
+ALTER TABLE ai_usage_logs ADD COLUMN IF NOT EXISTS prompt_template_id VARCHAR(100);
+ALTER TABLE ai_usage_logs ADD COLUMN IF NOT EXISTS prompt_version INTEGER;
+ALTER TABLE ai_usage_logs ADD COLUMN IF NOT EXISTS prompt_source VARCHAR(10) CHECK (prompt_source IN ('padrao', 'equipe'));
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_logs_prompt ON ai_usage_logs(prompt_template_id, prompt_version);
+
+-- Enable Row Level Security
+ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+DROP POLICY IF EXISTS "Team members can view team prompts" ON prompt_templates;
+CREATE POLICY "Team members can view team prompts" ON prompt_templates
+    FOR SELECT USING (team_id IN (SELECT team_id FROM profiles WHERE id = auth.uid()));
+
+DROP POLICY IF EXISTS "Team members can create team prompts" ON prompt_templates;
+CREATE POLICY "Team members can create team prompts" ON prompt_templates
+    FOR INSERT WITH CHECK (
+        team_id IN (SELECT team_id FROM profiles WHERE id = auth.uid())
+        AND created_by = auth.uid()
+    );
+
+-- Updates only toggle is_active; bodies are immutable so old drafts stay traceable
+DROP POLICY IF EXISTS "Team members can activate team prompts" ON prompt_templates;
+CREATE POLICY "Team members can activate team prompts" ON prompt_templates
+    FOR UPDATE USING (team_id IN (SELECT team_id FROM profiles WHERE id = auth.uid()))
+    WITH CHECK (team_id IN (SELECT team_id FROM profiles WHERE id = auth.uid()));
+
+-- Enforces the rule above: everything but is_active is frozen once a version is saved
+CREATE OR REPLACE FUNCTION prevent_prompt_template_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.team_id IS DISTINCT FROM OLD.team_id
+        OR NEW.template_id IS DISTINCT FROM OLD.template_id
+        OR NEW.version IS DISTINCT FROM OLD.version
+        OR NEW.base_version IS DISTINCT FROM OLD.base_version
+        OR NEW.body IS DISTINCT FROM OLD.body
+        OR NEW.created_by IS DISTINCT FROM OLD.created_by
+        OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+        RAISE EXCEPTION 'Saved prompt template versions cannot be changed, only activated or deactivated';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS prevent_prompt_templates_changes ON prompt_templates;
+CREATE TRIGGER prevent_prompt_templates_changes
+    BEFORE UPDATE ON prompt_templates
+    FOR EACH ROW EXECUTE FUNCTION prevent_prompt_template_changes();
+
+-- Switching the active version runs in one transaction: if the new version cannot be saved or
+-- found, the previous one stays active instead of the team silently falling back to the default.
+-- Both functions run with the caller's rights, so the policies above still apply.
+CREATE OR REPLACE FUNCTION save_prompt_template_version(
+    p_team_id UUID,
+    p_template_id VARCHAR(100),
+    p_version INTEGER,
+    p_base_version INTEGER,
+    p_body TEXT,
+    p_created_by UUID
+)
+RETURNS prompt_templates AS $$
+DECLARE
+    saved prompt_templates;
+BEGIN
+    UPDATE prompt_templates SET is_active = FALSE
+    WHERE team_id = p_team_id AND template_id = p_template_id AND is_active;
+
+    INSERT INTO prompt_templates (team_id, template_id, version, base_version, body, is_active, created_by)
+    VALUES (p_team_id, p_template_id, p_version, p_base_version, p_body, TRUE, p_created_by)
+    RETURNING * INTO saved;
+
+    RETURN saved;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION activate_prompt_template_version(
+    p_team_id UUID,
+    p_template_id VARCHAR(100),
+    p_version INTEGER
+)
+RETURNS prompt_templates AS $$
+DECLARE
+    activated prompt_templates;
+BEGIN
+    UPDATE prompt_templates SET is_active = FALSE
+    WHERE team_id = p_team_id AND template_id = p_template_id AND is_active AND version <> p_version;
+
+    UPDATE prompt_templates SET is_active = TRUE
+    WHERE team_id = p_team_id AND template_id = p_template_id AND version = p_version
+    RETURNING * INTO activated;
+
+    IF activated.id IS NULL THEN
+        RAISE EXCEPTION 'Prompt template version % not found', p_version;
+    END IF;
+
+    RETURN activated;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE prompt_templates IS 'Team-specific versions of the AI prompt templates; the active row replaces the built-in default';
+COMMENT ON COLUMN prompt_templates.base_version IS 'Version of the built-in template this override was written against';
+COMMENT ON COLUMN ai_usage_logs.prompt_version IS 'Version of the prompt template used (built-in or team override, see prompt_source)';
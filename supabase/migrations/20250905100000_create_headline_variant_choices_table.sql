@@ -0,0 +1,52 @@
+-- Create headline variant choices
+-- Stores the title/meta description variants offered for each draft and the one the editor picked,
+-- so the team can learn which headline styles get chosen most
+
+CREATE TABLE IF NOT EXISTS headline_variant_choices (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+    generation_type VARCHAR(50) NOT NULL,
+    focus_keyword TEXT,
+    variants JSONB NOT NULL,
+    chosen_index INTEGER NOT NULL CHECK (chosen_index >= 0),
+    chosen_style VARCHAR(20) NOT NULL,
+    wp_post_type VARCHAR(50),
+    wp_post_id BIGINT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_headline_variant_choices_team ON headline_variant_choices(team_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_headline_variant_choices_style ON headline_variant_choices(chosen_style);
+
+-- Enable Row Level Security
+ALTER TABLE headline_variant_choices ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+DROP POLICY IF EXISTS "Users can view own and team headline choices" ON headline_variant_choices;
+CREATE POLICY "Users can view own and team headline choices" ON headline_variant_choices
+    FOR SELECT USING (
+        user_id = auth.uid()
+        OR team_id IN (SELECT team_id FROM profiles WHERE id = auth.uid())
+    );
+
+DROP POLICY IF EXISTS "Users can record own headline choices" ON headline_variant_choices;
+CREATE POLICY "Users can record own headline choices" ON headline_variant_choices
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid()
+        AND (team_id IS NULL OR team_id = (SELECT team_id FROM profiles WHERE id = auth.uid()))
+    );
+
+-- Updates only link the choice to the WordPress post once the draft is saved
+DROP POLICY IF EXISTS "Users can update own headline choices" ON headline_variant_choices;
+CREATE POLICY "Users can update own headline choices" ON headline_variant_choices
+    FOR UPDATE USING (user_id = auth.uid())
+    WITH CHECK (
+        user_id = auth.uid()
+        AND (team_id IS NULL OR team_id = (SELECT team_id FROM profiles WHERE id = auth.uid()))
+    );
+
+COMMENT ON TABLE headline_variant_choices IS 'Headline and meta description variants shown to the editor, with the chosen one';
+COMMENT ON COLUMN headline_variant_choices.variants IS 'All variants offered, with title, seo_description, style, seo_score, appeal_score and checks; the rest are the rejected ones';
+COMMENT ON COLUMN headline_variant_choices.chosen_index IS 'Index in variants of the headline the editor kept (0 is the original generated title)';
+COMMENT ON COLUMN headline_variant_choices.wp_post_id IS 'WordPress post created from the draft, filled in when the editor saves it';
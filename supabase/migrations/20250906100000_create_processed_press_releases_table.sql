@@ -0,0 +1,38 @@
+-- Create processed press releases
+-- Fingerprints of press releases already turned into drafts, so a release that reaches
+-- several reporters (or arrives twice) is flagged before someone writes it up again
+
+CREATE TABLE IF NOT EXISTS processed_press_releases (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+    fingerprints TEXT[] NOT NULL,
+    subject TEXT NOT NULL,
+    sender TEXT,
+    file_name TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_processed_press_releases_fingerprints ON processed_press_releases USING GIN (fingerprints);
+CREATE INDEX IF NOT EXISTS idx_processed_press_releases_team ON processed_press_releases(team_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE processed_press_releases ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+DROP POLICY IF EXISTS "Users can view own and team processed releases" ON processed_press_releases;
+CREATE POLICY "Users can view own and team processed releases" ON processed_press_releases
+    FOR SELECT USING (
+        user_id = auth.uid()
+        OR team_id IN (SELECT team_id FROM profiles WHERE id = auth.uid())
+    );
+
+DROP POLICY IF EXISTS "Users can record own processed releases" ON processed_press_releases;
+CREATE POLICY "Users can record own processed releases" ON processed_press_releases
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid()
+        AND (team_id IS NULL OR team_id = (SELECT team_id FROM profiles WHERE id = auth.uid()))
+    );
+
+COMMENT ON TABLE processed_press_releases IS 'Press releases imported from email or documents that were already used to generate a draft';
+COMMENT ON COLUMN processed_press_releases.fingerprints IS 'SHA-256 of the normalized release text (texto:...) and the email Message-ID (msgid:...) when available';
@@ -0,0 +1,40 @@
+-- Create team style guides
+-- Structured newsroom style rules (term replacements, banned phrases, capitalization, date/time format),
+-- appended to the AI prompts and applied by the linter in the post editors
+
+CREATE TABLE IF NOT EXISTS style_guides (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    team_id UUID NOT NULL UNIQUE REFERENCES teams(id) ON DELETE CASCADE,
+    rules JSONB NOT NULL,
+    updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE style_guides ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+DROP POLICY IF EXISTS "Team members can view team style guide" ON style_guides;
+CREATE POLICY "Team members can view team style guide" ON style_guides
+    FOR SELECT USING (team_id IN (SELECT team_id FROM profiles WHERE id = auth.uid()));
+
+DROP POLICY IF EXISTS "Team members can create team style guide" ON style_guides;
+CREATE POLICY "Team members can create team style guide" ON style_guides
+    FOR INSERT WITH CHECK (
+        team_id IN (SELECT team_id FROM profiles WHERE id = auth.uid())
+        AND updated_by = auth.uid()
+    );
+
+DROP POLICY IF EXISTS "Team members can update team style guide" ON style_guides;
+CREATE POLICY "Team members can update team style guide" ON style_guides
+    FOR UPDATE USING (team_id IN (SELECT team_id FROM profiles WHERE id = auth.uid()))
+    WITH CHECK (team_id IN (SELECT team_id FROM profiles WHERE id = auth.uid()));
+
+-- Deleting the row makes the team fall back to the built-in default guide
+DROP POLICY IF EXISTS "Team members can delete team style guide" ON style_guides;
+CREATE POLICY "Team members can delete team style guide" ON style_guides
+    FOR DELETE USING (team_id IN (SELECT team_id FROM profiles WHERE id = auth.uid()));
+
+COMMENT ON TABLE style_guides IS 'One structured style guide per team; without a row the built-in default applies';
+COMMENT ON COLUMN style_guides.rules IS 'terms (preferred + variants), bannedPhrases (phrase + suggestion), capitalization (exact forms) and dateTime options';
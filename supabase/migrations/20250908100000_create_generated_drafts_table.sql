@@ -0,0 +1,78 @@
+-- Create generated drafts
+-- Library of every draft produced by the AI assistant (input, provider, prompt version, sources and output),
+-- so drafts survive navigation and reloads and can be reopened, tracked and linked to the WordPress post
+
+CREATE TABLE IF NOT EXISTS generated_drafts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+    generation_type VARCHAR(50) NOT NULL,
+    title TEXT NOT NULL,
+    input_text TEXT NOT NULL,
+    provider VARCHAR(100),
+    prompt_ref JSONB,
+    sources JSONB NOT NULL DEFAULT '[]'::jsonb,
+    draft JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'novo' CHECK (status IN ('novo', 'enviado', 'publicado', 'descartado')),
+    wp_site_url TEXT,
+    wp_post_type VARCHAR(50),
+    wp_post_id BIGINT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_generated_drafts_team ON generated_drafts(team_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_generated_drafts_user ON generated_drafts(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_generated_drafts_status ON generated_drafts(status);
+CREATE INDEX IF NOT EXISTS idx_generated_drafts_post ON generated_drafts(wp_site_url, wp_post_type, wp_post_id);
+
+-- Enable Row Level Security
+ALTER TABLE generated_drafts ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+DROP POLICY IF EXISTS "Users can view own and team drafts" ON generated_drafts;
+CREATE POLICY "Users can view own and team drafts" ON generated_drafts
+    FOR SELECT USING (
+        user_id = auth.uid()
+        OR team_id IN (SELECT team_id FROM profiles WHERE id = auth.uid())
+    );
+
+DROP POLICY IF EXISTS "Users can record own drafts" ON generated_drafts;
+CREATE POLICY "Users can record own drafts" ON generated_drafts
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid()
+        AND (team_id IS NULL OR team_id = (SELECT team_id FROM profiles WHERE id = auth.uid()))
+    );
+
+-- Any team member can send a library draft to the editor or discard it
+DROP POLICY IF EXISTS "Users can update own and team drafts" ON generated_drafts;
+CREATE POLICY "Users can update own and team drafts" ON generated_drafts
+    FOR UPDATE USING (
+        user_id = auth.uid()
+        OR team_id IN (SELECT team_id FROM profiles WHERE id = auth.uid())
+    ) WITH CHECK (
+        (user_id = auth.uid() OR team_id IN (SELECT team_id FROM profiles WHERE id = auth.uid()))
+        AND (team_id IS NULL OR team_id = (SELECT team_id FROM profiles WHERE id = auth.uid()))
+    );
+
+-- The author of a draft never changes, not even through a team member's update
+CREATE OR REPLACE FUNCTION prevent_generated_draft_owner_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+        RAISE EXCEPTION 'The author of a generated draft cannot be changed';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS prevent_generated_drafts_owner_change ON generated_drafts;
+CREATE TRIGGER prevent_generated_drafts_owner_change
+    BEFORE UPDATE ON generated_drafts
+    FOR EACH ROW EXECUTE FUNCTION prevent_generated_draft_owner_change();
+
+COMMENT ON TABLE generated_drafts IS 'Drafts generated by the AI assistant, kept as a searchable library';
+COMMENT ON COLUMN generated_drafts.input_text IS 'Text the draft was generated from (structured inputs such as scraped events are stored as JSON)';
+COMMENT ON COLUMN generated_drafts.prompt_ref IS 'Prompt template id, version and source (default or team) that produced the draft';
+COMMENT ON COLUMN generated_drafts.wp_site_url IS 'WordPress site the linked post lives on (post ids only identify a post within a site)';
+COMMENT ON COLUMN generated_drafts.status IS 'novo, enviado (sent to the editor), publicado or descartado';
@@ -9,6 +9,7 @@ export enum Page {
   Historias = 'Histórias',
   Organizadores = 'Organizadores',
   Lugares = 'Lugares',
+  Calendario = 'Calendário Editorial',
   Settings = 'Configurações',
 }
 
@@ -93,6 +94,36 @@ export interface ApiUsageLog {
   created_at: string;
 }
 
+export interface AiUsageLog {
+  id: number;
+  user_id: string | null;
+  team_id: string | null;
+  provider: string;
+  model: string;
+  generation_type: AiCallType | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+  tokens_estimated: boolean;
+  latency_ms: number | null;
+  cost_usd: number;
+  success: boolean;
+  error_message: string | null;
+  prompt_template_id: PromptTemplateId | null;
+  prompt_version: number | null;
+  prompt_source: PromptSource | null;
+  created_at: string;
+}
+
+export interface AiBudget {
+  id: string;
+  user_id: string | null;
+  team_id: string | null;
+  monthly_limit_usd: number;
+  on_exceed: 'block' | 'downgrade';
+  created_at: string;
+  updated_at: string;
+}
+
 export interface PerformanceMetric {
   id: number;
   metric_name: string;
@@ -220,6 +251,8 @@ export interface ArticleDraft {
   event_details?: EventDetails;
   verified_facts: ExtractedFacts | null;
   suggested_image_searches?: string[];
+  structured_data?: string; // JSON-LD anexado ao post ao salvar (ex.: ItemList do roteiro)
+  prompt_ref?: PromptRef;
 }
 
 export interface HistoriaDraft {
@@ -231,6 +264,7 @@ export interface HistoriaDraft {
   article_body_html: string;
   focus_keyword: string;
   suggested_alt_text: string;
+  prompt_ref?: PromptRef;
 }
 
 export interface OrganizadorDraft {
@@ -240,6 +274,42 @@ export interface OrganizadorDraft {
   phone: string | null;
   website: string | null;
   instagram: string | null;
+  prompt_ref?: PromptRef;
+}
+
+// Perfis completos de artista e lugar: os campos seguem as chaves de meta que os editores salvam no WordPress
+export type TipoDeArtista = 'Solo' | 'Banda' | 'Coletivo' | 'Dupla';
+
+export interface ArtistaDraft {
+  title: string;
+  biography_html: string;
+  tipo_de_artista: TipoDeArtista;
+  artista_ano_formacao: string | null;
+  artista_origem: string | null;
+  website: string | null;
+  email: string | null; // Salvo na meta 'e-mail'
+  telefone: string[];
+  redes_sociais: string[];
+  videos_artistas: string[];
+  prompt_ref?: PromptRef;
+}
+
+export interface LugarDraft {
+  title: string;
+  description_html: string;
+  endereco: string | null;
+  bairro: string | null;
+  cidade: string | null;
+  estado: string | null;
+  cep: string | null;
+  latitude: string | null;
+  longitude: string | null;
+  telefone: string[];
+  email: string | null; // Salvo na meta 'e-mail'
+  website: string | null;
+  redes_sociais: string[];
+  horario_de_funcionamento: string | null;
+  prompt_ref?: PromptRef;
 }
 
 export interface PlaceDetailsDraft {
@@ -251,10 +321,262 @@ export interface PlaceDetailsDraft {
   phone: string | null;
   website: string | null;
   description: string | null;
+  prompt_ref?: PromptRef;
+}
+
+// Ligação de entidades: menções do rascunho casadas com artistas, lugares e organizadores já cadastrados
+export type EntityType = 'artista' | 'lugar' | 'organizador';
+
+export interface EntityCandidate {
+  id: number;
+  type: EntityType;
+  title: string;
+  link: string;
+}
+
+export interface EntityLinkSuggestion {
+  id: string; // Estável entre recargas do catálogo, para manter as escolhas do editor
+  type: EntityType;
+  mention: string; // Como aparece no rascunho (ou nos fatos extraídos)
+  origin: 'fatos' | 'texto';
+  match: EntityCandidate | null; // null: entidade ainda não cadastrada
+  score: number; // Similaridade da menção com o cadastro (0-1)
+}
+
+// Relacionamentos propostos para o item de agenda criado a partir do rascunho (metas local_do_evento e artistas_do_evento)
+export interface EntityRelations {
+  lugarId: number | null;
+  artistaIds: number[];
+}
+
+// Verificação de consistência do rascunho contra os fatos verificados e o texto-fonte
+export type FactFlagKind = 'contradicao' | 'sem_fonte' | 'ausente';
+export type FactFlagField = 'nome_evento' | 'data' | 'horario' | 'local' | 'pessoa';
+
+export interface FactFlag {
+  id: string; // Estável entre verificações, para manter as confirmações do editor
+  kind: FactFlagKind;
+  field: FactFlagField;
+  claim: string | null; // Trecho do rascunho (null quando o problema é uma ausência)
+  expected: string | null; // O que diz a fonte
+  message: string;
+}
+
+// Pacote de divulgação gerado a partir de uma matéria ou de um item da agenda
+export type SocialChannel = 'instagram' | 'fio' | 'whatsapp' | 'newsletter';
+
+export interface SocialContentPack {
+  instagram_caption: string;
+  instagram_hashtags: string[]; // Sem o "#"
+  thread_posts: string[]; // Fio para X/Threads, um item por post
+  whatsapp_message: string;
+  newsletter_blurb: string;
+  prompt_ref?: PromptRef;
+}
+
+export interface SocialPackSource {
+  kind: 'materia' | 'agenda';
+  title: string;
+  summary: string;
+  body_text: string;
+  event: { date: string; time: string; location: string; tickets: string } | null;
+}
+
+// Roteiro "O que fazer em Recife": eventos reunidos da Agenda, dos processados e dos coletados
+export type RoundupEventOrigin = 'agenda' | 'processado' | 'coletado';
+
+export interface RoundupEvent {
+  id: string; // "<origem>-<id>", estável para a IA referenciar cada evento
+  origin: RoundupEventOrigin;
+  title: string;
+  date: string; // YYYY-MM-DD
+  time: string | null; // HH:MM
+  venue: string | null;
+  neighborhood: string | null;
+  category: string | null;
+  description: string;
+  url: string | null; // Item da Agenda ou página de origem
+  venue_url: string | null; // Item de Lugar no WordPress
+}
+
+export interface RoundupRange {
+  startDate: string; // YYYY-MM-DD
+  endDate: string;
+}
+
+export interface RoundupCluster {
+  date: string;
+  neighborhood: string;
+  events: RoundupEvent[];
+}
+
+// Texto produzido pela IA; a estrutura do post e os links são montados pelo roundupService
+export interface RoundupCopy {
+  title: string;
+  summary: string;
+  seo_description: string;
+  focus_keyword: string;
+  suggested_alt_text: string;
+  category: string;
+  tags: string[];
+  intro_html: string;
+  blurbs: { event_id: string; text: string }[];
+}
+
+// Tradução de matérias e histórias (rascunhos ou posts já publicados)
+export type TranslationLanguage = 'en' | 'es';
+
+// Plugin de idiomas do WordPress que vincula o original às traduções
+export type MultilingualPlugin = 'polylang' | 'wpml';
+
+// Campos traduzíveis comuns a ArticleDraft, HistoriaDraft e posts do WordPress
+export interface TranslatableContent {
+  title: string;
+  summary: string;
+  article_body_html: string;
+  seo_description: string;
+  focus_keyword: string;
+  suggested_alt_text: string;
+  tags: string[];
+}
+
+// Variações de título e meta description (teste A/B editorial)
+export type HeadlineStyle = 'original' | 'direto' | 'servico' | 'lista' | 'pergunta' | 'curiosidade' | 'urgencia';
+
+export interface HeadlineCandidate {
+  title: string;
+  seo_description: string;
+  style: HeadlineStyle;
+}
+
+export interface HeadlineVariantSet {
+  variants: HeadlineCandidate[];
+  prompt_ref?: PromptRef;
+}
+
+// Candidato pontuado: SEO pelas regras do analisador e apelo de clique por heurística (ambos 0-100)
+export interface HeadlineVariant extends HeadlineCandidate {
+  seo_score: number;
+  appeal_score: number;
+  checks: SeoCheck[];
+}
+
+// Escolha registrada na tabela headline_variant_choices
+export interface HeadlineChoice {
+  id: string;
+  user_id: string;
+  team_id: string | null;
+  generation_type: AiCallType;
+  focus_keyword: string;
+  variants: HeadlineVariant[];
+  chosen_index: number;
+  chosen_style: HeadlineStyle;
+  wp_post_type: string | null;
+  wp_post_id: number | null;
+  created_at: string;
+}
+
+// Revisão de uma matéria já publicada ("atualizar matéria")
+export interface ArticleUpdateDraft {
+  title: string;
+  article_body_html: string;
+  change_notes: string[]; // O que mudou e por quê, para o editor conferir
+  prompt_ref?: PromptRef;
+}
+
+export interface TranslatedContent extends TranslatableContent {
+  language: TranslationLanguage;
+  prompt_ref?: PromptRef;
+}
+
+export type AnyDraft = ArticleDraft | HistoriaDraft | OrganizadorDraft | ArtistaDraft | LugarDraft;
+export type GenerationType = 'noticia' | 'evento' | 'social' | 'historia' | 'organizador' | 'roteiro' | 'artista' | 'lugar';
+// Tipo de chamada registrado na contabilidade de uso: os fluxos do gerador mais as tarefas auxiliares
+export type AiCallType = GenerationType | 'extracao_fatos' | 'extracao_url' | 'busca_eventos' | 'processamento_eventos' | 'busca_lugar' | 'pacote_social' | 'traducao' | 'atualizacao_materia' | 'variantes_titulo';
+
+// live: provedores reais; record: provedores reais + gravação das respostas; demo: só fixtures, sem rede
+export type AiMode = 'live' | 'record' | 'demo';
+
+// Resposta gravada de uma chamada de IA, identificada pelo hash do prompt
+export interface AiFixture {
+  key: string;
+  generationType: AiCallType | null;
+  promptPreview: string;
+  text: string;
+  sources: GroundingSource[] | null;
+  provider: string;
+  model: string;
+  recordedAt: string;
+}
+
+// Schema declarativo usado para validar as respostas estruturadas da IA
+export type SchemaNode =
+  | { type: 'string'; nullable?: boolean; optional?: boolean; minLength?: number; maxLength?: number; enum?: string[]; pattern?: RegExp }
+  | { type: 'array'; items: SchemaNode; nullable?: boolean; optional?: boolean; minItems?: number; maxItems?: number }
+  | { type: 'object'; properties: Record<string, SchemaNode>; nullable?: boolean; optional?: boolean };
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Registro de prompts: cada template tem id, versão, variáveis ({{nome}}) e schema de saída
+export type PromptTemplateId =
+  | 'extracao_fatos'
+  | 'noticia_comunicado'
+  | 'noticia_dados_coletados'
+  | 'noticia_rede_social'
+  | 'extracao_url'
+  | 'historia'
+  | 'organizador'
+  | 'artista'
+  | 'lugar'
+  | 'busca_lugar'
+  | 'busca_eventos'
+  | 'processamento_eventos'
+  | 'pacote_social'
+  | 'roteiro_semanal'
+  | 'traducao'
+  | 'atualizacao_materia'
+  | 'variantes_titulo';
+
+export type PromptSource = 'padrao' | 'equipe';
+
+export interface PromptVariable {
+  name: string;
+  description: string;
+  example: string; // Usado na pré-visualização do editor
 }
 
-export type AnyDraft = ArticleDraft | HistoriaDraft | OrganizadorDraft;
-export type GenerationType = 'noticia' | 'evento' | 'social' | 'historia' | 'organizador';
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  label: string;
+  version: number;
+  variables: PromptVariable[];
+  outputSchema: SchemaNode | null; // null: resposta em texto livre
+  maxOutputTokens?: number; // Limite de tokens da resposta; sem ele vale o padrão dos provedores
+  body: string;
+}
+
+// Identifica o prompt que gerou um rascunho (registrado também em ai_usage_logs)
+export interface PromptRef {
+  templateId: PromptTemplateId;
+  version: number;
+  source: PromptSource;
+}
+
+// Versão de um template personalizada por uma equipe (tabela prompt_templates)
+export interface PromptTemplateOverride {
+  id: string;
+  team_id: string;
+  template_id: PromptTemplateId;
+  version: number;
+  base_version: number; // Versão do template padrão que serviu de base
+  body: string;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+}
 
 export interface ScrapedEventDetails {
     title?: string;
@@ -270,8 +592,32 @@ export interface InitialPostData {
   title: string;
   content: string;
   focusKeyword: string;
+  seoDescription?: string; // Meta description sugerida pela IA, gravada no Rank Math/Yoast
   categoryIds: number[];
   tagIds: number[];
+  structuredData?: string;
+  headlineChoiceId?: string | null; // Vincula a escolha de título ao post quando ele for criado
+  featuredImageCandidates?: AttachmentImage[]; // Imagens anexadas ao comunicado importado
+  draftId?: string | null; // Rascunho da biblioteca que originou o post
+}
+
+// Imagem anexada a um comunicado, oferecida como candidata a imagem destacada
+export interface AttachmentImage {
+  name: string;
+  dataUrl: string;
+}
+
+// Comunicado lido de um e-mail (.eml/.mbox) ou de um documento (PDF, DOCX, ODT)
+export interface ImportedPressRelease {
+  fingerprints: string[]; // Hash do texto e Message-ID, usados para reconhecer comunicados já processados
+  fileName: string;
+  subject: string;
+  sender: string;
+  date: string | null;
+  text: string;
+  images: AttachmentImage[];
+  attachments: string[]; // Documentos anexados cujo texto foi aproveitado
+  warnings: string[];
 }
 
 export interface InitialAgendaData {
@@ -285,8 +631,11 @@ export interface InitialHistoriaData {
     title: string;
     content: string;
     focusKeyword: string;
+    seoDescription?: string;
     categoryIds: number[];
     tagIds: number[];
+    headlineChoiceId?: string | null;
+    draftId?: string | null;
 }
 
 export interface InitialOrganizadorData {
@@ -296,6 +645,39 @@ export interface InitialOrganizadorData {
     phone: string;
     website: string;
     instagram: string;
+    draftId?: string | null;
+}
+
+export interface InitialArtistaData {
+    title: string;
+    content: string;
+    tipoDeArtista: TipoDeArtista;
+    anoFormacao: string;
+    cidadeOrigem: string;
+    website: string;
+    email: string;
+    telefones: string[];
+    redesSociais: string[];
+    videos: string[];
+    draftId?: string | null;
+}
+
+export interface InitialLugarData {
+    title: string;
+    content: string;
+    endereco: string;
+    bairro: string;
+    cidade: string;
+    estado: string;
+    cep: string;
+    latitude: string;
+    longitude: string;
+    telefones: string[];
+    email: string;
+    website: string;
+    redesSociais: string[];
+    horarioFuncionamento: string;
+    draftId?: string | null;
 }
 
 export interface GroundingSource {
@@ -315,13 +697,36 @@ export interface UserProfile {
   wp_application_password?: string;
   ai_tone?: 'Jornalístico (Padrão)' | 'Entusiasmado' | 'Formal' | 'Casual';
   ai_system_instruction?: string;
+  ai_routing_policies?: Partial<AiRoutingPolicies> | null;
+  team_id?: string | null;
+}
+
+// Tarefas com política de roteamento própria (cada AiCallType pertence a uma delas)
+export type AiTask = 'extracao_fatos' | 'redacao_artigo' | 'normalizacao_eventos' | 'busca_lugar' | 'geral';
+export type RoutingStrategy = 'prioridade' | 'qualidade' | 'custo' | 'velocidade';
+
+export interface AiRoutingPolicy {
+  strategy: RoutingStrategy;
+  pinnedProvider: string | null; // Tentado primeiro quando habilitado e disponível
+  pinnedModel: string | null;
 }
 
+export type AiRoutingPolicies = Record<AiTask, AiRoutingPolicy>;
+
 export interface AiPreferences {
   tone: 'Jornalístico (Padrão)' | 'Entusiasmado' | 'Formal' | 'Casual';
   systemInstruction: string;
   enabledProviders: string[];
   preferredProvider: string | null;
+  routingPolicies: AiRoutingPolicies;
+}
+
+// Modelo oferecido por um provedor, com os dados usados pelo roteamento
+export interface ProviderModel {
+  id: string;
+  contextWindow: number; // Em tokens
+  quality: number; // Avaliação interna de 1 (básico) a 5 (melhor redação)
+  nominalLatencyMs: number; // Latência típica, usada até haver medições reais
 }
 
 export interface AIProviderConfig {
@@ -334,6 +739,45 @@ export interface AIProviderConfig {
   apiKeyEnvVar: string;
 }
 
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  estimated: boolean; // true quando o provedor não informou o consumo e ele foi estimado pelo tamanho do texto
+}
+
+export interface AiBudgetStatus {
+  limitUsd: number | null; // null = sem orçamento configurado
+  spentUsd: number;
+  remainingUsd: number | null;
+  onExceed: 'block' | 'downgrade';
+  isExhausted: boolean;
+  scope: 'user' | 'team' | null;
+  spentByProvider: Record<string, number>;
+}
+
+// Servidor local compatível com a API da OpenAI (Ollama, llama.cpp server, LM Studio)
+export interface LocalProviderConfig {
+  baseUrl: string; // ex: http://localhost:11434/v1
+  apiKey: string; // Opcional: só para servidores iniciados com chave
+  model: string; // Modelo padrão
+  availableModels: string[]; // Modelos descobertos em GET /models
+  contextWindow: number; // Em tokens, conforme o modelo carregado no servidor
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Saúde de um provedor segundo o circuit breaker (janela de chamadas recentes)
+export interface ProviderHealth {
+  state: CircuitState;
+  recentCalls: number;
+  errorRate: number; // 0 a 1
+  slowCallRate: number; // 0 a 1
+  avgLatencyMs: number | null;
+  consecutiveFailures: number;
+  retryAt: number | null; // Timestamp (ms) em que o circuito aberto passa a meio-aberto
+  lastError: string | null;
+}
+
 export interface WordPressCredentials {
   siteUrl: string;
   username: string;
@@ -373,6 +817,7 @@ export interface WordPressPost {
   link: string;
   title: {
     rendered: string;
+    raw?: string; // Só com context=edit
   };
   content?: {
     rendered: string;
@@ -383,10 +828,21 @@ export interface WordPressPost {
     raw?: string;
   };
   status: 'publish' | 'future' | 'draft' | 'pending' | 'private';
+  author?: number;
+  modified?: string;
+  modified_gmt?: string; // Comparado pela fila offline para detectar edições concorrentes
   featured_media?: number;
   categories?: number[];
   tags?: number[];
   meta?: { [key: string]: any };
+  yoast_head_json?: { // Yoast: metadados já renderizados (somente leitura)
+    title?: string;
+    description?: string;
+    canonical?: string;
+    robots?: { index?: string; follow?: string };
+  };
+  lang?: string; // Polylang: idioma do post
+  translations?: Record<string, number>; // Polylang: idioma -> id da versão vinculada
   _embedded?: {
     'wp:featuredmedia'?: {
       id: number;
@@ -396,6 +852,20 @@ export interface WordPressPost {
   };
 }
 
+// Item de /wp/v2/{tipo}/{id}/revisions com context=edit
+export interface WordPressRevision {
+  id: number;
+  parent: number;
+  author: number;
+  date: string;
+  date_gmt: string;
+  modified_gmt: string;
+  title: { rendered: string; raw?: string };
+  content: { rendered: string; raw?: string };
+  excerpt?: { rendered: string; raw?: string };
+  meta?: { [key: string]: any }; // Só quando o campo foi registrado com revisions_enabled
+}
+
 export interface WordPressTaxonomy {
   name: string;
   slug: string;
@@ -422,4 +892,181 @@ export interface SeoCheck {
 export interface SeoAnalysis {
     score: number;
     checks: SeoCheck[];
-}
\ No newline at end of file
+}
+// Guia de estilo da redação (por equipe): entra nos prompts e no corretor dos editores
+export type StyleTimeFormat = 'abreviado' | 'relogio'; // 20h30 | 20:30
+export type StyleDateFormat = 'extenso' | 'numerico'; // 5 de setembro | 05/09
+
+export interface StyleTermRule {
+  preferred: string;
+  variants: string[]; // Formas que devem ser trocadas pela preferida
+}
+
+export interface StyleBannedPhrase {
+  phrase: string;
+  suggestion: string; // Vazio: a expressão só é apontada, sem correção automática
+}
+
+export interface StyleGuide {
+  terms: StyleTermRule[];
+  bannedPhrases: StyleBannedPhrase[];
+  capitalization: string[]; // Grafia exata de nomes ("Marco Zero", "Casa Forte")
+  dateTime: {
+    timeFormat: StyleTimeFormat;
+    dateFormat: StyleDateFormat;
+    ordinalFirstDay: boolean; // "1º de maio"
+    lowercaseMonthsAndWeekdays: boolean;
+  };
+}
+
+export type StyleIssueRule = 'termo' | 'expressao_proibida' | 'maiusculas' | 'horario' | 'data';
+
+export interface StyleIssue {
+  id: string;
+  rule: StyleIssueRule;
+  match: string;
+  replacement: string | null; // null quando não há correção automática
+  message: string;
+  context: string; // Trecho ao redor da ocorrência, para exibição
+  nodeIndex: number; // Posição do nó de texto no HTML analisado
+  start: number;
+  end: number;
+}
+
+// Detecção de pauta repetida: matéria recente do site parecida com o rascunho gerado
+export type SimilarityCriterion = 'titulo' | 'palavra_chave' | 'fatos' | 'texto';
+
+export interface SimilarPostMatch {
+  postId: number;
+  title: string;
+  link: string;
+  status: WordPressPost['status'];
+  date: string;
+  score: number; // Similaridade combinada (0-1)
+  criteria: Partial<Record<SimilarityCriterion, number>>; // Só os critérios que puderam ser avaliados
+  matchedFacts: string[]; // Fatos do rascunho que também aparecem no post
+}
+
+// Abre uma matéria existente no editor com a atualização assistida já preenchida
+export interface PostUpdateRequest {
+  postId: number;
+  newInformation: string;
+}
+
+// Biblioteca de rascunhos gerados pelo assistente (tabela generated_drafts)
+export type SavedDraftStatus = 'novo' | 'enviado' | 'publicado' | 'descartado';
+
+export interface SavedDraft {
+  id: string;
+  user_id: string;
+  team_id: string | null;
+  generation_type: GenerationType;
+  title: string;
+  input_text: string; // Entradas estruturadas (evento extraído, roteiro) ficam em JSON
+  provider: string | null;
+  prompt_ref: PromptRef | null;
+  sources: GroundingSource[];
+  draft: AnyDraft;
+  status: SavedDraftStatus;
+  wp_site_url: string | null;
+  wp_post_type: string | null;
+  wp_post_id: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Fila offline de salvamentos dos editores (IndexedDB), enviada ao WordPress quando a conexão volta
+export type OfflineSaveStatus = 'pendente' | 'sincronizando' | 'erro' | 'conflito';
+
+export interface OfflineSave {
+  key: string; // `${postType}:${itemId}` para edições; itens novos recebem uma chave local
+  postType: string;
+  itemId: number | null; // null enquanto o item ainda não existe no WordPress
+  title: string;
+  data: Partial<WordPressPost>;
+  mediaFile: File | null; // Imagem destacada recortada, enviada antes do item
+  baseModified: string | null; // modified_gmt do servidor quando o editor carregou o item
+  draftId: string | null;
+  headlineChoiceId: string | null;
+  seo?: { plugin: SeoPlugin; values: SeoPluginMeta } | null; // Gravado no plugin de SEO junto com o item
+  createSentAt?: string | null; // Quando a criação foi enviada; a resposta pode ter se perdido
+  status: OfflineSaveStatus;
+  error: string | null;
+  updatedAt: string;
+}
+
+// Versão anterior de um item: revisão do WordPress ou snapshot salvo neste navegador a cada salvamento
+export type RevisionSource = 'wordpress' | 'local';
+
+export interface ItemRevision {
+  id: string; // 'wp-<id>' ou o id do snapshot local
+  source: RevisionSource;
+  date: string; // ISO
+  title: string;
+  content: string; // HTML bruto
+  excerpt: string;
+  meta: Record<string, any> | null; // Revisões do WordPress normalmente não guardam os campos meta
+}
+
+// Calendário editorial: publicação de qualquer tipo de post ou data do evento de um item da Agenda
+export type CalendarEntryKind = 'publicacao' | 'evento';
+
+export interface CalendarEntry {
+  key: string;
+  postType: string;
+  itemId: number;
+  kind: CalendarEntryKind;
+  day: string; // YYYY-MM-DD
+  time: string | null; // HH:mm
+  date: string; // Data de publicação no horário do site, sem fuso (YYYY-MM-DDTHH:mm:ss)
+  title: string;
+  status: WordPressPost['status'];
+  author: number | null;
+  link: string;
+}
+
+export interface WordPressAuthor {
+  id: number;
+  name: string;
+}
+
+// Plugin de SEO do WordPress cujos campos os editores leem e gravam
+export type SeoPlugin = 'rankmath' | 'yoast';
+
+export interface SeoPluginMeta {
+  focusKeyword: string;
+  title: string; // Vazio usa o modelo de título do plugin
+  description: string;
+  canonical: string;
+  noindex: boolean;
+  nofollow: boolean;
+  robots?: string[]; // Diretivas gravadas no plugin, quando os campos meta foram lidos
+  robotsChanged?: boolean; // noindex/nofollow alterados no editor
+}
+
+// Item de /wp/v2/media com context=edit
+export interface WordPressMedia {
+  id: number;
+  date: string;
+  title: { rendered: string; raw?: string };
+  caption: { rendered: string; raw?: string };
+  alt_text: string;
+  media_type: 'image' | 'file';
+  mime_type: string;
+  source_url: string;
+  media_details?: {
+    width?: number;
+    height?: number;
+    sizes?: Record<string, { source_url: string; width: number; height: number }>;
+  };
+  meta?: { [key: string]: any };
+}
+
+export interface MediaQuery {
+  search?: string;
+  mediaType?: 'image' | 'video' | 'audio' | 'application';
+  month?: string; // AAAA-MM
+  include?: number[];
+  page?: number;
+  perPage?: number;
+}
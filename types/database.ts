@@ -14,7 +14,9 @@ export interface Database {
           wp_application_password: string | null;
           ai_tone: string | null;
           ai_system_instruction: string | null;
+          ai_routing_policies: any;
           sympla_api_token: string | null;
+          team_id: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -27,7 +29,9 @@ export interface Database {
           wp_application_password?: string | null;
           ai_tone?: string | null;
           ai_system_instruction?: string | null;
+          ai_routing_policies?: any;
           sympla_api_token?: string | null;
+          team_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -40,7 +44,9 @@ export interface Database {
           wp_application_password?: string | null;
           ai_tone?: string | null;
           ai_system_instruction?: string | null;
+          ai_routing_policies?: any;
           sympla_api_token?: string | null;
+          team_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -319,6 +325,304 @@ export interface Database {
           created_at?: string;
         };
       };
+      teams: {
+        Row: {
+          id: string;
+          name: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      ai_usage_logs: {
+        Row: {
+          id: number;
+          user_id: string | null;
+          team_id: string | null;
+          provider: string;
+          model: string;
+          generation_type: string | null;
+          prompt_tokens: number;
+          completion_tokens: number;
+          tokens_estimated: boolean;
+          latency_ms: number | null;
+          cost_usd: number;
+          success: boolean;
+          error_message: string | null;
+          prompt_template_id: string | null;
+          prompt_version: number | null;
+          prompt_source: 'padrao' | 'equipe' | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          user_id?: string | null;
+          team_id?: string | null;
+          provider: string;
+          model: string;
+          generation_type?: string | null;
+          prompt_tokens?: number;
+          completion_tokens?: number;
+          tokens_estimated?: boolean;
+          latency_ms?: number | null;
+          cost_usd?: number;
+          success?: boolean;
+          error_message?: string | null;
+          prompt_template_id?: string | null;
+          prompt_version?: number | null;
+          prompt_source?: 'padrao' | 'equipe' | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          user_id?: string | null;
+          team_id?: string | null;
+          provider?: string;
+          model?: string;
+          generation_type?: string | null;
+          prompt_tokens?: number;
+          completion_tokens?: number;
+          tokens_estimated?: boolean;
+          latency_ms?: number | null;
+          cost_usd?: number;
+          success?: boolean;
+          error_message?: string | null;
+          prompt_template_id?: string | null;
+          prompt_version?: number | null;
+          prompt_source?: 'padrao' | 'equipe' | null;
+          created_at?: string;
+        };
+      };
+      ai_budgets: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          team_id: string | null;
+          monthly_limit_usd: number;
+          on_exceed: 'block' | 'downgrade';
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string | null;
+          team_id?: string | null;
+          monthly_limit_usd: number;
+          on_exceed?: 'block' | 'downgrade';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string | null;
+          team_id?: string | null;
+          monthly_limit_usd?: number;
+          on_exceed?: 'block' | 'downgrade';
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      prompt_templates: {
+        Row: {
+          id: string;
+          team_id: string;
+          template_id: string;
+          version: number;
+          base_version: number;
+          body: string;
+          is_active: boolean;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          team_id: string;
+          template_id: string;
+          version: number;
+          base_version: number;
+          body: string;
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          team_id?: string;
+          template_id?: string;
+          version?: number;
+          base_version?: number;
+          body?: string;
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+        };
+      };
+      headline_variant_choices: {
+        Row: {
+          id: string;
+          user_id: string;
+          team_id: string | null;
+          generation_type: string;
+          focus_keyword: string | null;
+          variants: any;
+          chosen_index: number;
+          chosen_style: string;
+          wp_post_type: string | null;
+          wp_post_id: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          team_id?: string | null;
+          generation_type: string;
+          focus_keyword?: string | null;
+          variants: any;
+          chosen_index: number;
+          chosen_style: string;
+          wp_post_type?: string | null;
+          wp_post_id?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          team_id?: string | null;
+          generation_type?: string;
+          focus_keyword?: string | null;
+          variants?: any;
+          chosen_index?: number;
+          chosen_style?: string;
+          wp_post_type?: string | null;
+          wp_post_id?: number | null;
+          created_at?: string;
+        };
+      };
+      processed_press_releases: {
+        Row: {
+          id: string;
+          user_id: string;
+          team_id: string | null;
+          fingerprints: string[];
+          subject: string;
+          sender: string | null;
+          file_name: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          team_id?: string | null;
+          fingerprints: string[];
+          subject: string;
+          sender?: string | null;
+          file_name?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          team_id?: string | null;
+          fingerprints?: string[];
+          subject?: string;
+          sender?: string | null;
+          file_name?: string | null;
+          created_at?: string;
+        };
+      };
+      style_guides: {
+        Row: {
+          id: string;
+          team_id: string;
+          rules: any;
+          updated_by: string | null;
+          updated_at: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          team_id: string;
+          rules: any;
+          updated_by?: string | null;
+          updated_at?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          team_id?: string;
+          rules?: any;
+          updated_by?: string | null;
+          updated_at?: string;
+          created_at?: string;
+        };
+      };
+      generated_drafts: {
+        Row: {
+          id: string;
+          user_id: string;
+          team_id: string | null;
+          generation_type: string;
+          title: string;
+          input_text: string;
+          provider: string | null;
+          prompt_ref: any | null;
+          sources: any;
+          draft: any;
+          status: 'novo' | 'enviado' | 'publicado' | 'descartado';
+          wp_site_url: string | null;
+          wp_post_type: string | null;
+          wp_post_id: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          team_id?: string | null;
+          generation_type: string;
+          title: string;
+          input_text: string;
+          provider?: string | null;
+          prompt_ref?: any | null;
+          sources?: any;
+          draft: any;
+          status?: 'novo' | 'enviado' | 'publicado' | 'descartado';
+          wp_site_url?: string | null;
+          wp_post_type?: string | null;
+          wp_post_id?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          team_id?: string | null;
+          generation_type?: string;
+          title?: string;
+          input_text?: string;
+          provider?: string | null;
+          prompt_ref?: any | null;
+          sources?: any;
+          draft?: any;
+          status?: 'novo' | 'enviado' | 'publicado' | 'descartado';
+          wp_site_url?: string | null;
+          wp_post_type?: string | null;
+          wp_post_id?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
     };
     Views: {
       mv_user_activity_summary: {
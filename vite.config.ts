@@ -12,7 +12,11 @@ export default defineConfig(({ mode }) => {
         'process.env.HUGGINGFACE_API_KEY': JSON.stringify(env.HUGGINGFACE_API_KEY),
         'process.env.OPENROUTER_API_KEY': JSON.stringify(env.OPENROUTER_API_KEY),
         'process.env.TOGETHER_API_KEY': JSON.stringify(env.TOGETHER_API_KEY),
-        'process.env.GROQ_API_KEY': JSON.stringify(env.GROQ_API_KEY)
+        'process.env.GROQ_API_KEY': JSON.stringify(env.GROQ_API_KEY),
+        'process.env.LOCAL_LLM_BASE_URL': JSON.stringify(env.LOCAL_LLM_BASE_URL),
+        'process.env.LOCAL_LLM_MODEL': JSON.stringify(env.LOCAL_LLM_MODEL),
+        'process.env.LOCAL_LLM_API_KEY': JSON.stringify(env.LOCAL_LLM_API_KEY),
+        'process.env.AI_MODE': JSON.stringify(env.AI_MODE)
       },
       resolve: {
         alias: {